@@ -228,6 +228,92 @@ export const initPostgres = async (): Promise<void> => {
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
 
+      -- Price indices table (BTP1, MGT... for révision des prix)
+      CREATE TABLE IF NOT EXISTS indices_prix (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID REFERENCES users(id),
+        code VARCHAR(50) NOT NULL,
+        mois VARCHAR(7) NOT NULL,
+        valeur DECIMAL(15, 4) NOT NULL,
+        source VARCHAR(255),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (user_id, code, mois)
+      );
+
+      -- Avenants table (amendments to the bordereau / délais)
+      CREATE TABLE IF NOT EXISTS avenants (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID REFERENCES projects(id),
+        user_id UUID REFERENCES users(id),
+        numero INTEGER NOT NULL,
+        date_avenant DATE,
+        objet TEXT,
+        lignes JSONB DEFAULT '[]',
+        delai_supplementaire INTEGER DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        deleted_at TIMESTAMP
+      );
+
+      -- Approvisionnements table (materials on site, per période)
+      CREATE TABLE IF NOT EXISTS approvisionnements (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID REFERENCES projects(id),
+        user_id UUID REFERENCES users(id),
+        periode_id UUID REFERENCES periodes(id),
+        designation TEXT NOT NULL,
+        unite VARCHAR(20),
+        quantite DECIMAL(15, 3) DEFAULT 0,
+        prix_unitaire DECIMAL(15, 2) DEFAULT 0,
+        pourcentage_admis DECIMAL(5, 2) DEFAULT 80,
+        periode_incorporation_id UUID REFERENCES periodes(id),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        deleted_at TIMESTAMP
+      );
+
+      -- Décompte workflow audit trail (submit / validate / pay / reopen)
+      CREATE TABLE IF NOT EXISTS decompt_audit (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        decompt_id UUID REFERENCES decompts(id),
+        project_id UUID REFERENCES projects(id),
+        periode_id UUID REFERENCES periodes(id),
+        user_id UUID REFERENCES users(id),
+        action VARCHAR(20) NOT NULL,
+        ancien_statut VARCHAR(20),
+        nouveau_statut VARCHAR(20),
+        motif TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
+      -- Paiements reçus sur les décomptes (OP / virement, paiements partiels)
+      CREATE TABLE IF NOT EXISTS paiements (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID REFERENCES projects(id),
+        decompt_id UUID REFERENCES decompts(id),
+        user_id UUID REFERENCES users(id),
+        date_paiement DATE NOT NULL,
+        montant DECIMAL(15, 2) NOT NULL,
+        mode VARCHAR(20) DEFAULT 'virement',
+        reference VARCHAR(100),
+        observations TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        deleted_at TIMESTAMP
+      );
+
+      -- Historique de la signature / réouverture du décompte général et définitif (DGD)
+      CREATE TABLE IF NOT EXISTS dgd_audit (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID REFERENCES projects(id),
+        user_id UUID REFERENCES users(id),
+        action VARCHAR(20) NOT NULL,
+        solde DECIMAL(15, 2),
+        motif TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+
       -- Create indexes for better performance
       CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
       CREATE INDEX IF NOT EXISTS idx_bordereaux_project_id ON bordereaux(project_id);
@@ -240,6 +326,13 @@ export const initPostgres = async (): Promise<void> => {
       CREATE INDEX IF NOT EXISTS idx_attachments_project_id ON attachments(project_id);
       CREATE INDEX IF NOT EXISTS idx_sync_operations_user_id ON sync_operations(user_id);
       CREATE INDEX IF NOT EXISTS idx_sync_operations_timestamp ON sync_operations(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_indices_prix_user_code ON indices_prix(user_id, code);
+      CREATE INDEX IF NOT EXISTS idx_avenants_project_id ON avenants(project_id);
+      CREATE INDEX IF NOT EXISTS idx_approvisionnements_project_id ON approvisionnements(project_id);
+      CREATE INDEX IF NOT EXISTS idx_decompt_audit_decompt_id ON decompt_audit(decompt_id);
+      CREATE INDEX IF NOT EXISTS idx_paiements_decompt_id ON paiements(decompt_id);
+      CREATE INDEX IF NOT EXISTS idx_paiements_project_id ON paiements(project_id);
+      CREATE INDEX IF NOT EXISTS idx_dgd_audit_project_id ON dgd_audit(project_id);
 
       -- Add missing columns to projects if they don't exist
       DO $$ BEGIN
@@ -250,6 +343,43 @@ export const initPostgres = async (): Promise<void> => {
         ALTER TABLE users ADD COLUMN IF NOT EXISTS last_sync TIMESTAMP;
         -- Add deleted_at to companies for soft delete support
         ALTER TABLE companies ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+        -- Price revision formula (partie fixe + indices pondérés)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS revision_prix JSONB;
+        -- Delay penalties settings (taux journalier, plafond, remise)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS penalites JSONB;
+        -- Avance forfaitaire (montant + échéancier de remboursement en % d'exécution)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS avance JSONB;
+        -- Retenue de garantie (plafond en % du marché + caution bancaire de substitution)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS retenue_garantie JSONB;
+        -- Intérêts moratoires (délai de paiement + taux annuels par période)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS interets_moratoires JSONB;
+        -- Déductions / additions diverses du marché (retenue à la source, primes...)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS ajustements JSONB;
+        -- Justifications des dépassements de quantités (par prix et sur le montant du marché)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS justifications_depassement JSONB;
+        -- Langue des montants en lettres sur les PDF: fr, ar ou fr_ar (les deux)
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS langue_montant_lettres VARCHAR(10) DEFAULT 'fr';
+        -- DGD signé: snapshot figé + verrouillage financier du projet
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS dgd JSONB;
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS dgd_signe_at TIMESTAMP;
+        ALTER TABLE projects ADD COLUMN IF NOT EXISTS dgd_signe_by UUID;
+        -- Décompte content (lignes + recap snapshot used for the server-side PDF)
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS lignes JSONB DEFAULT '[]';
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS total_ttc DECIMAL(15, 2) DEFAULT 0;
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS statut VARCHAR(20) DEFAULT 'draft';
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS recap JSONB;
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS verification JSONB;
+        -- Décompte workflow: who / when for each step
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS submitted_by UUID;
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS validated_at TIMESTAMP;
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS validated_by UUID;
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP;
+        ALTER TABLE decompts ADD COLUMN IF NOT EXISTS paid_by UUID;
+        -- Décomptes précédents / exercices antérieurs saisis à la main (sinon calculés depuis l'historique)
+        ALTER TABLE periodes ADD COLUMN IF NOT EXISTS precedents_manuels BOOLEAN DEFAULT FALSE;
+        -- Déductions / additions propres à la période (pénalités diverses, avoirs...)
+        ALTER TABLE periodes ADD COLUMN IF NOT EXISTS ajustements JSONB;
       EXCEPTION WHEN OTHERS THEN NULL;
       END $$;
     `);
@@ -0,0 +1,310 @@
+import { Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { Pool } from 'pg';
+import { getPool } from '../config/postgres';
+import { ApiError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import logger from '../utils/logger';
+import { keysToCamel } from '../utils/transform';
+import { recalculateProjectDecomptes } from '../utils/decompteCalcul';
+import { assertPeriodeModifiable } from '../utils/decompteWorkflow';
+
+/**
+ * Check the quantity, unit price and admitted percentage of an approvisionnement
+ */
+const validateMontants = (quantite: any, prixUnitaire: any, pourcentageAdmis: any): void => {
+  if (quantite !== undefined && (isNaN(Number(quantite)) || Number(quantite) < 0)) {
+    throw new ApiError('Quantite must be a positive number', 400);
+  }
+  if (prixUnitaire !== undefined && (isNaN(Number(prixUnitaire)) || Number(prixUnitaire) < 0)) {
+    throw new ApiError('Prix unitaire must be a positive number', 400);
+  }
+  if (
+    pourcentageAdmis !== undefined &&
+    (isNaN(Number(pourcentageAdmis)) || Number(pourcentageAdmis) < 0 || Number(pourcentageAdmis) > 100)
+  ) {
+    throw new ApiError('Pourcentage admis must be between 0 and 100', 400);
+  }
+};
+
+/**
+ * Check that the incorporation période comes after the période where the materials were recorded
+ */
+const validateIncorporation = async (
+  pool: Pool,
+  projectId: string,
+  periodeId: string,
+  periodeIncorporationId: string | null
+): Promise<void> => {
+  const periodes = await pool.query(
+    `SELECT id, numero FROM periodes WHERE project_id = $1 AND deleted_at IS NULL`,
+    [projectId]
+  );
+  const constat = periodes.rows.find(p => p.id === periodeId);
+  if (!constat) {
+    throw new ApiError('Période not found for this project', 404);
+  }
+  if (!periodeIncorporationId) return;
+
+  const incorporation = periodes.rows.find(p => p.id === periodeIncorporationId);
+  if (!incorporation) {
+    throw new ApiError('Incorporation période not found for this project', 404);
+  }
+  if (incorporation.numero <= constat.numero) {
+    throw new ApiError('Materials can only be incorporated in a later période', 400);
+  }
+};
+
+/**
+ * Décomptes depend on the approvisionnements: recompute them after each change
+ */
+const refreshDecomptes = async (pool: Pool, projectId: string): Promise<void> => {
+  try {
+    await recalculateProjectDecomptes(pool, projectId);
+  } catch (error) {
+    logger.error(`Error recalculating decompts of project ${projectId}:`, error);
+  }
+};
+
+/**
+ * Get all approvisionnements for a project
+ */
+export const getApprovisionnements = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { projectId } = req.params;
+    const pool = getPool();
+
+    // Verify project ownership
+    const projectCheck = await pool.query(
+      'SELECT id FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [projectId, req.user.id]
+    );
+
+    if (projectCheck.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM approvisionnements WHERE project_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC`,
+      [projectId]
+    );
+
+    res.json({
+      success: true,
+      data: keysToCamel(result.rows),
+      count: result.rows.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching approvisionnements:', error);
+    next(error);
+  }
+};
+
+/**
+ * Record materials delivered on site during a période
+ */
+export const createApprovisionnement = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const {
+      projectId,
+      periodeId,
+      designation,
+      unite,
+      quantite,
+      prixUnitaire,
+      pourcentageAdmis,
+      periodeIncorporationId,
+    } = req.body;
+
+    if (!projectId || !periodeId) {
+      throw new ApiError('Project ID and période ID are required', 400);
+    }
+    if (!designation?.trim()) {
+      throw new ApiError('Designation is required', 400);
+    }
+    validateMontants(quantite, prixUnitaire, pourcentageAdmis);
+
+    const pool = getPool();
+
+    // Verify project ownership
+    const projectCheck = await pool.query(
+      'SELECT id FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [projectId, req.user.id]
+    );
+
+    if (projectCheck.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    await validateIncorporation(pool, projectId, periodeId, periodeIncorporationId || null);
+    await assertPeriodeModifiable(pool, periodeId);
+    await assertPeriodeModifiable(pool, periodeIncorporationId);
+
+    const result = await pool.query(
+      `INSERT INTO approvisionnements (
+        id, project_id, user_id, periode_id, designation, unite, quantite,
+        prix_unitaire, pourcentage_admis, periode_incorporation_id, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+       RETURNING *`,
+      [
+        uuidv4(),
+        projectId,
+        req.user.id,
+        periodeId,
+        designation.trim(),
+        unite || null,
+        Number(quantite) || 0,
+        Number(prixUnitaire) || 0,
+        pourcentageAdmis !== undefined ? Number(pourcentageAdmis) : 80,
+        periodeIncorporationId || null,
+      ]
+    );
+
+    logger.info(`Approvisionnement created for project ${projectId}`);
+    await refreshDecomptes(pool, projectId);
+
+    res.status(201).json({
+      success: true,
+      data: keysToCamel(result.rows[0]),
+    });
+  } catch (error) {
+    logger.error('Error creating approvisionnement:', error);
+    next(error);
+  }
+};
+
+/**
+ * Update an approvisionnement (including marking it as incorporated)
+ */
+export const updateApprovisionnement = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const { designation, unite, quantite, prixUnitaire, pourcentageAdmis, periodeIncorporationId } = req.body;
+
+    validateMontants(quantite, prixUnitaire, pourcentageAdmis);
+
+    const pool = getPool();
+
+    const existing = await pool.query(
+      `SELECT a.* FROM approvisionnements a
+       INNER JOIN projects p ON a.project_id = p.id
+       WHERE a.id = $1 AND p.user_id = $2 AND a.deleted_at IS NULL`,
+      [id, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Approvisionnement not found', 404);
+    }
+
+    const appro = existing.rows[0];
+    // periodeIncorporationId: undefined = inchangé, null = plus incorporé
+    const incorporation = periodeIncorporationId === undefined
+      ? appro.periode_incorporation_id
+      : periodeIncorporationId || null;
+    await validateIncorporation(pool, appro.project_id, appro.periode_id, incorporation);
+    // 🔒 Périodes validées figées: le constat pour les montants, l'incorporation pour la déduction
+    const montantsModifies = [designation, unite, quantite, prixUnitaire, pourcentageAdmis].some(v => v !== undefined);
+    if (montantsModifies) {
+      await assertPeriodeModifiable(pool, appro.periode_id);
+    }
+    if (incorporation !== appro.periode_incorporation_id) {
+      await assertPeriodeModifiable(pool, appro.periode_incorporation_id);
+      await assertPeriodeModifiable(pool, incorporation);
+    }
+
+    const result = await pool.query(
+      `UPDATE approvisionnements SET
+        designation = COALESCE($1, designation),
+        unite = COALESCE($2, unite),
+        quantite = COALESCE($3, quantite),
+        prix_unitaire = COALESCE($4, prix_unitaire),
+        pourcentage_admis = COALESCE($5, pourcentage_admis),
+        periode_incorporation_id = $6,
+        updated_at = NOW()
+      WHERE id = $7
+      RETURNING *`,
+      [
+        designation?.trim() || null,
+        unite ?? null,
+        quantite !== undefined ? Number(quantite) : null,
+        prixUnitaire !== undefined ? Number(prixUnitaire) : null,
+        pourcentageAdmis !== undefined ? Number(pourcentageAdmis) : null,
+        incorporation,
+        id,
+      ]
+    );
+
+    await refreshDecomptes(pool, appro.project_id);
+
+    res.json({
+      success: true,
+      data: keysToCamel(result.rows[0]),
+    });
+  } catch (error) {
+    logger.error('Error updating approvisionnement:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete an approvisionnement (soft delete)
+ */
+export const deleteApprovisionnement = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const pool = getPool();
+
+    const existing = await pool.query(
+      `SELECT a.id, a.project_id, a.periode_id, a.periode_incorporation_id FROM approvisionnements a
+       INNER JOIN projects p ON a.project_id = p.id
+       WHERE a.id = $1 AND p.user_id = $2 AND a.deleted_at IS NULL`,
+      [id, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Approvisionnement not found', 404);
+    }
+
+    await assertPeriodeModifiable(pool, existing.rows[0].periode_id);
+    await assertPeriodeModifiable(pool, existing.rows[0].periode_incorporation_id);
+
+    await pool.query(
+      `UPDATE approvisionnements SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1`,
+      [id]
+    );
+
+    await refreshDecomptes(pool, existing.rows[0].project_id);
+
+    res.json({
+      success: true,
+      message: 'Approvisionnement deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting approvisionnement:', error);
+    next(error);
+  }
+};
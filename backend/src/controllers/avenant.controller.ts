@@ -0,0 +1,302 @@
+import { Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { getPool } from '../config/postgres';
+import { ApiError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import logger from '../utils/logger';
+import { keysToCamel } from '../utils/transform';
+import { assertFinancesModifiables } from '../utils/decompteWorkflow';
+
+/**
+ * Check that each avenant ligne is either a quantity change or a prix nouveau
+ * Returns the lignes with numero, quantite and prixUnitaire coerced to numbers
+ */
+const validateLignes = (lignes: any): any[] => {
+  if (!Array.isArray(lignes)) {
+    throw new ApiError('Lignes must be an array', 400);
+  }
+  return lignes.map((ligne) => {
+    if (!['modification', 'prix_nouveau'].includes(ligne?.type)) {
+      throw new ApiError('Invalid avenant ligne type', 400);
+    }
+    const numero = Number(ligne.numero);
+    if (ligne.numero === undefined || ligne.numero === null || ligne.numero === '' || !Number.isInteger(numero)
+      || isNaN(Number(ligne.quantite)) || Number(ligne.quantite) < 0) {
+      throw new ApiError('Each avenant ligne needs an integer numero and a positive quantite', 400);
+    }
+    if (ligne.type === 'prix_nouveau' && (!ligne.designation || isNaN(Number(ligne.prixUnitaire)))) {
+      throw new ApiError('Prix nouveau needs a designation and a prixUnitaire', 400);
+    }
+    return {
+      ...ligne,
+      numero,
+      quantite: Number(ligne.quantite),
+      ...(ligne.type === 'prix_nouveau' ? { prixUnitaire: Number(ligne.prixUnitaire) } : {}),
+    };
+  });
+};
+
+/**
+ * Check the lignes against the bordereau in force before this avenant (same order as applyAvenants):
+ * a modification must target an existing numero, a prix nouveau must not reuse one
+ */
+const validateNumeros = async (
+  pool: ReturnType<typeof getPool>,
+  projectId: string,
+  lignes: any[],
+  avenantNumero?: number
+): Promise<void> => {
+  const bordereauResult = await pool.query(
+    `SELECT lignes FROM bordereaux WHERE project_id = $1 AND deleted_at IS NULL ORDER BY created_at DESC LIMIT 1`,
+    [projectId]
+  );
+  const previousResult = await pool.query(
+    `SELECT lignes FROM avenants
+     WHERE project_id = $1 AND deleted_at IS NULL AND ($2::int IS NULL OR numero < $2)
+     ORDER BY numero ASC`,
+    [projectId, avenantNumero ?? null]
+  );
+
+  const numeros = new Set<number>(
+    (bordereauResult.rows[0]?.lignes || []).map((l: any) => Number(l.numero))
+  );
+  for (const avenant of previousResult.rows) {
+    for (const modif of avenant.lignes || []) {
+      if (modif?.type === 'prix_nouveau') numeros.add(Number(modif.numero));
+    }
+  }
+
+  for (const ligne of lignes) {
+    if (ligne.type === 'modification' && !numeros.has(ligne.numero)) {
+      throw new ApiError(`Ligne ${ligne.numero} does not exist in the bordereau`, 400);
+    }
+    if (ligne.type === 'prix_nouveau') {
+      if (numeros.has(ligne.numero)) {
+        throw new ApiError(`Prix nouveau ${ligne.numero} collides with an existing bordereau ligne`, 400);
+      }
+      numeros.add(ligne.numero);
+    }
+  }
+};
+
+/**
+ * Get all avenants for a project
+ */
+export const getAvenants = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { projectId } = req.params;
+    const pool = getPool();
+
+    // Verify project ownership
+    const projectCheck = await pool.query(
+      'SELECT id FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [projectId, req.user.id]
+    );
+
+    if (projectCheck.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM avenants WHERE project_id = $1 AND deleted_at IS NULL ORDER BY numero ASC`,
+      [projectId]
+    );
+
+    res.json({
+      success: true,
+      data: keysToCamel(result.rows),
+      count: result.rows.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching avenants:', error);
+    next(error);
+  }
+};
+
+/**
+ * Create a new avenant
+ */
+export const createAvenant = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { projectId, dateAvenant, objet, lignes, delaiSupplementaire } = req.body;
+
+    if (!projectId) {
+      throw new ApiError('Project ID is required', 400);
+    }
+    const lignesValides = validateLignes(lignes || []);
+
+    const pool = getPool();
+
+    // Verify project ownership
+    const projectCheck = await pool.query(
+      'SELECT id FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [projectId, req.user.id]
+    );
+
+    if (projectCheck.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    await assertFinancesModifiables(pool, projectId);
+    await validateNumeros(pool, projectId, lignesValides);
+
+    // Avenants are numbered in sequence per project
+    const numeroResult = await pool.query(
+      `SELECT COALESCE(MAX(numero), 0) + 1 AS numero FROM avenants WHERE project_id = $1 AND deleted_at IS NULL`,
+      [projectId]
+    );
+
+    const result = await pool.query(
+      `INSERT INTO avenants (
+        id, project_id, user_id, numero, date_avenant, objet, lignes,
+        delai_supplementaire, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())
+       RETURNING *`,
+      [
+        uuidv4(),
+        projectId,
+        req.user.id,
+        numeroResult.rows[0].numero,
+        dateAvenant ? new Date(dateAvenant) : null,
+        objet || null,
+        JSON.stringify(lignesValides),
+        parseInt(delaiSupplementaire) || 0,
+      ]
+    );
+
+    logger.info(`Avenant ${result.rows[0].numero} created for project ${projectId}`);
+
+    res.status(201).json({
+      success: true,
+      data: keysToCamel(result.rows[0]),
+    });
+  } catch (error) {
+    logger.error('Error creating avenant:', error);
+    next(error);
+  }
+};
+
+/**
+ * Update an avenant
+ */
+export const updateAvenant = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const { dateAvenant, objet, lignes, delaiSupplementaire } = req.body;
+
+    const lignesValides = lignes !== undefined ? validateLignes(lignes) : undefined;
+
+    const pool = getPool();
+
+    const existing = await pool.query(
+      `SELECT a.id, a.project_id, a.numero FROM avenants a
+       INNER JOIN projects p ON a.project_id = p.id
+       WHERE a.id = $1 AND p.user_id = $2 AND a.deleted_at IS NULL`,
+      [id, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Avenant not found', 404);
+    }
+
+    await assertFinancesModifiables(pool, existing.rows[0].project_id);
+    if (lignesValides) {
+      await validateNumeros(pool, existing.rows[0].project_id, lignesValides, existing.rows[0].numero);
+    }
+
+    const result = await pool.query(
+      `UPDATE avenants SET
+        date_avenant = COALESCE($1, date_avenant),
+        objet = COALESCE($2, objet),
+        lignes = COALESCE($3::jsonb, lignes),
+        delai_supplementaire = COALESCE($4, delai_supplementaire),
+        updated_at = NOW()
+      WHERE id = $5
+      RETURNING *`,
+      [
+        dateAvenant ? new Date(dateAvenant) : null,
+        objet ?? null,
+        lignesValides ? JSON.stringify(lignesValides) : null,
+        delaiSupplementaire !== undefined ? parseInt(delaiSupplementaire) || 0 : null,
+        id,
+      ]
+    );
+
+    res.json({
+      success: true,
+      data: keysToCamel(result.rows[0]),
+    });
+  } catch (error) {
+    logger.error('Error updating avenant:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete an avenant (soft delete)
+ */
+export const deleteAvenant = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const pool = getPool();
+
+    const existing = await pool.query(
+      `SELECT a.id, a.project_id, a.numero FROM avenants a
+       INNER JOIN projects p ON a.project_id = p.id
+       WHERE a.id = $1 AND p.user_id = $2 AND a.deleted_at IS NULL`,
+      [id, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Avenant not found', 404);
+    }
+
+    // Only the last avenant can be removed, later ones build on earlier ones
+    const { project_id, numero } = existing.rows[0];
+    await assertFinancesModifiables(pool, project_id);
+    const later = await pool.query(
+      `SELECT id FROM avenants WHERE project_id = $1 AND numero > $2 AND deleted_at IS NULL`,
+      [project_id, numero]
+    );
+    if (later.rows.length > 0) {
+      throw new ApiError('Only the last avenant can be deleted', 409);
+    }
+
+    await pool.query(
+      `UPDATE avenants SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      message: 'Avenant deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting avenant:', error);
+    next(error);
+  }
+};
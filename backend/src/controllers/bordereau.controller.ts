@@ -4,6 +4,8 @@ import { getPool } from '../config/postgres';
 import { ApiError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
 import logger from '../utils/logger';
+import { assertFinancesModifiables } from '../utils/decompteWorkflow';
+import { calculateMontantMarcheTTC, toNumber } from 'shared';
 
 /**
  * Create bordereau (PostgreSQL version)
@@ -38,6 +40,8 @@ export const createBordereau = async (
       throw new ApiError('Project not found or not authorized', 404);
     }
 
+    await assertFinancesModifiables(pool, projectId);
+
     const result = await pool.query(
       `INSERT INTO bordereaux (id, project_id, lignes, created_at, updated_at)
        VALUES ($1, $2, $3, NOW(), NOW())
@@ -160,12 +164,13 @@ export const updateBordereau = async (
     }
 
     const bordereau = existing.rows[0];
+    await assertFinancesModifiables(pool, bordereau.project_id);
 
-    // Calculate montant TTC from lignes (HT + 20% TVA)
+    // Calculate montant TTC from lignes (HT + TVA of each line, 20% by default)
     const calculatedMontantHT = (lignes || []).reduce((sum: number, ligne: any) => {
       return sum + (Number(ligne.montant) || 0);
     }, 0);
-    const calculatedMontantTTC = calculatedMontantHT * 1.2;
+    const calculatedMontantTTC = toNumber(calculateMontantMarcheTTC(lignes || []));
 
     // Update bordereau with lignes and montantTotal
     const result = await pool.query(
@@ -216,6 +221,8 @@ export const deleteBordereau = async (
       throw new ApiError('Bordereau not found', 404);
     }
 
+    await assertFinancesModifiables(pool, existing.rows[0].project_id);
+
     await pool.query(
       `UPDATE bordereaux SET deleted_at = NOW() WHERE id = $1`,
       [id]
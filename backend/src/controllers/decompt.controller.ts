@@ -1,10 +1,29 @@
 import { Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+import fs from 'fs/promises';
+import os from 'os';
+import { Pool } from 'pg';
 import { getPool } from '../config/postgres';
 import { ApiError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
 import logger from '../utils/logger';
 import { keysToCamel } from '../utils/transform';
+import { renderDecomptePdf, formatDateFr } from '../utils/decomptePdf';
+import {
+  calculateDecompteServeur,
+  recalculateDecompte,
+  verifyDecompte,
+  getApprovisionnementsPeriode,
+  calculateDepassementsDecompte,
+} from '../utils/decompteCalcul';
+import {
+  assertPeriodeModifiable,
+  assertFinancesModifiables,
+  applyWorkflowAction,
+  DecompteAction,
+  ADMIN_ROLES,
+} from '../utils/decompteWorkflow';
 
 /**
  * Create decompt (PostgreSQL version)
@@ -29,6 +48,9 @@ export const createDecompt = async (
       montantPrecedent, 
       montantActuel, 
       montantTotal, 
+      totalTTC,
+      lignes,
+      recap,
       isDernier 
     } = req.body;
 
@@ -49,12 +71,16 @@ export const createDecompt = async (
       throw new ApiError('Project not found or not authorized', 404);
     }
 
+    await assertFinancesModifiables(pool, projectId);
+    await assertPeriodeModifiable(pool, periodeId);
+
+    // Le statut n'évolue que par le workflow (submit / validate / pay)
     const result = await pool.query(
       `INSERT INTO decompts (
         id, project_id, periode_id, numero, date_decompte, 
         montant_cumule, montant_precedent, montant_actuel, montant_total, 
-        is_dernier, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+        is_dernier, total_ttc, lignes, recap, statut, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, NOW(), NOW())
        RETURNING *`,
       [
         decomptId, 
@@ -66,15 +92,26 @@ export const createDecompt = async (
         montantPrecedent || 0,
         montantActuel || 0,
         montantTotal || 0,
-        isDernier || false
+        isDernier || false,
+        totalTTC || 0,
+        JSON.stringify(lignes || []),
+        recap ? JSON.stringify(recap) : null,
+        'draft'
       ]
     );
 
     logger.info(`Decompt created: ${decomptId}`);
 
+    // 🔒 Les montants stockés sont ceux du calcul serveur
+    const verification = await recalculateDecompte(pool, decomptId);
+    if (verification?.status === 'ecart') {
+      logger.warn(`Decompt ${decomptId}: client amounts differ from server calculation`, verification.ecarts);
+    }
+    const stored = await pool.query('SELECT * FROM decompts WHERE id = $1', [decomptId]);
+
     res.status(201).json({
       success: true,
-      data: keysToCamel(result.rows[0]),
+      data: keysToCamel(stored.rows[0] || result.rows[0]),
     });
   } catch (error) {
     logger.error('Error creating decompt:', error);
@@ -182,6 +219,7 @@ export const updateDecompt = async (
       montantTotal,
       totalTTC,
       lignes,
+      recap,
       isDernier,
       statut
     } = req.body;
@@ -199,6 +237,12 @@ export const updateDecompt = async (
       throw new ApiError('Decompt not found', 404);
     }
 
+    await assertPeriodeModifiable(pool, existing.rows[0].periode_id);
+    if (periodeId) await assertPeriodeModifiable(pool, periodeId);
+    if (statut !== undefined && statut !== existing.rows[0].statut) {
+      throw new ApiError('Use the workflow actions (submit, validate, pay, reopen) to change the statut', 409);
+    }
+
     const result = await pool.query(
       `UPDATE decompts SET 
         periode_id = COALESCE($1, periode_id),
@@ -211,7 +255,7 @@ export const updateDecompt = async (
         total_ttc = COALESCE($8, total_ttc),
         lignes = COALESCE($9, lignes),
         is_dernier = COALESCE($10, is_dernier),
-        statut = COALESCE($11, statut),
+        recap = COALESCE($11::jsonb, recap),
         updated_at = NOW()
        WHERE id = $12 RETURNING *`,
       [
@@ -225,16 +269,23 @@ export const updateDecompt = async (
         totalTTC,
         lignes ? JSON.stringify(lignes) : null,
         isDernier,
-        statut,
+        recap ? JSON.stringify(recap) : null,
         id
       ]
     );
 
     logger.info(`Decompt updated: ${id}`);
 
+    // 🔒 Les montants stockés sont ceux du calcul serveur
+    const verification = await recalculateDecompte(pool, id);
+    if (verification?.status === 'ecart') {
+      logger.warn(`Decompt ${id}: client amounts differ from server calculation`, verification.ecarts);
+    }
+    const stored = await pool.query('SELECT * FROM decompts WHERE id = $1', [id]);
+
     res.json({
       success: true,
-      data: keysToCamel(result.rows[0]),
+      data: keysToCamel(stored.rows[0] || result.rows[0]),
     });
   } catch (error) {
     logger.error('Error updating decompt:', error);
@@ -242,6 +293,47 @@ export const updateDecompt = async (
   }
 };
 
+/**
+ * Verification report: stored amounts vs server calculation (read-only)
+ */
+export const verifyDecomptReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const pool = getPool();
+
+    const result = await pool.query(
+      `SELECT d.* FROM decompts d
+       INNER JOIN projects p ON d.project_id = p.id
+       WHERE d.id = $1 AND p.user_id = $2 AND d.deleted_at IS NULL`,
+      [id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiError('Decompt not found', 404);
+    }
+
+    const { verification, calcul } = await verifyDecompte(pool, result.rows[0]);
+
+    res.json({
+      success: true,
+      data: {
+        ...verification,
+        recap: calcul?.recap || null,
+        lignes: calcul?.lignes || [],
+      },
+    });
+  } catch (error) {
+    logger.error('Error verifying decompt:', error);
+    next(error);
+  }
+};
+
 /**
  * Delete decompt (PostgreSQL version)
  */
@@ -268,6 +360,8 @@ export const deleteDecompt = async (
       throw new ApiError('Decompt not found', 404);
     }
 
+    await assertPeriodeModifiable(pool, existing.rows[0].periode_id);
+
     await pool.query(
       `UPDATE decompts SET deleted_at = NOW() WHERE id = $1`,
       [id]
@@ -284,8 +378,171 @@ export const deleteDecompt = async (
   }
 };
 
+/**
+ * Décompte to print, with its période (admins can print the décompte of any project)
+ */
+const getDecomptForPdf = async (pool: Pool, id: string, user: NonNullable<AuthRequest['user']>) => {
+  const result = await pool.query(
+    `SELECT d.*, pe.numero AS periode_numero, pe.date_fin, pe.is_decompte_dernier
+     FROM decompts d
+     INNER JOIN projects p ON d.project_id = p.id
+     LEFT JOIN periodes pe ON d.periode_id = pe.id
+     WHERE d.id = $1 AND d.deleted_at IS NULL AND (p.user_id = $2 OR $3::boolean)`,
+    [id, user.id, ADMIN_ROLES.includes(user.role)]
+  );
+
+  if (result.rows.length === 0) {
+    throw new ApiError('Decompt not found', 404);
+  }
+
+  return result.rows[0];
+};
+
+/**
+ * Render the décompte to a PDF file (read only: nothing is written in the database)
+ */
+const renderDecomptPdfFile = async (pool: Pool, decompt: any, pdfPath: string) => {
+  // Décompte validé avant le recalcul serveur: pas de recap stocké (montants figés),
+  // lignes et recap recalculés à la demande sans modifier le décompte
+  let { lignes, recap } = decompt;
+  if (!recap) {
+    let calcul;
+    try {
+      calcul = await calculateDecompteServeur(pool, decompt);
+    } catch (error: any) {
+      throw new ApiError(`Decompt cannot be computed: ${error.message}`, 409);
+    }
+    lignes = calcul.lignes;
+    recap = calcul.recap;
+    if (Number(decompt.montant_total) !== recap.montantAcompte) {
+      logger.warn(
+        `Decompt ${decompt.id}: stored acompte ${decompt.montant_total} differs from the on-demand recap ${recap.montantAcompte}`
+      );
+    }
+  }
+
+  const projectResult = await pool.query(
+    'SELECT * FROM projects WHERE id = $1',
+    [decompt.project_id]
+  );
+  const project = projectResult.rows[0];
+
+  // Décomptes précédents (numéro inférieur) avec la date de fin de leur période
+  const precedentsResult = await pool.query(
+    `SELECT d.numero, d.montant_total, pe.date_fin, pe.is_decompte_dernier
+     FROM decompts d
+     LEFT JOIN periodes pe ON d.periode_id = pe.id
+     WHERE d.project_id = $1 AND d.numero < $2 AND d.deleted_at IS NULL
+     ORDER BY d.numero ASC`,
+    [decompt.project_id, decompt.numero]
+  );
+
+  // Approvisionnements sur chantier à la fin de la période
+  const approvisionnements = decompt.periode_id
+    ? await getApprovisionnementsPeriode(pool, decompt.project_id, decompt.periode_id)
+    : null;
+
+  await renderDecomptePdf(pdfPath, {
+    project: {
+      marcheNo: project.marche_no,
+      objet: project.objet,
+      annee: project.annee,
+      chapitre: project.chapitre,
+      programme: project.programme,
+      projet: project.projet,
+      ligne: project.ligne,
+      typeMarche: project.type_marche,
+      societe: project.societe,
+      rc: project.rc,
+      cb: project.cb,
+      cnss: project.cnss,
+      patente: project.patente,
+      osc: project.osc,
+      delaisExecution: project.delais_execution,
+      langueMontantLettres: project.langue_montant_lettres,
+    },
+    periode: {
+      numero: decompt.periode_numero ?? decompt.numero,
+      dateFin: decompt.date_fin || decompt.date_decompte,
+      isDecompteDernier: decompt.is_decompte_dernier || false,
+    },
+    lignes: lignes || [],
+    recap,
+    precedents: precedentsResult.rows.map(row => ({
+      numero: row.numero,
+      date: formatDateFr(row.date_fin),
+      montant: parseFloat(row.montant_total) || 0,
+      isDecompteDernier: row.is_decompte_dernier || false,
+    })),
+    approvisionnements: approvisionnements?.actifs || [],
+  });
+
+  return { project, recap };
+};
+
+const decomptPdfFileName = (marcheNo: string | null, decompt: any, suffix: string): string =>
+  `Decompte_${(marcheNo || 'marche').replace(/[^\w-]+/g, '_')}_Periode_${decompt.periode_numero ?? decompt.numero}_${suffix}.pdf`;
+
+/**
+ * Download the decompt PDF
+ * Serves the stored PDF when it is newer than the décompte, otherwise renders
+ * a temporary copy - a GET never stores anything (POST /:id/pdf does)
+ */
+export const getDecomptPDF = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const pool = getPool();
+    const decompt = await getDecomptForPdf(pool, id, req.user);
+
+    const assetResult = await pool.query(
+      `SELECT file_name, storage_path FROM project_assets
+       WHERE project_id = $1 AND type = 'document' AND metadata->>'decomptId' = $2 AND deleted_at IS NULL
+         AND created_at >= $3
+       ORDER BY created_at DESC LIMIT 1`,
+      [decompt.project_id, id, decompt.updated_at || decompt.created_at]
+    );
+    const asset = assetResult.rows[0];
+    if (asset) {
+      const assetPath = path.join(process.cwd(), asset.storage_path);
+      const exists = await fs.access(assetPath).then(() => true, () => false);
+      if (exists) {
+        res.download(assetPath, asset.file_name);
+        return;
+      }
+      logger.warn(`Decompt ${id}: stored PDF missing on disk (${asset.storage_path})`);
+    }
+
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'decompte-'));
+    const projectResult = await pool.query('SELECT marche_no FROM projects WHERE id = $1', [decompt.project_id]);
+    const pdfFileName = decomptPdfFileName(projectResult.rows[0]?.marche_no, decompt, 'apercu');
+    const pdfPath = path.join(tmpDir, pdfFileName);
+
+    try {
+      await renderDecomptPdfFile(pool, decompt, pdfPath);
+    } catch (error) {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+      throw error;
+    }
+
+    res.download(pdfPath, pdfFileName, () => {
+      fs.rm(tmpDir, { recursive: true, force: true }).catch(() => undefined);
+    });
+  } catch (error) {
+    logger.error('Error downloading decompt PDF:', error);
+    next(error);
+  }
+};
+
 /**
  * Generate decompt PDF (PostgreSQL version)
+ * Renders the décompte server-side, stores it as the document asset of the période
+ * (replacing the previous one) and streams it back
  */
 export const generateDecomptPDF = async (
   req: AuthRequest,
@@ -297,27 +554,187 @@ export const generateDecomptPDF = async (
 
     const { id } = req.params;
     const pool = getPool();
+    const decompt = await getDecomptForPdf(pool, id, req.user);
 
-    // Get decompt with project info
-    const result = await pool.query(
-      `SELECT d.*, p.objet, p.marche_no, p.societe
-       FROM decompts d
+    const projectResult = await pool.query(
+      'SELECT folder_path, marche_no FROM projects WHERE id = $1',
+      [decompt.project_id]
+    );
+
+    // Store the PDF in the project folder
+    const folderPath = projectResult.rows[0].folder_path || decompt.project_id;
+    const pdfDir = path.join(process.cwd(), 'uploads', folderPath, 'Decomptes');
+    await fs.mkdir(pdfDir, { recursive: true });
+
+    const assetId = uuidv4();
+    const pdfFileName = decomptPdfFileName(projectResult.rows[0].marche_no, decompt, assetId.substring(0, 8));
+    const pdfPath = path.join(pdfDir, pdfFileName);
+
+    const { recap } = await renderDecomptPdfFile(pool, decompt, pdfPath);
+
+    const stats = await fs.stat(pdfPath);
+    const storagePath = `/uploads/${folderPath}/Decomptes/${pdfFileName}`;
+
+    // Keep only the latest PDF of this décompte among the project assets
+    await pool.query(
+      `UPDATE project_assets SET deleted_at = NOW(), updated_at = NOW()
+       WHERE project_id = $1 AND type = 'document' AND metadata->>'decomptId' = $2 AND deleted_at IS NULL`,
+      [decompt.project_id, id]
+    );
+
+    await pool.query(
+      `INSERT INTO project_assets (
+        id, project_id, type, file_name, original_name, mime_type, file_size, storage_path, created_by, metadata
+      ) VALUES ($1, $2, 'document', $3, $4, 'application/pdf', $5, $6, $7, $8)`,
+      [
+        assetId,
+        decompt.project_id,
+        pdfFileName,
+        pdfFileName,
+        stats.size,
+        storagePath,
+        req.user.id,
+        JSON.stringify({
+          category: 'decompte',
+          decomptId: id,
+          periodeId: decompt.periode_id,
+          numero: decompt.numero,
+          montantAcompte: recap.montantAcompte,
+        }),
+      ]
+    );
+
+    logger.info(`Decompt PDF generated: ${id} -> ${storagePath}`);
+
+    res.download(pdfPath, pdfFileName);
+  } catch (error) {
+    logger.error('Error generating decompt PDF:', error);
+    next(error);
+  }
+};
+
+/**
+ * Move a décompte along the workflow: draft → submitted → validated → paid.
+ * Reopening (back to draft) is reserved to admins and requires a motif.
+ */
+const changeDecomptStatut = (action: DecompteAction) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const { motif } = req.body || {};
+    const isAdmin = ADMIN_ROLES.includes(req.user.role);
+
+    if (action === 'reopen') {
+      if (!isAdmin) throw new ApiError('Insufficient permissions', 403);
+      if (!motif?.trim()) throw new ApiError('A motif is required to reopen a décompte', 400);
+    }
+
+    await client.query('BEGIN');
+
+    // L'admin peut rouvrir le décompte d'un autre utilisateur
+    const existing = await client.query(
+      `SELECT d.* FROM decompts d
+       INNER JOIN projects p ON d.project_id = p.id
+       WHERE d.id = $1 AND d.deleted_at IS NULL AND (p.user_id = $2 OR $3::boolean)
+       FOR UPDATE OF d`,
+      [id, req.user.id, action === 'reopen' && isAdmin]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Decompt not found', 404);
+    }
+
+    // 🔒 DGD signé: plus de réouverture de décompte (le paiement du solde reste possible)
+    if (action === 'reopen') {
+      await assertFinancesModifiables(client, existing.rows[0].project_id);
+    }
+
+    // Montants figés: dernier recalcul serveur avant soumission
+    if (action === 'submit') {
+      await recalculateDecompte(client, id);
+    }
+
+    // ⚠️ Dépassements de quantités: justification ou avenant exigés avant la validation
+    if (action === 'validate') {
+      const depassements = await calculateDepassementsDecompte(client, existing.rows[0]);
+      if (depassements.bloquant) {
+        throw new ApiError(
+          `Quantity overruns must be justified or covered by an avenant before validation: ${depassements.motifsBlocage.join('; ')}`,
+          409
+        );
+      }
+    }
+
+    const updated = await applyWorkflowAction(client, existing.rows[0], action, req.user.id, motif);
+    await client.query('COMMIT');
+
+    logger.info(`Decompt ${id}: ${action} (${existing.rows[0].statut} -> ${updated.statut}) by user ${req.user.id}`);
+
+    res.json({
+      success: true,
+      data: keysToCamel(updated),
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error(`Error applying ${action} to decompt:`, error);
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+export const submitDecompt = changeDecomptStatut('submit');
+export const validateDecompt = changeDecomptStatut('validate');
+export const payDecompt = changeDecomptStatut('pay');
+export const reopenDecompt = changeDecomptStatut('reopen');
+
+/**
+ * Workflow history of a décompte (audit trail)
+ */
+export const getDecomptHistorique = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const pool = getPool();
+
+    const existing = await pool.query(
+      `SELECT d.id FROM decompts d
        INNER JOIN projects p ON d.project_id = p.id
        WHERE d.id = $1 AND p.user_id = $2 AND d.deleted_at IS NULL`,
       [id, req.user.id]
     );
 
-    if (result.rows.length === 0) {
+    if (existing.rows.length === 0 && !ADMIN_ROLES.includes(req.user.role)) {
       throw new ApiError('Decompt not found', 404);
     }
 
-    // For now, return the data that would be used for PDF generation
+    const result = await pool.query(
+      `SELECT a.*, u.first_name, u.last_name, u.email
+       FROM decompt_audit a
+       LEFT JOIN users u ON a.user_id = u.id
+       WHERE a.decompt_id = $1
+       ORDER BY a.created_at ASC`,
+      [id]
+    );
+
     res.json({
       success: true,
-      message: 'PDF generation endpoint - data ready',
-      data: result.rows[0],
+      data: keysToCamel(result.rows),
     });
   } catch (error) {
+    logger.error('Error fetching decompt history:', error);
     next(error);
   }
 };
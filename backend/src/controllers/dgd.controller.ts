@@ -0,0 +1,293 @@
+import { Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
+import fs from 'fs/promises';
+import { getPool } from '../config/postgres';
+import { ApiError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import logger from '../utils/logger';
+import { keysToCamel } from '../utils/transform';
+import { ADMIN_ROLES } from '../utils/decompteWorkflow';
+import { calculateDgd, getDgd } from '../utils/dgd';
+import { renderDgdPdf } from '../utils/dgdPdf';
+
+/**
+ * Get the DGD of a project (signed snapshot, or provisional from the décomptes)
+ */
+export const getProjectDgd = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const pool = getPool();
+    const result = await pool.query(
+      'SELECT * FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [req.params.projectId, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    res.json({
+      success: true,
+      data: await getDgd(pool, result.rows[0]),
+    });
+  } catch (error) {
+    logger.error('Error fetching DGD:', error);
+    next(error);
+  }
+};
+
+/**
+ * Sign the DGD: the amounts are frozen and the project finances are locked
+ */
+export const signDgd = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      `SELECT * FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL FOR UPDATE`,
+      [req.params.projectId, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    const project = existing.rows[0];
+    if (project.dgd_signe_at) {
+      throw new ApiError('The DGD of this project is already signed', 409);
+    }
+
+    const dgd = await calculateDgd(client, project);
+    if (!dgd.signable) {
+      throw new ApiError(`The DGD cannot be signed: ${dgd.motifsNonSignable.join('; ')}`, 409);
+    }
+
+    const updated = await client.query(
+      `UPDATE projects SET dgd = $1, dgd_signe_at = NOW(), dgd_signe_by = $2, updated_at = NOW()
+       WHERE id = $3 RETURNING *`,
+      [JSON.stringify(dgd), req.user.id, project.id]
+    );
+
+    await client.query(
+      `INSERT INTO dgd_audit (id, project_id, user_id, action, solde, created_at)
+       VALUES ($1, $2, $3, 'sign', $4, NOW())`,
+      [uuidv4(), project.id, req.user.id, dgd.bilan.solde]
+    );
+
+    await client.query('COMMIT');
+
+    logger.info(`DGD signed for project ${project.id} (solde ${dgd.bilan.solde}) by user ${req.user.id}`);
+
+    res.json({
+      success: true,
+      data: await getDgd(pool, updated.rows[0]),
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error('Error signing DGD:', error);
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Reopen a signed DGD (admins only, motif required): the project finances are unlocked
+ */
+export const reopenDgd = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+    if (!ADMIN_ROLES.includes(req.user.role)) throw new ApiError('Insufficient permissions', 403);
+
+    const { motif } = req.body || {};
+    if (!motif?.trim()) throw new ApiError('A motif is required to reopen a DGD', 400);
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      `SELECT * FROM projects WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+      [req.params.projectId]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Project not found', 404);
+    }
+
+    const project = existing.rows[0];
+    if (!project.dgd_signe_at) {
+      throw new ApiError('The DGD of this project is not signed', 409);
+    }
+
+    await client.query(
+      `UPDATE projects SET dgd = NULL, dgd_signe_at = NULL, dgd_signe_by = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [project.id]
+    );
+
+    await client.query(
+      `INSERT INTO dgd_audit (id, project_id, user_id, action, solde, motif, created_at)
+       VALUES ($1, $2, $3, 'reopen', $4, $5, NOW())`,
+      [uuidv4(), project.id, req.user.id, project.dgd?.bilan?.solde ?? null, motif.trim()]
+    );
+
+    await client.query('COMMIT');
+
+    logger.info(`DGD reopened for project ${project.id} by user ${req.user.id}: ${motif.trim()}`);
+
+    res.json({
+      success: true,
+      data: await calculateDgd(pool, project),
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error('Error reopening DGD:', error);
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Signature / reopening history of the DGD of a project
+ */
+export const getDgdHistorique = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const pool = getPool();
+    const projectCheck = await pool.query(
+      'SELECT id FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [req.params.projectId, req.user.id]
+    );
+
+    if (projectCheck.rows.length === 0 && !ADMIN_ROLES.includes(req.user.role)) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    const result = await pool.query(
+      `SELECT a.*, u.first_name, u.last_name, u.email
+       FROM dgd_audit a
+       LEFT JOIN users u ON a.user_id = u.id
+       WHERE a.project_id = $1
+       ORDER BY a.created_at ASC`,
+      [req.params.projectId]
+    );
+
+    res.json({
+      success: true,
+      data: keysToCamel(result.rows),
+    });
+  } catch (error) {
+    logger.error('Error fetching DGD history:', error);
+    next(error);
+  }
+};
+
+/**
+ * Generate the DGD PDF, stored among the project documents
+ */
+export const generateDgdPDF = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const pool = getPool();
+    const result = await pool.query(
+      'SELECT * FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [req.params.projectId, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    const project = result.rows[0];
+    const dgd = await getDgd(pool, project);
+
+    const folderPath = project.folder_path || project.id;
+    const pdfDir = path.join(process.cwd(), 'uploads', folderPath, 'Decomptes');
+    await fs.mkdir(pdfDir, { recursive: true });
+
+    const assetId = uuidv4();
+    const pdfFileName = `DGD_${(project.marche_no || 'marche').replace(/[^\w-]+/g, '_')}${dgd.statut === 'signe' ? '' : '_provisoire'}_${assetId.substring(0, 8)}.pdf`;
+    const pdfPath = path.join(pdfDir, pdfFileName);
+
+    await renderDgdPdf(pdfPath, {
+      project: {
+        marcheNo: project.marche_no,
+        objet: project.objet,
+        societe: project.societe,
+        rc: project.rc,
+        cnss: project.cnss,
+        dateReceptionProvisoire: project.date_reception_provisoire,
+        dateReceptionDefinitive: project.date_reception_definitive,
+        langueMontantLettres: project.langue_montant_lettres,
+      },
+      dgd,
+    });
+
+    const stats = await fs.stat(pdfPath);
+    const storagePath = `/uploads/${folderPath}/Decomptes/${pdfFileName}`;
+
+    // Keep only the latest DGD PDF among the project assets
+    await pool.query(
+      `UPDATE project_assets SET deleted_at = NOW(), updated_at = NOW()
+       WHERE project_id = $1 AND type = 'document' AND metadata->>'category' = 'dgd' AND deleted_at IS NULL`,
+      [project.id]
+    );
+
+    await pool.query(
+      `INSERT INTO project_assets (
+        id, project_id, type, file_name, original_name, mime_type, file_size, storage_path, created_by, metadata
+      ) VALUES ($1, $2, 'document', $3, $4, 'application/pdf', $5, $6, $7, $8)`,
+      [
+        assetId,
+        project.id,
+        pdfFileName,
+        pdfFileName,
+        stats.size,
+        storagePath,
+        req.user.id,
+        JSON.stringify({
+          category: 'dgd',
+          statut: dgd.statut,
+          solde: dgd.bilan.solde,
+        }),
+      ]
+    );
+
+    logger.info(`DGD PDF generated for project ${project.id} -> ${storagePath}`);
+
+    res.download(pdfPath, pdfFileName);
+  } catch (error) {
+    logger.error('Error generating DGD PDF:', error);
+    next(error);
+  }
+};
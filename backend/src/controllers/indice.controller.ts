@@ -0,0 +1,126 @@
+import { Response, NextFunction } from 'express';
+import { getPool } from '../config/postgres';
+import { ApiError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import logger from '../utils/logger';
+import { keysToCamel } from '../utils/transform';
+
+const MOIS_REGEX = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Get price indices (optionally filtered by code)
+ */
+export const getIndices = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { code } = req.query;
+    const pool = getPool();
+
+    const params: any[] = [req.user.id];
+    let query = `SELECT * FROM indices_prix WHERE user_id = $1`;
+    if (code) {
+      params.push(String(code).toUpperCase());
+      query += ` AND code = $2`;
+    }
+    query += ` ORDER BY code ASC, mois ASC`;
+
+    const result = await pool.query(query, params);
+
+    res.json({
+      success: true,
+      data: keysToCamel(
+        result.rows.map(row => ({ ...row, valeur: parseFloat(row.valeur) }))
+      ),
+      count: result.rows.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching indices:', error);
+    next(error);
+  }
+};
+
+/**
+ * Create or update the value of an index for a given month
+ */
+export const upsertIndice = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { code, mois, valeur, source } = req.body;
+
+    if (!code || !mois || valeur === undefined || valeur === null || valeur === '') {
+      throw new ApiError('Code, mois and valeur required', 400);
+    }
+    if (!MOIS_REGEX.test(mois)) {
+      throw new ApiError('Mois must be in YYYY-MM format', 400);
+    }
+    const valeurNum = parseFloat(valeur);
+    if (isNaN(valeurNum) || valeurNum <= 0) {
+      throw new ApiError('Valeur must be a positive number', 400);
+    }
+
+    const pool = getPool();
+    const result = await pool.query(
+      `INSERT INTO indices_prix (user_id, code, mois, valeur, source, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+       ON CONFLICT (user_id, code, mois) DO UPDATE SET
+         valeur = EXCLUDED.valeur,
+         source = EXCLUDED.source,
+         updated_at = NOW()
+       RETURNING *`,
+      [req.user.id, String(code).trim().toUpperCase(), mois, valeurNum, source || null]
+    );
+
+    logger.info(`Indice ${code} ${mois} saved by user ${req.user.id}`);
+
+    res.json({
+      success: true,
+      data: keysToCamel({ ...result.rows[0], valeur: parseFloat(result.rows[0].valeur) }),
+    });
+  } catch (error) {
+    logger.error('Error saving indice:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete an index value
+ */
+export const deleteIndice = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const pool = getPool();
+
+    const result = await pool.query(
+      `DELETE FROM indices_prix WHERE id = $1 AND user_id = $2 RETURNING id`,
+      [id, req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ApiError('Indice not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Indice deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting indice:', error);
+    next(error);
+  }
+};
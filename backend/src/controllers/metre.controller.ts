@@ -5,6 +5,7 @@ import { ApiError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
 import logger from '../utils/logger';
 import { keysToCamel } from '../utils/transform';
+import { assertPeriodeModifiable } from '../utils/decompteWorkflow';
 
 /**
  * Create metre (PostgreSQL version)
@@ -55,6 +56,9 @@ export const createMetre = async (
       throw new ApiError('Project not found or not authorized', 404);
     }
 
+    // 🔒 Période validée: métrés en lecture seule
+    await assertPeriodeModifiable(pool, periodeId);
+
     // Calculate total from lignes if not provided
     const calculatedTotal = lignes?.reduce((sum: number, l: any) => sum + (Number(l.partiel) || 0), 0) || 0;
     const finalTotalPartiel = totalPartiel ?? calculatedTotal;
@@ -231,6 +235,10 @@ export const updateMetre = async (
       throw new ApiError('Metre not found', 404);
     }
 
+    // 🔒 Période validée: métrés en lecture seule
+    await assertPeriodeModifiable(pool, existing.rows[0].periode_id);
+    if (periodeId) await assertPeriodeModifiable(pool, periodeId);
+
     // Calculate total from lignes if not provided
     const calculatedTotal = lignes?.reduce((sum: number, l: any) => sum + (Number(l.partiel) || 0), 0) || 0;
     const finalTotalPartiel = totalPartiel ?? calculatedTotal;
@@ -316,6 +324,8 @@ export const deleteMetre = async (
       throw new ApiError('Metre not found', 404);
     }
 
+    await assertPeriodeModifiable(pool, existing.rows[0].periode_id);
+
     await pool.query(
       `UPDATE metres SET deleted_at = NOW() WHERE id = $1`,
       [id]
@@ -0,0 +1,430 @@
+import { Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
+import path from 'path';
+import fs from 'fs/promises';
+import { getPool } from '../config/postgres';
+import { ApiError } from '../middleware/errorHandler';
+import { AuthRequest } from '../middleware/auth';
+import logger from '../utils/logger';
+import { keysToCamel } from '../utils/transform';
+import { applyWorkflowAction } from '../utils/decompteWorkflow';
+import { DECOMPTE_STATUTS_EXIGIBLES, getCreances } from '../utils/creances';
+import { toDecimal } from 'shared';
+import { getInteretsMoratoires } from '../utils/interetsMoratoires';
+import { renderInteretsMoratoiresPdf } from '../utils/interetsMoratoiresPdf';
+
+// Modes de règlement acceptés
+const MODES_PAIEMENT = ['virement', 'ordre_paiement', 'cheque'];
+
+/**
+ * Check the amount, date and mode of a payment
+ */
+const validatePaiement = (montant: any, datePaiement: any, mode: any): void => {
+  if (montant !== undefined && (isNaN(Number(montant)) || Number(montant) <= 0)) {
+    throw new ApiError('Montant must be a positive number', 400);
+  }
+  if (datePaiement !== undefined && isNaN(new Date(datePaiement).getTime())) {
+    throw new ApiError('Invalid date de paiement', 400);
+  }
+  if (mode !== undefined && !MODES_PAIEMENT.includes(mode)) {
+    throw new ApiError(`Mode must be one of: ${MODES_PAIEMENT.join(', ')}`, 400);
+  }
+};
+
+/**
+ * Reject a payment that would exceed the amount of the décompte
+ */
+const assertMontantDisponible = async (
+  client: PoolClient,
+  decompt: any,
+  montant: number,
+  excludeId: string | null = null
+): Promise<boolean> => {
+  const paye = await client.query(
+    `SELECT COALESCE(SUM(montant), 0) AS total FROM paiements
+     WHERE decompt_id = $1 AND deleted_at IS NULL AND ($2::text IS NULL OR id::text <> $2)`,
+    [decompt.id, excludeId]
+  );
+  const totalPaye = toDecimal(paye.rows[0].total).plus(toDecimal(montant));
+  if (totalPaye.greaterThan(toDecimal(decompt.montant_total))) {
+    throw new ApiError(
+      `Payments (${totalPaye.toFixed(2)}) would exceed the décompte amount (${toDecimal(decompt.montant_total).toFixed(2)})`,
+      400
+    );
+  }
+  // true = décompte soldé
+  return totalPaye.greaterThanOrEqualTo(toDecimal(decompt.montant_total));
+};
+
+/**
+ * Get the payments of a project (optionally of one décompte)
+ */
+export const getPaiements = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { projectId } = req.params;
+    const { decomptId } = req.query;
+    const pool = getPool();
+
+    // Verify project ownership
+    const projectCheck = await pool.query(
+      'SELECT id FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+      [projectId, req.user.id]
+    );
+
+    if (projectCheck.rows.length === 0) {
+      throw new ApiError('Project not found or not authorized', 404);
+    }
+
+    const result = await pool.query(
+      `SELECT pa.*, d.numero AS decompt_numero FROM paiements pa
+       INNER JOIN decompts d ON pa.decompt_id = d.id
+       WHERE pa.project_id = $1 AND pa.deleted_at IS NULL AND ($2::text IS NULL OR pa.decompt_id::text = $2)
+       ORDER BY pa.date_paiement ASC, pa.created_at ASC`,
+      [projectId, decomptId || null]
+    );
+
+    res.json({
+      success: true,
+      data: keysToCamel(result.rows),
+      count: result.rows.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching paiements:', error);
+    next(error);
+  }
+};
+
+/**
+ * Record a payment (full or partial) received for a validated décompte
+ */
+export const createPaiement = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { decomptId, datePaiement, montant, mode, reference, observations } = req.body;
+
+    if (!decomptId || !datePaiement || montant === undefined) {
+      throw new ApiError('Décompte ID, date de paiement and montant are required', 400);
+    }
+    validatePaiement(montant, datePaiement, mode);
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      `SELECT d.* FROM decompts d
+       INNER JOIN projects p ON d.project_id = p.id
+       WHERE d.id = $1 AND p.user_id = $2 AND d.deleted_at IS NULL
+       FOR UPDATE OF d`,
+      [decomptId, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Decompt not found', 404);
+    }
+
+    const decompt = existing.rows[0];
+    if (!DECOMPTE_STATUTS_EXIGIBLES.includes(decompt.statut)) {
+      throw new ApiError('Payments can only be recorded on a validated décompte', 409);
+    }
+
+    const solde = await assertMontantDisponible(client, decompt, Number(montant));
+
+    const result = await client.query(
+      `INSERT INTO paiements (
+        id, project_id, decompt_id, user_id, date_paiement, montant, mode, reference, observations, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+       RETURNING *`,
+      [
+        uuidv4(),
+        decompt.project_id,
+        decompt.id,
+        req.user.id,
+        datePaiement,
+        Number(montant),
+        mode || 'virement',
+        reference?.trim() || null,
+        observations?.trim() || null,
+      ]
+    );
+
+    // Décompte soldé: passage automatique au statut payé (tracé dans l'historique)
+    if (solde && decompt.statut === 'validated') {
+      await applyWorkflowAction(client, decompt, 'pay', req.user.id);
+    }
+
+    await client.query('COMMIT');
+
+    logger.info(`Paiement of ${montant} recorded on decompt ${decompt.id}`);
+
+    res.status(201).json({
+      success: true,
+      data: keysToCamel(result.rows[0]),
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error('Error creating paiement:', error);
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Update a payment
+ */
+export const updatePaiement = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const { datePaiement, montant, mode, reference, observations } = req.body;
+
+    validatePaiement(montant, datePaiement, mode);
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      `SELECT pa.montant, d.* FROM paiements pa
+       INNER JOIN decompts d ON pa.decompt_id = d.id
+       INNER JOIN projects p ON pa.project_id = p.id
+       WHERE pa.id = $1 AND p.user_id = $2 AND pa.deleted_at IS NULL
+       FOR UPDATE OF d`,
+      [id, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Paiement not found', 404);
+    }
+
+    const decompt = existing.rows[0];
+    if (montant !== undefined) {
+      await assertMontantDisponible(client, decompt, Number(montant), id);
+    }
+
+    const result = await client.query(
+      `UPDATE paiements SET
+        date_paiement = COALESCE($1, date_paiement),
+        montant = COALESCE($2, montant),
+        mode = COALESCE($3, mode),
+        reference = COALESCE($4, reference),
+        observations = COALESCE($5, observations),
+        updated_at = NOW()
+      WHERE id = $6
+      RETURNING *`,
+      [
+        datePaiement ?? null,
+        montant !== undefined ? Number(montant) : null,
+        mode ?? null,
+        reference?.trim() ?? null,
+        observations?.trim() ?? null,
+        id,
+      ]
+    );
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      data: keysToCamel(result.rows[0]),
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logger.error('Error updating paiement:', error);
+    next(error);
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Delete a payment (soft delete)
+ */
+export const deletePaiement = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { id } = req.params;
+    const pool = getPool();
+
+    const existing = await pool.query(
+      `SELECT pa.id FROM paiements pa
+       INNER JOIN projects p ON pa.project_id = p.id
+       WHERE pa.id = $1 AND p.user_id = $2 AND pa.deleted_at IS NULL`,
+      [id, req.user.id]
+    );
+
+    if (existing.rows.length === 0) {
+      throw new ApiError('Paiement not found', 404);
+    }
+
+    await pool.query(
+      `UPDATE paiements SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      message: 'Paiement deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting paiement:', error);
+    next(error);
+  }
+};
+
+/**
+ * Outstanding receivables with aging, for one project (?projectId=) or the whole portfolio
+ */
+export const getCreancesReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const projectId = typeof req.query.projectId === 'string' ? req.query.projectId : null;
+    const creances = await getCreances(getPool(), req.user.id, projectId);
+
+    res.json({
+      success: true,
+      data: creances,
+    });
+  } catch (error) {
+    logger.error('Error fetching creances:', error);
+    next(error);
+  }
+};
+
+/**
+ * Load an owned project and the date the interest is computed at (?date=YYYY-MM-DD, default today)
+ */
+const getProjectAndDate = async (req: AuthRequest): Promise<{ project: any; dateReference: Date }> => {
+  const result = await getPool().query(
+    'SELECT * FROM projects WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
+    [req.params.projectId, req.user!.id]
+  );
+  if (result.rows.length === 0) {
+    throw new ApiError('Project not found or not authorized', 404);
+  }
+
+  const dateReference = typeof req.query.date === 'string' ? new Date(req.query.date) : new Date();
+  if (isNaN(dateReference.getTime())) {
+    throw new ApiError('Invalid date', 400);
+  }
+  return { project: result.rows[0], dateReference };
+};
+
+/**
+ * Late-payment interest (intérêts moratoires) of the décomptes of a project
+ */
+export const getInteretsMoratoiresReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const { project, dateReference } = await getProjectAndDate(req);
+    const interets = await getInteretsMoratoires(getPool(), project, dateReference);
+
+    res.json({
+      success: true,
+      data: interets,
+    });
+  } catch (error) {
+    logger.error('Error computing interets moratoires:', error);
+    next(error);
+  }
+};
+
+/**
+ * Claim document (PDF) listing each late décompte, stored among the project documents
+ */
+export const generateInteretsMoratoiresPDF = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) throw new ApiError('Not authenticated', 401);
+
+    const pool = getPool();
+    const { project, dateReference } = await getProjectAndDate(req);
+    const interets = await getInteretsMoratoires(pool, project, dateReference);
+
+    const folderPath = project.folder_path || project.id;
+    const pdfDir = path.join(process.cwd(), 'uploads', folderPath, 'Decomptes');
+    await fs.mkdir(pdfDir, { recursive: true });
+
+    const assetId = uuidv4();
+    const pdfFileName = `Interets_Moratoires_${(project.marche_no || 'marche').replace(/[^\w-]+/g, '_')}_${interets.dateReference}_${assetId.substring(0, 8)}.pdf`;
+    const pdfPath = path.join(pdfDir, pdfFileName);
+
+    await renderInteretsMoratoiresPdf(pdfPath, {
+      project: {
+        marcheNo: project.marche_no,
+        objet: project.objet,
+        societe: project.societe,
+        rc: project.rc,
+        cnss: project.cnss,
+        langueMontantLettres: project.langue_montant_lettres,
+      },
+      interets,
+    });
+
+    const stats = await fs.stat(pdfPath);
+    const storagePath = `/uploads/${folderPath}/Decomptes/${pdfFileName}`;
+
+    await pool.query(
+      `INSERT INTO project_assets (
+        id, project_id, type, file_name, original_name, mime_type, file_size, storage_path, created_by, metadata
+      ) VALUES ($1, $2, 'document', $3, $4, 'application/pdf', $5, $6, $7, $8)`,
+      [
+        assetId,
+        project.id,
+        pdfFileName,
+        pdfFileName,
+        stats.size,
+        storagePath,
+        req.user.id,
+        JSON.stringify({
+          category: 'interets_moratoires',
+          dateReference: interets.dateReference,
+          totalInterets: interets.totalInterets,
+        }),
+      ]
+    );
+
+    logger.info(`Interets moratoires PDF generated for project ${project.id} -> ${storagePath}`);
+
+    res.download(pdfPath, pdfFileName);
+  } catch (error) {
+    logger.error('Error generating interets moratoires PDF:', error);
+    next(error);
+  }
+};
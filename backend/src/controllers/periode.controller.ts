@@ -3,6 +3,8 @@ import { getPool } from '../config/postgres';
 import { ApiError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
 import logger from '../utils/logger';
+import { assertPeriodeModifiable, assertFinancesModifiables } from '../utils/decompteWorkflow';
+import { recalculateProjectDecomptes } from '../utils/decompteCalcul';
 
 /**
  * Convert snake_case to camelCase for API response
@@ -145,6 +147,8 @@ export const createPeriode = async (
       throw new ApiError('Project not found or not authorized', 404);
     }
 
+    await assertFinancesModifiables(pool, projectId);
+
     const result = await pool.query(
       `INSERT INTO periodes (
         project_id, user_id, numero, libelle, date_debut, date_fin, statut, is_decompte_dernier
@@ -175,12 +179,24 @@ export const updatePeriode = async (
     if (!req.user) throw new ApiError('Not authenticated', 401);
 
     const { id } = req.params;
-    const { libelle, dateDebut, dateFin, statut, isDecompteDernier } = req.body;
+    const {
+      libelle,
+      dateDebut,
+      dateFin,
+      statut,
+      isDecompteDernier,
+      tauxTVA,
+      tauxRetenue,
+      depensesExercicesAnterieurs,
+      decomptesPrecedents,
+      precedentsManuels,
+      ajustements,
+    } = req.body;
     const pool = getPool();
 
     // Check ownership
     const ownerCheck = await pool.query(
-      `SELECT pe.id FROM periodes pe
+      `SELECT pe.id, pe.statut, pe.project_id FROM periodes pe
        INNER JOIN projects p ON pe.project_id = p.id
        WHERE pe.id = $1 AND p.user_id = $2`,
       [id, req.user.id]
@@ -190,6 +206,12 @@ export const updatePeriode = async (
       throw new ApiError('Periode not found or not authorized', 404);
     }
 
+    await assertPeriodeModifiable(pool, id);
+    // Le statut suit le workflow du décompte (validation / paiement / réouverture)
+    if (statut !== undefined && statut !== ownerCheck.rows[0].statut) {
+      throw new ApiError('The période statut follows its décompte workflow', 409);
+    }
+
     const result = await pool.query(
       `UPDATE periodes SET 
         libelle = COALESCE($1, libelle),
@@ -197,12 +219,38 @@ export const updatePeriode = async (
         date_fin = COALESCE($3, date_fin),
         statut = COALESCE($4, statut),
         is_decompte_dernier = COALESCE($5, is_decompte_dernier),
+        taux_tva = COALESCE($6, taux_tva),
+        taux_retenue = COALESCE($7, taux_retenue),
+        depenses_exercices_anterieurs = COALESCE($8, depenses_exercices_anterieurs),
+        decomptes_precedents = COALESCE($9, decomptes_precedents),
+        precedents_manuels = COALESCE($10, precedents_manuels),
+        ajustements = COALESCE($11::jsonb, ajustements),
         updated_at = NOW()
-      WHERE id = $6
+      WHERE id = $12
       RETURNING *`,
-      [libelle, dateDebut, dateFin, statut, isDecompteDernier, id]
+      [
+        libelle,
+        dateDebut,
+        dateFin,
+        statut,
+        isDecompteDernier,
+        tauxTVA,
+        tauxRetenue,
+        depensesExercicesAnterieurs,
+        decomptesPrecedents,
+        precedentsManuels,
+        ajustements !== undefined ? JSON.stringify(ajustements) : null,
+        id,
+      ]
     );
 
+    // Taux, décomptes précédents et ajustements entrent dans le calcul des décomptes
+    try {
+      await recalculateProjectDecomptes(pool, ownerCheck.rows[0].project_id);
+    } catch (recalculError) {
+      logger.error(`Error recalculating decompts of project ${ownerCheck.rows[0].project_id}:`, recalculError);
+    }
+
     res.json({
       success: true,
       data: snakeToCamel(result.rows[0]),
@@ -238,6 +286,8 @@ export const deletePeriode = async (
       throw new ApiError('Periode not found or not authorized', 404);
     }
 
+    await assertPeriodeModifiable(pool, id);
+
     await pool.query(
       `UPDATE periodes SET deleted_at = NOW(), updated_at = NOW() WHERE id = $1`,
       [id]
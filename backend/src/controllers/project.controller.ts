@@ -6,6 +6,15 @@ import { AuthRequest } from '../middleware/auth';
 import path from 'path';
 import fs from 'fs/promises';
 import logger from '../utils/logger';
+import { recalculateProjectDecomptes } from '../utils/decompteCalcul';
+import { isLangueMontantLettres } from 'shared';
+import { assertFinancesModifiables } from '../utils/decompteWorkflow';
+
+/**
+ * Délai supplémentaire (mois) accordé par les avenants du projet
+ */
+const DELAI_AVENANTS_SQL = `(SELECT COALESCE(SUM(a.delai_supplementaire), 0) FROM avenants a
+  WHERE a.project_id = p.id AND a.deleted_at IS NULL)`;
 
 /**
  * Créer la structure de dossiers pour un projet
@@ -148,15 +157,16 @@ export const getProjects = async (
     const pool = getPool();
     const { status } = req.query;
 
-    let query = `SELECT * FROM projects WHERE user_id = $1 AND deleted_at IS NULL`;
+    let query = `SELECT p.*, ${DELAI_AVENANTS_SQL} AS delai_avenants
+      FROM projects p WHERE p.user_id = $1 AND p.deleted_at IS NULL`;
     const params: any[] = [req.user.id];
 
     if (status) {
-      query += ` AND status = $2`;
+      query += ` AND p.status = $2`;
       params.push(status);
     }
 
-    query += ` ORDER BY created_at DESC`;
+    query += ` ORDER BY p.created_at DESC`;
 
     const result = await pool.query(query, params);
 
@@ -190,6 +200,15 @@ export const getProjects = async (
       dateReceptionDefinitive: row.date_reception_definitive,
       achevementTravaux: row.achevement_travaux,
       penalites: row.penalites,
+      avance: row.avance,
+      retenueGarantie: row.retenue_garantie,
+      interetsMoratoires: row.interets_moratoires,
+      ajustements: row.ajustements,
+      justificationsDepassement: row.justifications_depassement,
+      langueMontantLettres: row.langue_montant_lettres || 'fr',
+      dgdSigneAt: row.dgd_signe_at,
+      revisionPrix: row.revision_prix,
+      delaiAvenants: parseInt(row.delai_avenants) || 0,
       status: row.status,
       progress: row.progress,
       folderPath: row.folder_path,
@@ -226,7 +245,8 @@ export const getProjectById = async (
     const pool = getPool();
 
     const result = await pool.query(
-      `SELECT * FROM projects WHERE id = $1 AND deleted_at IS NULL`,
+      `SELECT p.*, ${DELAI_AVENANTS_SQL} AS delai_avenants
+       FROM projects p WHERE p.id = $1 AND p.deleted_at IS NULL`,
       [id]
     );
 
@@ -268,6 +288,15 @@ export const getProjectById = async (
       dateReceptionDefinitive: row.date_reception_definitive,
       achevementTravaux: row.achevement_travaux,
       penalites: row.penalites,
+      avance: row.avance,
+      retenueGarantie: row.retenue_garantie,
+      interetsMoratoires: row.interets_moratoires,
+      ajustements: row.ajustements,
+      justificationsDepassement: row.justifications_depassement,
+      langueMontantLettres: row.langue_montant_lettres || 'fr',
+      dgdSigneAt: row.dgd_signe_at,
+      revisionPrix: row.revision_prix,
+      delaiAvenants: parseInt(row.delai_avenants) || 0,
       status: row.status,
       progress: row.progress,
       folderPath: row.folder_path,
@@ -338,8 +367,37 @@ export const updateProject = async (
       progress,
       dateReceptionProvisoire,
       dateReceptionDefinitive,
+      revisionPrix,
+      arrets,
+      penalites,
+      avance,
+      retenueGarantie,
+      interetsMoratoires,
+      ajustements,
+      justificationsDepassement,
+      langueMontantLettres,
     } = req.body;
 
+    if (langueMontantLettres !== undefined && !isLangueMontantLettres(langueMontantLettres)) {
+      throw new ApiError('Invalid amount-in-words language', 400);
+    }
+
+    // 🔒 DGD signé: montant, révision, arrêts, pénalités, avance, retenue, ajustements et
+    // justifications des dépassements restent figés (409 si l'un d'eux change)
+    const parametresFinanciers: Record<string, any> = {
+      montant: montant !== undefined && montant !== null && montant !== '' ? parseFloat(montant) : undefined,
+      revision_prix: revisionPrix ?? undefined,
+      arrets: arrets ?? undefined,
+      penalites: penalites ?? undefined,
+      avance: avance ?? undefined,
+      retenue_garantie: retenueGarantie ?? undefined,
+      ajustements: ajustements ?? undefined,
+      justifications_depassement: justificationsDepassement ?? undefined,
+    };
+    await assertFinancesModifiables(pool, id, parametresFinanciers);
+    const parametreFinancier = (value: any): string | null =>
+      value === undefined ? null : JSON.stringify(value);
+
     const result = await pool.query(
       `UPDATE projects SET
         objet = COALESCE($1, objet),
@@ -364,15 +422,24 @@ export const updateProject = async (
         progress = COALESCE($20, progress),
         date_reception_provisoire = $21,
         date_reception_definitive = $22,
+        revision_prix = COALESCE($23::jsonb, revision_prix),
+        arrets = COALESCE($24::jsonb, arrets),
+        penalites = COALESCE($25::jsonb, penalites),
+        avance = COALESCE($26::jsonb, avance),
+        retenue_garantie = COALESCE($27::jsonb, retenue_garantie),
+        interets_moratoires = COALESCE($28::jsonb, interets_moratoires),
+        ajustements = COALESCE($29::jsonb, ajustements),
+        justifications_depassement = COALESCE($30::jsonb, justifications_depassement),
+        langue_montant_lettres = COALESCE($31, langue_montant_lettres),
         updated_at = NOW()
-      WHERE id = $23
+      WHERE id = $32
       RETURNING *`,
       [
         objet,
         marcheNo,
         annee,
         dateOuverture ? new Date(dateOuverture) : null,
-        montant !== undefined ? parseFloat(montant) : null,
+        parametresFinanciers.montant ?? null,
         typeMarche,
         commune || null,
         societe || null,
@@ -390,12 +457,28 @@ export const updateProject = async (
         progress !== undefined ? parseInt(progress) : null,
         dateReceptionProvisoire ? new Date(dateReceptionProvisoire) : null,
         dateReceptionDefinitive ? new Date(dateReceptionDefinitive) : null,
+        parametreFinancier(revisionPrix),
+        parametreFinancier(arrets),
+        parametreFinancier(penalites),
+        parametreFinancier(avance),
+        parametreFinancier(retenueGarantie),
+        interetsMoratoires !== undefined ? JSON.stringify(interetsMoratoires) : null,
+        parametreFinancier(ajustements),
+        parametreFinancier(justificationsDepassement),
+        langueMontantLettres ?? null,
         id
       ]
     );
 
     logger.info(`Project updated: ${id} by user ${req.user.id}`);
 
+    // Délais, révision, pénalités, avance, retenue de garantie et ajustements entrent dans le calcul des décomptes
+    try {
+      await recalculateProjectDecomptes(pool, id);
+    } catch (recalculError) {
+      logger.error(`Error recalculating decompts of project ${id}:`, recalculError);
+    }
+
     res.json({
       success: true,
       data: result.rows[0],
@@ -552,6 +635,14 @@ export const getDeletedProjects = async (
       dateReceptionDefinitive: row.date_reception_definitive,
       achevementTravaux: row.achevement_travaux,
       penalites: row.penalites,
+      avance: row.avance,
+      retenueGarantie: row.retenue_garantie,
+      interetsMoratoires: row.interets_moratoires,
+      ajustements: row.ajustements,
+      justificationsDepassement: row.justifications_depassement,
+      langueMontantLettres: row.langue_montant_lettres || 'fr',
+      dgdSigneAt: row.dgd_signe_at,
+      revisionPrix: row.revision_prix,
       status: row.status,
       progress: row.progress,
       folderPath: row.folder_path,
@@ -644,6 +735,14 @@ export const restoreProject = async (
         dateReceptionDefinitive: restoredProject.date_reception_definitive,
         achevementTravaux: restoredProject.achevement_travaux,
         penalites: restoredProject.penalites,
+        avance: restoredProject.avance,
+        retenueGarantie: restoredProject.retenue_garantie,
+        interetsMoratoires: restoredProject.interets_moratoires,
+        ajustements: restoredProject.ajustements,
+        justificationsDepassement: restoredProject.justifications_depassement,
+        langueMontantLettres: restoredProject.langue_montant_lettres || 'fr',
+        dgdSigneAt: restoredProject.dgd_signe_at,
+        revisionPrix: restoredProject.revision_prix,
         status: restoredProject.status,
         progress: restoredProject.progress,
         folderPath: restoredProject.folder_path,
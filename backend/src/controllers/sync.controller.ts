@@ -4,6 +4,8 @@ import { getPool } from '../config/postgres';
 import { ApiError } from '../middleware/errorHandler';
 import { AuthRequest } from '../middleware/auth';
 import logger from '../utils/logger';
+import { recalculateDecompte, getDecomptesARecalculer } from '../utils/decompteCalcul';
+import { assertPeriodeModifiable, assertFinancesModifiables } from '../utils/decompteWorkflow';
 
 /**
  * Enhanced Sync Controller v2 - Ops-Log Pattern
@@ -116,15 +118,19 @@ const ALLOWED_COLUMNS: Record<string, string[]> = {
     'commune', 'societe', 'rc', 'cb', 'cnss', 'patente', 'programme', 'projet', 
     'ligne', 'chapitre', 'delais_execution', 'osc', 'date_reception_provisoire', 
     'date_reception_definitive', 'achevement_travaux', 'status', 'progress', 
-    'folder_path', 'arrets', 'ordre_service'
+    'folder_path', 'arrets', 'ordre_service', 'revision_prix', 'penalites', 'avance',
+    'retenue_garantie', 'interets_moratoires', 'ajustements', 'justifications_depassement',
+    'langue_montant_lettres'
   ],
   bordereaux: [
     'project_id', 'user_id', 'reference', 'designation', 'lignes', 'montant_total'
   ],
+  // ⚠️ statut (périodes / décomptes): uniquement via le workflow des décomptes
   periodes: [
     'project_id', 'user_id', 'numero', 'libelle', 'date_debut', 'date_fin', 
-    'statut', 'is_decompte_dernier', 'observations', 'taux_tva', 'taux_retenue',
-    'depenses_exercices_anterieurs', 'decomptes_precedents'
+    'is_decompte_dernier', 'observations', 'taux_tva', 'taux_retenue',
+    'depenses_exercices_anterieurs', 'decomptes_precedents',
+    'precedents_manuels', 'ajustements'
   ],
   metres: [
     'project_id', 'periode_id', 'bordereau_ligne_id', 'user_id', 'reference',
@@ -133,7 +139,7 @@ const ALLOWED_COLUMNS: Record<string, string[]> = {
   ],
   decompts: [
     'project_id', 'periode_id', 'user_id', 'numero', 'lignes', 'montant_total',
-    'total_ttc', 'statut'
+    'total_ttc', 'recap'
   ],
   attachments: [
     'project_id', 'user_id', 'file_name', 'file_path', 'file_size', 'mime_type',
@@ -203,6 +209,83 @@ const preparePayloadForDb = (tableName: string, payload: any, userId: string): R
   return result;
 };
 
+/**
+ * Périodes touched by an operation on a période, métré or décompte
+ * (current période of the row + the one it is moved to)
+ */
+const getPeriodesConcernees = async (
+  client: any,
+  tableName: string,
+  cleanId: string,
+  payload: any
+): Promise<string[]> => {
+  if (tableName === 'periodes') return [cleanId];
+  if (tableName !== 'metres' && tableName !== 'decompts') return [];
+
+  const existing = await client.query(
+    `SELECT periode_id FROM ${tableName} WHERE id::text = $1`,
+    [cleanId]
+  );
+  return [existing.rows[0]?.periode_id, payload?.periodeId ?? payload?.periode_id].filter(Boolean);
+};
+
+// Tables verrouillées une fois le DGD du projet signé
+// (projects: seulement ses paramètres financiers, cf. COLONNES_FINANCIERES_PROJET)
+const TABLES_FINANCIERES = ['projects', 'bordereaux', 'periodes', 'metres', 'decompts'];
+
+/**
+ * Project touched by an operation on the project, a bordereau, période, métré or décompte
+ */
+const getProjectConcerne = async (
+  client: any,
+  tableName: string,
+  cleanId: string,
+  payload: any
+): Promise<string | null> => {
+  if (!TABLES_FINANCIERES.includes(tableName)) return null;
+  if (tableName === 'projects') return cleanId;
+
+  const existing = await client.query(
+    `SELECT project_id FROM ${tableName} WHERE id::text = $1`,
+    [cleanId]
+  );
+  return existing.rows[0]?.project_id || payload?.projectId || payload?.project_id || null;
+};
+
+/**
+ * Recalculate a décompte with the server amounts; a failure is logged
+ * and rolled back without rejecting the operation that triggered it
+ */
+const recalculerDecompte = async (client: any, decomptId: string, requestId: string): Promise<void> => {
+  await client.query('SAVEPOINT sp_recalcul_decompte');
+  try {
+    const verification = await recalculateDecompte(client, decomptId);
+    await client.query('RELEASE SAVEPOINT sp_recalcul_decompte');
+    if (verification?.status === 'ecart') {
+      logger.warn(`[${requestId}] Decompt ${decomptId}: client amounts differ from server calculation`);
+    }
+  } catch (recalculError: any) {
+    await client.query('ROLLBACK TO SAVEPOINT sp_recalcul_decompte');
+    logger.error(`[${requestId}] Decompt ${decomptId} recalculation failed: ${recalculError.message}`);
+  }
+};
+
+/**
+ * Stored décompte in client format: pull replays ops.payload with a full put,
+ * so the ops log must carry the server amounts
+ */
+const getDecomptePayload = async (client: any, decomptId: string): Promise<Record<string, any> | null> => {
+  const result = await client.query(`SELECT * FROM decompts WHERE id::text = $1`, [decomptId]);
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    ...snakeToCamel(row),
+    montantTotal: Number(row.montant_total) || 0,
+    totalTTC: Number(row.total_ttc) || 0,
+  };
+};
+
 // ==================== OPERATION APPLICATION ====================
 
 /**
@@ -479,6 +562,26 @@ export const syncPushV2 = async (
           }
         }
         
+        // 🔒 Période validée (ou DGD signé): métrés, décompte et paramètres en lecture seule
+        let projectConcerne: string | null;
+        let periodesConcernees: string[];
+        try {
+          projectConcerne = await getProjectConcerne(client, tableName, cleanId, data);
+          periodesConcernees = await getPeriodesConcernees(client, tableName, cleanId, data);
+          await assertFinancesModifiables(
+            client,
+            projectConcerne,
+            tableName === 'projects' ? preparePayloadForDb(tableName, data || {}, req.user.id) : undefined
+          );
+          for (const periodeId of periodesConcernees) {
+            await assertPeriodeModifiable(client, periodeId);
+          }
+        } catch (lockError: any) {
+          logger.warn(`[${requestId}] Op ${opId} rejected: ${lockError.message}`);
+          results.errors.push({ opId: rawOpId, error: lockError.message });
+          continue;
+        }
+        
         // Apply the operation with SAVEPOINT for error recovery
         let applyResult: { success: boolean; error?: string };
         
@@ -502,18 +605,55 @@ export const syncPushV2 = async (
           }
           
           if (applyResult.success) {
+            // 🔒 Décompte: les montants stockés (et journalisés) sont ceux du calcul serveur
+            let payload = data;
+            if (tableName === 'decompts' && type !== 'DELETE') {
+              await recalculerDecompte(client, cleanId, requestId);
+              const stored = await getDecomptePayload(client, cleanId);
+              if (stored) {
+                payload = {
+                  ...data,
+                  lignes: stored.lignes,
+                  montantTotal: stored.montantTotal,
+                  totalTTC: stored.totalTTC,
+                  recap: stored.recap,
+                  verification: stored.verification,
+                };
+              }
+            }
+
             // Insert into ops table
             const insertResult = await client.query(
               `INSERT INTO ops (op_id, client_id, user_id, ts, entity, entity_id, op_type, payload, applied, applied_at)
                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, TRUE, NOW())
                RETURNING server_seq`,
-              [opId, clientId, req.user.id, new Date(timestamp), entity, cleanId, type, JSON.stringify(data)]
+              [opId, clientId, req.user.id, new Date(timestamp), entity, cleanId, type, JSON.stringify(payload)]
             );
-            
+
             const serverSeq = insertResult.rows[0].server_seq;
             results.ackOps.push(rawOpId); // Return original ID for client tracking
             results.serverSeq = Math.max(results.serverSeq, serverSeq);
-            
+
+            // Métré / période / bordereau: recalcul des décomptes concernés,
+            // journalisés comme UPDATE serveur pour que les autres appareils les reçoivent
+            if (projectConcerne && ['metres', 'periodes', 'bordereaux'].includes(tableName)) {
+              const decomptIds = await getDecomptesARecalculer(
+                client,
+                projectConcerne,
+                tableName === 'bordereaux' ? null : periodesConcernees
+              );
+              for (const decomptId of decomptIds) {
+                await recalculerDecompte(client, decomptId, requestId);
+                const stored = await getDecomptePayload(client, decomptId);
+                if (!stored) continue;
+                await client.query(
+                  `INSERT INTO ops (op_id, client_id, user_id, ts, entity, entity_id, op_type, payload, applied, applied_at)
+                   VALUES ($1, 'server', $2, NOW(), 'decompt', $3, 'UPDATE', $4, TRUE, NOW())`,
+                  [uuidv4(), req.user.id, decomptId, JSON.stringify(stored)]
+                );
+              }
+            }
+
             // Release savepoint on success
             await client.query(`RELEASE SAVEPOINT ${savepointName}`);
             logger.info(`[${requestId}] Op ${opId} applied with server_seq ${serverSeq}`);
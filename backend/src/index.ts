@@ -33,6 +33,11 @@ import attachmentRoutes from './routes/attachment.routes';
 import periodeRoutes from './routes/periode.routes';
 import syncRoutes from './routes/sync.routes';
 import assetRoutes from './routes/asset.routes';
+import indiceRoutes from './routes/indice.routes';
+import avenantRoutes from './routes/avenant.routes';
+import approvisionnementRoutes from './routes/approvisionnement.routes';
+import paiementRoutes from './routes/paiement.routes';
+import dgdRoutes from './routes/dgd.routes';
 import healthRoutes from './routes/health.routes';
 
 console.log('✅ All routes imported successfully');
@@ -82,6 +87,11 @@ app.use('/api/attachments', attachmentRoutes);
 app.use('/api/periodes', periodeRoutes);
 app.use('/api/sync', syncRoutes);
 app.use('/api/assets', assetRoutes);
+app.use('/api/indices', indiceRoutes);
+app.use('/api/avenants', avenantRoutes);
+app.use('/api/approvisionnements', approvisionnementRoutes);
+app.use('/api/paiements', paiementRoutes);
+app.use('/api/dgd', dgdRoutes);
 
 // Error handling
 app.use(notFound);
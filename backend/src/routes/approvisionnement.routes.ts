@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getApprovisionnements,
+  createApprovisionnement,
+  updateApprovisionnement,
+  deleteApprovisionnement,
+} from '../controllers/approvisionnement.controller';
+
+const router = Router();
+router.use(authenticate);
+
+router.get('/project/:projectId', getApprovisionnements);
+router.post('/', createApprovisionnement);
+router.put('/:id', updateApprovisionnement);
+router.delete('/:id', deleteApprovisionnement);
+
+export default router;
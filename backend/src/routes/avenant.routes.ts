@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getAvenants,
+  createAvenant,
+  updateAvenant,
+  deleteAvenant,
+} from '../controllers/avenant.controller';
+
+const router = Router();
+router.use(authenticate);
+
+router.get('/project/:projectId', getAvenants);
+router.post('/', createAvenant);
+router.put('/:id', updateAvenant);
+router.delete('/:id', deleteAvenant);
+
+export default router;
@@ -1,12 +1,19 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 import {
   createDecompt,
   getDecompts,
   getDecomptById,
   updateDecompt,
   deleteDecompt,
+  getDecomptPDF,
   generateDecomptPDF,
+  verifyDecomptReport,
+  submitDecompt,
+  validateDecompt,
+  payDecompt,
+  reopenDecompt,
+  getDecomptHistorique,
 } from '../controllers/decompt.controller';
 
 const router = Router();
@@ -17,6 +24,15 @@ router.get('/project/:projectId', getDecompts);
 router.get('/:id', getDecomptById);
 router.put('/:id', updateDecompt);
 router.delete('/:id', deleteDecompt);
-router.get('/:id/pdf', generateDecomptPDF);
+router.get('/:id/pdf', getDecomptPDF);
+router.post('/:id/pdf', generateDecomptPDF);
+router.get('/:id/verify', verifyDecomptReport);
+
+// Workflow: draft → submitted → validated → paid (réouverture réservée aux admins)
+router.post('/:id/submit', submitDecompt);
+router.post('/:id/validate', validateDecompt);
+router.post('/:id/pay', payDecompt);
+router.post('/:id/reopen', authorize('admin', 'super_admin'), reopenDecompt);
+router.get('/:id/historique', getDecomptHistorique);
 
 export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import {
+  getProjectDgd,
+  signDgd,
+  reopenDgd,
+  getDgdHistorique,
+  generateDgdPDF,
+} from '../controllers/dgd.controller';
+
+const router = Router();
+router.use(authenticate);
+
+router.get('/:projectId', getProjectDgd);
+router.get('/:projectId/pdf', generateDgdPDF);
+router.get('/:projectId/historique', getDgdHistorique);
+
+// Signature: verrouillage financier du projet (réouverture réservée aux admins)
+router.post('/:projectId/sign', signDgd);
+router.post('/:projectId/reopen', authorize('admin', 'super_admin'), reopenDgd);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getIndices,
+  upsertIndice,
+  deleteIndice,
+} from '../controllers/indice.controller';
+
+const router = Router();
+router.use(authenticate);
+
+router.get('/', getIndices);
+router.post('/', upsertIndice);
+router.delete('/:id', deleteIndice);
+
+export default router;
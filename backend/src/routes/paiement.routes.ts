@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import {
+  getPaiements,
+  createPaiement,
+  updatePaiement,
+  deletePaiement,
+  getCreancesReport,
+  getInteretsMoratoiresReport,
+  generateInteretsMoratoiresPDF,
+} from '../controllers/paiement.controller';
+
+const router = Router();
+router.use(authenticate);
+
+router.get('/creances', getCreancesReport);
+router.get('/interets/:projectId', getInteretsMoratoiresReport);
+router.get('/interets/:projectId/pdf', generateInteretsMoratoiresPDF);
+router.get('/project/:projectId', getPaiements);
+router.post('/', createPaiement);
+router.put('/:id', updatePaiement);
+router.delete('/:id', deletePaiement);
+
+export default router;
@@ -0,0 +1,175 @@
+/**
+ * Créances (receivables)
+ * Reste à encaisser sur chaque décompte validé: montant de l'acompte moins les
+ * paiements reçus, avec l'ancienneté depuis la validation (date d'exigibilité).
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { Decimal, toDecimal, round2, toNumber } from 'shared';
+
+type Queryable = Pool | PoolClient;
+
+// Délai de paiement réglementaire (jours) à compter de la validation du décompte,
+// modifiable par projet dans le paramétrage des intérêts moratoires
+export const DELAI_PAIEMENT_JOURS = 60;
+
+// Statuts qui rendent l'acompte exigible
+export const DECOMPTE_STATUTS_EXIGIBLES = ['validated', 'paid'];
+
+export type TrancheAnciennete = '0-30' | '31-60' | '61-90' | '+90';
+
+export const TRANCHES_ANCIENNETE: { tranche: TrancheAnciennete; max: number }[] = [
+  { tranche: '0-30', max: 30 },
+  { tranche: '31-60', max: 60 },
+  { tranche: '61-90', max: 90 },
+  { tranche: '+90', max: Infinity },
+];
+
+export interface CreanceDecompte {
+  decomptId: string;
+  projectId: string;
+  numero: number;
+  statut: string;
+  montant: number;
+  montantPaye: number;
+  resteAPayer: number;
+  dateExigibilite: string | null;
+  joursEcoules: number;
+  tranche: TrancheAnciennete | null;   // null = soldé
+  enRetard: boolean;                   // reste dû au-delà du délai de paiement
+}
+
+export interface CreancesSynthese {
+  montantDu: number;
+  montantPaye: number;
+  resteAPayer: number;
+  montantEnRetard: number;
+  parTranche: Record<TrancheAnciennete, number>;
+}
+
+export interface CreancesProjet extends CreancesSynthese {
+  projectId: string;
+  marcheNo: string;
+  objet: string;
+  decomptes: CreanceDecompte[];
+}
+
+export interface CreancesPortefeuille extends CreancesSynthese {
+  delaiPaiementJours: number;
+  projets: CreancesProjet[];
+}
+
+const MS_PAR_JOUR = 24 * 60 * 60 * 1000;
+
+export const getTrancheAnciennete = (jours: number): TrancheAnciennete =>
+  TRANCHES_ANCIENNETE.find(t => jours <= t.max)!.tranche;
+
+const emptySynthese = () => ({
+  montantDu: new Decimal(0),
+  montantPaye: new Decimal(0),
+  resteAPayer: new Decimal(0),
+  montantEnRetard: new Decimal(0),
+  parTranche: Object.fromEntries(
+    TRANCHES_ANCIENNETE.map(t => [t.tranche, new Decimal(0)])
+  ) as Record<TrancheAnciennete, Decimal>,
+});
+
+type SyntheseInterne = ReturnType<typeof emptySynthese>;
+
+const toSynthese = (s: SyntheseInterne): CreancesSynthese => ({
+  montantDu: toNumber(round2(s.montantDu)),
+  montantPaye: toNumber(round2(s.montantPaye)),
+  resteAPayer: toNumber(round2(s.resteAPayer)),
+  montantEnRetard: toNumber(round2(s.montantEnRetard)),
+  parTranche: Object.fromEntries(
+    Object.entries(s.parTranche).map(([tranche, montant]) => [tranche, toNumber(round2(montant))])
+  ) as Record<TrancheAnciennete, number>,
+});
+
+/**
+ * Créances par projet et pour tout le portefeuille (lignes: un décompte exigible chacune)
+ */
+export const calculateCreances = (rows: any[], dateReference: Date = new Date()): CreancesPortefeuille => {
+  const total = emptySynthese();
+  const projets = new Map<string, { info: any; synthese: SyntheseInterne; decomptes: CreanceDecompte[] }>();
+
+  for (const row of rows) {
+    const montant = toDecimal(row.montant_total);
+    const paye = toDecimal(row.montant_paye);
+    const reste = Decimal.max(montant.minus(paye), 0);
+
+    const dateExigibilite = row.date_exigibilite ? new Date(row.date_exigibilite) : null;
+    const joursEcoules = dateExigibilite
+      ? Math.max(0, Math.floor((dateReference.getTime() - dateExigibilite.getTime()) / MS_PAR_JOUR))
+      : 0;
+    const solde = reste.lessThanOrEqualTo(0);
+    const tranche = solde ? null : getTrancheAnciennete(joursEcoules);
+    const delai = Number(row.interets_moratoires?.delaiPaiementJours) || DELAI_PAIEMENT_JOURS;
+    const enRetard = !solde && joursEcoules > delai;
+
+    if (!projets.has(row.project_id)) {
+      projets.set(row.project_id, { info: row, synthese: emptySynthese(), decomptes: [] });
+    }
+    const projet = projets.get(row.project_id)!;
+
+    for (const s of [projet.synthese, total]) {
+      s.montantDu = s.montantDu.plus(montant);
+      s.montantPaye = s.montantPaye.plus(paye);
+      s.resteAPayer = s.resteAPayer.plus(reste);
+      if (enRetard) s.montantEnRetard = s.montantEnRetard.plus(reste);
+      if (tranche) s.parTranche[tranche] = s.parTranche[tranche].plus(reste);
+    }
+
+    projet.decomptes.push({
+      decomptId: row.id,
+      projectId: row.project_id,
+      numero: row.numero,
+      statut: row.statut,
+      montant: toNumber(round2(montant)),
+      montantPaye: toNumber(round2(paye)),
+      resteAPayer: toNumber(round2(reste)),
+      dateExigibilite: dateExigibilite ? dateExigibilite.toISOString() : null,
+      joursEcoules,
+      tranche,
+      enRetard,
+    });
+  }
+
+  return {
+    ...toSynthese(total),
+    delaiPaiementJours: DELAI_PAIEMENT_JOURS,
+    projets: [...projets.values()].map(({ info, synthese, decomptes }) => ({
+      ...toSynthese(synthese),
+      projectId: info.project_id,
+      marcheNo: info.marche_no,
+      objet: info.objet,
+      decomptes,
+    })),
+  };
+};
+
+/**
+ * Load the exigible décomptes of a user (optionally one project) with their payments
+ */
+export const getCreances = async (
+  db: Queryable,
+  userId: string,
+  projectId?: string | null
+): Promise<CreancesPortefeuille> => {
+  const result = await db.query(
+    `SELECT d.id, d.project_id, d.numero, d.statut, d.montant_total,
+            COALESCE(d.validated_at, d.date_decompte, d.created_at) AS date_exigibilite,
+            p.marche_no, p.objet, p.interets_moratoires,
+            COALESCE(SUM(pa.montant) FILTER (WHERE pa.deleted_at IS NULL), 0) AS montant_paye
+     FROM decompts d
+     INNER JOIN projects p ON d.project_id = p.id
+     LEFT JOIN paiements pa ON pa.decompt_id = d.id
+     WHERE p.user_id = $1 AND p.deleted_at IS NULL AND d.deleted_at IS NULL
+       AND d.statut = ANY($2) AND ($3::text IS NULL OR p.id::text = $3)
+     GROUP BY d.id, p.id
+     ORDER BY p.marche_no ASC, d.numero ASC`,
+    [userId, DECOMPTE_STATUTS_EXIGIBLES, projectId || null]
+  );
+
+  return calculateCreances(result.rows);
+};
@@ -0,0 +1,795 @@
+/**
+ * Décompte recalculation (server side)
+ * Rebuilds lignes, HT/TVA/TTC and the recap from the stored bordereau, métrés,
+ * avenants and project settings - same algorithm as PeriodeDecomptePage.
+ * The client amounts are compared to the server ones and the server ones are kept.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  Decimal,
+  toDecimal,
+  round2,
+  toNumber,
+  calculateTotalHTWithInternal,
+  calculateTVAWithInternal,
+  calculateTTCWithInternal,
+  calculateTVAParTaux,
+  calculateMontantMarcheTTC,
+  tauxTVALigne,
+  GroupeTVA,
+  calculateRevisionPrix,
+  calculatePenalitesRetard,
+  calculateRemboursementAvance,
+  calculateRecap,
+  PLAFOND_RETENUE_DEFAUT,
+  calculateAjustements,
+  AjustementCalcule,
+  calculateDepassements,
+  DepassementsResult,
+  toMois,
+  IndiceValeur,
+  RevisionResult,
+} from 'shared';
+
+type Queryable = Pool | PoolClient;
+
+export interface DecompteLigneCalculee {
+  prixNo: number;
+  designation: string;
+  unite: string;
+  quantiteBordereau: number;
+  quantiteRealisee: number;
+  prixUnitaireHT: number;
+  montantHT: number;
+  tauxTVA: number;
+  bordereauLigneId: string;
+}
+
+export interface DecompteRecapCalcule {
+  tauxTVA: number;
+  totalHT: number;
+  montantTVA: number;
+  totalTTC: number;
+  groupesTVA?: GroupeTVA[];
+  travauxTermines: number;
+  travauxNonTermines: number;
+  approvisionnements: number;
+  revisionPrix: number;
+  totalAvantRetenue: number;
+  retenueGarantie: number;
+  retenueRemplaceeParCaution?: number;
+  restitutionRetenue?: number;
+  resteAPayer: number;
+  depensesExercicesAnterieurs: number;
+  decomptesPrecedents?: number;
+  precedentsManuels?: boolean;
+  penalitesRetard: number;
+  penalitesJustification?: string;
+  remboursementAvance: number;
+  ajustements?: AjustementCalcule[];
+  totalADeduire: number;
+  montantAcompte: number;
+}
+
+export interface DecompteCalcule {
+  lignes: DecompteLigneCalculee[];
+  recap: DecompteRecapCalcule;
+}
+
+export interface ApprovisionnementCalcule {
+  id: string;
+  designation: string;
+  unite: string;
+  quantite: number;
+  prixUnitaire: number;
+  pourcentageAdmis: number;
+  montantHT: number;
+  periodeNumero: number;
+  incorporationNumero: number | null;
+}
+
+export interface ApprovisionnementsPeriode {
+  actifs: ApprovisionnementCalcule[];     // sur chantier à la fin de la période
+  deduits: ApprovisionnementCalcule[];    // payés avant, incorporés dans cette période
+  montantHT: number;
+  montantTTC: number;
+  montantDeduitHT: number;
+  _internals: { ttcInternal: Decimal };
+}
+
+export interface DecomptePrecedentDetail {
+  numero: number;
+  periodeNumero: number | null;
+  annee: number | null;
+  statut: string;
+  montant: number;
+  affectation: 'exercice_en_cours' | 'exercices_anterieurs' | 'exclu';
+}
+
+export interface DecomptesPrecedentsCalcul {
+  decomptesPrecedents: number;          // acomptes délivrés sur l'exercice en cours
+  depensesExercicesAnterieurs: number;  // acomptes imputés sur les exercices antérieurs
+  details: DecomptePrecedentDetail[];
+  _internals: { precedents: Decimal; anterieurs: Decimal };
+}
+
+export interface DecompteEcart {
+  champ: string;
+  client: number;
+  serveur: number;
+  difference: number;
+}
+
+export interface DecompteVerification {
+  status: 'conforme' | 'ecart' | 'non_calculable';
+  checkedAt: string;
+  client: { montantTotal: number; totalTTC: number };
+  serveur: { totalHT: number; montantTVA: number; totalTTC: number; montantAcompte: number } | null;
+  ecarts: DecompteEcart[];
+  lignesEcart: { prixNo: number; client: number; serveur: number }[];
+  erreurs: string[];
+}
+
+// Pénalités par défaut (même valeur que DEFAULT_PENALITES côté client)
+const DEFAULT_PENALITES = { tauxJournalier: 1, plafond: 8 };
+
+// Retenue de garantie par défaut (même valeur que DEFAULT_RETENUE_GARANTIE côté client)
+const DEFAULT_RETENUE_GARANTIE = { plafond: PLAFOND_RETENUE_DEFAUT };
+
+// Statuts dont les montants ne sont plus recalculés
+const DECOMPTE_STATUTS_FIGES = ['validated', 'paid'];
+
+// Seuls les décomptes validés / payés comptent dans les décomptes précédents
+const DECOMPTE_STATUTS_ACQUIS = ['validated', 'paid'];
+
+// ============== HELPERS ==============
+
+const cleanId = (id: string | null | undefined): string =>
+  id && id.includes(':') ? id.split(':').pop()! : id || '';
+
+const toDate = (value: string | Date | null | undefined): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : new Date(value.getTime());
+  // YYYY-MM-DD → minuit local (comme parseISO)
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const date = match ? new Date(+match[1], +match[2] - 1, +match[3]) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toDateKey = (value: string | Date | null | undefined): string => {
+  const date = toDate(value);
+  if (!date) return '';
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getTime());
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date.getTime());
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const differenceInDays = (later: Date, earlier: Date): number => {
+  const offset = (earlier.getTimezoneOffset() - later.getTimezoneOffset()) * 60000;
+  return Math.trunc((later.getTime() - earlier.getTime() + offset) / 86400000);
+};
+
+/**
+ * Jours de retard à une date de référence (même règle que utils/delais.ts côté client)
+ */
+const calculateJoursRetard = (project: any, dateReference: string | Date): number => {
+  const osc = toDate(project.osc);
+  const delaiMois = (Number(project.delais_execution) || 0) + (Number(project.delai_avenants) || 0);
+  if (!osc || delaiMois === 0) return 0;
+
+  const joursArret = (Array.isArray(project.arrets) ? project.arrets : []).reduce((total: number, arret: any) => {
+    const start = toDate(arret?.dateArret);
+    const end = toDate(arret?.dateReprise);
+    return start && end ? total + differenceInDays(end, start) : total;
+  }, 0);
+  const dateFinEffective = addDays(addMonths(osc, delaiMois), joursArret);
+
+  let reference = toDate(dateReference);
+  const achevement = toDate(project.achevement_travaux);
+  if (achevement && reference && achevement < reference) {
+    reference = achevement;
+  }
+  if (!reference) return 0;
+
+  return Math.max(0, differenceInDays(reference, dateFinEffective));
+};
+
+/**
+ * Bordereau en vigueur: avenants signés au plus tard à la fin de la période
+ */
+const applyAvenants = (lignes: any[], avenants: any[], dateFin: string | Date | null): any[] => {
+  const version = lignes.map(l => ({ ...l }));
+  const limite = toDateKey(dateFin);
+
+  for (const avenant of avenants) {
+    const dateAvenant = toDateKey(avenant.date_avenant);
+    if (limite && dateAvenant && dateAvenant > limite) continue;
+
+    for (const modif of avenant.lignes || []) {
+      // Numéros enregistrés en texte avant la validation des avenants
+      const existante = version.find(l => Number(l.numero) === Number(modif.numero));
+      if (modif.type === 'modification' && existante) {
+        existante.quantite = Number(modif.quantite) || 0;
+      } else if (modif.type === 'prix_nouveau' && !existante) {
+        version.push({
+          numero: Number(modif.numero),
+          designation: modif.designation || '',
+          unite: modif.unite || '',
+          quantite: Number(modif.quantite) || 0,
+          prixUnitaire: Number(modif.prixUnitaire) || 0,
+          tauxTVA: modif.tauxTVA ?? null,
+        });
+      }
+    }
+  }
+  return version.sort((a, b) => a.numero - b.numero);
+};
+
+const metreTotal = (metre: any): number => {
+  const lignes = Array.isArray(metre.lignes) ? metre.lignes : [];
+  return lignes.length > 0
+    ? lignes.reduce((sum: number, l: any) => sum + (Number(l.partiel) || 0), 0)
+    : Number(metre.total_partiel) || 0;
+};
+
+// ============== APPROVISIONNEMENTS ==============
+
+/**
+ * Approvisionnements d'une période (même règle que utils/approvisionnements.ts côté client)
+ * Un approvisionnement compte de sa période de constat jusqu'à la période de son
+ * incorporation (exclue): il est alors déduit puisqu'il passe dans les travaux
+ */
+export const calculateApprovisionnementsPeriode = (
+  rows: any[],
+  periodes: { id: string; numero: number }[],
+  numero: number,
+  tauxTVA: number
+): ApprovisionnementsPeriode => {
+  const numeroPeriode = (id: string | null | undefined): number | null => {
+    if (!id) return null;
+    const found = periodes.find(p => p.id === cleanId(id));
+    return found ? found.numero : null;
+  };
+
+  const actifs: ApprovisionnementCalcule[] = [];
+  const deduits: ApprovisionnementCalcule[] = [];
+  let htInternal = new Decimal(0);
+  let deduitInternal = new Decimal(0);
+
+  for (const row of rows) {
+    const periodeNumero = numeroPeriode(row.periode_id);
+    if (periodeNumero === null || periodeNumero > numero) continue;
+    const incorporationNumero = numeroPeriode(row.periode_incorporation_id);
+
+    const montantInternal = toDecimal(row.quantite)
+      .times(toDecimal(row.prix_unitaire))
+      .times(toDecimal(row.pourcentage_admis))
+      .dividedBy(100);
+    const appro: ApprovisionnementCalcule = {
+      id: row.id,
+      designation: row.designation,
+      unite: row.unite || '',
+      quantite: Number(row.quantite) || 0,
+      prixUnitaire: Number(row.prix_unitaire) || 0,
+      pourcentageAdmis: Number(row.pourcentage_admis) || 0,
+      montantHT: toNumber(round2(montantInternal)),
+      periodeNumero,
+      incorporationNumero,
+    };
+
+    if (incorporationNumero === null || incorporationNumero > numero) {
+      actifs.push(appro);
+      htInternal = htInternal.plus(montantInternal);
+    } else if (incorporationNumero === numero && periodeNumero < numero) {
+      deduits.push(appro);
+      deduitInternal = deduitInternal.plus(montantInternal);
+    }
+  }
+
+  const tva = calculateTVAWithInternal(htInternal, tauxTVA);
+  const ttc = calculateTTCWithInternal(htInternal, toDecimal(tva.display));
+
+  return {
+    actifs,
+    deduits,
+    montantHT: toNumber(round2(htInternal)),
+    montantTTC: ttc.display,
+    montantDeduitHT: toNumber(round2(deduitInternal)),
+    _internals: { ttcInternal: ttc.internal },
+  };
+};
+
+/**
+ * Approvisionnements d'une période chargés depuis la base (PDF, rapport)
+ */
+export const getApprovisionnementsPeriode = async (
+  db: Queryable,
+  projectId: string,
+  periodeId: string
+): Promise<ApprovisionnementsPeriode | null> => {
+  const periodesResult = await db.query(
+    `SELECT id, numero, taux_tva FROM periodes WHERE project_id = $1 AND deleted_at IS NULL`,
+    [projectId]
+  );
+  const periode = periodesResult.rows.find(p => p.id === cleanId(periodeId));
+  if (!periode) return null;
+
+  const approsResult = await db.query(
+    `SELECT * FROM approvisionnements WHERE project_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC`,
+    [projectId]
+  );
+  return calculateApprovisionnementsPeriode(
+    approsResult.rows,
+    periodesResult.rows,
+    periode.numero,
+    Number(periode.taux_tva) || 20
+  );
+};
+
+// ============== CALCULATION ==============
+
+/**
+ * Décomptes précédents répartis par exercice (année budgétaire de la période)
+ * Décomptes de numéro inférieur au numéro du décompte (et non de la période)
+ * ⚠️ Même règle côté client: frontend-web/src/utils/decomptesPrecedents.ts
+ */
+export const calculateDecomptesPrecedents = (
+  rows: { numero: number; montant_total: any; statut?: string | null; periode_numero?: number | null; date_debut?: any }[],
+  anneePeriode: number | null
+): DecomptesPrecedentsCalcul => {
+  let precedents = new Decimal(0);
+  let anterieurs = new Decimal(0);
+
+  const details: DecomptePrecedentDetail[] = rows.map(row => {
+    const annee = toDate(row.date_debut)?.getFullYear() ?? null;
+    const statut = row.statut || 'draft';
+    const montant = toDecimal(row.montant_total);
+
+    let affectation: DecomptePrecedentDetail['affectation'] = 'exclu';
+    if (DECOMPTE_STATUTS_ACQUIS.includes(statut) && annee !== null && anneePeriode !== null) {
+      if (annee < anneePeriode) {
+        affectation = 'exercices_anterieurs';
+        anterieurs = anterieurs.plus(montant);
+      } else if (annee === anneePeriode) {
+        affectation = 'exercice_en_cours';
+        precedents = precedents.plus(montant);
+      }
+    }
+
+    return {
+      numero: row.numero,
+      periodeNumero: row.periode_numero ?? null,
+      annee,
+      statut,
+      montant: toNumber(round2(montant)),
+      affectation,
+    };
+  });
+
+  return {
+    decomptesPrecedents: toNumber(round2(precedents)),
+    depensesExercicesAnterieurs: toNumber(round2(anterieurs)),
+    details,
+    _internals: { precedents, anterieurs },
+  };
+};
+
+/**
+ * Recalcule un décompte à partir des données stockées
+ * Throws when the décompte cannot be computed (période or bordereau missing)
+ */
+export const calculateDecompteServeur = async (db: Queryable, decompt: any): Promise<DecompteCalcule> => {
+  const projectResult = await db.query(
+    `SELECT p.*, (
+       SELECT COALESCE(SUM(a.delai_supplementaire), 0) FROM avenants a
+       WHERE a.project_id = p.id AND a.deleted_at IS NULL
+     ) AS delai_avenants
+     FROM projects p WHERE p.id = $1`,
+    [decompt.project_id]
+  );
+  const project = projectResult.rows[0];
+  if (!project) throw new Error('Project not found');
+
+  const periodesResult = await db.query(
+    `SELECT * FROM periodes WHERE project_id = $1 AND deleted_at IS NULL ORDER BY numero ASC`,
+    [decompt.project_id]
+  );
+  const periodes = periodesResult.rows;
+  const currentIndex = periodes.findIndex(p => p.id === cleanId(decompt.periode_id));
+  if (currentIndex === -1) throw new Error('Période not found for this décompte');
+  const periode = periodes[currentIndex];
+
+  const bordereauResult = await db.query(
+    `SELECT * FROM bordereaux WHERE project_id = $1 AND deleted_at IS NULL ORDER BY created_at DESC LIMIT 1`,
+    [decompt.project_id]
+  );
+  const bordereau = bordereauResult.rows[0];
+  if (!bordereau) throw new Error('No bordereau for this project');
+
+  const [metresResult, avenantsResult, precedentsResult, approsResult] = await Promise.all([
+    db.query(
+      `SELECT periode_id, bordereau_ligne_id, lignes, total_partiel FROM metres
+       WHERE project_id = $1 AND deleted_at IS NULL`,
+      [decompt.project_id]
+    ),
+    db.query(
+      `SELECT numero, date_avenant, lignes FROM avenants
+       WHERE project_id = $1 AND deleted_at IS NULL ORDER BY numero ASC`,
+      [decompt.project_id]
+    ),
+    db.query(
+      `SELECT d.numero, d.montant_total, d.statut, pe.numero AS periode_numero, pe.date_debut FROM decompts d
+       LEFT JOIN periodes pe ON d.periode_id = pe.id
+       WHERE d.project_id = $1 AND d.numero < $2 AND d.deleted_at IS NULL
+       ORDER BY d.numero ASC`,
+      [decompt.project_id, decompt.numero]
+    ),
+    db.query(
+      `SELECT * FROM approvisionnements WHERE project_id = $1 AND deleted_at IS NULL ORDER BY created_at ASC`,
+      [decompt.project_id]
+    ),
+  ]);
+  const metres = metresResult.rows;
+
+  const bordereauId = cleanId(bordereau.id);
+  const lignesVersion = applyAvenants(bordereau.lignes || [], avenantsResult.rows, periode.date_fin);
+  const ligneKey = (numero: number) => `${bordereauId}-ligne-${numero}`;
+
+  // 1. Quantités cumulées: toutes les périodes jusqu'à la période courante
+  const relevantPeriodeIds = new Set(periodes.slice(0, currentIndex + 1).map(p => p.id));
+  const cumul = new Map<string, number>();
+  for (const metre of metres) {
+    if (!relevantPeriodeIds.has(cleanId(metre.periode_id))) continue;
+    const key = cleanId(metre.bordereau_ligne_id);
+    cumul.set(key, (cumul.get(key) || 0) + metreTotal(metre));
+  }
+
+  const tauxTVA = Number(periode.taux_tva) || 20;
+  const lignes: DecompteLigneCalculee[] = lignesVersion.map(ligne => {
+    const quantiteRealisee = Number((cumul.get(ligneKey(ligne.numero)) || 0).toFixed(2));
+    const prixUnitaireHT = Number(ligne.prixUnitaire) || 0;
+    return {
+      prixNo: ligne.numero,
+      designation: ligne.designation,
+      unite: ligne.unite,
+      quantiteBordereau: Number(ligne.quantite) || 0,
+      quantiteRealisee,
+      prixUnitaireHT,
+      montantHT: toNumber(round2(toDecimal(quantiteRealisee).times(toDecimal(prixUnitaireHT)))),
+      tauxTVA: tauxTVALigne(ligne.tauxTVA, tauxTVA),
+      bordereauLigneId: ligneKey(ligne.numero),
+    };
+  });
+
+  // 2. HT / TVA / TTC (TVA par taux: chaque ligne porte son taux)
+  const { totalHT, montantTVA, totalTTC: ttc, groupes: groupesTVA } = calculateTVAParTaux(lignes, tauxTVA);
+
+  // 3. Révision des prix (HT cumulé période par période)
+  let revision: RevisionResult | null = null;
+  const formule = project.revision_prix;
+  if (formule?.actif) {
+    const indicesResult = await db.query(
+      `SELECT code, mois, valeur FROM indices_prix WHERE user_id = $1`,
+      [project.user_id]
+    );
+    const indices: IndiceValeur[] = indicesResult.rows.map(row => ({
+      code: row.code,
+      mois: row.mois,
+      valeur: Number(row.valeur),
+    }));
+
+    const cumulTranche = new Map<string, number>();
+    const tranches = periodes.slice(0, currentIndex + 1).map(p => {
+      for (const metre of metres) {
+        if (cleanId(metre.periode_id) !== p.id) continue;
+        const key = cleanId(metre.bordereau_ligne_id);
+        cumulTranche.set(key, (cumulTranche.get(key) || 0) + metreTotal(metre));
+      }
+      const htCumul = calculateTotalHTWithInternal(
+        lignesVersion.map(ligne => ({
+          quantiteRealisee: Number((cumulTranche.get(ligneKey(ligne.numero)) || 0).toFixed(2)),
+          prixUnitaireHT: Number(ligne.prixUnitaire) || 0,
+        }))
+      );
+      return {
+        libelle: p.libelle || `Période ${p.numero}`,
+        mois: toMois(p.date_fin),
+        travauxHTCumulInternal: htCumul.internal,
+      };
+    });
+    revision = calculateRevisionPrix(formule, indices, tranches, tauxTVA);
+  }
+
+  // 4. Montant du marché HT / TTC (bordereau en vigueur)
+  const montantMarcheHT = lignesVersion.reduce(
+    (total, ligne) => total.plus(toDecimal(ligne.quantite).times(toDecimal(ligne.prixUnitaire))),
+    new Decimal(0)
+  );
+  const montantMarcheTTC = calculateMontantMarcheTTC(lignesVersion);
+
+  // 5. Pénalités de retard
+  const configPenalites = project.penalites || DEFAULT_PENALITES;
+  const penalites = calculatePenalitesRetard({
+    joursRetard: periode.date_fin ? calculateJoursRetard(project, periode.date_fin) : 0,
+    montantMarche: montantMarcheTTC,
+    tauxJournalier: configPenalites.tauxJournalier,
+    plafond: configPenalites.plafond,
+    montantRetenu: configPenalites.montantRetenu,
+    justification: configPenalites.justification,
+  });
+
+  // 6. Approvisionnements sur chantier (TTC)
+  const approvisionnements = calculateApprovisionnementsPeriode(
+    approsResult.rows,
+    periodes,
+    periode.numero,
+    tauxTVA
+  );
+
+  // 7. Remboursement de l'avance (cumul, selon le taux d'exécution HT)
+  const avance = project.avance;
+  const remboursementAvance = avance?.montant
+    ? calculateRemboursementAvance({
+        montantAvance: avance.montant,
+        debutRemboursement: Number(avance.debutRemboursement) || 0,
+        finRemboursement: Number(avance.finRemboursement) || 0,
+        travauxHTCumul: totalHT.internal,
+        montantMarcheHT,
+      }).montantRembourse
+    : 0;
+
+  // 8. Décomptes précédents: exercice en cours / exercices antérieurs
+  // Calculés depuis les décomptes validés, sauf saisie manuelle explicitement déverrouillée
+  const precedentsManuels = !!periode.precedents_manuels;
+  const historique = calculateDecomptesPrecedents(
+    precedentsResult.rows,
+    toDate(periode.date_debut)?.getFullYear() ?? null
+  );
+  const anterieurs = precedentsManuels
+    ? toDecimal(periode.depenses_exercices_anterieurs)
+    : historique._internals.anterieurs;
+  const precedents = precedentsManuels
+    ? toDecimal(periode.decomptes_precedents)
+    : historique._internals.precedents;
+
+  // 9. Déductions / additions diverses (marché + périodes jusqu'à la période courante)
+  const ajustements = calculateAjustements({
+    marche: project.ajustements,
+    periodes: periodes.slice(0, currentIndex + 1),
+    periodeNumero: periode.numero,
+    baseHT: totalHT.internal,
+    baseTTC: ttc.internal,
+  });
+
+  // 10. Récapitulatif (calculateRecap, comme PeriodeDecomptePage)
+  const isDernier = !!periode.is_decompte_dernier;
+  const configRetenue = project.retenue_garantie || DEFAULT_RETENUE_GARANTIE;
+  const recap = calculateRecap({
+    totalTTC: ttc.display,
+    totalTTCInternal: ttc.internal,
+    isDecompteDernier: isDernier,
+    revisionPrixTTCInternal: revision?._internals.revisionTTCInternal,
+    // La retenue de garantie ne porte pas sur les approvisionnements
+    approvisionnementsTTCInternal: approvisionnements._internals.ttcInternal,
+    tauxRetenue: periode.taux_retenue !== null && periode.taux_retenue !== undefined
+      ? Number(periode.taux_retenue)
+      : 10,
+    montantMarcheTTC,
+    plafondRetenue: configRetenue.plafond,
+    montantCaution: Number(configRetenue.caution?.montant) || 0,
+    // Restituée sur le décompte dernier une fois la réception définitive prononcée
+    restitutionRetenue: !!project.date_reception_definitive,
+    depensesExercicesAnterieurs: anterieurs,
+    decomptesPrecedents: precedents,
+    penalitesRetard: penalites.montantRetenu,
+    remboursementAvance,
+    ajustements,
+  });
+
+  return {
+    lignes,
+    recap: {
+      tauxTVA,
+      totalHT: totalHT.display,
+      montantTVA,
+      totalTTC: ttc.display,
+      groupesTVA,
+      travauxTermines: recap.travauxTermines,
+      travauxNonTermines: recap.travauxNonTermines,
+      approvisionnements: recap.approvisionnements,
+      revisionPrix: recap.revisionPrix,
+      totalAvantRetenue: recap.totalAvantRetenue,
+      retenueGarantie: recap.retenueGarantie,
+      retenueRemplaceeParCaution: recap.retenueRemplaceeParCaution,
+      restitutionRetenue: recap.restitutionRetenue,
+      resteAPayer: recap.resteAPayer,
+      depensesExercicesAnterieurs: recap.depensesExercicesAnterieurs,
+      decomptesPrecedents: recap.decomptesPrecedents,
+      precedentsManuels,
+      penalitesRetard: recap.penalitesRetard,
+      penalitesJustification: penalites.justification,
+      remboursementAvance: recap.remboursementAvance,
+      ajustements: recap.ajustements,
+      totalADeduire: recap.totalADeduire,
+      montantAcompte: recap.montantAcompte,
+    },
+  };
+};
+
+// ============== VERIFICATION ==============
+
+const ecart = (champ: string, client: number, serveur: number): DecompteEcart | null => {
+  const difference = toNumber(round2(toDecimal(serveur).minus(toDecimal(client))));
+  return difference === 0 ? null : { champ, client, serveur, difference };
+};
+
+/**
+ * Compare the stored (client) amounts of a décompte with the server calculation
+ */
+export const verifyDecompte = async (
+  db: Queryable,
+  decompt: any
+): Promise<{ verification: DecompteVerification; calcul: DecompteCalcule | null }> => {
+  const client = {
+    montantTotal: Number(decompt.montant_total) || 0,
+    totalTTC: Number(decompt.total_ttc) || 0,
+  };
+
+  let calcul: DecompteCalcule;
+  try {
+    calcul = await calculateDecompteServeur(db, decompt);
+  } catch (error: any) {
+    return {
+      calcul: null,
+      verification: {
+        status: 'non_calculable',
+        checkedAt: new Date().toISOString(),
+        client,
+        serveur: null,
+        ecarts: [],
+        lignesEcart: [],
+        erreurs: [error.message],
+      },
+    };
+  }
+
+  const ecarts = [
+    ecart('montantTotal', client.montantTotal, calcul.recap.montantAcompte),
+    ecart('totalTTC', client.totalTTC, calcul.recap.totalTTC),
+  ].filter((e): e is DecompteEcart => e !== null);
+
+  const lignesClient: any[] = Array.isArray(decompt.lignes) ? decompt.lignes : [];
+  const lignesEcart = calcul.lignes
+    .map(ligne => {
+      const clientLigne = lignesClient.find(l => l.prixNo === ligne.prixNo);
+      const quantiteClient = Number(clientLigne?.quantiteRealisee) || 0;
+      return { prixNo: ligne.prixNo, client: quantiteClient, serveur: ligne.quantiteRealisee };
+    })
+    .filter(l => toNumber(round2(toDecimal(l.serveur).minus(toDecimal(l.client)))) !== 0);
+
+  return {
+    calcul,
+    verification: {
+      status: ecarts.length > 0 || lignesEcart.length > 0 ? 'ecart' : 'conforme',
+      checkedAt: new Date().toISOString(),
+      client,
+      serveur: {
+        totalHT: calcul.recap.totalHT,
+        montantTVA: calcul.recap.montantTVA,
+        totalTTC: calcul.recap.totalTTC,
+        montantAcompte: calcul.recap.montantAcompte,
+      },
+      ecarts,
+      lignesEcart,
+      erreurs: [],
+    },
+  };
+};
+
+/**
+ * Recalculate a décompte after a create/update and persist the server amounts
+ * The client values are kept in the verification report when they differ
+ */
+export const recalculateDecompte = async (db: Queryable, decomptId: string): Promise<DecompteVerification | null> => {
+  const result = await db.query(
+    `SELECT * FROM decompts WHERE id = $1 AND deleted_at IS NULL`,
+    [decomptId]
+  );
+  if (result.rows.length === 0) return null;
+
+  // 🔒 Décompte validé / payé: montants figés (réouverture par un admin pour recalculer)
+  if (DECOMPTE_STATUTS_FIGES.includes(result.rows[0].statut)) {
+    return result.rows[0].verification || null;
+  }
+
+  const { verification, calcul } = await verifyDecompte(db, result.rows[0]);
+
+  if (calcul) {
+    await db.query(
+      `UPDATE decompts SET
+        lignes = $1, montant_total = $2, total_ttc = $3, recap = $4, verification = $5, updated_at = NOW()
+       WHERE id = $6`,
+      [
+        JSON.stringify(calcul.lignes),
+        calcul.recap.montantAcompte,
+        calcul.recap.totalTTC,
+        JSON.stringify(calcul.recap),
+        JSON.stringify(verification),
+        decomptId,
+      ]
+    );
+  } else {
+    await db.query(
+      `UPDATE decompts SET verification = $1 WHERE id = $2`,
+      [JSON.stringify(verification), decomptId]
+    );
+  }
+
+  return verification;
+};
+
+/**
+ * Recalculate every décompte of a project in numero order
+ * (each décompte depends on the montant_total of the previous ones)
+ */
+export const recalculateProjectDecomptes = async (db: Queryable, projectId: string): Promise<void> => {
+  const result = await db.query(
+    `SELECT id FROM decompts WHERE project_id = $1 AND deleted_at IS NULL ORDER BY numero ASC`,
+    [projectId]
+  );
+  for (const row of result.rows) {
+    await recalculateDecompte(db, row.id);
+  }
+};
+
+/**
+ * Décomptes to recalculate after a métré, période or bordereau change, in numero order:
+ * those of the given périodes and of the following ones (cumulated quantities),
+ * every décompte of the project when periodeIds is null. Validated / paid ones are left out
+ */
+export const getDecomptesARecalculer = async (
+  db: Queryable,
+  projectId: string,
+  periodeIds: string[] | null
+): Promise<string[]> => {
+  const result = await db.query(
+    `SELECT d.id FROM decompts d
+     JOIN periodes p ON p.id = d.periode_id
+     WHERE d.project_id = $1 AND d.deleted_at IS NULL
+       AND NOT (COALESCE(d.statut, '') = ANY($2::text[]))
+       AND ($3::text[] IS NULL OR p.numero >= (SELECT MIN(numero) FROM periodes WHERE id::text = ANY($3::text[])))
+     ORDER BY d.numero ASC`,
+    [projectId, DECOMPTE_STATUTS_FIGES, periodeIds]
+  );
+  return result.rows.map((row: any) => row.id);
+};
+
+// ============== DÉPASSEMENTS ==============
+
+/**
+ * Quantity overruns of a décompte (server quantities, bordereau in force at the end of the période)
+ * checked against the justifications recorded on the project
+ */
+export const calculateDepassementsDecompte = async (db: Queryable, decompt: any): Promise<DepassementsResult> => {
+  const { lignes } = await calculateDecompteServeur(db, decompt);
+  const projectResult = await db.query(
+    `SELECT justifications_depassement FROM projects WHERE id = $1`,
+    [decompt.project_id]
+  );
+  return calculateDepassements(lignes, projectResult.rows[0]?.justifications_depassement || {});
+};
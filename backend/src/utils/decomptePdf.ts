@@ -0,0 +1,637 @@
+/**
+ * Décompte PDF rendering (server side)
+ * Same layout as the client export (frontend-web/src/utils/decomptePdfExport.ts):
+ * page 1 = header + prestations, page 2 = décomptes précédents + récapitulation
+ */
+
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { libelleAjustement, montantEnLettres, type LangueMontantLettres } from 'shared';
+import logger from './logger';
+
+export interface DecomptePdfLigne {
+  prixNo: number;
+  designation: string;
+  unite: string;
+  quantiteRealisee: number;
+  prixUnitaireHT: number;
+}
+
+export interface DecomptePdfGroupeTVA {
+  taux: number;
+  totalHT: number;
+  montantTVA: number;
+}
+
+export interface DecomptePdfAjustement {
+  libelle: string;
+  sens: 'deduction' | 'addition';
+  base: 'HT' | 'TTC';
+  taux: number | null;
+  montant: number;
+}
+
+export interface DecomptePdfRecap {
+  tauxTVA: number;
+  totalHT: number;
+  montantTVA: number;
+  totalTTC: number;
+  groupesTVA?: DecomptePdfGroupeTVA[];
+  travauxTermines: number;
+  travauxNonTermines: number;
+  approvisionnements: number;
+  revisionPrix?: number;
+  totalAvantRetenue: number;
+  retenueGarantie: number;
+  retenueRemplaceeParCaution?: number;
+  restitutionRetenue?: number;
+  resteAPayer: number;
+  depensesExercicesAnterieurs: number;
+  penalitesRetard?: number;
+  penalitesJustification?: string;
+  remboursementAvance?: number;
+  ajustements?: DecomptePdfAjustement[];
+  totalADeduire: number;
+  montantAcompte: number;
+}
+
+export interface DecomptePdfPrecedent {
+  numero: number;
+  date: string;
+  montant: number;
+  isDecompteDernier?: boolean;
+}
+
+export interface DecomptePdfApprovisionnement {
+  designation: string;
+  unite: string;
+  quantite: number;
+  prixUnitaire: number;
+  pourcentageAdmis: number;
+  montantHT: number;
+}
+
+export interface DecomptePdfData {
+  project: {
+    marcheNo?: string;
+    objet?: string;
+    annee?: string;
+    chapitre?: string;
+    programme?: string;
+    projet?: string;
+    ligne?: string;
+    typeMarche?: string;
+    societe?: string;
+    rc?: string;
+    cb?: string;
+    cnss?: string;
+    patente?: string;
+    osc?: string | Date | null;
+    delaisExecution?: number;
+    langueMontantLettres?: LangueMontantLettres;
+  };
+  periode: {
+    numero: number;
+    dateFin: string | Date;
+    isDecompteDernier?: boolean;
+  };
+  lignes: DecomptePdfLigne[];
+  recap: DecomptePdfRecap;
+  precedents: DecomptePdfPrecedent[];
+  approvisionnements?: DecomptePdfApprovisionnement[];
+}
+
+// ============== FORMATTING ==============
+
+const toNum = (value: any): number => Number(value) || 0;
+
+/**
+ * 1 234,56 - standard PDF fonts cannot render the narrow no-break space of fr-MA
+ */
+export const formatMontant = (value: number | null | undefined): string => {
+  return toNum(value)
+    .toLocaleString('fr-MA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    .replace(/\s/g, ' ');
+};
+
+const fixed2 = (value: number | null | undefined): string => toNum(value).toFixed(2);
+
+// Ligne de TVA d'un groupe de taux (marchés mixtes)
+const libelleGroupeTVA = (groupe: DecomptePdfGroupeTVA): string =>
+  groupe.taux === 0
+    ? `Exonéré de TVA (base ${formatMontant(groupe.totalHT)})`
+    : `TVA ${groupe.taux}% sur ${formatMontant(groupe.totalHT)}`;
+
+export const formatDateFr = (value: string | Date | null | undefined): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  const dd = String(date.getDate()).padStart(2, '0');
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  return `${dd}/${mm}/${date.getFullYear()}`;
+};
+
+// ============== MONTANT EN LETTRES ==============
+
+// 🔤 Helvetica n'a pas de glyphes arabes: police TTF (PDF_ARABIC_FONT, sinon polices système)
+const ARABIC_FONT_CANDIDATES = [
+  process.env.PDF_ARABIC_FONT,
+  '/usr/share/fonts/noto/NotoNaskhArabic-Regular.ttf',
+  '/usr/share/fonts/truetype/noto/NotoNaskhArabic-Regular.ttf',
+  '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+];
+const ARABIC_FONT = 'Arabic';
+
+let arabicFontPath: string | null | undefined;
+const getArabicFontPath = (): string | null => {
+  if (arabicFontPath === undefined) {
+    arabicFontPath = ARABIC_FONT_CANDIDATES.find((p): p is string => !!p && fs.existsSync(p)) ?? null;
+    if (!arabicFontPath) {
+      logger.warn('PDF: no Arabic font found (set PDF_ARABIC_FONT), amounts in words fall back to French');
+    }
+  }
+  return arabicFontPath;
+};
+
+export interface MontantEnLettresPdf {
+  montant: number;
+  langue?: LangueMontantLettres;
+  libelleFr: string;         // "Arrêté ... à la somme de:"
+  libelleAr: string;         // "حصر ... في مبلغ:"
+}
+
+// Paragraphes à écrire: français aligné à gauche, arabe aligné à droite (police arabe)
+const paragraphesMontant = (
+  doc: PDFKit.PDFDocument,
+  m: MontantEnLettresPdf
+): { text: string; font: string; align: Align }[] => {
+  const fontPath = m.langue && m.langue !== 'fr' ? getArabicFontPath() : null;
+  // ⚠️ Sans police arabe, l'arabe sortirait en carrés vides: repli sur le français
+  const { fr, ar } = montantEnLettres(m.montant, fontPath ? m.langue : 'fr');
+  if (ar && fontPath) doc.registerFont(ARABIC_FONT, fontPath);
+  return [
+    ...(fr ? [{ text: `${m.libelleFr} ${fr}`, font: 'Helvetica', align: 'left' as Align }] : []),
+    ...(ar ? [{ text: `${m.libelleAr} ${ar}`, font: ARABIC_FONT, align: 'right' as Align }] : []),
+  ];
+};
+
+const PARAGRAPHE_GAP = 4;
+
+/**
+ * Hauteur du montant en lettres à la taille de police courante
+ */
+export const heightOfMontantEnLettres = (doc: PDFKit.PDFDocument, m: MontantEnLettresPdf, width: number): number => {
+  const paragraphes = paragraphesMontant(doc, m);
+  const height = paragraphes.reduce(
+    (total, p) => total + doc.font(p.font).heightOfString(p.text, { width, align: p.align }),
+    PARAGRAPHE_GAP * (paragraphes.length - 1)
+  );
+  doc.font('Helvetica');
+  return height;
+};
+
+/**
+ * Montant en lettres (langue du projet), renvoie la hauteur écrite
+ */
+export const drawMontantEnLettres = (
+  doc: PDFKit.PDFDocument,
+  m: MontantEnLettresPdf,
+  x: number,
+  y: number,
+  width: number
+): number => {
+  let cursor = y;
+  for (const p of paragraphesMontant(doc, m)) {
+    doc.font(p.font).text(p.text, x, cursor, { width, align: p.align });
+    cursor += doc.heightOfString(p.text, { width, align: p.align }) + PARAGRAPHE_GAP;
+  }
+  doc.font('Helvetica');
+  return cursor - y - PARAGRAPHE_GAP;
+};
+
+// ============== TABLE DRAWING ==============
+
+export type Align = 'left' | 'center' | 'right';
+
+export interface TableCell {
+  text: string;
+  colSpan?: number;
+  align?: Align;
+  bold?: boolean;
+  noBorder?: boolean;
+}
+
+export interface TableOptions {
+  x: number;
+  widths: number[];
+  aligns: Align[];
+  fontSize: number;
+  padding: number;
+}
+
+export const MARGIN = 28;           // ~10 mm
+const LINE_COLOR = '#c8c8c8';
+const HEAD_FILL = '#f0f0f0';
+
+const toCells = (row: (TableCell | string)[]): TableCell[] =>
+  row.map(c => (typeof c === 'string' ? { text: c } : c));
+
+const rowHeight = (doc: PDFKit.PDFDocument, cells: TableCell[], opts: TableOptions, bold: boolean): number => {
+  let col = 0;
+  let height = 0;
+  for (const cell of cells) {
+    const span = cell.colSpan || 1;
+    const width = opts.widths.slice(col, col + span).reduce((a, b) => a + b, 0);
+    doc.font(cell.bold || bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(opts.fontSize);
+    height = Math.max(height, doc.heightOfString(cell.text || ' ', { width: width - 2 * opts.padding }));
+    col += span;
+  }
+  return height + 2 * opts.padding;
+};
+
+const drawRow = (
+  doc: PDFKit.PDFDocument,
+  y: number,
+  cells: TableCell[],
+  opts: TableOptions,
+  style: { bold?: boolean; fill?: string } = {}
+): number => {
+  const height = rowHeight(doc, cells, opts, !!style.bold);
+  let x = opts.x;
+  let col = 0;
+
+  for (const cell of cells) {
+    const span = cell.colSpan || 1;
+    const width = opts.widths.slice(col, col + span).reduce((a, b) => a + b, 0);
+
+    if (style.fill) {
+      doc.rect(x, y, width, height).fill(style.fill);
+    }
+    if (!cell.noBorder) {
+      doc.lineWidth(0.3).strokeColor(LINE_COLOR).rect(x, y, width, height).stroke();
+    }
+    doc.fillColor('black')
+      .font(cell.bold || style.bold ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(opts.fontSize)
+      .text(cell.text, x + opts.padding, y + opts.padding, {
+        width: width - 2 * opts.padding,
+        align: cell.align || opts.aligns[col],
+      });
+
+    x += width;
+    col += span;
+  }
+  return y + height;
+};
+
+/**
+ * Grid table with repeated header on page break
+ */
+export const drawTable = (
+  doc: PDFKit.PDFDocument,
+  startY: number,
+  opts: TableOptions,
+  head: string[],
+  body: (TableCell | string)[][],
+  foot: (TableCell | string)[][]
+): number => {
+  const pageBottom = doc.page.height - MARGIN;
+  const headCells = head.map(text => ({ text, align: 'center' as Align }));
+  let y = drawRow(doc, startY, headCells, opts, { bold: true, fill: HEAD_FILL });
+
+  for (const row of body) {
+    const cells = toCells(row);
+    if (y + rowHeight(doc, cells, opts, false) > pageBottom) {
+      doc.addPage();
+      y = drawRow(doc, MARGIN, headCells, opts, { bold: true, fill: HEAD_FILL });
+    }
+    y = drawRow(doc, y, cells, opts);
+  }
+
+  for (const row of foot) {
+    const cells = toCells(row);
+    if (y + rowHeight(doc, cells, opts, true) > pageBottom) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    y = drawRow(doc, y, cells, opts);
+  }
+  return y;
+};
+
+// ============== DOCUMENT ==============
+
+/**
+ * Render the décompte provisoire to a PDF file
+ */
+export const renderDecomptePdf = (filePath: string, data: DecomptePdfData): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    try {
+      const { project, periode, lignes, recap, precedents, approvisionnements = [] } = data;
+      const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+      const stream = fs.createWriteStream(filePath);
+      doc.pipe(stream);
+
+      const pageWidth = doc.page.width;
+      const contentWidth = pageWidth - 2 * MARGIN;
+      const centered = (text: string, y: number, font = 'Helvetica', size = 9) => {
+        doc.font(font).fontSize(size).text(text, MARGIN, y, { width: contentWidth, align: 'center' });
+      };
+
+      // === PAGE 1: Header + Informations + Table ===
+
+      // Header - ROYAUME DU MAROC (bloc à gauche)
+      const headerWidth = 290;
+      const headerLine = (text: string, y: number, font: string, size: number) => {
+        doc.font(font).fontSize(size).text(text, MARGIN, y, { width: headerWidth, align: 'center' });
+      };
+      headerLine('ROYAUME DU MAROC', 36, 'Helvetica-Bold', 10);
+      headerLine('MINISTERE DE L\'AGRICULTURE ET DE LA PECHE MARITIME', 50, 'Helvetica', 9);
+      headerLine('DU DEVELOPPEMENT RURAL ET DES EAUX ET FORETS', 62, 'Helvetica', 9);
+      headerLine('DIRECTION PROVINCIALE DE L\'AGRICULTURE', 74, 'Helvetica', 9);
+      headerLine('TATA', 86, 'Helvetica', 9);
+
+      // Box informations - EXER, Chapitre, Programme, Projet, Ligne
+      const infoX = pageWidth - 150;
+      doc.font('Helvetica-Bold').fontSize(8);
+      doc.text('EXER: ' + (project.annee || ''), infoX, 50);
+      doc.text('Chapitre: ' + (project.chapitre || ''), infoX, 64);
+      doc.text('Programme: ' + (project.programme || ''), infoX, 78);
+      doc.text('Projet: ' + (project.projet || ''), infoX, 92);
+      doc.text('Ligne: ' + (project.ligne || ''), infoX, 106);
+
+      // Marché N° et Titre du projet
+      let y = 150;
+      const marcheText = (project.typeMarche === 'negocie' ? 'MARCHE NEGOCIE N°' : 'MARCHE N°') + (project.marcheNo || '');
+      doc.font('Helvetica-Bold').fontSize(10);
+      doc.text(marcheText, MARGIN, y, {
+        width: contentWidth,
+        align: 'center',
+        underline: project.typeMarche === 'negocie',
+      });
+      y = doc.y + 4;
+      doc.font('Helvetica').fontSize(9).text(project.objet || '', MARGIN, y, { width: contentWidth, align: 'center' });
+      y = doc.y + 14;
+
+      // Informations société (seulement les champs remplis)
+      const societeStartY = y;
+      const societeFields: [string, string | undefined][] = [
+        ['Société: ', project.societe],
+        ['R. C. n°: ', project.rc],
+        ['C.B n°: ', project.cb],
+        ['C.N.S.S. n°: ', project.cnss],
+        ['Patente: ', project.patente],
+      ];
+      doc.font('Helvetica').fontSize(9);
+      for (const [label, value] of societeFields) {
+        if (!value) continue;
+        doc.text(label + value, MARGIN, y);
+        y += 14;
+      }
+
+      // Montant de l'acompte (dans un cadre)
+      const boxWidth = 170;
+      const boxX = pageWidth - MARGIN - boxWidth;
+      doc.lineWidth(0.5).strokeColor('black').rect(boxX, societeStartY - 4, boxWidth, 34).stroke();
+      doc.font('Helvetica-Bold').fontSize(8)
+        .text('Montant de l\'acompte en Dhs:', boxX, societeStartY, { width: boxWidth, align: 'center' });
+      doc.fontSize(10)
+        .text(formatMontant(recap.montantAcompte), boxX, societeStartY + 14, { width: boxWidth, align: 'center' });
+
+      y = Math.max(y, societeStartY + 34) + 10;
+
+      // DECOMPTE PROVISOIRE N°
+      const suffix = periode.isDecompteDernier ? ' et dernier' : '';
+      centered('DECOMPTE PROVISOIRE N°' + periode.numero + suffix, y, 'Helvetica-Bold', 11);
+      y = doc.y + 2;
+      centered(`Des travaux exécutés au: ${formatDateFr(periode.dateFin)}`, y);
+      y = doc.y + 14;
+
+      // Table des prestations
+      const prestationsWidths = [42, 0, 34, 57, 71, 85];
+      prestationsWidths[1] = contentWidth - prestationsWidths.reduce((a, b) => a + b, 0);
+      const footLabel = (label: string, value: number): TableCell[] => [
+        { text: '', colSpan: 3, noBorder: true },
+        { text: label, colSpan: 2, align: 'right', bold: true },
+        { text: formatMontant(value), align: 'right', bold: true },
+      ];
+
+      y = drawTable(
+        doc,
+        y,
+        {
+          x: MARGIN,
+          widths: prestationsWidths,
+          aligns: ['center', 'left', 'center', 'right', 'right', 'right'],
+          fontSize: 8,
+          padding: 4,
+        },
+        ['Prix N°', 'DESIGNATIONS DES PRESTATIONS', 'U', 'Quantité', 'Prix U En DH\nhors TVA', 'Prix Total En DH\nhors TVA'],
+        lignes.map(ligne => [
+          String(ligne.prixNo),
+          ligne.designation || '',
+          ligne.unite || '',
+          fixed2(ligne.quantiteRealisee),
+          fixed2(ligne.prixUnitaireHT),
+          fixed2(toNum(ligne.quantiteRealisee) * toNum(ligne.prixUnitaireHT)),
+        ]),
+        [
+          footLabel('Total Général Hors TVA', recap.totalHT),
+          // Marché à taux mixtes: TVA détaillée par taux
+          ...(recap.groupesTVA && recap.groupesTVA.length > 1
+            ? [
+                ...recap.groupesTVA.map(groupe => footLabel(libelleGroupeTVA(groupe), groupe.montantTVA)),
+                footLabel('Total TVA', recap.montantTVA),
+              ]
+            : [footLabel(`Total TVA (${recap.groupesTVA?.[0]?.taux ?? recap.tauxTVA}%)`, recap.montantTVA)]),
+          footLabel('Total Général (T.T.C)', recap.totalTTC),
+        ]
+      );
+
+      // Etat des approvisionnements (matériaux sur chantier non encore incorporés)
+      if (approvisionnements.length > 0) {
+        y += 18;
+        if (y + 80 > doc.page.height - MARGIN) {
+          doc.addPage();
+          y = 56;
+        }
+        centered('ETAT DES APPROVISIONNEMENTS', y, 'Helvetica-Bold', 10);
+        y = doc.y + 8;
+
+        const approWidths = [0, 34, 57, 71, 42, 85];
+        approWidths[0] = contentWidth - approWidths.reduce((a, b) => a + b, 0);
+        const totalAppro = approvisionnements.reduce((sum, a) => sum + toNum(a.montantHT), 0);
+        drawTable(
+          doc,
+          y,
+          {
+            x: MARGIN,
+            widths: approWidths,
+            aligns: ['left', 'center', 'right', 'right', 'right', 'right'],
+            fontSize: 8,
+            padding: 4,
+          },
+          ['Matériaux', 'U', 'Quantité', 'Prix U En DH\nhors TVA', '% admis', 'Montant admis\nhors TVA'],
+          approvisionnements.map(a => [
+            a.designation,
+            a.unite || '',
+            fixed2(a.quantite),
+            fixed2(a.prixUnitaire),
+            `${toNum(a.pourcentageAdmis)}%`,
+            fixed2(a.montantHT),
+          ]),
+          [[
+            { text: 'Total approvisionnements hors TVA', colSpan: 5, align: 'right', bold: true },
+            { text: formatMontant(totalAppro), align: 'right', bold: true },
+          ]]
+        );
+      }
+
+      // === PAGE 2: Ordre de service + Récapitulation ===
+      doc.addPage();
+      y = 56;
+
+      const oscDate = project.osc ? formatDateFr(project.osc) : '../../....';
+      doc.font('Helvetica').fontSize(9);
+      doc.text('Ordre de service de commencer les travaux du: ' + oscDate, MARGIN, y);
+      y += 28;
+      doc.text('Délais d\'exécution: ' + (project.delaisExecution || '10') + ' mois', MARGIN, y);
+      y += 14;
+
+      // Décomptes précédents puis décompte actuel
+      for (const dp of [...precedents].sort((a, b) => a.numero - b.numero)) {
+        const dpSuffix = dp.isDecompteDernier ? ' et dernier' : '';
+        doc.text(`D.P.n° ${dp.numero}${dpSuffix} du ${dp.date} montant: ${formatMontant(dp.montant)} DH`, MARGIN, y);
+        y += 14;
+      }
+      doc.text(
+        `D.P.n° ${periode.numero}${suffix} du ${formatDateFr(periode.dateFin)} montant: ${formatMontant(recap.montantAcompte)} DH`,
+        MARGIN,
+        y
+      );
+      y += 26;
+
+      // RECAPITULATION
+      centered('RECAPITULATION', y, 'Helvetica-Bold', 11);
+      y = doc.y + 16;
+
+      const recapBody: string[][] = periode.isDecompteDernier ? [
+        // Décompte dernier: tout dans Travaux terminés
+        ['Travaux terminés', fixed2(recap.travauxTermines), fixed2(recap.retenueGarantie), fixed2(recap.travauxTermines - recap.retenueGarantie)],
+        ['Travaux non terminés', '0.00', '0.00', '0.00'],
+        ['Approvisionnements', fixed2(recap.approvisionnements), '0.00', fixed2(recap.approvisionnements)],
+      ] : [
+        // Décompte normal: tout dans Travaux non terminés
+        ['Travaux terminés', fixed2(recap.travauxTermines), '0.00', '0.00'],
+        ['Travaux non terminés', fixed2(recap.travauxNonTermines), fixed2(recap.retenueGarantie), fixed2(recap.travauxNonTermines - recap.retenueGarantie)],
+        ['Approvisionnements', fixed2(recap.approvisionnements), '0.00', fixed2(recap.approvisionnements)],
+      ];
+      if (recap.revisionPrix) {
+        recapBody.push(['Révision des prix', fixed2(recap.revisionPrix), '0.00', fixed2(recap.revisionPrix)]);
+      }
+      const restitutionRetenue = toNum(recap.restitutionRetenue);
+      if (restitutionRetenue) {
+        recapBody.push(['Restitution de la retenue de garantie', '0.00', fixed2(-restitutionRetenue), fixed2(restitutionRetenue)]);
+      }
+
+      const footRow = (label: string, value: number, bold = false): TableCell[] => [
+        { text: label, colSpan: 3, bold },
+        { text: fixed2(value), align: 'right', bold },
+      ];
+      const penalites = toNum(recap.penalitesRetard);
+      const remboursementAvance = toNum(recap.remboursementAvance);
+      const ajustements = recap.ajustements || [];
+      const deductionsDiverses = ajustements
+        .filter(a => a.sens === 'deduction')
+        .reduce((total, a) => total + toNum(a.montant), 0);
+      const recapFoot: TableCell[][] = [
+        [
+          { text: 'TOTAUX', bold: true },
+          { text: fixed2(recap.totalAvantRetenue), align: 'right', bold: true },
+          { text: fixed2(recap.retenueGarantie - restitutionRetenue), align: 'right', bold: true },
+          { text: fixed2(recap.resteAPayer), align: 'right', bold: true },
+        ],
+        footRow('À déduire les dépenses imputées sur exercices antérieurs', recap.depensesExercicesAnterieurs),
+        footRow('Reste à payer sur l\'exercice en cours', recap.resteAPayer),
+        footRow(
+          'À déduire le montant des acomptes délivrés sur l\'exercice en cours',
+          recap.totalADeduire - recap.depensesExercicesAnterieurs - penalites - remboursementAvance - deductionsDiverses
+        ),
+      ];
+      if (penalites) {
+        const remise = recap.penalitesJustification ? ` (remise: ${recap.penalitesJustification})` : '';
+        recapFoot.push(footRow(`À déduire les pénalités de retard${remise}`, penalites));
+      }
+      if (remboursementAvance) {
+        recapFoot.push(footRow('À déduire le remboursement de l\'avance', remboursementAvance));
+      }
+      for (const ajustement of ajustements) {
+        recapFoot.push(footRow(libelleAjustement(ajustement), ajustement.montant));
+      }
+      recapFoot.push(footRow('Montant de l\'acompte à délivrer:', recap.montantAcompte, true));
+
+      const recapWidths = [0, 99, 99, 99];
+      recapWidths[0] = contentWidth - 297;
+      y = drawTable(
+        doc,
+        y,
+        { x: MARGIN, widths: recapWidths, aligns: ['left', 'right', 'right', 'right'], fontSize: 9, padding: 6 },
+        ['NATURE DES DEPENSES', 'MONTANTS', 'RETENUE DE', 'RESTES'],
+        recapBody,
+        recapFoot
+      ) + 28;
+
+      const retenueCaution = toNum(recap.retenueRemplaceeParCaution);
+      if (retenueCaution) {
+        doc.font('Helvetica-Oblique').fontSize(8);
+        doc.text(
+          `Retenue de garantie remplacée par une caution bancaire à hauteur de ${formatMontant(retenueCaution)} DH`,
+          MARGIN,
+          y - 20
+        );
+        y += 4;
+      }
+
+      // Note explicative
+      const note = 'Dressé par 1. Le responsable du Service d\'Aménagement Hydro-Agricole ou son représentant  et 2. Le Chef de Mission AT Gzouli Ingénieur Conseil; responsable de suivi des travaux, qui certifie que les quantités portées au présent décompte correspondent aux travaux réellement exécutés conformément aux plans et aux stipulations du marché.';
+      doc.font('Helvetica-Oblique').fontSize(8);
+      if (y + doc.heightOfString(note, { width: contentWidth }) + 200 > doc.page.height - MARGIN) {
+        doc.addPage();
+        y = 56;
+      }
+      doc.text(note, MARGIN, y, { width: contentWidth });
+      y = doc.y + 28;
+
+      // Signatures
+      doc.font('Helvetica').fontSize(9);
+      doc.text('1-', MARGIN, y);
+      doc.text('2-', pageWidth / 2, y);
+      y += 56;
+      doc.text('Vu et vérifié', MARGIN, y);
+      y += 70;
+
+      // Arrêté par nous
+      const arrete: MontantEnLettresPdf = {
+        montant: recap.montantAcompte,
+        langue: project.langueMontantLettres,
+        libelleFr: 'Arrêté par nous, Sous-Ordonnateur, à la somme de:',
+        libelleAr: 'حصر هذا الكشف في مبلغ:',
+      };
+      const arreteHeight = Math.max(42, heightOfMontantEnLettres(doc, arrete, contentWidth - 14) + 14);
+      doc.lineWidth(0.5).strokeColor('black').rect(MARGIN, y, contentWidth, arreteHeight).stroke();
+      drawMontantEnLettres(doc, arrete, MARGIN + 6, y + 7, contentWidth - 14);
+      y += arreteHeight + 14;
+
+      doc.text('A Tata, Le:', MARGIN, y);
+      y += 28;
+      doc.text('Tata, le:', pageWidth / 2, y);
+
+      doc.end();
+
+      stream.on('finish', () => resolve());
+      stream.on('error', reject);
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
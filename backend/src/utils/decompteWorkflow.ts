@@ -0,0 +1,202 @@
+/**
+ * Décompte approval workflow
+ * draft → submitted → validated → paid, each step recorded (who / when) on the
+ * décompte and in decompt_audit. Once validated, the période is locked: métrés,
+ * décompte and période settings can no longer be edited until an admin reopens it.
+ * Once the DGD is signed, the whole project is locked the same way.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiError } from '../middleware/errorHandler';
+
+type Queryable = Pool | PoolClient;
+
+export type DecompteStatut = 'draft' | 'submitted' | 'validated' | 'paid';
+export type DecompteAction = 'submit' | 'validate' | 'pay' | 'reopen';
+
+interface Transition {
+  from: DecompteStatut[];
+  to: DecompteStatut;
+  periodeStatut: 'en_cours' | 'validee' | 'facturee';
+  column?: 'submitted' | 'validated' | 'paid';
+}
+
+export const WORKFLOW_TRANSITIONS: Record<DecompteAction, Transition> = {
+  submit: { from: ['draft'], to: 'submitted', periodeStatut: 'en_cours', column: 'submitted' },
+  validate: { from: ['submitted'], to: 'validated', periodeStatut: 'validee', column: 'validated' },
+  pay: { from: ['validated'], to: 'paid', periodeStatut: 'facturee', column: 'paid' },
+  // Réouverture: retour en brouillon, la période redevient modifiable
+  reopen: { from: ['submitted', 'validated', 'paid'], to: 'draft', periodeStatut: 'en_cours' },
+};
+
+export const ADMIN_ROLES = ['admin', 'super_admin'];
+
+// Statuts de période qui interdisent toute modification
+export const PERIODE_STATUTS_VERROUILLES = ['validee', 'facturee'];
+
+const cleanId = (id: string | null | undefined): string =>
+  !id ? '' : id.includes(':') ? id.split(':').pop()! : id;
+
+// Paramètres financiers du projet figés une fois le DGD signé
+export const COLONNES_FINANCIERES_PROJET = [
+  'montant', 'revision_prix', 'arrets', 'penalites', 'avance',
+  'retenue_garantie', 'ajustements', 'justifications_depassement',
+];
+
+/**
+ * Comparable form of a column value: JSONB sent as text or as object, numeric as string or number
+ */
+const valeurCanonique = (value: any): string => {
+  const normalise = (v: any): any => {
+    if (v === undefined || v === null) return null;
+    if (typeof v === 'string') {
+      const texte = v.trim();
+      if (texte.startsWith('{') || texte.startsWith('[')) {
+        try {
+          return normalise(JSON.parse(texte));
+        } catch {
+          return v;
+        }
+      }
+      return texte !== '' && !isNaN(Number(texte)) ? Number(texte) : v;
+    }
+    if (v instanceof Date) return v.toISOString();
+    if (Array.isArray(v)) return v.map(normalise);
+    if (typeof v === 'object') {
+      return Object.keys(v).sort().reduce((acc: Record<string, any>, key) => {
+        if (v[key] !== undefined) acc[key] = normalise(v[key]);
+        return acc;
+      }, {});
+    }
+    return v;
+  };
+  // Liste ou objet vide ≡ non renseigné
+  const canonique = JSON.stringify(normalise(value));
+  return canonique === '[]' || canonique === '{}' ? 'null' : canonique;
+};
+
+/**
+ * Reject any financial edit on a project whose DGD is signed
+ * (bordereau, avenants, périodes, métrés, décomptes)
+ * With projectChanges (snake_case columns of the project row), only a change of one of
+ * COLONNES_FINANCIERES_PROJET is rejected: the other project fields stay editable
+ */
+export const assertFinancesModifiables = async (
+  db: Queryable,
+  projectId: string | null | undefined,
+  projectChanges?: Record<string, any>
+): Promise<void> => {
+  const id = cleanId(projectId);
+  if (!id) return;
+
+  const result = await db.query(
+    `SELECT dgd_signe_at, ${COLONNES_FINANCIERES_PROJET.join(', ')} FROM projects WHERE id::text = $1`,
+    [id]
+  );
+  const project = result.rows[0];
+  if (!project?.dgd_signe_at) return;
+
+  if (projectChanges) {
+    const modifiees = COLONNES_FINANCIERES_PROJET.filter(colonne =>
+      projectChanges[colonne] !== undefined
+      && valeurCanonique(projectChanges[colonne]) !== valeurCanonique(project[colonne])
+    );
+    if (modifiees.length === 0) return;
+    throw new ApiError(
+      `The DGD of this project is signed: ${modifiees.join(', ')} can no longer be edited until an admin reopens it`,
+      409
+    );
+  }
+
+  throw new ApiError('The DGD of this project is signed: an admin must reopen it before editing', 409);
+};
+
+/**
+ * Reject any edit touching a validated période (métrés, décompte, paramètres)
+ */
+export const assertPeriodeModifiable = async (
+  db: Queryable,
+  periodeId: string | null | undefined
+): Promise<void> => {
+  const id = cleanId(periodeId);
+  if (!id) return;
+
+  const result = await db.query(
+    `SELECT pe.numero, pe.statut, p.dgd_signe_at FROM periodes pe
+     INNER JOIN projects p ON pe.project_id = p.id
+     WHERE pe.id::text = $1 AND pe.deleted_at IS NULL`,
+    [id]
+  );
+  const periode = result.rows[0];
+  if (periode?.dgd_signe_at) {
+    throw new ApiError('The DGD of this project is signed: an admin must reopen it before editing', 409);
+  }
+  if (periode && PERIODE_STATUTS_VERROUILLES.includes(periode.statut)) {
+    throw new ApiError(
+      `Période ${periode.numero} is ${periode.statut}: an admin must reopen its décompte before editing`,
+      409
+    );
+  }
+};
+
+/**
+ * Apply a workflow action to a décompte (expects to run inside a transaction)
+ */
+export const applyWorkflowAction = async (
+  client: PoolClient,
+  decompt: any,
+  action: DecompteAction,
+  userId: string,
+  motif?: string
+): Promise<any> => {
+  const transition = WORKFLOW_TRANSITIONS[action];
+  const ancienStatut: DecompteStatut = decompt.statut || 'draft';
+
+  if (!transition.from.includes(ancienStatut)) {
+    throw new ApiError(`Cannot ${action} a décompte with statut '${ancienStatut}'`, 409);
+  }
+
+  const sets = ['statut = $1', 'updated_at = NOW()'];
+  if (transition.column) {
+    sets.push(`${transition.column}_at = NOW()`, `${transition.column}_by = $3`);
+  } else {
+    // Réouverture: les étapes franchies sont effacées (l'historique reste dans decompt_audit)
+    sets.push(
+      'submitted_at = NULL', 'submitted_by = NULL',
+      'validated_at = NULL', 'validated_by = NULL',
+      'paid_at = NULL', 'paid_by = NULL'
+    );
+  }
+
+  const result = await client.query(
+    `UPDATE decompts SET ${sets.join(', ')} WHERE id = $2 RETURNING *`,
+    transition.column ? [transition.to, decompt.id, userId] : [transition.to, decompt.id]
+  );
+
+  if (decompt.periode_id) {
+    await client.query(
+      `UPDATE periodes SET statut = $1, updated_at = NOW() WHERE id = $2`,
+      [transition.periodeStatut, decompt.periode_id]
+    );
+  }
+
+  await client.query(
+    `INSERT INTO decompt_audit (
+      id, decompt_id, project_id, periode_id, user_id, action, ancien_statut, nouveau_statut, motif, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+    [
+      uuidv4(),
+      decompt.id,
+      decompt.project_id,
+      decompt.periode_id || null,
+      userId,
+      action,
+      ancienStatut,
+      transition.to,
+      motif?.trim() || null,
+    ]
+  );
+
+  return result.rows[0];
+};
@@ -0,0 +1,248 @@
+/**
+ * Décompte général et définitif (DGD)
+ * Consolidation de toutes les périodes: quantités finales par prix (réalisé vs
+ * contractuel), révision, pénalités, retenue restituée, avance remboursée et solde.
+ * Les montants cumulés sont ceux du dernier décompte (figés s'il est validé).
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { Decimal, toDecimal, round2, toNumber } from 'shared';
+import { calculateDecompteServeur, DecompteRecapCalcule } from './decompteCalcul';
+
+type Queryable = Pool | PoolClient;
+
+// Statuts exigés pour signer le DGD (même règle que les décomptes précédents)
+export const DGD_STATUTS_REQUIS = ['validated', 'paid'];
+
+export interface DgdPeriode {
+  periodeNumero: number | null;
+  libelle: string;
+  dateDebut: string | null;
+  dateFin: string | null;
+  decomptNumero: number;
+  statut: string;
+  montantAcompte: number;
+  montantPaye: number;
+}
+
+export interface DgdLigne {
+  prixNo: number;
+  designation: string;
+  unite: string;
+  quantiteInitiale: number | null;    // bordereau d'origine (null = prix nouveau par avenant)
+  quantiteContractuelle: number;      // après avenants
+  quantiteRealisee: number;
+  ecartQuantite: number;
+  ecartPourcentage: number | null;
+  prixUnitaireHT: number;
+  montantContractuelHT: number;
+  montantHT: number;
+}
+
+export interface DgdBilan {
+  montantContractuelHT: number;
+  travauxHT: number;
+  montantTVA: number;
+  travauxTTC: number;
+  revisionPrix: number;
+  approvisionnements: number;
+  penalitesRetard: number;
+  montantDefinitif: number;          // travaux + révision + approvisionnements - pénalités
+  retenueGarantie: number;
+  restitutionRetenue: number;
+  retenueConservee: number;
+  montantAvance: number;
+  remboursementAvance: number;
+  resteAvance: number;
+  deductionsDiverses: number;        // retenue à la source, avoirs... (cumul)
+  additionsDiverses: number;         // primes... (cumul)
+  acomptesDelivres: number;          // décomptes antérieurs au dernier
+  solde: number;                     // reste dû à l'entreprise au titre du DGD
+  totalDecomptes: number;            // somme des acomptes de tous les décomptes
+  totalPaye: number;                 // paiements reçus sur tous les décomptes
+  resteAEncaisser: number;
+}
+
+export interface Dgd {
+  projectId: string;
+  statut: 'provisoire' | 'signe';
+  dernierDecompteNumero: number | null;
+  signable: boolean;
+  motifsNonSignable: string[];
+  periodes: DgdPeriode[];
+  lignes: DgdLigne[];
+  bilan: DgdBilan;
+  calculeAt: string;
+  signeAt?: string | null;
+  signeBy?: string | null;
+}
+
+const r2 = (value: Decimal): number => toNumber(round2(value));
+
+const toDateString = (value: any): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+/**
+ * Build the DGD of a project from its décomptes (provisional until signed)
+ */
+export const calculateDgd = async (db: Queryable, project: any): Promise<Dgd> => {
+  const [decomptsResult, bordereauResult] = await Promise.all([
+    db.query(
+      `SELECT d.*, pe.numero AS periode_numero, pe.libelle, pe.date_debut, pe.date_fin, pe.is_decompte_dernier,
+              COALESCE((SELECT SUM(pa.montant) FROM paiements pa
+                        WHERE pa.decompt_id = d.id AND pa.deleted_at IS NULL), 0) AS montant_paye
+       FROM decompts d
+       LEFT JOIN periodes pe ON d.periode_id = pe.id
+       WHERE d.project_id = $1 AND d.deleted_at IS NULL
+       ORDER BY d.numero ASC`,
+      [project.id]
+    ),
+    db.query(
+      `SELECT lignes FROM bordereaux WHERE project_id = $1 AND deleted_at IS NULL ORDER BY created_at DESC LIMIT 1`,
+      [project.id]
+    ),
+  ]);
+  const decompts = decomptsResult.rows;
+  const dernier = decompts[decompts.length - 1] || null;
+
+  // Conditions de signature
+  const motifsNonSignable: string[] = [];
+  if (!dernier) {
+    motifsNonSignable.push('Aucun décompte');
+  } else {
+    if (!dernier.is_decompte_dernier) {
+      motifsNonSignable.push(`Le décompte N° ${dernier.numero} n'est pas marqué comme décompte dernier`);
+    }
+    const nonValides = decompts.filter(d => !DGD_STATUTS_REQUIS.includes(d.statut));
+    if (nonValides.length > 0) {
+      motifsNonSignable.push(`Décomptes non validés: N° ${nonValides.map(d => d.numero).join(', ')}`);
+    }
+  }
+
+  // Récapitulatif cumulé du dernier décompte (stocké, sinon recalculé)
+  let recap: Partial<DecompteRecapCalcule> = {};
+  let lignesDecompte: any[] = [];
+  if (dernier) {
+    if (dernier.recap && Array.isArray(dernier.lignes) && dernier.lignes.length > 0) {
+      recap = dernier.recap;
+      lignesDecompte = dernier.lignes;
+    } else {
+      const calcul = await calculateDecompteServeur(db, dernier);
+      recap = calcul.recap;
+      lignesDecompte = calcul.lignes;
+    }
+  }
+
+  // Quantités finales par prix: réalisé vs contractuel (avenants compris)
+  const lignesInitiales: any[] = bordereauResult.rows[0]?.lignes || [];
+  const lignes: DgdLigne[] = lignesDecompte.map(ligne => {
+    // Numéros enregistrés en texte dans les anciens bordereaux
+    const initiale = lignesInitiales.find(l => Number(l.numero) === Number(ligne.prixNo));
+    const contractuelle = toDecimal(ligne.quantiteBordereau);
+    const realisee = toDecimal(ligne.quantiteRealisee);
+    const prix = toDecimal(ligne.prixUnitaireHT);
+    const ecart = realisee.minus(contractuelle);
+    return {
+      prixNo: ligne.prixNo,
+      designation: ligne.designation,
+      unite: ligne.unite,
+      quantiteInitiale: initiale ? Number(initiale.quantite) || 0 : null,
+      quantiteContractuelle: toNumber(contractuelle),
+      quantiteRealisee: toNumber(realisee),
+      ecartQuantite: r2(ecart),
+      ecartPourcentage: contractuelle.isZero() ? null : r2(ecart.dividedBy(contractuelle).times(100)),
+      prixUnitaireHT: toNumber(prix),
+      montantContractuelHT: r2(contractuelle.times(prix)),
+      montantHT: r2(toDecimal(ligne.montantHT)),
+    };
+  });
+
+  // Bilan financier
+  const travauxTTC = toDecimal(recap.totalTTC);
+  const revisionPrix = toDecimal(recap.revisionPrix);
+  const approvisionnements = toDecimal(recap.approvisionnements);
+  const penalitesRetard = toDecimal(recap.penalitesRetard);
+  const retenueGarantie = toDecimal(recap.retenueGarantie);
+  const restitutionRetenue = toDecimal(recap.restitutionRetenue);
+  const remboursementAvance = toDecimal(recap.remboursementAvance);
+  const montantAvance = toDecimal(project.avance?.montant);
+  const ajustements = recap.ajustements || [];
+  const totalAjustements = (sens: string) => ajustements
+    .filter(a => a.sens === sens)
+    .reduce((total, a) => total.plus(toDecimal(a.montant)), new Decimal(0));
+  const deductionsDiverses = totalAjustements('deduction');
+  const additionsDiverses = totalAjustements('addition');
+
+  const montantDefinitif = travauxTTC.plus(revisionPrix).plus(approvisionnements).minus(penalitesRetard);
+  const retenueConservee = Decimal.max(retenueGarantie.minus(restitutionRetenue), 0);
+  const acomptesDelivres = decompts
+    .slice(0, -1)
+    .reduce((total, d) => total.plus(toDecimal(d.montant_total)), new Decimal(0));
+  const solde = montantDefinitif
+    .minus(retenueConservee)
+    .minus(remboursementAvance)
+    .minus(deductionsDiverses)
+    .plus(additionsDiverses)
+    .minus(acomptesDelivres);
+
+  const totalDu = decompts.reduce((total, d) => total.plus(toDecimal(d.montant_total)), new Decimal(0));
+  const totalPaye = decompts.reduce((total, d) => total.plus(toDecimal(d.montant_paye)), new Decimal(0));
+
+  return {
+    projectId: project.id,
+    statut: 'provisoire',
+    dernierDecompteNumero: dernier ? dernier.numero : null,
+    signable: motifsNonSignable.length === 0,
+    motifsNonSignable,
+    periodes: decompts.map(d => ({
+      periodeNumero: d.periode_numero ?? null,
+      libelle: d.libelle || (d.periode_numero ? `Période ${d.periode_numero}` : `Décompte ${d.numero}`),
+      dateDebut: toDateString(d.date_debut),
+      dateFin: toDateString(d.date_fin),
+      decomptNumero: d.numero,
+      statut: d.statut || 'draft',
+      montantAcompte: r2(toDecimal(d.montant_total)),
+      montantPaye: r2(toDecimal(d.montant_paye)),
+    })),
+    lignes,
+    bilan: {
+      montantContractuelHT: r2(lignes.reduce((t, l) => t.plus(toDecimal(l.montantContractuelHT)), new Decimal(0))),
+      travauxHT: r2(toDecimal(recap.totalHT)),
+      montantTVA: r2(toDecimal(recap.montantTVA)),
+      travauxTTC: r2(travauxTTC),
+      revisionPrix: r2(revisionPrix),
+      approvisionnements: r2(approvisionnements),
+      penalitesRetard: r2(penalitesRetard),
+      montantDefinitif: r2(montantDefinitif),
+      retenueGarantie: r2(retenueGarantie),
+      restitutionRetenue: r2(restitutionRetenue),
+      retenueConservee: r2(retenueConservee),
+      montantAvance: r2(montantAvance),
+      remboursementAvance: r2(remboursementAvance),
+      resteAvance: r2(Decimal.max(montantAvance.minus(remboursementAvance), 0)),
+      deductionsDiverses: r2(deductionsDiverses),
+      additionsDiverses: r2(additionsDiverses),
+      acomptesDelivres: r2(acomptesDelivres),
+      solde: r2(solde),
+      totalDecomptes: r2(totalDu),
+      totalPaye: r2(totalPaye),
+      resteAEncaisser: r2(Decimal.max(totalDu.minus(totalPaye), 0)),
+    },
+    calculeAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * DGD of a project: the signed snapshot when it exists, otherwise the provisional one
+ */
+export const getDgd = async (db: Queryable, project: any): Promise<Dgd> => {
+  if (project.dgd_signe_at && project.dgd) {
+    return {
+      ...project.dgd,
+      statut: 'signe',
+      signeAt: toDateString(project.dgd_signe_at),
+      signeBy: project.dgd_signe_by,
+    };
+  }
+  return calculateDgd(db, project);
+};
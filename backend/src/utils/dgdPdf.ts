@@ -0,0 +1,225 @@
+/**
+ * DGD PDF (server side)
+ * Décompte général et définitif: récapitulatif des décomptes par période,
+ * quantités finales par prix, bilan financier et solde
+ */
+
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import {
+  MARGIN,
+  TableCell,
+  drawTable,
+  formatDateFr,
+  formatMontant,
+  drawMontantEnLettres,
+} from './decomptePdf';
+import { Dgd } from './dgd';
+import type { LangueMontantLettres } from 'shared';
+
+export interface DgdPdfData {
+  project: {
+    marcheNo?: string;
+    objet?: string;
+    societe?: string;
+    rc?: string;
+    cnss?: string;
+    dateReceptionProvisoire?: string | Date | null;
+    dateReceptionDefinitive?: string | Date | null;
+    langueMontantLettres?: LangueMontantLettres;
+  };
+  dgd: Dgd;
+}
+
+const STATUT_LABELS: Record<string, string> = {
+  draft: 'Brouillon',
+  submitted: 'Soumis',
+  validated: 'Validé',
+  paid: 'Payé',
+};
+
+const formatQuantite = (value: number | null): string =>
+  value === null ? '-' : value.toLocaleString('fr-FR', { maximumFractionDigits: 3 });
+
+/**
+ * Render the DGD to a PDF file
+ */
+export const renderDgdPdf = (filePath: string, data: DgdPdfData): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    try {
+      const { project, dgd } = data;
+      const { bilan } = dgd;
+      const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+      const stream = fs.createWriteStream(filePath);
+      doc.pipe(stream);
+
+      const contentWidth = doc.page.width - 2 * MARGIN;
+      const centered = (text: string, y: number, font = 'Helvetica', size = 9) => {
+        doc.font(font).fontSize(size).text(text, MARGIN, y, { width: contentWidth, align: 'center' });
+      };
+      const section = (title: string, y: number): number => {
+        if (y + 60 > doc.page.height - MARGIN) {
+          doc.addPage();
+          y = MARGIN;
+        }
+        doc.font('Helvetica-Bold').fontSize(10).text(title, MARGIN, y);
+        return doc.y + 6;
+      };
+
+      // Entreprise
+      let y = 40;
+      doc.font('Helvetica').fontSize(9);
+      for (const [label, value] of [
+        ['Société: ', project.societe],
+        ['R. C. n°: ', project.rc],
+        ['C.N.S.S. n°: ', project.cnss],
+      ]) {
+        if (!value) continue;
+        doc.text(label + value, MARGIN, y);
+        y += 14;
+      }
+
+      // Titre
+      y = Math.max(y, 80) + 10;
+      centered('DECOMPTE GENERAL ET DEFINITIF', y, 'Helvetica-Bold', 13);
+      y = doc.y + 4;
+      if (dgd.statut !== 'signe') {
+        doc.fillColor('#c00000');
+        centered('PROJET - NON SIGNE', y, 'Helvetica-Bold', 10);
+        doc.fillColor('black');
+        y = doc.y + 4;
+      }
+      centered(`MARCHE N° ${project.marcheNo || ''}`, y, 'Helvetica-Bold', 10);
+      y = doc.y + 4;
+      centered(project.objet || '', y);
+      y = doc.y + 8;
+      const receptions = [
+        project.dateReceptionProvisoire ? `Réception provisoire: ${formatDateFr(project.dateReceptionProvisoire)}` : '',
+        project.dateReceptionDefinitive ? `Réception définitive: ${formatDateFr(project.dateReceptionDefinitive)}` : '',
+      ].filter(Boolean).join('   -   ');
+      if (receptions) {
+        centered(receptions, y);
+        y = doc.y + 8;
+      }
+      y += 8;
+
+      // I. Décomptes par période
+      y = section('I. RECAPITULATIF DES DECOMPTES', y);
+      y = drawTable(
+        doc,
+        y,
+        {
+          x: MARGIN,
+          widths: [50, contentWidth - 50 - 130 - 60 - 90 - 90, 130, 60, 90, 90],
+          aligns: ['center', 'left', 'center', 'center', 'right', 'right'],
+          fontSize: 8,
+          padding: 3,
+        },
+        ['N°', 'Période', 'Du / Au', 'Statut', 'Acompte (DH)', 'Encaissé (DH)'],
+        dgd.periodes.map(p => [
+          String(p.decomptNumero),
+          p.libelle,
+          `${formatDateFr(p.dateDebut)} - ${formatDateFr(p.dateFin)}`,
+          STATUT_LABELS[p.statut] || p.statut,
+          formatMontant(p.montantAcompte),
+          formatMontant(p.montantPaye),
+        ]),
+        [[
+          { text: 'Total', colSpan: 4, align: 'right', bold: true },
+          { text: formatMontant(bilan.totalDecomptes), align: 'right', bold: true },
+          { text: formatMontant(bilan.totalPaye), align: 'right', bold: true },
+        ]]
+      ) + 16;
+
+      // II. Quantités finales
+      y = section('II. QUANTITES FINALES PAR PRIX', y);
+      const widths = [30, 0, 34, 56, 56, 56, 46, 60, 72];
+      widths[1] = contentWidth - widths.reduce((a, b) => a + b, 0);
+      y = drawTable(
+        doc,
+        y,
+        {
+          x: MARGIN,
+          widths,
+          aligns: ['center', 'left', 'center', 'right', 'right', 'right', 'right', 'right', 'right'],
+          fontSize: 7,
+          padding: 3,
+        },
+        ['Prix', 'Désignation', 'U', 'Q. initiale', 'Q. contrat', 'Q. réalisée', 'Écart', 'P.U. HT', 'Montant HT'],
+        dgd.lignes.map(l => [
+          String(l.prixNo),
+          l.designation,
+          l.unite,
+          formatQuantite(l.quantiteInitiale),
+          formatQuantite(l.quantiteContractuelle),
+          formatQuantite(l.quantiteRealisee),
+          l.ecartPourcentage === null ? formatQuantite(l.ecartQuantite) : `${l.ecartPourcentage}%`,
+          formatMontant(l.prixUnitaireHT),
+          formatMontant(l.montantHT),
+        ]),
+        [[
+          { text: 'Total HT', colSpan: 8, align: 'right', bold: true },
+          { text: formatMontant(bilan.travauxHT), align: 'right', bold: true },
+        ]]
+      ) + 16;
+
+      // III. Bilan financier
+      y = section('III. BILAN FINANCIER', y);
+      const ligne = (label: string, montant: number, bold = false): TableCell[] => [
+        { text: label, bold },
+        { text: formatMontant(montant), align: 'right', bold },
+      ];
+      y = drawTable(
+        doc,
+        y,
+        { x: MARGIN, widths: [contentWidth - 120, 120], aligns: ['left', 'right'], fontSize: 8, padding: 4 },
+        ['Désignation', 'Montant (DH)'],
+        [
+          ligne('Montant des travaux HT', bilan.travauxHT),
+          ligne('T.V.A', bilan.montantTVA),
+          ligne('Montant des travaux TTC', bilan.travauxTTC),
+          ligne('Révision des prix', bilan.revisionPrix),
+          ...(bilan.approvisionnements ? [ligne('Approvisionnements', bilan.approvisionnements)] : []),
+          ligne('Pénalités de retard', -bilan.penalitesRetard),
+          ligne('Montant définitif du marché', bilan.montantDefinitif, true),
+          ligne('Retenue de garantie', -bilan.retenueGarantie),
+          ligne('Retenue de garantie restituée', bilan.restitutionRetenue),
+          ligne('Avance remboursée', -bilan.remboursementAvance),
+          ...(bilan.deductionsDiverses ? [ligne('Déductions diverses', -bilan.deductionsDiverses)] : []),
+          ...(bilan.additionsDiverses ? [ligne('Additions diverses', bilan.additionsDiverses)] : []),
+          ligne('Acomptes délivrés (décomptes antérieurs)', -bilan.acomptesDelivres),
+        ],
+        [ligne('SOLDE DU DECOMPTE GENERAL ET DEFINITIF', bilan.solde, true)]
+      ) + 10;
+
+      doc.font('Helvetica').fontSize(9);
+      y += drawMontantEnLettres(doc, {
+        montant: bilan.solde,
+        langue: project.langueMontantLettres,
+        libelleFr: 'Arrêté le présent décompte à la somme de:',
+        libelleAr: 'حصر هذا الكشف العام والنهائي في مبلغ:',
+      }, MARGIN, y, contentWidth) + 30;
+
+      // Signatures
+      if (y + 60 > doc.page.height - MARGIN) {
+        doc.addPage();
+        y = MARGIN + 20;
+      }
+      const half = contentWidth / 2;
+      doc.font('Helvetica-Bold').fontSize(9)
+        .text('L\'entrepreneur', MARGIN, y, { width: half, align: 'center' })
+        .text('Le maître d\'ouvrage', MARGIN + half, y, { width: half, align: 'center' });
+      if (dgd.signeAt) {
+        doc.font('Helvetica').fontSize(8)
+          .text(`Signé le ${formatDateFr(dgd.signeAt)}`, MARGIN, y + 14, { width: half, align: 'center' });
+      }
+
+      doc.end();
+
+      stream.on('finish', () => resolve());
+      stream.on('error', reject);
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
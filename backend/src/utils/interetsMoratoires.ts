@@ -0,0 +1,135 @@
+/**
+ * Intérêts moratoires (late-payment interest)
+ * Date limite = date d'exigibilité (validation du décompte) + délai de paiement.
+ * Intérêts dus sur chaque paiement reçu après la date limite et sur le reste
+ * impayé à la date de référence, au taux annuel en vigueur jour par jour.
+ */
+
+import { Pool, PoolClient } from 'pg';
+import {
+  Decimal,
+  toDecimal,
+  round2,
+  toNumber,
+  calculateInteretsMoratoires,
+  InteretsMoratoiresTranche,
+  TauxInteretPeriode,
+} from 'shared';
+import { DECOMPTE_STATUTS_EXIGIBLES, DELAI_PAIEMENT_JOURS } from './creances';
+
+type Queryable = Pool | PoolClient;
+
+export interface InteretsMoratoiresConfig {
+  delaiPaiementJours: number;
+  taux: TauxInteretPeriode[];
+}
+
+// Même valeur que DEFAULT_INTERETS_MORATOIRES côté client
+export const DEFAULT_INTERETS_MORATOIRES: InteretsMoratoiresConfig = {
+  delaiPaiementJours: DELAI_PAIEMENT_JOURS,
+  taux: [],
+};
+
+export interface InteretsDecompte {
+  decomptId: string;
+  numero: number;
+  montant: number;
+  montantPaye: number;
+  resteAPayer: number;
+  dateExigibilite: string;
+  dateLimite: string;
+  joursRetard: number;
+  tranches: InteretsMoratoiresTranche[];
+  interets: number;
+}
+
+export interface InteretsMoratoiresProjet {
+  projectId: string;
+  config: InteretsMoratoiresConfig;
+  dateReference: string;
+  decomptes: InteretsDecompte[];   // décomptes réglés (ou non) après la date limite
+  totalInterets: number;
+}
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Intérêts moratoires de tous les décomptes exigibles d'un projet
+ */
+export const getInteretsMoratoires = async (
+  db: Queryable,
+  project: any,
+  dateReference: Date = new Date()
+): Promise<InteretsMoratoiresProjet> => {
+  const config: InteretsMoratoiresConfig = {
+    ...DEFAULT_INTERETS_MORATOIRES,
+    ...(project.interets_moratoires || {}),
+  };
+  const delai = Number(config.delaiPaiementJours) || DELAI_PAIEMENT_JOURS;
+
+  const [decomptsResult, paiementsResult] = await Promise.all([
+    db.query(
+      `SELECT id, numero, montant_total, COALESCE(validated_at, date_decompte, created_at) AS date_exigibilite
+       FROM decompts
+       WHERE project_id = $1 AND deleted_at IS NULL AND statut = ANY($2)
+       ORDER BY numero ASC`,
+      [project.id, DECOMPTE_STATUTS_EXIGIBLES]
+    ),
+    db.query(
+      `SELECT decompt_id, date_paiement, montant FROM paiements
+       WHERE project_id = $1 AND deleted_at IS NULL
+       ORDER BY date_paiement ASC`,
+      [project.id]
+    ),
+  ]);
+
+  let total = new Decimal(0);
+  const decomptes: InteretsDecompte[] = [];
+
+  for (const row of decomptsResult.rows) {
+    const dateExigibilite = new Date(row.date_exigibilite);
+    const dateLimite = addDays(dateExigibilite, delai);
+    const paiements = paiementsResult.rows.filter(p => p.decompt_id === row.id);
+
+    const montant = toDecimal(row.montant_total);
+    const paye = paiements.reduce((sum, p) => sum.plus(toDecimal(p.montant)), new Decimal(0));
+    const reste = Decimal.max(montant.minus(paye), 0);
+
+    const reglements = paiements.map(p => ({ date: new Date(p.date_paiement), montant: p.montant }));
+    if (reste.greaterThan(0)) {
+      reglements.push({ date: dateReference, montant: reste });
+    }
+
+    const result = calculateInteretsMoratoires({ dateLimite, reglements, taux: config.taux || [] });
+    if (result.joursRetard === 0) continue;
+
+    total = total.plus(toDecimal(result.totalInterets));
+    decomptes.push({
+      decomptId: row.id,
+      numero: row.numero,
+      montant: toNumber(round2(montant)),
+      montantPaye: toNumber(round2(paye)),
+      resteAPayer: toNumber(round2(reste)),
+      dateExigibilite: toDateKey(dateExigibilite),
+      dateLimite: toDateKey(dateLimite),
+      joursRetard: result.joursRetard,
+      tranches: result.tranches,
+      interets: result.totalInterets,
+    });
+  }
+
+  return {
+    projectId: project.id,
+    config: { ...config, delaiPaiementJours: delai },
+    dateReference: toDateKey(dateReference),
+    decomptes,
+    totalInterets: toNumber(round2(total)),
+  };
+};
@@ -0,0 +1,162 @@
+/**
+ * Intérêts moratoires PDF (server side)
+ * Demande de paiement des intérêts moratoires: un tableau par décompte payé
+ * (ou restant dû) après la date limite, puis le total réclamé
+ */
+
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import {
+  MARGIN,
+  TableCell,
+  drawTable,
+  formatDateFr,
+  formatMontant,
+  drawMontantEnLettres,
+  heightOfMontantEnLettres,
+  type MontantEnLettresPdf,
+} from './decomptePdf';
+import { InteretsMoratoiresProjet } from './interetsMoratoires';
+import type { LangueMontantLettres } from 'shared';
+
+export interface InteretsMoratoiresPdfData {
+  project: {
+    marcheNo?: string;
+    objet?: string;
+    societe?: string;
+    rc?: string;
+    cnss?: string;
+    langueMontantLettres?: LangueMontantLettres;
+  };
+  interets: InteretsMoratoiresProjet;
+}
+
+/**
+ * Render the late-payment interest claim to a PDF file
+ */
+export const renderInteretsMoratoiresPdf = (filePath: string, data: InteretsMoratoiresPdfData): Promise<void> => {
+  return new Promise<void>((resolve, reject) => {
+    try {
+      const { project, interets } = data;
+      const doc = new PDFDocument({ size: 'A4', margin: MARGIN });
+      const stream = fs.createWriteStream(filePath);
+      doc.pipe(stream);
+
+      const contentWidth = doc.page.width - 2 * MARGIN;
+      const centered = (text: string, y: number, font = 'Helvetica', size = 9) => {
+        doc.font(font).fontSize(size).text(text, MARGIN, y, { width: contentWidth, align: 'center' });
+      };
+
+      // Entreprise
+      let y = 40;
+      doc.font('Helvetica').fontSize(9);
+      for (const [label, value] of [
+        ['Société: ', project.societe],
+        ['R. C. n°: ', project.rc],
+        ['C.N.S.S. n°: ', project.cnss],
+      ]) {
+        if (!value) continue;
+        doc.text(label + value, MARGIN, y);
+        y += 14;
+      }
+      doc.text(`Le: ${formatDateFr(interets.dateReference)}`, MARGIN, 40, { width: contentWidth, align: 'right' });
+
+      // Objet
+      y = Math.max(y, 80) + 20;
+      centered('DEMANDE DE PAIEMENT DES INTERETS MORATOIRES', y, 'Helvetica-Bold', 12);
+      y = doc.y + 8;
+      centered(`MARCHE N° ${project.marcheNo || ''}`, y, 'Helvetica-Bold', 10);
+      y = doc.y + 4;
+      centered(project.objet || '', y);
+      y = doc.y + 16;
+
+      doc.font('Helvetica').fontSize(9).text(
+        `Délai de paiement: ${interets.config.delaiPaiementJours} jours à compter de la validation du décompte. ` +
+        'Intérêts calculés au taux annuel en vigueur, sur une base de 365 jours, ' +
+        `pour chaque règlement intervenu après la date limite et sur les sommes restant dues au ${formatDateFr(interets.dateReference)}.`,
+        MARGIN,
+        y,
+        { width: contentWidth }
+      );
+      y = doc.y + 14;
+
+      // Un tableau par décompte en retard
+      const widths = [0, 72, 72, 40, 46, 80];
+      widths[0] = contentWidth - widths.reduce((a, b) => a + b, 0);
+      for (const decompte of interets.decomptes) {
+        if (y + 90 > doc.page.height - MARGIN) {
+          doc.addPage();
+          y = MARGIN + 20;
+        }
+        doc.font('Helvetica-Bold').fontSize(9).text(
+          `Décompte N° ${decompte.numero} - montant ${formatMontant(decompte.montant)} DH - ` +
+          `exigible le ${formatDateFr(decompte.dateExigibilite)}, date limite ${formatDateFr(decompte.dateLimite)}`,
+          MARGIN,
+          y,
+          { width: contentWidth }
+        );
+        y = doc.y + 6;
+
+        const total: TableCell[] = [
+          { text: `Intérêts du décompte N° ${decompte.numero}`, colSpan: 5, align: 'right', bold: true },
+          { text: formatMontant(decompte.interets), align: 'right', bold: true },
+        ];
+        y = drawTable(
+          doc,
+          y,
+          {
+            x: MARGIN,
+            widths,
+            aligns: ['right', 'center', 'center', 'right', 'right', 'right'],
+            fontSize: 8,
+            padding: 4,
+          },
+          ['Montant réglé en retard (DH)', 'Du', 'Au', 'Jours', 'Taux', 'Intérêts (DH)'],
+          decompte.tranches.map(tranche => [
+            formatMontant(tranche.montant),
+            formatDateFr(tranche.du),
+            formatDateFr(tranche.au),
+            String(tranche.jours),
+            `${tranche.taux}%`,
+            formatMontant(tranche.interets),
+          ]),
+          [total]
+        ) + 14;
+      }
+
+      if (interets.decomptes.length === 0) {
+        doc.font('Helvetica-Oblique').fontSize(9).text('Aucun décompte payé hors délai.', MARGIN, y);
+        y = doc.y + 14;
+      }
+
+      // Total réclamé
+      if (y + 80 > doc.page.height - MARGIN) {
+        doc.addPage();
+        y = MARGIN + 20;
+      }
+      const totalText = `Total des intérêts moratoires réclamés: ${formatMontant(interets.totalInterets)} DH`;
+      const soit: MontantEnLettresPdf = {
+        montant: interets.totalInterets,
+        langue: project.langueMontantLettres,
+        libelleFr: 'Soit:',
+        libelleAr: 'أي:',
+      };
+      doc.font('Helvetica').fontSize(9);
+      const totalHeight = Math.max(44, heightOfMontantEnLettres(doc, soit, contentWidth - 12) + 31);
+      doc.lineWidth(0.5).strokeColor('black').rect(MARGIN, y, contentWidth, totalHeight).stroke();
+      doc.font('Helvetica-Bold').fontSize(10).text(totalText, MARGIN + 6, y + 7, { width: contentWidth - 12 });
+      doc.font('Helvetica').fontSize(9);
+      drawMontantEnLettres(doc, soit, MARGIN + 6, y + 24, contentWidth - 12);
+      y += totalHeight + 30;
+
+      doc.font('Helvetica').fontSize(9).text('Signature et cachet de l\'entreprise', doc.page.width / 2, y);
+
+      doc.end();
+
+      stream.on('finish', () => resolve());
+      stream.on('error', reject);
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
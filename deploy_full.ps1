@@ -5,9 +5,11 @@ $ErrorActionPreference = "Stop"
 
 $SERVER = "root@162.55.219.151"
 $REMOTE_BACKEND = "/root/btp-backend"
+$REMOTE_SHARED = "/root/shared"   # backend dependency "shared": "file:../shared"
 $REMOTE_FRONTEND = "/var/www/btp-app"
 $LOCAL_FRONTEND = "frontend-web"
 $LOCAL_BACKEND = "backend"
+$LOCAL_SHARED = "shared"
 
 Write-Host ""
 Write-Host "==========================================" -ForegroundColor Blue
@@ -73,6 +75,12 @@ foreach ($file in $BACKEND_FILES) {
     }
 }
 Write-Host "[OK] Backend source uploaded" -ForegroundColor Green
+
+Write-Host "  -> Uploading shared finance engine..."
+ssh $SERVER "mkdir -p $REMOTE_SHARED"
+foreach ($file in @("src", "package.json", "tsconfig.json")) {
+    scp -r "$LOCAL_SHARED/$file" "${SERVER}:${REMOTE_SHARED}/"
+}
 Write-Host ""
 
 
@@ -88,6 +96,9 @@ docker system prune -f
 
 cd $REMOTE_BACKEND
 
+echo '  -> Installing shared engine dependencies...'
+(cd $REMOTE_SHARED && npm install --production=false --quiet)
+
 echo '  -> Installing dependencies...'
 npm install --production=false --quiet
 
@@ -15,6 +15,7 @@ import ProjectDetailPage from './pages/ProjectDetailPage';
 import CreateProjectPage from './pages/CreateProjectPage';
 import EditProjectPage from './pages/EditProjectPage';
 import DelaisPage from './pages/DelaisPage';
+import IndicesPage from './pages/IndicesPage';
 import BordereauPage from './pages/BordereauPage';
 // Main pages
 import MetrePage from './pages/MetrePage';
@@ -234,6 +235,19 @@ function App() {
           }
         />
         
+        <Route
+          path="/indices"
+          element={
+            user ? (
+              <Layout>
+                <IndicesPage />
+              </Layout>
+            ) : (
+              <Navigate to="/login" replace />
+            )
+          }
+        />
+        
         <Route
           path="/projects/:projectId/bordereau"
           element={
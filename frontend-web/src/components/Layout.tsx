@@ -11,6 +11,7 @@ import {
   Shield,
   Clock,
   Trash2,
+  TrendingUp,
 } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
 import { useState } from 'react';
@@ -39,6 +40,7 @@ const Layout: FC<LayoutProps> = ({ children }) => {
     { path: '/', icon: LayoutDashboard, label: t('dashboard.title') },
     { path: '/projects', icon: FolderKanban, label: t('project.projects') },
     { path: '/delais', icon: Clock, label: 'Gestion des Délais' },
+    { path: '/indices', icon: TrendingUp, label: 'Indices de Révision' },
     { path: '/trash', icon: Trash2, label: 'سلة المحذوفات' },
     { path: '/settings', icon: Settings, label: t('settings.title') },
   ];
@@ -0,0 +1,374 @@
+/**
+ * AvenantsPanel Component
+ * Avenants du marché: bordereau "initial / après avenant N", prix nouveaux,
+ * quantités modifiées, prolongation des délais et contrôle des seuils
+ */
+
+import { FC, useMemo, useState } from 'react';
+import { FilePlus2, Plus, Trash2, Save, X, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Bordereau } from '../../db/database';
+import { avenantService, AvenantLigne } from '../../services/avenantService';
+import { useAvenants } from '../../hooks/useAvenants';
+import {
+  getBordereauVersion,
+  checkSeuilsAvenant,
+  SEUIL_AUGMENTATION_MASSE,
+  SEUIL_DIMINUTION_MASSE,
+} from '../../utils/avenants';
+import { formatMontant } from 'shared';
+
+interface AvenantsPanelProps {
+  projectId: string;
+  bordereau: Pick<Bordereau, 'lignes'>;
+  onChanged?: () => void;
+}
+
+const emptyForm = () => ({
+  dateAvenant: new Date().toISOString().split('T')[0],
+  objet: '',
+  delaiSupplementaire: 0,
+  lignes: [] as AvenantLigne[],
+});
+
+const AvenantsPanel: FC<AvenantsPanelProps> = ({ projectId, bordereau, onChanged }) => {
+  const { avenants, refresh } = useAvenants(projectId);
+  const [versionNumero, setVersionNumero] = useState<number | 'last'>('last');
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+
+  const dernierNumero = avenants.length > 0 ? avenants[avenants.length - 1].numero : 0;
+  const numeroAffiche = versionNumero === 'last' ? dernierNumero : versionNumero;
+
+  const version = useMemo(
+    () => getBordereauVersion(bordereau, avenants, { jusquAuNumero: numeroAffiche }),
+    [bordereau, avenants, numeroAffiche]
+  );
+  const seuils = useMemo(
+    () => checkSeuilsAvenant(bordereau.lignes || [], version.lignes),
+    [bordereau, version]
+  );
+
+  // Version courante (tous avenants) pour numéroter les prix nouveaux
+  const versionComplete = useMemo(
+    () => getBordereauVersion(bordereau, avenants),
+    [bordereau, avenants]
+  );
+  const prochainNumeroPrix = Math.max(
+    0,
+    ...versionComplete.lignes.map(l => l.numero),
+    ...form.lignes.map(l => l.numero)
+  ) + 1;
+
+  const updateFormLigne = (index: number, changes: Partial<AvenantLigne>) => {
+    setForm({
+      ...form,
+      lignes: form.lignes.map((l, i) => (i === index ? { ...l, ...changes } : l)),
+    });
+  };
+
+  const handleCreate = async () => {
+    if (form.lignes.length === 0 && !form.delaiSupplementaire) {
+      alert('Un avenant doit modifier au moins une quantité, ajouter un prix ou prolonger le délai');
+      return;
+    }
+    if (form.lignes.some(l => l.type === 'prix_nouveau' && !l.designation)) {
+      alert('Veuillez saisir la désignation de chaque prix nouveau');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await avenantService.createAvenant({ projectId, ...form });
+      setForm(emptyForm());
+      setShowForm(false);
+      setVersionNumero('last');
+      await refresh();
+      onChanged?.();
+    } catch (error) {
+      alert('Erreur lors de la création de l\'avenant');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string, numero: number) => {
+    if (!confirm(`Supprimer l'avenant N°${numero} ?`)) return;
+    try {
+      await avenantService.deleteAvenant(id);
+      setVersionNumero('last');
+      await refresh();
+      onChanged?.();
+    } catch (error) {
+      alert('Seul le dernier avenant peut être supprimé');
+    }
+  };
+
+  return (
+    <div className="card mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <FilePlus2 className="w-5 h-5 text-primary-600" />
+          Avenants
+        </h2>
+        <div className="flex items-center gap-3">
+          <select
+            className="input w-56"
+            value={versionNumero}
+            onChange={(e) => setVersionNumero(e.target.value === 'last' ? 'last' : parseInt(e.target.value))}
+          >
+            <option value={0}>Bordereau initial</option>
+            {avenants.map(a => (
+              <option key={a.id} value={a.numero}>Après avenant N°{a.numero}</option>
+            ))}
+            {avenants.length > 0 && <option value="last">Version en vigueur</option>}
+          </select>
+          {!showForm && (
+            <button onClick={() => setShowForm(true)} className="btn-primary flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Nouvel avenant
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Liste des avenants */}
+      {avenants.length > 0 && (
+        <div className="space-y-2 mb-4">
+          {avenants.map(a => (
+            <div key={a.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+              <div>
+                <span className="font-semibold text-gray-900">Avenant N°{a.numero}</span>
+                {a.dateAvenant && <span className="text-gray-500"> du {format(new Date(a.dateAvenant), 'dd/MM/yyyy')}</span>}
+                {a.objet && <span className="text-gray-700"> — {a.objet}</span>}
+                <span className="text-gray-500">
+                  {' '}• {a.lignes.length} ligne(s)
+                  {a.delaiSupplementaire > 0 && ` • +${a.delaiSupplementaire} mois`}
+                </span>
+              </div>
+              {a.numero === dernierNumero && (
+                <button
+                  onClick={() => handleDelete(a.id, a.numero)}
+                  className="p-1 text-red-500 hover:bg-red-50 rounded"
+                  title="Supprimer"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Seuils */}
+      {numeroAffiche > 0 && (
+        <div className={`mb-4 p-3 rounded-lg text-sm flex items-start gap-2 ${
+          seuils.depasseAugmentation || seuils.depasseDiminution
+            ? 'bg-red-50 border border-red-200 text-red-800'
+            : 'bg-green-50 border border-green-200 text-green-800'
+        }`}>
+          {seuils.depasseAugmentation || seuils.depasseDiminution
+            ? <AlertTriangle className="w-4 h-4 mt-0.5" />
+            : <CheckCircle2 className="w-4 h-4 mt-0.5" />}
+          <div>
+            <p>
+              Montant initial HT: {formatMontant(seuils.montantInitialHT)} DH • Après avenant: {formatMontant(seuils.montantAmendeHT)} DH
+              • Variation: {seuils.variationPourcent > 0 ? '+' : ''}{seuils.variationPourcent}%
+            </p>
+            {seuils.depasseAugmentation && (
+              <p className="font-medium">Augmentation dans la masse supérieure à {SEUIL_AUGMENTATION_MASSE}% du montant initial</p>
+            )}
+            {seuils.depasseDiminution && (
+              <p className="font-medium">Diminution dans la masse supérieure à {SEUIL_DIMINUTION_MASSE}% du montant initial</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Bordereau de la version choisie */}
+      <div className="overflow-x-auto">
+        <table className="w-full border border-gray-300 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold text-gray-700 w-16">N°</th>
+              <th className="px-3 py-2 text-left font-semibold text-gray-700">Désignation</th>
+              <th className="px-3 py-2 text-center font-semibold text-gray-700 w-16">U</th>
+              <th className="px-3 py-2 text-right font-semibold text-gray-700 w-28">Qté initiale</th>
+              <th className="px-3 py-2 text-right font-semibold text-gray-700 w-28">Qté</th>
+              <th className="px-3 py-2 text-right font-semibold text-gray-700 w-28">P.U. HT</th>
+              <th className="px-3 py-2 text-right font-semibold text-gray-700 w-32">Montant HT</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {version.lignes.map(l => (
+              <tr key={l.numero} className={l.avenantNumero ? 'bg-yellow-50' : ''}>
+                <td className="px-3 py-2 font-medium">{l.numero}</td>
+                <td className="px-3 py-2">
+                  {l.designation}
+                  {l.prixNouveau && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">Prix nouveau</span>
+                  )}
+                  {l.avenantNumero && !l.prixNouveau && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs bg-yellow-100 text-yellow-700 rounded">Av. {l.avenantNumero}</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-center">{l.unite}</td>
+                <td className="px-3 py-2 text-right text-gray-500">{formatMontant(l.quantiteInitiale)}</td>
+                <td className="px-3 py-2 text-right font-medium">{formatMontant(l.quantite)}</td>
+                <td className="px-3 py-2 text-right">{formatMontant(l.prixUnitaire)}</td>
+                <td className="px-3 py-2 text-right font-medium">{formatMontant(l.montant)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Formulaire nouvel avenant */}
+      {showForm && (
+        <div className="mt-6 p-4 border-2 border-primary-200 rounded-lg">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">Avenant N°{dernierNumero + 1}</h3>
+            <button onClick={() => setShowForm(false)} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date de l'avenant</label>
+              <input
+                type="date"
+                value={form.dateAvenant}
+                onChange={(e) => setForm({ ...form, dateAvenant: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Objet</label>
+              <input
+                value={form.objet}
+                onChange={(e) => setForm({ ...form, objet: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Prolongation du délai (mois)</label>
+              <input
+                type="number"
+                value={form.delaiSupplementaire}
+                onChange={(e) => setForm({ ...form, delaiSupplementaire: parseInt(e.target.value) || 0 })}
+                className="input"
+                min="0"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 mb-4">
+            {form.lignes.map((ligne, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                {ligne.type === 'modification' ? (
+                  <select
+                    className="input flex-1 min-w-64"
+                    value={ligne.numero}
+                    onChange={(e) => updateFormLigne(index, { numero: parseInt(e.target.value) })}
+                  >
+                    {versionComplete.lignes.map(l => (
+                      <option key={l.numero} value={l.numero}>
+                        {l.numero} - {l.designation} (actuel: {l.quantite} {l.unite})
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <>
+                    <span className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded">Prix N°{ligne.numero}</span>
+                    <input
+                      value={ligne.designation || ''}
+                      onChange={(e) => updateFormLigne(index, { designation: e.target.value })}
+                      className="input flex-1 min-w-48"
+                      placeholder="Désignation"
+                    />
+                    <input
+                      value={ligne.unite || ''}
+                      onChange={(e) => updateFormLigne(index, { unite: e.target.value })}
+                      className="input w-20"
+                      placeholder="U"
+                    />
+                    <input
+                      type="number"
+                      value={ligne.prixUnitaire ?? 0}
+                      onChange={(e) => updateFormLigne(index, { prixUnitaire: parseFloat(e.target.value) || 0 })}
+                      className="input w-32"
+                      placeholder="P.U. HT"
+                      step="0.01"
+                    />
+                  </>
+                )}
+                <input
+                  type="number"
+                  value={ligne.quantite}
+                  onChange={(e) => updateFormLigne(index, { quantite: parseFloat(e.target.value) || 0 })}
+                  className="input w-32"
+                  placeholder="Quantité"
+                  min="0"
+                  step="0.01"
+                />
+                <button
+                  onClick={() => setForm({ ...form, lignes: form.lignes.filter((_, i) => i !== index) })}
+                  className="p-2 text-red-500 hover:bg-red-50 rounded"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-4 mb-4">
+            <button
+              onClick={() => versionComplete.lignes.length > 0 && setForm({
+                ...form,
+                lignes: [...form.lignes, {
+                  type: 'modification',
+                  numero: versionComplete.lignes[0].numero,
+                  quantite: versionComplete.lignes[0].quantite,
+                }],
+              })}
+              className="text-sm text-primary-600 hover:underline flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Modifier une quantité
+            </button>
+            <button
+              onClick={() => setForm({
+                ...form,
+                lignes: [...form.lignes, {
+                  type: 'prix_nouveau',
+                  numero: prochainNumeroPrix,
+                  quantite: 0,
+                  designation: '',
+                  unite: '',
+                  prixUnitaire: 0,
+                }],
+              })}
+              className="text-sm text-primary-600 hover:underline flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Ajouter un prix nouveau
+            </button>
+          </div>
+
+          <button
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="btn-primary flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Enregistrement...' : 'Enregistrer l\'avenant'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvenantsPanel;
@@ -5,7 +5,7 @@ import { useAuthStore } from '../../store/authStore';
 import { logSyncOperation } from '../../services/syncService';
 import { isWeb } from '../../utils/platform';
 import { apiService } from '../../services/apiService';
-import { calculateTVA, calculateTTC, formatMontant } from '../../utils/financeEngine';
+import { calculateTVAParTaux, formatMontant } from 'shared';
 import {
   ArrowLeft,
   Plus,
@@ -24,6 +24,7 @@ interface BordereauLigne {
   quantite: number;
   prixUnitaire: number;
   montant: number;
+  tauxTVA?: number | null;
 }
 
 interface Bordereau {
@@ -41,6 +42,11 @@ interface Props {
   onSaved?: () => void; // Callback to refresh parent data after save
 }
 
+const TAUX_TVA_DEFAUT = 20;
+const TAUX_TVA_OPTIONS = [20, 14, 10, 7];
+
+const libelleTVA = (taux: number) => (taux === 0 ? 'Exonéré' : `TVA ${taux}%`);
+
 const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
   const { user } = useAuthStore();
   const [lignes, setLignes] = useState<BordereauLigne[]>([]);
@@ -103,12 +109,14 @@ const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
     }
   }, [bordereau]);
 
-  // 🔒 FINANCE ENGINE - حسابات مالية عبر financeEngine
+  // 🔒 FINANCE ENGINE - حسابات مالية عبر financeEngine (TVA par taux, 20% par défaut)
   const calculateTotals = () => {
     const montantHT = lignes.reduce((sum, ligne) => sum + ligne.montant, 0);
-    const tva = calculateTVA(montantHT, 20); // ⚠️ قطع TVA
-    const montantTTC = calculateTTC(montantHT, tva); // ⚠️ قطع TTC
-    return { montantHT, tva, montantTTC };
+    const result = calculateTVAParTaux(
+      lignes.map(l => ({ quantiteRealisee: l.quantite, prixUnitaireHT: l.prixUnitaire, tauxTVA: l.tauxTVA })),
+      TAUX_TVA_DEFAUT
+    );
+    return { montantHT, tva: result.montantTVA, montantTTC: result.totalTTC.display, groupes: result.groupes };
   };
 
   const handleAddLine = () => {
@@ -235,14 +243,16 @@ const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
   const handleExport = () => {
     if (!bordereau) return;
 
-    const { montantHT, tva, montantTTC } = calculateTotals();
+    const { montantHT, montantTTC, groupes } = calculateTotals();
     
     let csv = 'N°,Désignation des ouvrages,U,Quantité,Prix unitaire (MAD),Montant (MAD)\n';
     lignes.forEach((ligne) => {
       csv += `${ligne.numero},"${ligne.designation}",${ligne.unite},${ligne.quantite},${ligne.prixUnitaire},${ligne.montant}\n`;
     });
     csv += `\n,,,Total HT:,,${formatMontant(montantHT)}\n`;
-    csv += `,,,TVA 20%:,,${formatMontant(tva)}\n`;
+    groupes.forEach((groupe) => {
+      csv += `,,,${libelleTVA(groupe.taux)}:,,${formatMontant(groupe.montantTVA)}\n`;
+    });
     csv += `,,,Total TTC:,,${formatMontant(montantTTC)}\n`;
 
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -263,7 +273,7 @@ const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
     );
   }
 
-  const { montantHT, tva, montantTTC } = calculateTotals();
+  const { montantHT, tva, montantTTC, groupes } = calculateTotals();
 
   return (
     <div className="card">
@@ -310,6 +320,7 @@ const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
               <th className="px-4 py-3 text-center text-sm font-semibold text-gray-700 w-24">Unité</th>
               <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700 w-32">Quantité</th>
               <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700 w-40">Prix unitaire (MAD)</th>
+              <th className="px-4 py-3 text-center text-sm font-semibold text-gray-700 w-28">TVA</th>
               <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700 w-40">Montant (MAD)</th>
               <th className="px-4 py-3 w-12"></th>
             </tr>
@@ -412,6 +423,20 @@ const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
                     className="input text-sm text-right w-full"
                   />
                 </td>
+                <td className="px-2 py-2 w-28">
+                  <select
+                    value={ligne.tauxTVA ?? ''}
+                    onChange={(e) => handleUpdateLine(ligne.id, 'tauxTVA', e.target.value === '' ? null : parseFloat(e.target.value))}
+                    className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                    title="Taux de TVA du prix (par défaut: taux du décompte)"
+                  >
+                    <option value="">Défaut</option>
+                    {TAUX_TVA_OPTIONS.map(taux => (
+                      <option key={taux} value={taux}>{taux}%</option>
+                    ))}
+                    <option value="0">Exonéré</option>
+                  </select>
+                </td>
                 <td className="px-4 py-2 text-right font-medium text-gray-900">
                   {ligne.montant.toFixed(2)}
                 </td>
@@ -428,7 +453,7 @@ const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
           </tbody>
           <tfoot>
             <tr>
-              <td colSpan={7} className="px-4 py-2">
+              <td colSpan={8} className="px-4 py-2">
                 <button
                   onClick={handleAddLine}
                   className="flex items-center gap-2 text-primary-600 hover:text-primary-700 font-medium text-sm"
@@ -449,10 +474,21 @@ const BordereauTable: FC<Props> = ({ bordereauId, onClose, onSaved }) => {
             <span>Total HT:</span>
             <span className="font-semibold">{formatMontant(montantHT)} MAD</span>
           </div>
-          <div className="flex items-center justify-between text-gray-700">
-            <span>TVA 20%:</span>
-            <span className="font-semibold">{formatMontant(tva)} MAD</span>
-          </div>
+          {groupes.map(groupe => (
+            <div key={groupe.taux} className="flex items-center justify-between text-gray-700">
+              <span>
+                {libelleTVA(groupe.taux)}
+                {groupes.length > 1 && <span className="text-xs text-gray-500"> (base {formatMontant(groupe.totalHT)})</span>}:
+              </span>
+              <span className="font-semibold">{formatMontant(groupe.montantTVA)} MAD</span>
+            </div>
+          ))}
+          {groupes.length > 1 && (
+            <div className="flex items-center justify-between text-gray-700">
+              <span>Total TVA:</span>
+              <span className="font-semibold">{formatMontant(tva)} MAD</span>
+            </div>
+          )}
           <div className="flex items-center justify-between text-lg font-bold text-gray-900 pt-2 border-t">
             <span>Total TTC:</span>
             <span className="text-primary-600">{formatMontant(montantTTC)} MAD</span>
@@ -3,3 +3,4 @@ export { default as CreateBordereauModal } from './CreateBordereauModal';
 export { default as TemplateLibraryModal } from './TemplateLibraryModal';
 export { default as CopyFromProjectModal } from './CopyFromProjectModal';
 export { default as ImportExcelModal } from './ImportExcelModal';
+export { default as AvenantsPanel } from './AvenantsPanel';
@@ -0,0 +1,266 @@
+/**
+ * AjustementsPanel Component
+ * Déductions / additions diverses du récapitulatif (retenue à la source, pénalités diverses,
+ * avoirs, primes): lignes du marché et lignes de la période, taux ou montant forfaitaire
+ */
+
+import { FC, useEffect, useState } from 'react';
+import { SlidersHorizontal, Plus, Trash2, Save, ArrowUp, ArrowDown } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { AjustementConfig } from '../../db/database';
+import { formatMontant, type AjustementsResult } from 'shared';
+
+interface AjustementsPanelProps {
+  configMarche?: AjustementConfig[];
+  configPeriode?: AjustementConfig[];
+  periodeNumero: number;
+  result: AjustementsResult;
+  disabled?: boolean;          // Période verrouillée: lignes de la période en lecture seule
+  onSaveMarche: (ajustements: AjustementConfig[]) => Promise<void>;
+  onSavePeriode: (ajustements: AjustementConfig[]) => Promise<void>;
+}
+
+const nouvelAjustement = (): AjustementConfig => ({
+  id: uuidv4(),
+  libelle: '',
+  sens: 'deduction',
+  base: 'TTC',
+  taux: null,
+  montant: 0,
+});
+
+interface ListeAjustementsProps {
+  titre: string;
+  description: string;
+  config?: AjustementConfig[];
+  disabled?: boolean;
+  onSave: (ajustements: AjustementConfig[]) => Promise<void>;
+}
+
+const ListeAjustements: FC<ListeAjustementsProps> = ({ titre, description, config, disabled, onSave }) => {
+  const [draft, setDraft] = useState<AjustementConfig[]>(config || []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config || []);
+  }, [config]);
+
+  const update = (index: number, changes: Partial<AjustementConfig>) => {
+    setDraft(draft.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+  };
+
+  const handleSave = async () => {
+    if (draft.some(a => !a.libelle.trim())) {
+      alert('Veuillez saisir le libellé de chaque ligne');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      // L'ordre de la liste est l'ordre d'impression dans le récapitulatif
+      await onSave(draft.map((a, ordre) => ({ ...a, libelle: a.libelle.trim(), ordre })));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-semibold text-gray-800">{titre}</h3>
+      <p className="text-xs text-gray-500 mb-2">{description}</p>
+
+      {draft.length > 0 && (
+        <div className="overflow-x-auto mb-2">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-2 py-2 text-left font-semibold text-gray-700">Libellé</th>
+                <th className="px-2 py-2 text-left font-semibold text-gray-700">Sens</th>
+                <th className="px-2 py-2 text-left font-semibold text-gray-700">Base</th>
+                <th className="px-2 py-2 text-right font-semibold text-gray-700">Taux (%)</th>
+                <th className="px-2 py-2 text-right font-semibold text-gray-700">Montant (DH)</th>
+                <th className="px-2 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {draft.map((a, index) => (
+                <tr key={a.id}>
+                  <td className="px-2 py-1">
+                    <input
+                      value={a.libelle}
+                      onChange={(e) => update(index, { libelle: e.target.value })}
+                      className="input"
+                      placeholder="Retenue à la source, avoir, prime..."
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-1 w-32">
+                    <select
+                      value={a.sens}
+                      onChange={(e) => update(index, { sens: e.target.value as AjustementConfig['sens'] })}
+                      className="input"
+                      disabled={disabled}
+                    >
+                      <option value="deduction">À déduire</option>
+                      <option value="addition">À ajouter</option>
+                    </select>
+                  </td>
+                  <td className="px-2 py-1 w-24">
+                    <select
+                      value={a.base}
+                      onChange={(e) => update(index, { base: e.target.value as AjustementConfig['base'] })}
+                      className="input"
+                      disabled={disabled || !a.taux}
+                    >
+                      <option value="TTC">TTC</option>
+                      <option value="HT">HT</option>
+                    </select>
+                  </td>
+                  <td className="px-2 py-1 w-28">
+                    <input
+                      type="number"
+                      value={a.taux ?? ''}
+                      onChange={(e) => update(index, { taux: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+                      className="input text-right"
+                      min="0"
+                      step="0.01"
+                      placeholder="-"
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-1 w-36">
+                    <input
+                      type="number"
+                      value={a.taux ? '' : a.montant ?? ''}
+                      onChange={(e) => update(index, { montant: parseFloat(e.target.value) || 0 })}
+                      className="input text-right"
+                      min="0"
+                      step="0.01"
+                      placeholder={a.taux ? 'Selon le taux' : '0.00'}
+                      disabled={disabled || !!a.taux}
+                    />
+                  </td>
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    {!disabled && (
+                      <>
+                        <button onClick={() => move(index, -1)} className="p-1 text-gray-500 hover:bg-gray-100 rounded" title="Monter">
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => move(index, 1)} className="p-1 text-gray-500 hover:bg-gray-100 rounded" title="Descendre">
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded"
+                          title="Supprimer"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!disabled && (
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => setDraft([...draft, nouvelAjustement()])}
+            className="text-sm text-primary-600 hover:underline flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Ajouter une ligne
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="btn-secondary flex items-center gap-2 text-sm"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AjustementsPanel: FC<AjustementsPanelProps> = ({
+  configMarche,
+  configPeriode,
+  periodeNumero,
+  result,
+  disabled,
+  onSaveMarche,
+  onSavePeriode,
+}) => (
+  <div className="card mb-6">
+    <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+      <SlidersHorizontal className="w-5 h-5 text-primary-600" />
+      Déductions et Additions Diverses
+    </h2>
+
+    <ListeAjustements
+      titre="Lignes du marché"
+      description="Appliquées à tous les décomptes (taux sur les travaux cumulés ou montant cumulé)"
+      config={configMarche}
+      onSave={onSaveMarche}
+    />
+    <ListeAjustements
+      titre={`Lignes de la période N°${periodeNumero}`}
+      description="Reportées sur les décomptes suivants: le décompte étant cumulatif, elles ne sont déduites (ou ajoutées) qu'une fois"
+      config={configPeriode}
+      disabled={disabled}
+      onSave={onSavePeriode}
+    />
+
+    {/* Montants du décompte, dans l'ordre du récapitulatif */}
+    {result.lignes.length > 0 && (
+      <div className="overflow-x-auto">
+        <table className="w-full border border-gray-300 text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold text-gray-700">Ligne</th>
+              <th className="px-3 py-2 text-left font-semibold text-gray-700">Origine</th>
+              <th className="px-3 py-2 text-right font-semibold text-gray-700">Calcul</th>
+              <th className="px-3 py-2 text-right font-semibold text-gray-700">Montant (DH)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {result.lignes.map(l => (
+              <tr key={`${l.periodeNumero ?? 'marche'}-${l.id}`}>
+                <td className="px-3 py-2 text-gray-900">{l.libelle}</td>
+                <td className="px-3 py-2 text-gray-600">{l.periodeNumero === null ? 'Marché' : `Période N°${l.periodeNumero}`}</td>
+                <td className="px-3 py-2 text-right text-gray-600">{l.taux ? `${l.taux}% du ${l.base}` : 'Forfait'}</td>
+                <td className={`px-3 py-2 text-right font-medium ${l.sens === 'addition' ? 'text-green-700' : 'text-red-600'}`}>
+                  {l.sens === 'addition' ? '+' : '−'}{formatMontant(l.montant)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-gray-50">
+            <tr>
+              <td colSpan={3} className="px-3 py-2 text-right font-semibold text-gray-700">Incidence sur l'acompte</td>
+              <td className="px-3 py-2 text-right font-bold text-gray-900">
+                {result.net > 0 ? '+' : ''}{formatMontant(result.net)}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+export default AjustementsPanel;
@@ -0,0 +1,286 @@
+/**
+ * ApprovisionnementsPanel Component
+ * Registre des approvisionnements: matériaux sur chantier admis au décompte,
+ * report d'une période à l'autre et déduction à l'incorporation
+ */
+
+import { FC, useState } from 'react';
+import { Package, Plus, Trash2, Save, X, CheckCircle2, Undo2 } from 'lucide-react';
+import { Periode } from '../../db/database';
+import { approvisionnementService } from '../../services/approvisionnementService';
+import {
+  ApprovisionnementsPeriode,
+  POURCENTAGE_ADMIS_DEFAUT,
+} from '../../utils/approvisionnements';
+import { formatMontant } from 'shared';
+
+interface ApprovisionnementsPanelProps {
+  projectId: string;
+  periodeId: string;
+  periodes: Pick<Periode, 'id' | 'numero'>[];
+  result: ApprovisionnementsPeriode;
+  onChanged: () => void;
+}
+
+const emptyForm = () => ({
+  designation: '',
+  unite: '',
+  quantite: 0,
+  prixUnitaire: 0,
+  pourcentageAdmis: POURCENTAGE_ADMIS_DEFAUT,
+});
+
+const cleanId = (id: string): string => (id.includes(':') ? id.split(':').pop()! : id);
+
+const ApprovisionnementsPanel: FC<ApprovisionnementsPanelProps> = ({
+  projectId,
+  periodeId,
+  periodes,
+  result,
+  onChanged,
+}) => {
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+
+  const currentPeriodeId = cleanId(periodeId);
+  const numeroCourant = periodes.find(p => cleanId(p.id) === currentPeriodeId)?.numero || 0;
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      alert(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.designation.trim()) {
+      alert('Veuillez saisir la désignation des matériaux');
+      return;
+    }
+    await run(async () => {
+      await approvisionnementService.createApprovisionnement({
+        projectId,
+        periodeId: currentPeriodeId,
+        ...form,
+      });
+      setForm(emptyForm());
+      setShowForm(false);
+    }, 'Erreur lors de l\'enregistrement de l\'approvisionnement');
+  };
+
+  const handleIncorporer = (id: string) =>
+    run(
+      () => approvisionnementService.updateApprovisionnement(id, { periodeIncorporationId: currentPeriodeId }),
+      'Erreur lors de l\'incorporation'
+    );
+
+  const handleAnnulerIncorporation = (id: string) =>
+    run(
+      () => approvisionnementService.updateApprovisionnement(id, { periodeIncorporationId: null }),
+      'Erreur lors de l\'annulation'
+    );
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Supprimer cet approvisionnement ?')) return;
+    run(() => approvisionnementService.deleteApprovisionnement(id), 'Erreur lors de la suppression');
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <Package className="w-5 h-5 text-primary-600" />
+          Approvisionnements
+        </h2>
+        {!showForm && (
+          <button onClick={() => setShowForm(true)} className="btn-secondary flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Ajouter
+          </button>
+        )}
+      </div>
+
+      {/* Matériaux sur chantier à la fin de la période */}
+      {result.actifs.length > 0 ? (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Matériaux</th>
+                <th className="px-3 py-2 text-center font-semibold text-gray-700">U</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Quantité</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">P.U. HT</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">% admis</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Montant admis HT</th>
+                <th className="px-3 py-2 text-center font-semibold text-gray-700">Constaté</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.actifs.map(appro => (
+                <tr key={appro.id}>
+                  <td className="px-3 py-2 text-gray-900">{appro.designation}</td>
+                  <td className="px-3 py-2 text-center text-gray-600">{appro.unite}</td>
+                  <td className="px-3 py-2 text-right">{Number(appro.quantite).toFixed(2)}</td>
+                  <td className="px-3 py-2 text-right">{formatMontant(Number(appro.prixUnitaire))}</td>
+                  <td className="px-3 py-2 text-right">{Number(appro.pourcentageAdmis)}%</td>
+                  <td className="px-3 py-2 text-right font-medium">{formatMontant(appro.montantHT)}</td>
+                  <td className="px-3 py-2 text-center text-gray-600">
+                    {appro.periodeNumero === numeroCourant ? 'Cette période' : `Période ${appro.periodeNumero}`}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {appro.periodeNumero < numeroCourant ? (
+                      <button
+                        onClick={() => handleIncorporer(appro.id)}
+                        disabled={isSaving}
+                        className="text-xs px-2 py-1 bg-green-50 text-green-700 rounded hover:bg-green-100 inline-flex items-center gap-1"
+                        title="Matériaux mis en œuvre dans cette période: déduits du décompte"
+                      >
+                        <CheckCircle2 className="w-3 h-3" />
+                        Incorporé
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleDelete(appro.id)}
+                        disabled={isSaving}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Aucun matériau sur chantier pour cette période.</p>
+      )}
+
+      {/* Incorporés dans cette période → déduits */}
+      {result.deduits.length > 0 && (
+        <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+          <p className="font-medium text-gray-800 mb-2">
+            Incorporés dans cette période (déduits): {formatMontant(result.montantDeduitHT)} DH HT
+          </p>
+          <ul className="space-y-1">
+            {result.deduits.map(appro => (
+              <li key={appro.id} className="flex items-center justify-between text-gray-700">
+                <span>
+                  {appro.designation} - {Number(appro.quantite).toFixed(2)} {appro.unite} (période {appro.periodeNumero})
+                </span>
+                <button
+                  onClick={() => handleAnnulerIncorporation(appro.id)}
+                  disabled={isSaving}
+                  className="text-xs px-2 py-1 text-gray-600 hover:bg-gray-200 rounded inline-flex items-center gap-1"
+                >
+                  <Undo2 className="w-3 h-3" />
+                  Annuler
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Totaux portés au décompte */}
+      <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+        <div>
+          <span className="font-semibold text-gray-700">Montant admis HT:</span>
+          <p className="text-gray-900">{formatMontant(result.montantHT)} DH</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">TVA:</span>
+          <p className="text-gray-900">{formatMontant(result.montantTVA)} DH</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Porté au décompte (TTC):</span>
+          <p className="font-bold text-primary-600">{formatMontant(result.montantTTC)} DH</p>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">Nouvel approvisionnement</h3>
+            <button onClick={() => setShowForm(false)} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Matériaux</label>
+              <input
+                value={form.designation}
+                onChange={(e) => setForm({ ...form, designation: e.target.value })}
+                className="input"
+                placeholder="Ciment CPJ 45, acier HA..."
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Unité</label>
+              <input
+                value={form.unite}
+                onChange={(e) => setForm({ ...form, unite: e.target.value })}
+                className="input"
+                placeholder="t, m3..."
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Quantité</label>
+              <input
+                type="number"
+                value={form.quantite}
+                onChange={(e) => setForm({ ...form, quantite: parseFloat(e.target.value) || 0 })}
+                className="input"
+                min="0"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">P.U. HT (DH)</label>
+              <input
+                type="number"
+                value={form.prixUnitaire}
+                onChange={(e) => setForm({ ...form, prixUnitaire: parseFloat(e.target.value) || 0 })}
+                className="input"
+                min="0"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">% admis</label>
+              <input
+                type="number"
+                value={form.pourcentageAdmis}
+                onChange={(e) => setForm({ ...form, pourcentageAdmis: parseFloat(e.target.value) || 0 })}
+                className="input"
+                min="0"
+                max="100"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="btn-primary flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApprovisionnementsPanel;
@@ -0,0 +1,170 @@
+/**
+ * AvancePanel Component
+ * Avance forfaitaire: montant, échéancier de remboursement et suivi avancé / récupéré
+ */
+
+import { FC, useEffect, useState } from 'react';
+import { Banknote, Save } from 'lucide-react';
+import { AvanceConfig } from '../../db/database';
+import { formatMontant, type RemboursementAvanceResult } from 'shared';
+
+export interface SuiviAvanceLigne extends RemboursementAvanceResult {
+  numero: number;
+  libelle: string;
+  montantPeriode: number;    // remboursement déduit sur ce décompte
+}
+
+interface AvancePanelProps {
+  config?: AvanceConfig;
+  suivi: SuiviAvanceLigne[];
+  onSave: (config: AvanceConfig) => Promise<void>;
+}
+
+export const DEFAULT_AVANCE: AvanceConfig = {
+  montant: 0,
+  debutRemboursement: 0,
+  finRemboursement: 80,
+};
+
+const AvancePanel: FC<AvancePanelProps> = ({ config, suivi, onSave }) => {
+  const [draft, setDraft] = useState<AvanceConfig>(config || DEFAULT_AVANCE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config || DEFAULT_AVANCE);
+  }, [config]);
+
+  const handleSave = async () => {
+    if (draft.finRemboursement <= draft.debutRemboursement) {
+      alert('Le pourcentage de fin doit être supérieur au pourcentage de début');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dernier = suivi.length > 0 ? suivi[suivi.length - 1] : null;
+  const montantAvance = config?.montant || 0;
+
+  return (
+    <div className="card mb-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+        <Banknote className="w-5 h-5 text-primary-600" />
+        Avance Forfaitaire
+      </h2>
+
+      {/* Paramètres */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Montant de l'avance (DH)</label>
+          <input
+            type="number"
+            value={draft.montant}
+            onChange={(e) => setDraft({ ...draft, montant: parseFloat(e.target.value) || 0 })}
+            className="input"
+            min="0"
+            step="0.01"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Date de versement</label>
+          <input
+            type="date"
+            value={draft.dateVersement || ''}
+            onChange={(e) => setDraft({ ...draft, dateVersement: e.target.value || undefined })}
+            className="input"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Début du remboursement (% exécution)</label>
+          <input
+            type="number"
+            value={draft.debutRemboursement}
+            onChange={(e) => setDraft({ ...draft, debutRemboursement: parseFloat(e.target.value) || 0 })}
+            className="input"
+            min="0"
+            max="100"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Fin du remboursement (% exécution)</label>
+          <input
+            type="number"
+            value={draft.finRemboursement}
+            onChange={(e) => setDraft({ ...draft, finRemboursement: parseFloat(e.target.value) || 0 })}
+            className="input"
+            min="0"
+            max="100"
+          />
+        </div>
+      </div>
+
+      {/* Suivi avancé / récupéré */}
+      {montantAvance > 0 && (
+        <>
+          <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+            <div>
+              <span className="font-semibold text-gray-700">Avancé:</span>
+              <p className="text-gray-900">{formatMontant(montantAvance)} DH</p>
+            </div>
+            <div>
+              <span className="font-semibold text-gray-700">Récupéré:</span>
+              <p className="text-gray-900">
+                {formatMontant(dernier?.montantRembourse || 0)} DH
+                <span className="ml-1 text-xs text-gray-500">({dernier?.pourcentageRembourse || 0}%)</span>
+              </p>
+            </div>
+            <div>
+              <span className="font-semibold text-gray-700">Reste à récupérer:</span>
+              <p className="font-bold text-primary-600">
+                {formatMontant(dernier ? dernier.resteARembourser : montantAvance)} DH
+              </p>
+            </div>
+          </div>
+
+          {suivi.length > 0 && (
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Décompte</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Exécution</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Remboursé sur le décompte</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Remboursé cumulé</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Reste</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {suivi.map(ligne => (
+                    <tr key={ligne.numero}>
+                      <td className="px-3 py-2 text-gray-900">N°{ligne.numero} - {ligne.libelle}</td>
+                      <td className="px-3 py-2 text-right">{ligne.tauxExecution.toFixed(2)}%</td>
+                      <td className="px-3 py-2 text-right">{formatMontant(ligne.montantPeriode)}</td>
+                      <td className="px-3 py-2 text-right font-medium">{formatMontant(ligne.montantRembourse)}</td>
+                      <td className="px-3 py-2 text-right">{formatMontant(ligne.resteARembourser)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="btn-secondary flex items-center gap-2"
+      >
+        <Save className="w-4 h-4" />
+        {isSaving ? 'Enregistrement...' : 'Enregistrer l\'avance'}
+      </button>
+    </div>
+  );
+};
+
+export default AvancePanel;
@@ -0,0 +1,155 @@
+/**
+ * DecompteWorkflowPanel Component
+ * Workflow du décompte: soumission, validation, paiement, réouverture (admin)
+ * avec l'historique des changements de statut
+ */
+
+import { FC, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle2, History, Lock, Unlock } from 'lucide-react';
+import { Decompt, DecompteAuditEntry } from '../../db/database';
+import { apiService } from '../../services/apiService';
+import {
+  ACTION_LABELS,
+  NEXT_ACTION,
+  STATUT_COLORS,
+  STATUT_LABELS,
+  type DecompteAction,
+} from '../../utils/decompteWorkflow';
+
+interface DecompteWorkflowPanelProps {
+  decompte: Decompt;
+  blocagesValidation?: string[];   // Dépassements non justifiés: validation impossible
+  isAdmin: boolean;
+  onChanged: () => void;
+}
+
+const cleanId = (id: string): string => (id.includes(':') ? id.split(':').pop()! : id);
+
+const formatDate = (date?: string) => (date ? format(new Date(date), 'dd/MM/yyyy HH:mm') : '');
+
+const DecompteWorkflowPanel: FC<DecompteWorkflowPanelProps> = ({ decompte, blocagesValidation = [], isAdmin, onChanged }) => {
+  const [historique, setHistorique] = useState<DecompteAuditEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const decomptId = cleanId(decompte.id);
+  const statut = decompte.statut || 'draft';
+  const nextAction = NEXT_ACTION[statut];
+  const validationBloquee = nextAction === 'validate' && blocagesValidation.length > 0;
+
+  useEffect(() => {
+    apiService
+      .getDecomptHistorique(decomptId)
+      .then(response => setHistorique(response.data || []))
+      .catch(error => console.error('Erreur lors du chargement de l\'historique:', error));
+  }, [decomptId, statut]);
+
+  const run = async (action: DecompteAction) => {
+    let motif: string | undefined;
+    if (action === 'reopen') {
+      motif = prompt('Motif de la réouverture du décompte:')?.trim();
+      if (!motif) return;
+    } else if (!confirm(`${ACTION_LABELS[action]} le décompte ?`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await apiService.changeDecomptStatut(decomptId, action, motif);
+      onChanged();
+    } catch (error) {
+      alert('Erreur lors du changement de statut du décompte');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const etapes = [
+    { label: 'Soumis', date: decompte.submittedAt },
+    { label: 'Validé', date: decompte.validatedAt },
+    { label: 'Payé', date: decompte.paidAt },
+  ];
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          {statut === 'validated' || statut === 'paid' ? (
+            <Lock className="w-5 h-5 text-primary-600" />
+          ) : (
+            <CheckCircle2 className="w-5 h-5 text-primary-600" />
+          )}
+          Statut du décompte
+          <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full ${STATUT_COLORS[statut]}`}>
+            {STATUT_LABELS[statut]}
+          </span>
+        </h2>
+        <div className="flex gap-2">
+          {nextAction && (
+            <button
+              onClick={() => run(nextAction)}
+              disabled={isSaving || validationBloquee}
+              className="btn-primary flex items-center gap-2"
+            >
+              <CheckCircle2 className="w-4 h-4" />
+              {ACTION_LABELS[nextAction]}
+            </button>
+          )}
+          {isAdmin && statut !== 'draft' && (
+            <button
+              onClick={() => run('reopen')}
+              disabled={isSaving}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <Unlock className="w-4 h-4" />
+              {ACTION_LABELS.reopen}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {validationBloquee && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          <p className="font-medium mb-1 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Validation impossible: dépassements à justifier ou à couvrir par un avenant
+          </p>
+          <ul className="list-disc list-inside">
+            {blocagesValidation.map(motif => <li key={motif}>{motif}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {/* Étapes franchies */}
+      <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+        {etapes.map(etape => (
+          <div key={etape.label}>
+            <span className="font-semibold text-gray-700">{etape.label}:</span>
+            <p className="text-gray-900">{etape.date ? formatDate(etape.date) : '-'}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Historique (piste d'audit) */}
+      {historique.length > 0 && (
+        <div className="border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2 flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Historique
+          </h3>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {historique.map(entry => (
+              <li key={entry.id}>
+                {formatDate(entry.createdAt)} - {ACTION_LABELS[entry.action]} ({STATUT_LABELS[entry.ancienStatut]} → {STATUT_LABELS[entry.nouveauStatut]})
+                {' '}par {[entry.firstName, entry.lastName].filter(Boolean).join(' ') || entry.email}
+                {entry.motif && <span className="text-gray-500"> - motif: {entry.motif}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DecompteWorkflowPanel;
@@ -0,0 +1,155 @@
+/**
+ * DecomptesPrecedentsPanel Component
+ * Décomptes précédents et dépenses des exercices antérieurs: calculés depuis les
+ * décomptes validés du projet, avec le détail par décompte et saisie manuelle sur déverrouillage
+ */
+
+import { FC } from 'react';
+import { History, Lock, Unlock } from 'lucide-react';
+import { formatMontant } from 'shared';
+import { STATUT_COLORS, STATUT_LABELS } from '../../utils/decompteWorkflow';
+import { AFFECTATION_LABELS, type DecomptesPrecedentsCalcul } from '../../utils/decomptesPrecedents';
+
+interface DecomptesPrecedentsPanelProps {
+  calcul: DecomptesPrecedentsCalcul;
+  manuel: boolean;
+  decomptesPrecedents: number;
+  depensesExercicesAnterieurs: number;
+  disabled?: boolean;
+  onToggleManuel: (manuel: boolean) => void;
+  onChange: (values: { decomptesPrecedents?: number; depensesExercicesAnterieurs?: number }) => void;
+}
+
+const DecomptesPrecedentsPanel: FC<DecomptesPrecedentsPanelProps> = ({
+  calcul,
+  manuel,
+  decomptesPrecedents,
+  depensesExercicesAnterieurs,
+  disabled = false,
+  onToggleManuel,
+  onChange,
+}) => {
+  const handleToggle = () => {
+    if (!manuel) {
+      if (!confirm('Saisir manuellement les décomptes précédents ? Les montants ne seront plus calculés depuis les décomptes validés.')) {
+        return;
+      }
+      onToggleManuel(true);
+    } else {
+      onToggleManuel(false);
+    }
+  };
+
+  const ecartPrecedents = decomptesPrecedents - calcul.decomptesPrecedents;
+  const ecartAnterieurs = depensesExercicesAnterieurs - calcul.depensesExercicesAnterieurs;
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <History className="w-5 h-5 text-primary-600" />
+          Décomptes Précédents
+        </h2>
+        <button
+          onClick={handleToggle}
+          disabled={disabled}
+          className="btn-secondary flex items-center gap-2"
+        >
+          {manuel ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+          {manuel ? 'Revenir au calcul automatique' : 'Saisie manuelle'}
+        </button>
+      </div>
+
+      {/* Détail des décomptes antérieurs */}
+      {calcul.details.length > 0 ? (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-700">
+              <th className="text-left py-2">N° décompte</th>
+              <th className="text-left py-2">Période</th>
+              <th className="text-left py-2">Exercice</th>
+              <th className="text-left py-2">Statut</th>
+              <th className="text-right py-2">Montant (DH)</th>
+              <th className="text-left py-2 pl-4">Imputation</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calcul.details.map(detail => (
+              <tr
+                key={detail.numero}
+                className={`border-b border-gray-100 ${detail.affectation === 'exclu' ? 'text-gray-400' : 'text-gray-900'}`}
+              >
+                <td className="py-2">{detail.numero}</td>
+                <td className="py-2">{detail.periodeNumero ?? '-'}</td>
+                <td className="py-2">{detail.annee ?? '-'}</td>
+                <td className="py-2">
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${STATUT_COLORS[detail.statut]}`}>
+                    {STATUT_LABELS[detail.statut]}
+                  </span>
+                </td>
+                <td className="py-2 text-right">{formatMontant(detail.montant)}</td>
+                <td className="py-2 pl-4">{AFFECTATION_LABELS[detail.affectation]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Aucun décompte antérieur pour ce projet.</p>
+      )}
+
+      {/* Montants retenus */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Dépenses exercices antérieurs (DH)
+          </label>
+          <input
+            type="number"
+            value={depensesExercicesAnterieurs}
+            onChange={(e) => onChange({ depensesExercicesAnterieurs: parseFloat(e.target.value) || 0 })}
+            className={manuel ? 'input' : 'input bg-gray-50'}
+            min="0"
+            step="0.01"
+            disabled={!manuel || disabled}
+          />
+          {manuel && ecartAnterieurs !== 0 && (
+            <p className="text-xs text-orange-600 mt-1">
+              Calculé: {formatMontant(calcul.depensesExercicesAnterieurs)} DH
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Décomptes précédents - exercice en cours (DH)
+          </label>
+          <input
+            type="number"
+            value={decomptesPrecedents}
+            onChange={(e) => onChange({ decomptesPrecedents: parseFloat(e.target.value) || 0 })}
+            className={manuel ? 'input' : 'input bg-gray-50'}
+            min="0"
+            step="0.01"
+            disabled={!manuel || disabled}
+          />
+          {manuel && ecartPrecedents !== 0 && (
+            <p className="text-xs text-orange-600 mt-1">
+              Calculé: {formatMontant(calcul.decomptesPrecedents)} DH
+            </p>
+          )}
+        </div>
+      </div>
+
+      {manuel ? (
+        <div className="mt-4 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+          Saisie manuelle: les montants ci-dessus remplacent le calcul depuis l'historique des décomptes.
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 mt-4">
+          Seuls les décomptes validés ou payés sont pris en compte, imputés selon l'année de début de leur période.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DecomptesPrecedentsPanel;
@@ -0,0 +1,202 @@
+/**
+ * DepassementsPanel Component
+ * Dépassements de quantités: prix dont le cumul dépasse le bordereau en vigueur,
+ * variation du montant du marché (seuil 10%), justifications exigées avant la validation
+ */
+
+import { FC, useEffect, useState } from 'react';
+import { TrendingUp, AlertTriangle, CheckCircle, FileSpreadsheet, Save } from 'lucide-react';
+import { JustificationsDepassement, JustificationDepassement } from '../../db/database';
+import {
+  formatMontant,
+  formatQuantite,
+  SEUIL_DEPASSEMENT_MARCHE,
+  type DepassementsResult,
+} from 'shared';
+import { exportDepassementsExcel } from '../../utils/depassementsExcelExport';
+
+interface DepassementsPanelProps {
+  result: DepassementsResult;
+  justifications?: JustificationsDepassement;
+  marcheNo?: string;
+  objet?: string;
+  periodeLibelle?: string;
+  disabled?: boolean;          // Période verrouillée: justifications en lecture seule
+  onSave: (justifications: JustificationsDepassement) => Promise<void>;
+}
+
+const cle = (prixNo: number | string) => String(prixNo).trim();
+
+const DepassementsPanel: FC<DepassementsPanelProps> = ({
+  result,
+  justifications,
+  marcheNo,
+  objet,
+  periodeLibelle,
+  disabled,
+  onSave,
+}) => {
+  const [motifs, setMotifs] = useState<Record<string, string>>({});
+  const [motifMarche, setMotifMarche] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setMotifs(Object.fromEntries((justifications?.lignes || []).map(j => [cle(j.prixNo ?? ''), j.motif])));
+    setMotifMarche(justifications?.marche?.motif || '');
+  }, [justifications]);
+
+  if (result.lignes.length === 0 && !result.depasseSeuilMarche) return null;
+
+  const handleSave = async () => {
+    const date = new Date().toISOString();
+    // La date d'origine est conservée tant que le motif n'a pas changé
+    const garder = (ancienne: JustificationDepassement | null | undefined, motif: string) =>
+      ancienne && ancienne.motif === motif ? ancienne.date : date;
+
+    const lignes = Object.entries(motifs)
+      .map(([prixNo, motif]) => ({ prixNo, motif: motif.trim() }))
+      .filter(j => j.motif)
+      .map(j => {
+        const ancienne = justifications?.lignes?.find(a => cle(a.prixNo ?? '') === j.prixNo);
+        const prixNo = ancienne?.prixNo ?? result.lignes.find(l => cle(l.prixNo) === j.prixNo)?.prixNo ?? j.prixNo;
+        return { prixNo, motif: j.motif, date: garder(ancienne, j.motif) };
+      });
+    const motif = motifMarche.trim();
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        lignes,
+        marche: motif ? { motif, date: garder(justifications?.marche, motif) } : null,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-primary-600" />
+          Dépassements de quantités
+        </h2>
+        <button
+          onClick={() => exportDepassementsExcel(result, { marcheNo, objet }, periodeLibelle)}
+          className="btn-secondary flex items-center gap-2"
+        >
+          <FileSpreadsheet className="w-4 h-4" />
+          Rapport Excel
+        </button>
+      </div>
+
+      <div
+        className={`mb-4 p-3 rounded-lg text-sm flex items-start gap-2 ${
+          result.bloquant ? 'bg-red-50 border border-red-200 text-red-800' : 'bg-green-50 border border-green-200 text-green-800'
+        }`}
+      >
+        {result.bloquant ? <AlertTriangle className="w-4 h-4 mt-0.5" /> : <CheckCircle className="w-4 h-4 mt-0.5" />}
+        <span>
+          {result.bloquant
+            ? 'Validation du décompte bloquée: justifiez chaque dépassement ou régularisez-le par un avenant'
+            : 'Tous les dépassements sont justifiés'}
+        </span>
+      </div>
+
+      {/* Montant du marché */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        <div>
+          <span className="text-gray-600">Marché HT (avenants inclus)</span>
+          <p className="font-medium text-gray-900">{formatMontant(result.montantMarcheHT)} DH</p>
+        </div>
+        <div>
+          <span className="text-gray-600">Réalisé HT cumulé</span>
+          <p className="font-medium text-gray-900">{formatMontant(result.montantRealiseHT)} DH</p>
+        </div>
+        <div>
+          <span className="text-gray-600">Variation</span>
+          <p className={`font-bold ${result.depasseSeuilMarche ? 'text-red-600' : 'text-gray-900'}`}>
+            {result.variationPourcent > 0 ? '+' : ''}{result.variationPourcent}% (seuil {SEUIL_DEPASSEMENT_MARCHE}%)
+          </p>
+        </div>
+        <div>
+          <span className="text-gray-600">Total des dépassements HT</span>
+          <p className="font-medium text-red-600">{formatMontant(result.montantDepassementHT)} DH</p>
+        </div>
+      </div>
+
+      {result.depasseSeuilMarche && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Justification du dépassement du marché
+          </label>
+          <input
+            value={motifMarche}
+            onChange={(e) => setMotifMarche(e.target.value)}
+            className="input"
+            placeholder="Avenant en cours, ordre de service n°..."
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {/* Détail par prix */}
+      {result.lignes.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Prix</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Désignation</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Bordereau</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Cumul</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Dépassement</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Montant HT</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Justification</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {result.lignes.map(l => (
+                <tr key={cle(l.prixNo)} className={l.justification ? '' : 'bg-red-50'}>
+                  <td className="px-3 py-2 font-medium text-gray-900">{l.prixNo}</td>
+                  <td className="px-3 py-2 text-gray-600 max-w-xs"><span className="line-clamp-1">{l.designation}</span></td>
+                  <td className="px-3 py-2 text-right">{formatQuantite(l.quantiteBordereau)} {l.unite}</td>
+                  <td className="px-3 py-2 text-right">{formatQuantite(l.quantiteRealisee)} {l.unite}</td>
+                  <td className="px-3 py-2 text-right font-medium text-red-600">
+                    +{formatQuantite(l.quantiteDepassement)}
+                    {l.pourcentageRealisation !== null && ` (${l.pourcentageRealisation}%)`}
+                  </td>
+                  <td className="px-3 py-2 text-right font-medium">{formatMontant(l.montantDepassementHT)}</td>
+                  <td className="px-3 py-2 min-w-[220px]">
+                    <input
+                      value={motifs[cle(l.prixNo)] || ''}
+                      onChange={(e) => setMotifs({ ...motifs, [cle(l.prixNo)]: e.target.value })}
+                      className="input"
+                      placeholder="Motif du dépassement"
+                      disabled={disabled}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!disabled && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="btn-secondary flex items-center gap-2 text-sm"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Enregistrement...' : 'Enregistrer les justifications'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DepassementsPanel;
@@ -0,0 +1,209 @@
+/**
+ * ExcelParityPanel Component
+ * Contrôle de concordance: chargement du classeur Excel du bureau de contrôle,
+ * écarts ligne par ligne et sur les totaux HT / TVA / TTC, avec tolérance
+ */
+
+import { FC, useMemo, useState } from 'react';
+import { Scale, Upload, CheckCircle, AlertCircle, X } from 'lucide-react';
+import { formatMontant, formatQuantite, type LigneDecompte } from 'shared';
+import {
+  parseExcelDecompte,
+  compareWithExcel,
+  TOLERANCE_DEFAUT,
+  type ExcelDecompteReference,
+  type ParityStatut,
+} from '../../utils/excelParity';
+
+interface ExcelParityPanelProps {
+  lignes: LigneDecompte[];
+  tauxTVA: number;
+}
+
+const STATUT_LABELS: Record<ParityStatut, string> = {
+  ok: 'Conforme',
+  ecart: 'Écart',
+  absent_excel: 'Absent du classeur',
+  absent_app: "Absent de l'application",
+};
+
+const STATUT_COLORS: Record<ParityStatut, string> = {
+  ok: 'bg-green-100 text-green-700',
+  ecart: 'bg-red-100 text-red-700',
+  absent_excel: 'bg-orange-100 text-orange-700',
+  absent_app: 'bg-orange-100 text-orange-700',
+};
+
+const formatEcart = (value: number) => (value > 0 ? '+' : '') + formatMontant(value);
+
+const ExcelParityPanel: FC<ExcelParityPanelProps> = ({ lignes, tauxTVA }) => {
+  const [reference, setReference] = useState<ExcelDecompteReference | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [tolerance, setTolerance] = useState(TOLERANCE_DEFAUT);
+  const [ecartsSeulement, setEcartsSeulement] = useState(true);
+  const [error, setError] = useState('');
+
+  // Recalculé à chaque modification du décompte ou de la tolérance
+  const report = useMemo(
+    () => (reference ? compareWithExcel(lignes, tauxTVA, reference, tolerance) : null),
+    [reference, lignes, tauxTVA, tolerance]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      setReference(parseExcelDecompte(await file.arrayBuffer()));
+      setFileName(file.name);
+    } catch (err) {
+      console.error('Erreur lors de la lecture du classeur:', err);
+      setReference(null);
+      setError(err instanceof Error ? err.message : 'Erreur lors de la lecture du fichier Excel');
+    }
+  };
+
+  const lignesAffichees = report
+    ? report.lignes.filter(l => !ecartsSeulement || l.statut !== 'ok')
+    : [];
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary-600" />
+          Concordance avec le classeur Excel
+        </h2>
+        <div className="flex items-center gap-2">
+          {reference && (
+            <button
+              onClick={() => { setReference(null); setFileName(''); }}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <X className="w-4 h-4" />
+              Effacer
+            </button>
+          )}
+          <label className="btn-secondary flex items-center gap-2 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Charger le classeur
+            <input type="file" accept=".xlsx,.xls" onChange={handleFileChange} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {!report ? (
+        <p className="text-sm text-gray-500">
+          Chargez le décompte Excel du bureau de contrôle pour le comparer, prix par prix, avec le calcul de l'application.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+            <span className="text-gray-600">
+              {fileName} — feuille « {reference?.feuille} », {reference?.lignes.length} prix lus
+            </span>
+            <label className="flex items-center gap-2 text-gray-700">
+              Tolérance (DH)
+              <input
+                type="number"
+                value={tolerance}
+                onChange={(e) => setTolerance(Math.max(parseFloat(e.target.value) || 0, 0))}
+                className="input w-24"
+                min="0"
+                step="0.01"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={ecartsSeulement}
+                onChange={(e) => setEcartsSeulement(e.target.checked)}
+              />
+              Écarts seulement
+            </label>
+          </div>
+
+          <div
+            className={`mb-4 p-3 rounded-lg text-sm flex items-center gap-2 ${
+              report.valid ? 'bg-green-50 border border-green-200 text-green-800' : 'bg-red-50 border border-red-200 text-red-800'
+            }`}
+          >
+            {report.valid ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+            {report.valid
+              ? 'Le décompte est conforme au classeur Excel'
+              : `${report.lignes.filter(l => l.statut !== 'ok').length} prix et ${report.totaux.filter(t => !t.ok).length} total(aux) hors tolérance`}
+          </div>
+
+          {/* Totaux */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm mb-4">
+            {report.totaux.map(t => (
+              <div key={t.libelle} className={`p-3 rounded-lg border ${t.ok ? 'border-gray-200' : 'border-red-300 bg-red-50'}`}>
+                <span className="font-semibold text-gray-700">{t.libelle}</span>
+                <p className="text-gray-900">Application: {formatMontant(t.app)} DH</p>
+                <p className="text-gray-900">Excel: {t.excel === null ? 'non trouvé' : `${formatMontant(t.excel)} DH`}</p>
+                {t.ecart !== null && Math.abs(t.ecart) >= 0.005 && (
+                  <p className={t.ok ? 'text-gray-500' : 'font-bold text-red-600'}>Écart: {formatEcart(t.ecart)} DH</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Détail par prix */}
+          {lignesAffichees.length > 0 && (
+            <div className="overflow-x-auto max-h-[400px] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Prix</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Désignation</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Qté app / Excel</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">PU app / Excel</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Montant app / Excel</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Écart</th>
+                    <th className="px-3 py-2 text-center font-semibold text-gray-700">Statut</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {lignesAffichees.map(l => (
+                    <tr key={`${l.prixNo}-${l.statut}`}>
+                      <td className="px-3 py-2 font-medium text-gray-900">{l.prixNo}</td>
+                      <td className="px-3 py-2 text-gray-600 max-w-xs"><span className="line-clamp-1">{l.designation}</span></td>
+                      <td className={`px-3 py-2 text-right ${l.ecartQuantite !== 0 ? 'text-red-600 font-medium' : ''}`}>
+                        {l.app ? formatQuantite(l.app.quantite) : '-'} / {l.excel?.quantite != null ? formatQuantite(l.excel.quantite) : '-'}
+                      </td>
+                      <td className={`px-3 py-2 text-right ${l.ecartPrixUnitaire !== 0 ? 'text-red-600 font-medium' : ''}`}>
+                        {l.app ? formatMontant(l.app.prixUnitaire) : '-'} / {l.excel?.prixUnitaire != null ? formatMontant(l.excel.prixUnitaire) : '-'}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {l.app ? formatMontant(l.app.montantHT) : '-'} / {l.excel?.montantHT != null ? formatMontant(l.excel.montantHT) : '-'}
+                      </td>
+                      <td className={`px-3 py-2 text-right font-medium ${l.statut === 'ok' ? 'text-gray-500' : 'text-red-600'}`}>
+                        {formatEcart(l.ecartMontant)}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${STATUT_COLORS[l.statut]}`}>
+                          {STATUT_LABELS[l.statut]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExcelParityPanel;
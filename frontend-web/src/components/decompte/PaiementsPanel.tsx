@@ -0,0 +1,245 @@
+/**
+ * PaiementsPanel Component
+ * Paiements reçus sur un décompte validé: date, montant, référence OP / virement,
+ * paiements partiels et reste à encaisser
+ */
+
+import { FC, useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Wallet, Plus, Trash2, Save, X } from 'lucide-react';
+import { Decompt } from '../../db/database';
+import {
+  paiementService,
+  MODE_PAIEMENT_LABELS,
+  type ModePaiement,
+  type Paiement,
+} from '../../services/paiementService';
+import { formatMontant } from 'shared';
+
+interface PaiementsPanelProps {
+  projectId: string;
+  decompte: Decompt;
+  onChanged: () => void;
+}
+
+const emptyForm = () => ({
+  datePaiement: format(new Date(), 'yyyy-MM-dd'),
+  montant: 0,
+  mode: 'virement' as ModePaiement,
+  reference: '',
+  observations: '',
+});
+
+const cleanId = (id: string): string => (id.includes(':') ? id.split(':').pop()! : id);
+
+const PaiementsPanel: FC<PaiementsPanelProps> = ({ projectId, decompte, onChanged }) => {
+  const [paiements, setPaiements] = useState<Paiement[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(emptyForm());
+
+  const decomptId = cleanId(decompte.id);
+
+  const load = useCallback(
+    () => paiementService.listPaiements(projectId, decomptId).then(setPaiements),
+    [projectId, decomptId]
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const montantPaye = paiements.reduce((sum, p) => sum + Number(p.montant), 0);
+  const resteAPayer = Math.max(0, Number((decompte.montantTotal - montantPaye).toFixed(2)));
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      await load();
+      onChanged();
+    } catch (error) {
+      alert(message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.montant || form.montant <= 0) {
+      alert('Veuillez saisir le montant reçu');
+      return;
+    }
+    if (form.montant > resteAPayer) {
+      alert(`Le montant dépasse le reste à encaisser (${formatMontant(resteAPayer)} DH)`);
+      return;
+    }
+    await run(async () => {
+      await paiementService.createPaiement({ decomptId, ...form });
+      setForm(emptyForm());
+      setShowForm(false);
+    }, 'Erreur lors de l\'enregistrement du paiement');
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('Supprimer ce paiement ?')) return;
+    run(() => paiementService.deletePaiement(id), 'Erreur lors de la suppression');
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <Wallet className="w-5 h-5 text-primary-600" />
+          Paiements reçus
+        </h2>
+        {!showForm && resteAPayer > 0 && (
+          <button
+            onClick={() => {
+              setForm({ ...emptyForm(), montant: resteAPayer });
+              setShowForm(true);
+            }}
+            className="btn-secondary flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Enregistrer un paiement
+          </button>
+        )}
+      </div>
+
+      {paiements.length > 0 ? (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Date</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Mode</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Référence</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Montant (DH)</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Observations</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {paiements.map(paiement => (
+                <tr key={paiement.id}>
+                  <td className="px-3 py-2 text-gray-900">{format(new Date(paiement.datePaiement), 'dd/MM/yyyy')}</td>
+                  <td className="px-3 py-2 text-gray-700">{MODE_PAIEMENT_LABELS[paiement.mode] || paiement.mode}</td>
+                  <td className="px-3 py-2 text-gray-700">{paiement.reference || '-'}</td>
+                  <td className="px-3 py-2 text-right font-medium">{formatMontant(Number(paiement.montant))}</td>
+                  <td className="px-3 py-2 text-gray-600">{paiement.observations || ''}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => handleDelete(paiement.id)}
+                      disabled={isSaving}
+                      className="p-1 text-red-500 hover:bg-red-50 rounded"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Aucun paiement reçu pour ce décompte.</p>
+      )}
+
+      {/* Situation du décompte */}
+      <div className="grid grid-cols-3 gap-4 text-sm mb-4">
+        <div>
+          <span className="font-semibold text-gray-700">Montant de l'acompte:</span>
+          <p className="text-gray-900">{formatMontant(decompte.montantTotal)} DH</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Encaissé:</span>
+          <p className="text-gray-900">{formatMontant(montantPaye)} DH</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Reste à encaisser:</span>
+          <p className={`font-bold ${resteAPayer > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+            {formatMontant(resteAPayer)} DH
+          </p>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="font-semibold text-gray-900">Nouveau paiement</h3>
+            <button onClick={() => setShowForm(false)} className="p-1 text-gray-500 hover:bg-gray-100 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
+              <input
+                type="date"
+                value={form.datePaiement}
+                onChange={(e) => setForm({ ...form, datePaiement: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Montant (DH)</label>
+              <input
+                type="number"
+                value={form.montant}
+                onChange={(e) => setForm({ ...form, montant: parseFloat(e.target.value) || 0 })}
+                className="input"
+                min="0"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Mode</label>
+              <select
+                value={form.mode}
+                onChange={(e) => setForm({ ...form, mode: e.target.value as ModePaiement })}
+                className="input"
+              >
+                {Object.entries(MODE_PAIEMENT_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Référence (N° OP / virement)</label>
+              <input
+                value={form.reference}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div className="md:col-span-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Observations</label>
+              <input
+                value={form.observations}
+                onChange={(e) => setForm({ ...form, observations: e.target.value })}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 mb-4">
+            Le décompte passe automatiquement au statut « Payé » lorsqu'il est entièrement encaissé.
+          </p>
+
+          <button
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="btn-primary flex items-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaiementsPanel;
@@ -0,0 +1,160 @@
+/**
+ * PenalitesPanel Component
+ * Pénalités de retard: paramètres, calcul depuis les délais, remise justifiée
+ */
+
+import { FC, useEffect, useState } from 'react';
+import { AlertTriangle, Clock, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { PenalitesConfig } from '../../db/database';
+import { formatMontant, type PenalitesResult } from 'shared';
+
+interface PenalitesPanelProps {
+  config?: PenalitesConfig;
+  result: PenalitesResult;
+  dateFinEffective?: Date;
+  dateReference?: Date;
+  onSave: (config: PenalitesConfig) => Promise<void>;
+}
+
+export const DEFAULT_PENALITES: PenalitesConfig = {
+  tauxJournalier: 1,
+  plafond: 8,
+};
+
+const PenalitesPanel: FC<PenalitesPanelProps> = ({
+  config,
+  result,
+  dateFinEffective,
+  dateReference,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<PenalitesConfig>(config || DEFAULT_PENALITES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config || DEFAULT_PENALITES);
+  }, [config]);
+
+  const hasRemise = draft.montantRetenu !== undefined && draft.montantRetenu !== null;
+
+  const handleSave = async () => {
+    if (hasRemise && !draft.justification?.trim()) {
+      alert('Veuillez saisir la justification de la remise');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+        <Clock className="w-5 h-5 text-primary-600" />
+        Pénalités de Retard
+      </h2>
+
+      {/* Situation des délais */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        <div>
+          <span className="font-semibold text-gray-700">Fin effective:</span>
+          <p className="text-gray-900">{dateFinEffective ? format(dateFinEffective, 'dd/MM/yyyy') : 'Non définie'}</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Date de référence:</span>
+          <p className="text-gray-900">{dateReference ? format(dateReference, 'dd/MM/yyyy') : '-'}</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Jours de retard:</span>
+          <p className={`font-bold ${result.joursRetard > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {result.joursRetard}
+          </p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Montant applicable:</span>
+          <p className="text-gray-900">
+            {formatMontant(result.montantApplicable)} DH
+            {result.isPlafonne && <span className="ml-1 text-xs text-orange-600">(plafonné)</span>}
+          </p>
+        </div>
+      </div>
+
+      {/* Paramètres */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Taux par jour (‰ du marché)</label>
+          <input
+            type="number"
+            value={draft.tauxJournalier}
+            onChange={(e) => setDraft({ ...draft, tauxJournalier: parseFloat(e.target.value) || 0 })}
+            className="input"
+            min="0"
+            step="0.1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Plafond (% du marché)</label>
+          <input
+            type="number"
+            value={draft.plafond}
+            onChange={(e) => setDraft({ ...draft, plafond: parseFloat(e.target.value) || 0 })}
+            className="input"
+            min="0"
+            max="100"
+            step="0.5"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Montant retenu après remise (DH)</label>
+          <input
+            type="number"
+            value={draft.montantRetenu ?? ''}
+            onChange={(e) => setDraft({
+              ...draft,
+              montantRetenu: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0,
+            })}
+            className="input"
+            min="0"
+            step="0.01"
+            placeholder={result.montantApplicable.toFixed(2)}
+          />
+        </div>
+      </div>
+
+      {hasRemise && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Justification de la remise</label>
+          <textarea
+            value={draft.justification || ''}
+            onChange={(e) => setDraft({ ...draft, justification: e.target.value })}
+            className="input"
+            rows={2}
+            placeholder="Décision du maître d'ouvrage, référence de la lettre..."
+          />
+        </div>
+      )}
+
+      {result.erreurs.length > 0 && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5" />
+          <div>{result.erreurs.map((e, i) => <p key={i}>{e}</p>)}</div>
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="btn-secondary flex items-center gap-2"
+      >
+        <Save className="w-4 h-4" />
+        {isSaving ? 'Enregistrement...' : 'Enregistrer les pénalités'}
+      </button>
+    </div>
+  );
+};
+
+export default PenalitesPanel;
@@ -0,0 +1,196 @@
+/**
+ * RetenueGarantiePanel Component
+ * Retenue de garantie: plafond cumulé, caution bancaire de substitution
+ * et restitution à la réception définitive
+ */
+
+import { FC, useEffect, useState } from 'react';
+import { ShieldCheck, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { RetenueGarantieConfig, CautionBancaire } from '../../db/database';
+import { formatMontant, PLAFOND_RETENUE_DEFAUT, type RetenueGarantieResult } from 'shared';
+
+interface RetenueGarantiePanelProps {
+  config?: RetenueGarantieConfig;
+  tauxRetenue: number;
+  result: RetenueGarantieResult;
+  dateReceptionDefinitive?: Date;
+  isDecompteDernier: boolean;
+  onSave: (config: RetenueGarantieConfig) => Promise<void>;
+}
+
+export const DEFAULT_RETENUE_GARANTIE: RetenueGarantieConfig = {
+  plafond: PLAFOND_RETENUE_DEFAUT,
+};
+
+const EMPTY_CAUTION: CautionBancaire = { montant: 0 };
+
+const RetenueGarantiePanel: FC<RetenueGarantiePanelProps> = ({
+  config,
+  tauxRetenue,
+  result,
+  dateReceptionDefinitive,
+  isDecompteDernier,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<RetenueGarantieConfig>(config || DEFAULT_RETENUE_GARANTIE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config || DEFAULT_RETENUE_GARANTIE);
+  }, [config]);
+
+  const caution = draft.caution || null;
+  const setCaution = (fields: Partial<CautionBancaire>) =>
+    setDraft({ ...draft, caution: { ...(caution || EMPTY_CAUTION), ...fields } });
+
+  const handleSave = async () => {
+    if (typeof draft.plafond === 'number' && (draft.plafond < 0 || draft.plafond > 100)) {
+      alert('Le plafond doit être compris entre 0 et 100%');
+      return;
+    }
+    if (caution && (!caution.montant || !caution.banque?.trim())) {
+      alert('Veuillez saisir le montant et la banque de la caution');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+        <ShieldCheck className="w-5 h-5 text-primary-600" />
+        Retenue de Garantie
+      </h2>
+
+      {/* Paramètres */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Taux par décompte (%)</label>
+          <input type="number" value={tauxRetenue} className="input bg-gray-50" disabled />
+          <p className="text-xs text-gray-500 mt-1">Modifiable dans les paramètres du décompte</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Plafond (% du marché TTC)</label>
+          <input
+            type="number"
+            value={draft.plafond ?? (draft.plafond === null ? '' : PLAFOND_RETENUE_DEFAUT)}
+            onChange={(e) => setDraft({ ...draft, plafond: e.target.value === '' ? null : parseFloat(e.target.value) || 0 })}
+            className="input"
+            min="0"
+            max="100"
+            step="0.5"
+            placeholder="Sans plafond"
+          />
+          <p className="text-xs text-gray-500 mt-1">Laisser vide pour une retenue sans plafond</p>
+        </div>
+      </div>
+
+      {/* Caution bancaire */}
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-3">
+        <input
+          type="checkbox"
+          checked={!!caution}
+          onChange={(e) => setDraft({ ...draft, caution: e.target.checked ? EMPTY_CAUTION : null })}
+        />
+        Retenue remplacée par une caution bancaire
+      </label>
+      {caution && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Montant (DH)</label>
+            <input
+              type="number"
+              value={caution.montant}
+              onChange={(e) => setCaution({ montant: parseFloat(e.target.value) || 0 })}
+              className="input"
+              min="0"
+              step="0.01"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Banque</label>
+            <input
+              value={caution.banque || ''}
+              onChange={(e) => setCaution({ banque: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Référence</label>
+            <input
+              value={caution.reference || ''}
+              onChange={(e) => setCaution({ reference: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Date d'émission</label>
+            <input
+              type="date"
+              value={caution.dateEmission || ''}
+              onChange={(e) => setCaution({ dateEmission: e.target.value || undefined })}
+              className="input"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Résultat du décompte */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        <div>
+          <span className="font-semibold text-gray-700">Retenue calculée:</span>
+          <p className="text-gray-900">{formatMontant(result.retenueCalculee)} DH</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Plafond:</span>
+          <p className="text-gray-900">{result.montantPlafond === null ? 'Sans plafond' : `${formatMontant(result.montantPlafond)} DH`}</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Couverte par caution:</span>
+          <p className="text-gray-900">{formatMontant(result.retenueRemplaceeParCaution)} DH</p>
+        </div>
+        <div>
+          <span className="font-semibold text-gray-700">Retenue cumulée:</span>
+          <p className="font-bold text-primary-600">{formatMontant(result.retenueGarantie)} DH</p>
+        </div>
+      </div>
+
+      {result.plafondAtteint && (
+        <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+          Plafond atteint: aucune retenue supplémentaire n'est opérée sur les décomptes suivants.
+        </div>
+      )}
+
+      {dateReceptionDefinitive ? (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          Réception définitive prononcée le {format(dateReceptionDefinitive, 'dd/MM/yyyy')}
+          {isDecompteDernier
+            ? ` - restitution de ${formatMontant(result.restitutionRetenue)} DH portée sur ce décompte`
+            : ' - la restitution sera portée sur le décompte dernier'}
+          {caution && ' (mainlevée de la caution)'}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 mb-4">
+          La retenue est restituée sur le décompte dernier après la réception définitive.
+        </p>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="btn-secondary flex items-center gap-2"
+      >
+        <Save className="w-4 h-4" />
+        {isSaving ? 'Enregistrement...' : 'Enregistrer la retenue de garantie'}
+      </button>
+    </div>
+  );
+};
+
+export default RetenueGarantiePanel;
@@ -0,0 +1,215 @@
+/**
+ * RevisionPrixPanel Component
+ * Formule de révision des prix du marché + coefficients K par période
+ */
+
+import { FC, useEffect, useState } from 'react';
+import { TrendingUp, Plus, Trash2, Save, AlertTriangle } from 'lucide-react';
+import { RevisionPrixConfig } from '../../db/database';
+import {
+  formatMontant,
+  validateRevisionFormule,
+  type RevisionResult,
+} from 'shared';
+
+interface RevisionPrixPanelProps {
+  config?: RevisionPrixConfig;
+  result: RevisionResult | null;
+  onSave: (config: RevisionPrixConfig) => Promise<void>;
+}
+
+const DEFAULT_CONFIG: RevisionPrixConfig = {
+  actif: false,
+  partieFixe: 0.15,
+  moisOrigine: '',
+  termes: [{ code: 'BTP1', coefficient: 0.85 }],
+};
+
+const RevisionPrixPanel: FC<RevisionPrixPanelProps> = ({ config, result, onSave }) => {
+  const [draft, setDraft] = useState<RevisionPrixConfig>(config || DEFAULT_CONFIG);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config || DEFAULT_CONFIG);
+  }, [config]);
+
+  const erreurs = draft.actif ? validateRevisionFormule(draft) : [];
+
+  const updateTerme = (index: number, field: 'code' | 'coefficient', value: string) => {
+    const termes = draft.termes.map((t, i) =>
+      i === index
+        ? { ...t, [field]: field === 'code' ? value.toUpperCase() : parseFloat(value) || 0 }
+        : t
+    );
+    setDraft({ ...draft, termes });
+  };
+
+  const handleSave = async () => {
+    if (erreurs.length > 0) {
+      alert(erreurs.join('\n'));
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <TrendingUp className="w-5 h-5 text-primary-600" />
+          Révision des Prix
+        </h2>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={draft.actif}
+            onChange={(e) => setDraft({ ...draft, actif: e.target.checked })}
+          />
+          Marché révisable
+        </label>
+      </div>
+
+      {draft.actif && (
+        <>
+          {/* Formule */}
+          <p className="text-sm text-gray-600 mb-3 font-mono">
+            K = {draft.partieFixe}
+            {draft.termes.map(t => ` + ${t.coefficient} × ${t.code || '?'}/${t.code || '?'}₀`).join('')}
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Partie fixe (a)</label>
+              <input
+                type="number"
+                value={draft.partieFixe}
+                onChange={(e) => setDraft({ ...draft, partieFixe: parseFloat(e.target.value) || 0 })}
+                className="input"
+                min="0"
+                max="1"
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Mois d'origine (I₀)</label>
+              <input
+                type="month"
+                value={draft.moisOrigine}
+                onChange={(e) => setDraft({ ...draft, moisOrigine: e.target.value })}
+                className="input"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 mb-4">
+            {draft.termes.map((terme, index) => (
+              <div key={index} className="flex items-center gap-3">
+                <input
+                  value={terme.code}
+                  onChange={(e) => updateTerme(index, 'code', e.target.value)}
+                  className="input w-32"
+                  placeholder="BTP1"
+                />
+                <input
+                  type="number"
+                  value={terme.coefficient}
+                  onChange={(e) => updateTerme(index, 'coefficient', e.target.value)}
+                  className="input w-32"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                />
+                <button
+                  onClick={() => setDraft({ ...draft, termes: draft.termes.filter((_, i) => i !== index) })}
+                  className="p-2 text-red-500 hover:bg-red-50 rounded"
+                  title="Supprimer"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, termes: [...draft.termes, { code: '', coefficient: 0 }] })}
+              className="text-sm text-primary-600 hover:underline flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Ajouter un indice
+            </button>
+          </div>
+
+          {erreurs.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              {erreurs.map((e, i) => <p key={i}>{e}</p>)}
+            </div>
+          )}
+
+          {/* Coefficients par période */}
+          {result && result.tranches.length > 0 && (
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full border border-gray-300 text-sm">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Période</th>
+                    <th className="px-3 py-2 text-left font-semibold text-gray-700">Mois</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Travaux HT</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">K</th>
+                    <th className="px-3 py-2 text-right font-semibold text-gray-700">Révision HT</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {result.tranches.map((t, i) => (
+                    <tr key={i}>
+                      <td className="px-3 py-2 text-gray-900">{t.libelle}</td>
+                      <td className="px-3 py-2 text-gray-700">{t.mois}</td>
+                      <td className="px-3 py-2 text-right">{formatMontant(t.travauxHTPeriode)}</td>
+                      <td className="px-3 py-2 text-right font-mono">
+                        {t.coefficient.coefficient.toFixed(4)}
+                        {t.coefficient.provisoire && (
+                          <span className="ml-1 text-xs text-orange-600" title="Indice du mois non publié: dernier indice connu utilisé">
+                            (prov.)
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right font-medium">{formatMontant(t.revisionHT)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50 font-bold">
+                  <tr>
+                    <td colSpan={4} className="px-3 py-2 text-right">Révision HT / TVA / TTC</td>
+                    <td className="px-3 py-2 text-right">
+                      {formatMontant(result.revisionHT)} / {formatMontant(result.revisionTVA)} / {formatMontant(result.revisionTTC)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          {result?.provisoire && (
+            <p className="mb-4 text-sm text-orange-700 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              Révision provisoire: certains indices du mois ne sont pas encore saisis.
+            </p>
+          )}
+        </>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="btn-secondary flex items-center gap-2"
+      >
+        <Save className="w-4 h-4" />
+        {isSaving ? 'Enregistrement...' : 'Enregistrer la formule'}
+      </button>
+    </div>
+  );
+};
+
+export default RevisionPrixPanel;
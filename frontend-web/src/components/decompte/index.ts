@@ -0,0 +1,13 @@
+// Décompte components barrel export
+export { default as RevisionPrixPanel } from './RevisionPrixPanel';
+export { default as PenalitesPanel, DEFAULT_PENALITES } from './PenalitesPanel';
+export { default as ApprovisionnementsPanel } from './ApprovisionnementsPanel';
+export { default as AvancePanel, DEFAULT_AVANCE } from './AvancePanel';
+export type { SuiviAvanceLigne } from './AvancePanel';
+export { default as RetenueGarantiePanel, DEFAULT_RETENUE_GARANTIE } from './RetenueGarantiePanel';
+export { default as DecompteWorkflowPanel } from './DecompteWorkflowPanel';
+export { default as DecomptesPrecedentsPanel } from './DecomptesPrecedentsPanel';
+export { default as PaiementsPanel } from './PaiementsPanel';
+export { default as ExcelParityPanel } from './ExcelParityPanel';
+export { default as AjustementsPanel } from './AjustementsPanel';
+export { default as DepassementsPanel } from './DepassementsPanel';
@@ -0,0 +1,280 @@
+/**
+ * CubatureModal Component
+ * Cubature d'une piste ou d'un canal à partir des profils en travers (PK, aires de déblai / remblai):
+ * volumes par la moyenne des aires, reportés au métré comme une section de lignes PK → PK
+ */
+
+import { FC, useMemo, useRef, useState } from 'react';
+import { X, Plus, Trash2, Upload, ClipboardPaste, CheckCircle2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { formatNumber } from '../../utils/metreCalculations';
+import {
+  LIBELLES_NATURE_CUBATURE,
+  calculerCubature,
+  formatPK,
+  parseProfilsExcel,
+  parseProfilsTexte,
+  type CubatureSection,
+  type NatureCubature,
+  type ProfilTravers,
+} from '../../utils/cubature';
+import ExpressionInput from './ExpressionInput';
+import PkInput from './PkInput';
+
+interface CubatureModalProps {
+  titre?: string;
+  cubature?: CubatureSection;
+  disabled?: boolean;          // Section d'une période précédente ou période verrouillée
+  onApply: (titre: string, cubature: CubatureSection) => void;
+  onClose: () => void;
+}
+
+// Intervalle par défaut entre deux profils saisis à la suite
+const PAS_PROFILS = 25;
+
+const creerId = () => `profil-${uuidv4()}`;
+
+const CubatureModal: FC<CubatureModalProps> = ({ titre: titreInitial, cubature, disabled, onApply, onClose }) => {
+  const [titre, setTitre] = useState(titreInitial || '');
+  const [nature, setNature] = useState<NatureCubature>(cubature?.nature || 'deblai');
+  const [profils, setProfils] = useState<ProfilTravers[]>(cubature?.profils || []);
+  const [collage, setCollage] = useState<string | null>(null);
+  const [erreur, setErreur] = useState('');
+  const fichierRef = useRef<HTMLInputElement>(null);
+
+  const resultat = useMemo(() => calculerCubature(profils), [profils]);
+  const total = nature === 'deblai' ? resultat.totalDeblai : resultat.totalRemblai;
+
+  const modifier = (id: string, changes: Partial<ProfilTravers>) =>
+    setProfils(prev => prev.map(p => (p.id === id ? { ...p, ...changes } : p)));
+
+  const ajouterProfil = () =>
+    setProfils(prev => {
+      const dernier = prev.reduce<ProfilTravers | null>((max, p) => (!max || p.pk > max.pk ? p : max), null);
+      return [...prev, { id: creerId(), pk: dernier ? dernier.pk + PAS_PROFILS : 0, deblai: 0, remblai: 0 }];
+    });
+
+  const importer = (importes: ProfilTravers[]) => {
+    if (importes.length === 0) {
+      setErreur('Aucun profil reconnu: colonnes attendues PK, aire de déblai, aire de remblai');
+      return;
+    }
+    setErreur('');
+    setProfils(importes);
+    setCollage(null);
+  };
+
+  const handleFichier = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fichier = e.target.files?.[0];
+    e.target.value = '';
+    if (!fichier) return;
+    try {
+      importer(parseProfilsExcel(await fichier.arrayBuffer(), creerId));
+    } catch (error) {
+      console.error('Import des profils:', error);
+      setErreur('Fichier illisible');
+    }
+  };
+
+  const profilsTries = [...profils].sort((a, b) => a.pk - b.pk);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Cubature - profils en travers</h2>
+            <p className="text-sm text-gray-600 mt-1">V = (S1 + S2) / 2 × distance entre profils</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto flex-1 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Section (piste, canal, tronçon)</label>
+              <input
+                value={titre}
+                onChange={(e) => setTitre(e.target.value)}
+                className="input w-full"
+                placeholder="Piste Douar ..., canal principal..."
+                disabled={disabled}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Volume reporté sur ce prix</label>
+              <select
+                value={nature}
+                onChange={(e) => setNature(e.target.value as NatureCubature)}
+                className="input w-full"
+                disabled={disabled}
+              >
+                {(Object.keys(LIBELLES_NATURE_CUBATURE) as NatureCubature[]).map((n) => (
+                  <option key={n} value={n}>{LIBELLES_NATURE_CUBATURE[n]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!disabled && (
+            <div className="flex items-center gap-2">
+              <button onClick={ajouterProfil} className="btn btn-secondary flex items-center gap-2 text-sm">
+                <Plus className="w-4 h-4" />
+                Ajouter un profil
+              </button>
+              <button onClick={() => fichierRef.current?.click()} className="btn btn-secondary flex items-center gap-2 text-sm">
+                <Upload className="w-4 h-4" />
+                Importer Excel / CSV
+              </button>
+              <button onClick={() => setCollage(collage === null ? '' : null)} className="btn btn-secondary flex items-center gap-2 text-sm">
+                <ClipboardPaste className="w-4 h-4" />
+                Coller
+              </button>
+              <input ref={fichierRef} type="file" accept=".xlsx,.xls,.csv" onChange={handleFichier} className="hidden" />
+            </div>
+          )}
+
+          {collage !== null && (
+            <div>
+              <textarea
+                value={collage}
+                onChange={(e) => setCollage(e.target.value)}
+                className="input w-full font-mono text-sm"
+                rows={6}
+                placeholder={'PK;Déblai (m²);Remblai (m²)\n0+000;2,40;0,00\n0+025;3,10;0,35'}
+              />
+              <button
+                onClick={() => importer(parseProfilsTexte(collage, creerId))}
+                className="mt-2 btn btn-primary text-sm"
+              >
+                Remplacer les profils
+              </button>
+            </div>
+          )}
+
+          {erreur && <p className="text-sm text-red-600">{erreur}</p>}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Profils */}
+            <table className="w-full border border-gray-300 text-sm self-start">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700 w-32">PK</th>
+                  <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700">Déblai (m²)</th>
+                  <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700">Remblai (m²)</th>
+                  <th className="w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {profilsTries.map((profil) => (
+                  <tr key={profil.id}>
+                    <td className="px-2 py-1">
+                      <PkInput
+                        value={profil.pk}
+                        onChange={(pk) => pk !== undefined && modifier(profil.id, { pk })}
+                        className="input text-sm text-center w-full"
+                        disabled={disabled}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <ExpressionInput
+                        value={profil.deblai}
+                        onChange={(value) => modifier(profil.id, { deblai: value })}
+                        className="input text-sm text-center w-full"
+                        placeholder="0.00"
+                        disabled={disabled}
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <ExpressionInput
+                        value={profil.remblai}
+                        onChange={(value) => modifier(profil.id, { remblai: value })}
+                        className="input text-sm text-center w-full"
+                        placeholder="0.00"
+                        disabled={disabled}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-center">
+                      {!disabled && (
+                        <button
+                          onClick={() => setProfils(prev => prev.filter(p => p.id !== profil.id))}
+                          className="p-1 text-red-500 hover:bg-red-100 rounded"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {profils.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-3 py-6 text-center text-gray-500">
+                      Aucun profil. Saisissez-les ou importez un fichier (PK, déblai, remblai).
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+
+            {/* Volumes par tronçon */}
+            <table className="w-full border border-gray-300 text-sm self-start">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-2 py-2 text-left text-xs font-semibold text-gray-700">Tronçon</th>
+                  <th className="px-2 py-2 text-right text-xs font-semibold text-gray-700">Dist. (m)</th>
+                  <th className={`px-2 py-2 text-right text-xs font-semibold text-gray-700 ${nature === 'deblai' ? 'bg-blue-50' : ''}`}>Déblai (m³)</th>
+                  <th className={`px-2 py-2 text-right text-xs font-semibold text-gray-700 ${nature === 'remblai' ? 'bg-blue-50' : ''}`}>Remblai (m³)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {resultat.troncons.map((t) => (
+                  <tr key={`${t.debut.id}-${t.fin.id}`}>
+                    <td className="px-2 py-1 font-mono text-xs">{formatPK(t.debut.pk)} → {formatPK(t.fin.pk)}</td>
+                    <td className="px-2 py-1 text-right">{formatNumber(t.distance)}</td>
+                    <td className={`px-2 py-1 text-right ${nature === 'deblai' ? 'bg-blue-50 font-medium' : ''}`}>{formatNumber(t.deblai)}</td>
+                    <td className={`px-2 py-1 text-right ${nature === 'remblai' ? 'bg-blue-50 font-medium' : ''}`}>{formatNumber(t.remblai)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-100 font-semibold">
+                <tr>
+                  <td className="px-2 py-2">Total</td>
+                  <td className="px-2 py-2 text-right">{formatNumber(resultat.longueur)}</td>
+                  <td className="px-2 py-2 text-right">{formatNumber(resultat.totalDeblai)}</td>
+                  <td className="px-2 py-2 text-right">{formatNumber(resultat.totalRemblai)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-between gap-3 p-6 border-t border-gray-200">
+          <p className="text-sm text-gray-600">
+            {LIBELLES_NATURE_CUBATURE[nature]}: <span className="font-bold text-primary-700">{formatNumber(total)} M³</span>
+          </p>
+          <div className="flex gap-3">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Fermer
+            </button>
+            {!disabled && (
+              <button
+                onClick={() => onApply(titre.trim(), { nature, profils: profilsTries })}
+                className="btn btn-primary flex items-center gap-2"
+                disabled={resultat.troncons.length === 0}
+              >
+                <CheckCircle2 className="w-4 h-4" />
+                Reporter au métré
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CubatureModal;
@@ -0,0 +1,146 @@
+/**
+ * DiagrammeLineairePK Component
+ * Avancement le long du tracé (piste, canal): tronçons exécutés par période,
+ * chevauchements et lacunes entre PK
+ */
+
+import { FC } from 'react';
+import { AlertTriangle, Route } from 'lucide-react';
+import { formatPK } from '../../utils/cubature';
+import { formatNumber } from '../../utils/metreCalculations';
+import { libelleIntervallePK, type AnalysePK, type IntervallePK } from '../../utils/metrePK';
+
+export interface TracePK {
+  titre: string;
+  analyse: AnalysePK;
+}
+
+interface DiagrammeLineairePKProps {
+  traces: TracePK[];
+}
+
+const LARGEUR = 1000;
+const MARGE = 10;
+const HAUTEUR_BARRE = 18;
+
+// Vert: période en cours; bleus de plus en plus clairs pour les périodes précédentes
+const couleurPeriode = (intervalle: IntervallePK, periodes: number[]): string => {
+  if (intervalle.periodeNumero === undefined) return '#16a34a';
+  const rang = periodes.length - 1 - periodes.indexOf(intervalle.periodeNumero);
+  return ['#2563eb', '#3b82f6', '#60a5fa', '#93c5fd'][Math.min(rang, 3)];
+};
+
+const libellePeriode = (intervalle: IntervallePK) =>
+  intervalle.periodeNumero === undefined ? 'période en cours' : `période ${intervalle.periodeNumero}`;
+
+const DiagrammeLineairePK: FC<DiagrammeLineairePKProps> = ({ traces }) => {
+  if (traces.length === 0) return null;
+
+  return (
+    <div className="mb-4 bg-white rounded-lg border border-gray-200 p-4">
+      <h4 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+        <Route className="w-4 h-4" />
+        Avancement linéaire (PK)
+      </h4>
+
+      {traces.map(({ titre, analyse }, index) => {
+        const etendue = analyse.fin - analyse.debut || 1;
+        const x = (pk: number) => MARGE + ((pk - analyse.debut) / etendue) * (LARGEUR - 2 * MARGE);
+        const periodes = [...new Set(analyse.intervalles.map(i => i.periodeNumero).filter((p): p is number => p !== undefined))]
+          .sort((a, b) => a - b);
+        const reperes = [...new Set([
+          analyse.debut,
+          analyse.fin,
+          ...analyse.lacunes.flatMap(l => [l.debut, l.fin]),
+        ])].sort((a, b) => a - b);
+
+        return (
+          <div key={`${titre}-${index}`} className="mb-4 last:mb-0">
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="font-medium text-gray-800">{titre}</span>
+              <span className="text-gray-600">
+                {formatPK(analyse.debut)} → {formatPK(analyse.fin)} · exécuté {formatNumber(analyse.longueurExecutee)} m
+              </span>
+            </div>
+
+            <svg viewBox={`0 0 ${LARGEUR} ${HAUTEUR_BARRE + 28}`} className="w-full">
+              <defs>
+                <pattern id={`lacune-pk-${index}`} width="6" height="6" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+                  <rect width="3" height="6" fill="#f97316" />
+                </pattern>
+              </defs>
+              <rect x={MARGE} y={4} width={LARGEUR - 2 * MARGE} height={HAUTEUR_BARRE} fill="#f3f4f6" />
+              {analyse.intervalles.map(i => (
+                <rect
+                  key={i.id}
+                  x={x(i.debut)}
+                  y={4}
+                  width={Math.max(x(i.fin) - x(i.debut), 1)}
+                  height={HAUTEUR_BARRE}
+                  fill={couleurPeriode(i, periodes)}
+                  opacity={0.85}
+                >
+                  <title>{`${libelleIntervallePK(i.debut, i.fin)} - ${i.designation} (${libellePeriode(i)})`}</title>
+                </rect>
+              ))}
+              {analyse.lacunes.map(l => (
+                <rect key={`lacune-${l.debut}`} x={x(l.debut)} y={4} width={Math.max(x(l.fin) - x(l.debut), 1)} height={HAUTEUR_BARRE} fill={`url(#lacune-pk-${index})`}>
+                  <title>{`Lacune ${libelleIntervallePK(l.debut, l.fin)}`}</title>
+                </rect>
+              ))}
+              {analyse.chevauchements.map(c => (
+                <rect
+                  key={`chevauchement-${c.lignes[0].id}-${c.lignes[1].id}`}
+                  x={x(c.debut)}
+                  y={1}
+                  width={Math.max(x(c.fin) - x(c.debut), 2)}
+                  height={HAUTEUR_BARRE + 6}
+                  fill="none"
+                  stroke="#dc2626"
+                  strokeWidth={2}
+                >
+                  <title>{`Chevauchement ${libelleIntervallePK(c.debut, c.fin)}`}</title>
+                </rect>
+              ))}
+              {reperes.map(pk => (
+                <g key={`repere-${pk}`}>
+                  <line x1={x(pk)} x2={x(pk)} y1={4 + HAUTEUR_BARRE} y2={4 + HAUTEUR_BARRE + 5} stroke="#6b7280" />
+                  <text x={x(pk)} y={HAUTEUR_BARRE + 24} fontSize={11} fill="#4b5563" textAnchor={pk === analyse.debut ? 'start' : pk === analyse.fin ? 'end' : 'middle'}>
+                    {formatPK(pk)}
+                  </text>
+                </g>
+              ))}
+            </svg>
+
+            {(analyse.chevauchements.length > 0 || analyse.lacunes.length > 0) && (
+              <ul className="mt-1 space-y-0.5 text-xs">
+                {analyse.chevauchements.map(c => (
+                  <li key={`c-${c.lignes[0].id}-${c.lignes[1].id}`} className="text-red-700 flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    Chevauchement {libelleIntervallePK(c.debut, c.fin)} ({formatNumber(c.fin - c.debut)} m mesurés deux fois):
+                    « {c.lignes[0].designation} » ({libellePeriode(c.lignes[0])}) et « {c.lignes[1].designation} » ({libellePeriode(c.lignes[1])})
+                  </li>
+                ))}
+                {analyse.lacunes.map(l => (
+                  <li key={`l-${l.debut}`} className="text-orange-700 flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    Tronçon non mesuré {libelleIntervallePK(l.debut, l.fin)} ({formatNumber(l.fin - l.debut)} m)
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 inline-block bg-green-600" /> Période en cours</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 inline-block bg-blue-500" /> Périodes précédentes</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 inline-block bg-orange-500" /> Lacune</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 inline-block border-2 border-red-600" /> Chevauchement</span>
+      </div>
+    </div>
+  );
+};
+
+export default DiagrammeLineairePK;
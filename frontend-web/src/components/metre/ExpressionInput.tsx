@@ -0,0 +1,79 @@
+/**
+ * ExpressionInput Component
+ * Cellule de métré acceptant un calcul (2*(3,50+1,20)): évaluée à la saisie,
+ * l'expression d'origine est conservée et rappelée sous la valeur
+ */
+
+import { FC, useState } from 'react';
+import { evaluateExpression, isExpression } from '../../utils/metreCalculations';
+
+interface ExpressionInputProps {
+  value?: number;
+  expression?: string;
+  onChange: (value: number, expression?: string) => void;
+  valeurVide?: number;        // Valeur retenue quand la cellule est vidée
+  className?: string;
+  placeholder?: string;
+  title?: string;
+  disabled?: boolean;
+  autoFocus?: boolean;
+}
+
+const ExpressionInput: FC<ExpressionInputProps> = ({
+  value,
+  expression,
+  onChange,
+  valeurVide = 0,
+  className = '',
+  placeholder,
+  title,
+  disabled,
+  autoFocus,
+}) => {
+  const [texte, setTexte] = useState<string | null>(null);   // null: cellule non éditée
+  const [invalide, setInvalide] = useState(false);
+
+  const handleChange = (saisie: string) => {
+    setTexte(saisie);
+    if (!saisie.trim()) {
+      setInvalide(false);
+      onChange(valeurVide, undefined);
+      return;
+    }
+    const resultat = evaluateExpression(saisie);
+    setInvalide(resultat === null);
+    // ⚠️ Saisie incomplète (2*(3,5+): la dernière valeur valide est conservée
+    if (resultat !== null) onChange(resultat, isExpression(saisie) ? saisie.trim() : undefined);
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        inputMode="decimal"
+        value={texte ?? (expression || (value ? String(value) : ''))}
+        onFocus={() => setTexte(expression || (value ? String(value) : ''))}
+        onBlur={() => {
+          setTexte(null);
+          setInvalide(false);
+        }}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        }}
+        className={`${className} ${invalide ? 'border-red-500 text-red-600' : ''}`}
+        placeholder={placeholder}
+        title={invalide ? 'Expression invalide' : title}
+        disabled={disabled}
+        autoFocus={autoFocus}
+      />
+      {expression && texte === null && (
+        <p className="text-[10px] text-gray-500 text-center truncate mt-0.5" title={expression}>
+          = {Math.round((value || 0) * 1000) / 1000}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ExpressionInput;
@@ -3,10 +3,18 @@ import { MetreLigne } from '../../db/database';
 import { X, Calculator, Edit3 } from 'lucide-react';
 import {
   getCalculationType,
+  getFormesForUnite,
+  getFormeLigne,
+  accepteDeduction,
+  libelleDimension,
+  formuleLigne,
   DIAMETRES_DISPONIBLES,
   calculatePartiel,
   formatNumber,
+  withExpression,
+  type ChampExpression,
 } from '../../utils/metreCalculations';
+import ExpressionInput from './ExpressionInput';
 
 interface MetreLigneEditorProps {
   unite: string;
@@ -29,9 +37,19 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
     profondeur: initialData?.profondeur || 0,
     nombre: initialData?.nombre || 1,
     diametre: initialData?.diametre || undefined,
+    petiteLargeur: initialData?.petiteLargeur || 0,
+    diametreOuvrage: initialData?.diametreOuvrage || 0,
+    epaisseur: initialData?.epaisseur || 0,
+    forme: initialData?.forme,
+    deduction: initialData?.deduction || false,
     observations: initialData?.observations || '',
+    expressions: initialData?.expressions,
   });
 
+  // Valeur + calcul saisi (2*(3,50+1,20)) d'une dimension
+  const setDimension = (champ: ChampExpression & keyof typeof formData, value: number, expression?: string) =>
+    setFormData(prev => ({ ...prev, [champ]: value, expressions: withExpression(prev.expressions, champ, expression) }));
+
   const [partielPreview, setPartielPreview] = useState(0);
   
   // 🆕 تحديد الوضع الافتراضي بناءً على البيانات الموجودة
@@ -43,7 +61,8 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
         (!initialData.largeur || initialData.largeur === 0) &&
         (!initialData.profondeur || initialData.profondeur === 0) &&
         (!initialData.nombre || initialData.nombre <= 1) &&
-        !initialData.diametre;
+        !initialData.diametre &&
+        !initialData.diametreOuvrage;
       
       if (hasNoMeasurements && initialData.partiel > 0) {
         setInputMode('direct');
@@ -61,7 +80,9 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
         formData.largeur,
         formData.profondeur,
         formData.nombre,
-        formData.diametre
+        formData.diametre,
+        undefined,
+        formData
       );
       setPartielPreview(preview);
     } else {
@@ -91,6 +112,11 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
         profondeur: 0,
         nombre: 1,
         diametre: undefined,
+        petiteLargeur: 0,
+        diametreOuvrage: 0,
+        epaisseur: 0,
+        deduction: false,
+        expressions: withExpression(undefined, 'partiel', formData.expressions?.partiel),
         partiel 
       });
     } else {
@@ -101,9 +127,11 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
         formData.largeur,
         formData.profondeur,
         formData.nombre,
-        formData.diametre
+        formData.diametre,
+        undefined,
+        formData
       );
-      onSave({ ...formData, partiel });
+      onSave({ ...formData, expressions: withExpression(formData.expressions, 'partiel', undefined), partiel });
     }
   };
 
@@ -111,7 +139,11 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
     return null;
   }
 
-  const { champs, label } = calculationType;
+  const { label } = calculationType;
+  // 🧱 Forme du catalogue: champs saisis et formule de la ligne
+  const formes = getFormesForUnite(unite);
+  const forme = getFormeLigne(unite, formData.forme);
+  const champs = forme?.champs || [];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
@@ -188,13 +220,14 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
               <label className="block text-sm font-medium text-green-700 mb-2">
                 Quantité directe ({unite})
               </label>
-              <input
-                type="number"
-                value={directPartiel || ''}
-                onChange={(e) => setDirectPartiel(parseFloat(e.target.value) || 0)}
+              <ExpressionInput
+                value={directPartiel}
+                expression={formData.expressions?.partiel}
+                onChange={(value, expression) => {
+                  setDirectPartiel(value);
+                  setFormData(prev => ({ ...prev, expressions: withExpression(prev.expressions, 'partiel', expression) }));
+                }}
                 className="input w-full text-lg font-semibold"
-                min="0"
-                step="0.01"
                 placeholder={`Entrez la quantité en ${unite}...`}
                 autoFocus
               />
@@ -207,95 +240,78 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
           {/* Champs dynamiques selon le type - يظهر فقط في وضع الحساب */}
           {inputMode === 'calculated' && (
             <div className="grid grid-cols-2 gap-4">
-            {champs.includes('nombre') && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Nombre
-                </label>
-                <input
-                  type="number"
-                  value={formData.nombre}
-                  onChange={(e) => setFormData({ ...formData, nombre: parseFloat(e.target.value) || 0 })}
-                  className="input w-full"
-                  min="0"
-                  step="1"
-                />
-              </div>
-            )}
-
-            {champs.includes('longueur') && (
-              <div>
+            {formes.length > 1 && (
+              <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Longueur (m)
+                  Forme
                 </label>
-                <input
-                  type="number"
-                  value={formData.longueur}
-                  onChange={(e) => setFormData({ ...formData, longueur: parseFloat(e.target.value) || 0 })}
+                <select
+                  value={forme?.id}
+                  onChange={(e) => setFormData({ ...formData, forme: e.target.value })}
                   className="input w-full"
-                  min="0"
-                  step="0.01"
-                />
+                >
+                  {formes.map((f) => (
+                    <option key={f.id} value={f.id}>
+                      {f.label} - {f.formule}
+                    </option>
+                  ))}
+                </select>
               </div>
             )}
 
-            {champs.includes('largeur') && (
-              <div>
+            {champs.map((champ) => (
+              <div key={champ}>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Largeur (m)
+                  {libelleDimension(forme, champ)}
                 </label>
-                <input
-                  type="number"
-                  value={formData.largeur}
-                  onChange={(e) => setFormData({ ...formData, largeur: parseFloat(e.target.value) || 0 })}
-                  className="input w-full"
-                  min="0"
-                  step="0.01"
-                />
+                {champ === 'diametre' ? (
+                  forme?.type === 'poids' ? (
+                    <select
+                      value={formData.diametre || ''}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          diametre: e.target.value ? parseInt(e.target.value) : undefined,
+                        })
+                      }
+                      className="input w-full"
+                    >
+                      <option value="">Sélectionner...</option>
+                      {DIAMETRES_DISPONIBLES.map((d) => (
+                        <option key={d} value={d}>
+                          Ø{d}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="number"
+                      value={formData.diametre || ''}
+                      onChange={(e) => setFormData({ ...formData, diametre: parseFloat(e.target.value) || undefined })}
+                      className="input w-full"
+                      placeholder="DN"
+                    />
+                  )
+                ) : (
+                  <ExpressionInput
+                    value={formData[champ]}
+                    expression={formData.expressions?.[champ]}
+                    onChange={(value, expression) => setDimension(champ, value, expression)}
+                    className="input w-full"
+                  />
+                )}
               </div>
-            )}
+            ))}
 
-            {champs.includes('profondeur') && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Profondeur (m)
-                </label>
+            {accepteDeduction(unite) && (
+              <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
                 <input
-                  type="number"
-                  value={formData.profondeur}
-                  onChange={(e) =>
-                    setFormData({ ...formData, profondeur: parseFloat(e.target.value) || 0 })
-                  }
-                  className="input w-full"
-                  min="0"
-                  step="0.01"
+                  type="checkbox"
+                  checked={formData.deduction}
+                  onChange={(e) => setFormData({ ...formData, deduction: e.target.checked })}
                 />
-              </div>
-            )}
-
-            {champs.includes('diametre') && (
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Diamètre (mm)
-                </label>
-                <select
-                  value={formData.diametre || ''}
-                  onChange={(e) =>
-                    setFormData({
-                      ...formData,
-                      diametre: e.target.value ? parseInt(e.target.value) : undefined,
-                    })
-                  }
-                  className="input w-full"
-                >
-                  <option value="">Sélectionner...</option>
-                  {DIAMETRES_DISPONIBLES.map((d) => (
-                    <option key={d} value={d}>
-                      Ø{d}
-                    </option>
-                  ))}
-                </select>
-              </div>
+                À déduire (ouverture, vide): partiel négatif
+              </label>
             )}
             </div>
           )}
@@ -320,15 +336,7 @@ const MetreLigneEditor: FC<MetreLigneEditorProps> = ({ unite, initialData, onSav
                   {inputMode === 'direct' ? 'Quantité saisie directement' : 'Prévisualisation du calcul'}
                 </p>
                 {inputMode === 'calculated' && (
-                  <p className="text-xs text-blue-600">
-                    {champs.includes('nombre') && formData.nombre > 0 && `${formData.nombre} × `}
-                    {champs.includes('longueur') && formData.longueur > 0 && `${formData.longueur} m`}
-                    {champs.includes('largeur') && formData.largeur > 0 && ` × ${formData.largeur} m`}
-                    {champs.includes('profondeur') &&
-                      formData.profondeur > 0 &&
-                      ` × ${formData.profondeur} m`}
-                    {champs.includes('diametre') && formData.diametre && ` × Ø${formData.diametre}`}
-                  </p>
+                  <p className="text-xs text-blue-600">{formuleLigne(unite, formData)}</p>
                 )}
                 {inputMode === 'direct' && (
                   <p className="text-xs text-green-600">SANS DETAIL</p>
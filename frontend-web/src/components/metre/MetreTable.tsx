@@ -19,12 +19,20 @@ import { v4 as uuidv4 } from 'uuid';
 import { logSyncOperation } from '../../services/syncService';
 import {
   getCalculationType,
+  getChampsForLignes,
+  getFormeLigne,
+  isFormeParticuliere,
+  libelleDimension,
   calculatePartiel,
   formatNumber,
   calculatePourcentage,
 } from '../../utils/metreCalculations';
 import MetreLigneEditor from './MetreLigneEditor';
 
+// Calcul saisi dans la cellule, rappelé sous la valeur pour le contrôle
+const Calcul: FC<{ expression?: string }> = ({ expression }) =>
+  expression ? <p className="text-[10px] text-gray-500 font-sans" title={expression}>{expression}</p> : null;
+
 interface MetreTableProps {
   metreId: string;
   onClose: () => void;
@@ -54,7 +62,9 @@ const MetreTable: FC<MetreTableProps> = ({ metreId, onClose }) => {
       newLigne.largeur,
       newLigne.profondeur,
       newLigne.nombre,
-      newLigne.diametre
+      newLigne.diametre,
+      newLigne.nombreSemblables,
+      newLigne
     );
 
     const ligneToAdd: MetreLigne = {
@@ -110,7 +120,9 @@ const MetreTable: FC<MetreTableProps> = ({ metreId, onClose }) => {
         updated.largeur,
         updated.profondeur,
         updated.nombre,
-        updated.diametre
+        updated.diametre,
+        updated.nombreSemblables,
+        updated
       );
 
       return { ...updated, partiel };
@@ -192,7 +204,8 @@ const MetreTable: FC<MetreTableProps> = ({ metreId, onClose }) => {
     );
   }
 
-  const { champs } = calculationType;
+  // 🧱 Colonnes: champs des formes utilisées par les lignes
+  const champs = getChampsForLignes(metre.unite, metre.lignes);
 
   return (
     <div className="card">
@@ -258,27 +271,14 @@ const MetreTable: FC<MetreTableProps> = ({ metreId, onClose }) => {
               <th className="px-3 py-3 text-left text-sm font-semibold text-gray-700 min-w-[200px]">
                 Désignation
               </th>
-              {champs.includes('longueur') && (
-                <th className="px-3 py-3 text-right text-sm font-semibold text-gray-700 w-24">
-                  Longueur (m)
-                </th>
-              )}
-              {champs.includes('largeur') && (
-                <th className="px-3 py-3 text-right text-sm font-semibold text-gray-700 w-24">
-                  Largeur (m)
-                </th>
-              )}
-              {champs.includes('profondeur') && (
-                <th className="px-3 py-3 text-right text-sm font-semibold text-gray-700 w-24">
-                  Profondeur (m)
+              {champs.map((champ) => (
+                <th
+                  key={champ}
+                  className={`px-3 py-3 text-sm font-semibold text-gray-700 w-24 ${champ === 'diametre' ? 'text-center' : 'text-right'}`}
+                >
+                  {libelleDimension(undefined, champ)}
                 </th>
-              )}
-              {champs.includes('nombre') && (
-                <th className="px-3 py-3 text-right text-sm font-semibold text-gray-700 w-24">Nombre</th>
-              )}
-              {champs.includes('diametre') && (
-                <th className="px-3 py-3 text-center text-sm font-semibold text-gray-700 w-24">Ø (mm)</th>
-              )}
+              ))}
               <th className="px-3 py-3 text-right text-sm font-semibold text-gray-700 w-32 bg-blue-50">
                 Partiel
               </th>
@@ -292,26 +292,36 @@ const MetreTable: FC<MetreTableProps> = ({ metreId, onClose }) => {
             {metre.lignes.map((ligne) => (
               <tr key={ligne.id} className="hover:bg-gray-50">
                 <td className="px-3 py-2 text-gray-700">{ligne.numero}</td>
-                <td className="px-3 py-2 text-gray-900">{ligne.designation}</td>
-                {champs.includes('longueur') && (
-                  <td className="px-3 py-2 text-right font-mono">{formatNumber(ligne.longueur || 0)}</td>
-                )}
-                {champs.includes('largeur') && (
-                  <td className="px-3 py-2 text-right font-mono">{formatNumber(ligne.largeur || 0)}</td>
-                )}
-                {champs.includes('profondeur') && (
-                  <td className="px-3 py-2 text-right font-mono">{formatNumber(ligne.profondeur || 0)}</td>
-                )}
-                {champs.includes('nombre') && (
-                  <td className="px-3 py-2 text-right font-mono">{ligne.nombre || 0}</td>
-                )}
-                {champs.includes('diametre') && (
-                  <td className="px-3 py-2 text-center">
-                    {ligne.diametre ? `Ø${ligne.diametre}` : '-'}
-                  </td>
-                )}
+                <td className="px-3 py-2 text-gray-900">
+                  {ligne.designation}
+                  {isFormeParticuliere(metre.unite, ligne) && (
+                    <p className={`text-xs ${ligne.deduction ? 'text-red-600' : 'text-gray-500'}`}>
+                      {ligne.deduction && 'À déduire - '}
+                      {getFormeLigne(metre.unite, ligne.forme)?.label}
+                    </p>
+                  )}
+                </td>
+                {champs.map((champ) => {
+                  if (!getFormeLigne(metre.unite, ligne.forme)?.champs.includes(champ)) {
+                    return <td key={champ} className="px-3 py-2 text-center text-gray-300">-</td>;
+                  }
+                  if (champ === 'diametre') {
+                    return (
+                      <td key={champ} className="px-3 py-2 text-center">
+                        {ligne.diametre ? `Ø${ligne.diametre}` : '-'}
+                      </td>
+                    );
+                  }
+                  return (
+                    <td key={champ} className="px-3 py-2 text-right font-mono">
+                      {champ === 'nombre' ? ligne.nombre || 0 : formatNumber(ligne[champ] || 0)}
+                      <Calcul expression={ligne.expressions?.[champ]} />
+                    </td>
+                  );
+                })}
                 <td className="px-3 py-2 text-right font-bold text-blue-600 bg-blue-50">
                   {formatNumber(ligne.partiel)}
+                  <Calcul expression={ligne.expressions?.partiel} />
                 </td>
                 <td className="px-3 py-2 text-gray-600 text-sm">{ligne.observations || '-'}</td>
                 <td className="px-3 py-2">
@@ -351,7 +361,7 @@ const MetreTable: FC<MetreTableProps> = ({ metreId, onClose }) => {
             <tfoot className="bg-gray-100 border-t-2 border-gray-300">
               <tr>
                 <td
-                  colSpan={champs.filter((c: string) => c !== 'observations').length + 2}
+                  colSpan={champs.length + 2}
                   className="px-3 py-3 text-right font-bold text-gray-900"
                 >
                   TOTAL PARTIEL:
@@ -0,0 +1,254 @@
+/**
+ * NomenclatureAciersModal Component
+ * Nomenclature des aciers d'un élément (semelle, poteau...): barres façonnées, recouvrements,
+ * poids par diamètre, impression et report du total sur la ligne KG/T du métré
+ */
+
+import { FC, useMemo, useState } from 'react';
+import { X, Plus, Trash2, Printer, CheckCircle2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { DIAMETRES_DISPONIBLES, formatNumber } from '../../utils/metreCalculations';
+import {
+  FORMES_BARRE,
+  RECOUVREMENT_DIAMETRES,
+  calculerNomenclature,
+  quantiteMetreNomenclature,
+  type BarreAcier,
+  type FormeBarre,
+} from '../../utils/nomenclatureAciers';
+import { exportNomenclatureAciersPdf, type NomenclaturePdfInfo } from '../../utils/nomenclatureAciersPdf';
+import ExpressionInput from './ExpressionInput';
+
+interface NomenclatureAciersModalProps {
+  unite: string;                       // KG ou T
+  element: string;
+  nombreElements: number;
+  barres?: BarreAcier[];
+  impression: Omit<NomenclaturePdfInfo, 'element'>;
+  disabled?: boolean;                  // Période verrouillée: consultation et impression seulement
+  onApply: (barres: BarreAcier[], quantite: number) => void;
+  onClose: () => void;
+}
+
+const nouvelleBarre = (repere: number): BarreAcier => ({
+  id: `barre-${uuidv4()}`,
+  repere: String(repere),
+  forme: 'droite',
+  diametre: 10,
+  a: 0,
+  nombre: 1,
+});
+
+const NomenclatureAciersModal: FC<NomenclatureAciersModalProps> = ({
+  unite,
+  element,
+  nombreElements,
+  barres: barresInitiales,
+  impression,
+  disabled,
+  onApply,
+  onClose,
+}) => {
+  const [barres, setBarres] = useState<BarreAcier[]>(
+    barresInitiales && barresInitiales.length > 0 ? barresInitiales : [nouvelleBarre(1)]
+  );
+
+  const nomenclature = useMemo(() => calculerNomenclature(barres, nombreElements), [barres, nombreElements]);
+  const quantite = quantiteMetreNomenclature(nomenclature.poidsTotal, unite);
+
+  const modifier = (id: string, changes: Partial<BarreAcier>) =>
+    setBarres(prev => prev.map(b => (b.id === id ? { ...b, ...changes } : b)));
+
+  const barresValides = barres.filter(b => b.nombre > 0 && b.a > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Nomenclature des aciers</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {element || 'Élément'} × {nomenclature.nombreElements} - recouvrement par défaut {RECOUVREMENT_DIAMETRES} Ø
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-auto flex-1">
+          <table className="w-full border border-gray-300 text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-2 py-2 text-left text-xs font-semibold text-gray-700 w-14">Rep.</th>
+                <th className="px-2 py-2 text-left text-xs font-semibold text-gray-700">Désignation</th>
+                <th className="px-2 py-2 text-left text-xs font-semibold text-gray-700 w-36">Façonnage</th>
+                <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700 w-20">Ø (mm)</th>
+                <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700 w-20">a (m)</th>
+                <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700 w-20">b (m)</th>
+                <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700 w-20">Nb/élém</th>
+                <th className="px-2 py-2 text-center text-xs font-semibold text-gray-700 w-20" title="Longueur d'un recouvrement">Recouv. (m)</th>
+                <th className="px-2 py-2 text-right text-xs font-semibold text-gray-700 w-20">L. unit.</th>
+                <th className="px-2 py-2 text-right text-xs font-semibold text-gray-700 w-20">Nb total</th>
+                <th className="px-2 py-2 text-right text-xs font-semibold text-gray-700 w-24 bg-blue-50">Poids (kg)</th>
+                <th className="w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {nomenclature.lignes.map(({ barre, longueurUnitaire, nombreRecouvrements, nombreTotal, poids }) => (
+                <tr key={barre.id}>
+                  <td className="px-2 py-1">
+                    <input
+                      value={barre.repere}
+                      onChange={(e) => modifier(barre.id, { repere: e.target.value })}
+                      className="input text-sm w-full"
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      value={barre.designation || ''}
+                      onChange={(e) => modifier(barre.id, { designation: e.target.value })}
+                      className="input text-sm w-full"
+                      placeholder="Filantes, chapeaux, cadres..."
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <select
+                      value={barre.forme}
+                      onChange={(e) => modifier(barre.id, { forme: e.target.value as FormeBarre })}
+                      className="input text-xs w-full"
+                      title={FORMES_BARRE[barre.forme].formule}
+                      disabled={disabled}
+                    >
+                      {(Object.keys(FORMES_BARRE) as FormeBarre[]).map((f) => (
+                        <option key={f} value={f}>{FORMES_BARRE[f].label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <select
+                      value={barre.diametre}
+                      onChange={(e) => modifier(barre.id, { diametre: parseInt(e.target.value) })}
+                      className="input text-sm w-full"
+                      disabled={disabled}
+                    >
+                      {DIAMETRES_DISPONIBLES.map((d) => (
+                        <option key={d} value={d}>Ø{d}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <ExpressionInput
+                      value={barre.a}
+                      onChange={(value) => modifier(barre.id, { a: value })}
+                      className="input text-sm text-center w-full"
+                      placeholder="0.00"
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    {FORMES_BARRE[barre.forme].cotes.includes('b') ? (
+                      <ExpressionInput
+                        value={barre.b}
+                        onChange={(value) => modifier(barre.id, { b: value })}
+                        className="input text-sm text-center w-full"
+                        placeholder="0.00"
+                        disabled={disabled}
+                      />
+                    ) : (
+                      <span className="block text-center text-gray-300">—</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1">
+                    <ExpressionInput
+                      value={barre.nombre}
+                      onChange={(value) => modifier(barre.id, { nombre: value })}
+                      className="input text-sm text-center w-full"
+                      placeholder="0"
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <ExpressionInput
+                      value={barre.recouvrement}
+                      onChange={(value) => modifier(barre.id, { recouvrement: value || undefined })}
+                      className="input text-sm text-center w-full"
+                      placeholder={formatNumber((RECOUVREMENT_DIAMETRES * barre.diametre) / 1000)}
+                      disabled={disabled}
+                    />
+                  </td>
+                  <td className="px-2 py-1 text-right font-mono" title={nombreRecouvrements > 0 ? `${nombreRecouvrements} recouvrement(s)` : undefined}>
+                    {formatNumber(longueurUnitaire)}
+                    {nombreRecouvrements > 0 && <span className="block text-[10px] text-orange-600">+{nombreRecouvrements} rec.</span>}
+                  </td>
+                  <td className="px-2 py-1 text-right font-mono">{nombreTotal}</td>
+                  <td className="px-2 py-1 text-right font-bold text-primary-600 bg-blue-50">{formatNumber(poids)}</td>
+                  <td className="px-2 py-1 text-center">
+                    {!disabled && (
+                      <button
+                        onClick={() => setBarres(prev => prev.filter(b => b.id !== barre.id))}
+                        className="p-1 text-red-500 hover:bg-red-100 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {!disabled && (
+            <button
+              onClick={() => setBarres(prev => [...prev, nouvelleBarre(prev.length + 1)])}
+              className="mt-2 text-sm text-primary-600 hover:text-primary-700 flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" />
+              Ajouter une barre
+            </button>
+          )}
+
+          {/* Récapitulatif par diamètre */}
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-5 gap-3">
+            {nomenclature.parDiametre.map((d) => (
+              <div key={d.diametre} className="bg-gray-50 p-3 rounded-lg">
+                <p className="text-xs text-gray-600">Ø{d.diametre} - {formatNumber(d.longueur)} m</p>
+                <p className="font-bold text-gray-900">{formatNumber(d.poids)} kg</p>
+              </div>
+            ))}
+            <div className="bg-blue-50 p-3 rounded-lg">
+              <p className="text-xs text-blue-600">Total ({unite})</p>
+              <p className="text-xl font-bold text-blue-700">{formatNumber(quantite, unite === 'T' ? 3 : 2)}</p>
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={() => exportNomenclatureAciersPdf(calculerNomenclature(barresValides, nombreElements), { ...impression, element })}
+            className="btn btn-secondary flex items-center gap-2"
+            disabled={barresValides.length === 0}
+          >
+            <Printer className="w-4 h-4" />
+            Imprimer
+          </button>
+          {!disabled && (
+            <button
+              onClick={() => onApply(barresValides, quantite)}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              <CheckCircle2 className="w-4 h-4" />
+              Reporter au métré
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NomenclatureAciersModal;
@@ -0,0 +1,48 @@
+/**
+ * PkInput Component
+ * Point kilométrique saisi en 1+250,50 ou en mètres, affiché en 1+250.50 hors édition
+ */
+
+import { FC, useState } from 'react';
+import { formatPK, parsePK } from '../../utils/cubature';
+
+interface PkInputProps {
+  value?: number;
+  onChange: (pk: number | undefined) => void;
+  className?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const PkInput: FC<PkInputProps> = ({ value, onChange, className = '', placeholder = '0+000', disabled }) => {
+  const [texte, setTexte] = useState<string | null>(null);   // null: cellule non éditée
+  const invalide = texte !== null && texte.trim() !== '' && parsePK(texte) === null;
+  const affiche = value === undefined ? '' : formatPK(value);
+
+  return (
+    <input
+      type="text"
+      value={texte ?? affiche}
+      onFocus={() => setTexte(affiche)}
+      onBlur={() => setTexte(null)}
+      onChange={(e) => {
+        setTexte(e.target.value);
+        if (!e.target.value.trim()) {
+          onChange(undefined);
+          return;
+        }
+        const pk = parsePK(e.target.value);
+        if (pk !== null) onChange(pk);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+      }}
+      className={`${className} font-mono ${invalide ? 'border-red-500 text-red-600' : ''}`}
+      placeholder={placeholder}
+      title={invalide ? 'PK invalide (ex: 1+250 ou 1250)' : undefined}
+      disabled={disabled}
+    />
+  );
+};
+
+export default PkInput;
@@ -1,3 +1,8 @@
 export { default as CreateMetreModal } from './CreateMetreModal';
 export { default as MetreTable } from './MetreTable';
 export { default as MetreLigneEditor } from './MetreLigneEditor';
+export { default as ExpressionInput } from './ExpressionInput';
+export { default as NomenclatureAciersModal } from './NomenclatureAciersModal';
+export { default as CubatureModal } from './CubatureModal';
+export { default as PkInput } from './PkInput';
+export { default as DiagrammeLineairePK } from './DiagrammeLineairePK';
@@ -0,0 +1,96 @@
+/**
+ * CourbeSCard Component
+ * Courbe en S du marché: cumul TTC prévu (délai, arrêts) vs décomptes émis,
+ * et décomptes attendus sur les prochains mois
+ */
+
+import { FC, useMemo } from 'react';
+import { format } from 'date-fns';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatMontant } from 'shared';
+import { calculatePrevisionMensuelle, type CourbeS } from '../../utils/previsionTresorerie';
+
+interface CourbeSCardProps {
+  courbe: CourbeS | null;
+}
+
+// Nombre de mois de prévision affichés sous la courbe
+const MOIS_PREVISION = 6;
+
+const formatMillions = (value: number) => `${(value / 1000000).toFixed(1)}M`;
+
+const CourbeSCard: FC<CourbeSCardProps> = ({ courbe }) => {
+  const prevision = useMemo(
+    () => (courbe ? calculatePrevisionMensuelle(courbe).slice(0, MOIS_PREVISION) : []),
+    [courbe]
+  );
+
+  if (!courbe) return null;
+
+  const avancementPrevu = (courbe.prevuAujourdhui / courbe.montantMarcheTTC) * 100;
+  const avancementReel = (courbe.reelAujourdhui / courbe.montantMarcheTTC) * 100;
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <LineChartIcon className="w-5 h-5 text-primary-600" />
+        Courbe en S - Prévu / Réalisé
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        <div>
+          <span className="text-gray-600">Période prévue</span>
+          <p className="font-medium text-gray-900">
+            {format(courbe.dateDebut, 'dd/MM/yyyy')} → {format(courbe.dateFin, 'dd/MM/yyyy')}
+          </p>
+        </div>
+        <div>
+          <span className="text-gray-600">Prévu fin du mois</span>
+          <p className="font-medium text-gray-900">{formatMontant(courbe.prevuAujourdhui)} DH ({avancementPrevu.toFixed(1)}%)</p>
+        </div>
+        <div>
+          <span className="text-gray-600">Décomptes émis</span>
+          <p className="font-medium text-gray-900">{formatMontant(courbe.reelAujourdhui)} DH ({avancementReel.toFixed(1)}%)</p>
+        </div>
+        <div>
+          <span className="text-gray-600">Écart</span>
+          <p className={`font-bold ${courbe.ecart < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {courbe.ecart > 0 ? '+' : ''}{formatMontant(courbe.ecart)} DH
+          </p>
+        </div>
+      </div>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={courbe.points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={formatMillions} tick={{ fontSize: 11 }} />
+            <Tooltip formatter={(value: number) => `${formatMontant(value)} DH`} />
+            <Legend />
+            <Line type="monotone" dataKey="prevuCumul" name="Prévu (cumul TTC)" stroke="#2563eb" strokeDasharray="5 5" dot={false} />
+            {/* ⚠️ reelCumul = null pour les mois futurs: la courbe s'arrête au mois courant */}
+            <Line type="stepAfter" dataKey="reelCumul" name="Décomptes émis (cumul TTC)" stroke="#16a34a" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {prevision.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-700 mb-2">Décomptes attendus (reste à facturer réparti selon la courbe)</p>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-sm">
+            {prevision.map(p => (
+              <div key={p.mois} className="p-2 bg-gray-50 rounded-lg">
+                <span className="text-gray-600">{p.label}</span>
+                <p className="font-medium text-gray-900">{formatMontant(p.montant)}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CourbeSCard;
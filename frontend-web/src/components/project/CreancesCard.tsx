@@ -0,0 +1,151 @@
+/**
+ * CreancesCard Component
+ * Créances: reste à encaisser sur les décomptes validés, par ancienneté
+ * (détail par décompte pour un projet, par projet pour le portefeuille)
+ */
+
+import { FC } from 'react';
+import { Link } from 'react-router-dom';
+import { Wallet, AlertTriangle } from 'lucide-react';
+import {
+  TRANCHES_ANCIENNETE,
+  type CreancesPortefeuille,
+  type TrancheAnciennete,
+} from '../../services/paiementService';
+import { formatMontant } from 'shared';
+
+interface CreancesCardProps {
+  creances: CreancesPortefeuille | null;
+  mode: 'projet' | 'portefeuille';
+}
+
+const TRANCHE_COLORS: Record<TrancheAnciennete, string> = {
+  '0-30': 'bg-green-500',
+  '31-60': 'bg-yellow-500',
+  '61-90': 'bg-orange-500',
+  '+90': 'bg-red-500',
+};
+
+const CreancesCard: FC<CreancesCardProps> = ({ creances, mode }) => {
+  if (!creances) return null;
+
+  const lignes = mode === 'projet'
+    ? (creances.projets[0]?.decomptes || []).map(d => ({
+        key: d.decomptId,
+        label: `Décompte N° ${d.numero}`,
+        detail: d.tranche ? `${d.joursEcoules} j` : 'Soldé',
+        montant: d.montant,
+        reste: d.resteAPayer,
+        enRetard: d.enRetard,
+        path: null as string | null,
+      }))
+    : creances.projets
+        .filter(p => p.resteAPayer > 0)
+        .map(p => ({
+          key: p.projectId,
+          label: p.marcheNo,
+          detail: p.objet,
+          montant: p.montantDu,
+          reste: p.resteAPayer,
+          enRetard: p.montantEnRetard > 0,
+          path: `/projects/${p.projectId}`,
+        }));
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <Wallet className="w-5 h-5 text-primary-600" />
+        Créances
+      </h2>
+
+      {/* Synthèse */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        <div>
+          <span className="text-gray-600">Décomptes validés</span>
+          <p className="font-medium text-gray-900">{formatMontant(creances.montantDu)} DH</p>
+        </div>
+        <div>
+          <span className="text-gray-600">Encaissé</span>
+          <p className="font-medium text-green-600">{formatMontant(creances.montantPaye)} DH</p>
+        </div>
+        <div>
+          <span className="text-gray-600">Reste à encaisser</span>
+          <p className="font-bold text-orange-600">{formatMontant(creances.resteAPayer)} DH</p>
+        </div>
+        <div>
+          <span className="text-gray-600">Hors délai de paiement</span>
+          <p className="font-bold text-red-600">{formatMontant(creances.montantEnRetard)} DH</p>
+        </div>
+      </div>
+
+      {/* Ancienneté (jours depuis la validation) */}
+      {creances.resteAPayer > 0 && (
+        <div className="mb-4">
+          <div className="flex gap-1 h-3 rounded-full overflow-hidden mb-2">
+            {TRANCHES_ANCIENNETE.filter(t => creances.parTranche[t] > 0).map(tranche => (
+              <div
+                key={tranche}
+                className={TRANCHE_COLORS[tranche]}
+                style={{ width: `${(creances.parTranche[tranche] / creances.resteAPayer) * 100}%` }}
+                title={`${tranche} j: ${formatMontant(creances.parTranche[tranche])} DH`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs">
+            {TRANCHES_ANCIENNETE.map(tranche => (
+              <span key={tranche} className="flex items-center gap-1">
+                <span className={`w-2 h-2 rounded-full ${TRANCHE_COLORS[tranche]}`}></span>
+                {tranche} j: {formatMontant(creances.parTranche[tranche])} DH
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Détail */}
+      {lignes.length > 0 ? (
+        <div className="overflow-x-auto max-h-[300px] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">
+                  {mode === 'projet' ? 'Décompte' : 'N° Marché'}
+                </th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">
+                  {mode === 'projet' ? 'Ancienneté' : 'Objet'}
+                </th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Montant (DH)</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Reste (DH)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {lignes.map(ligne => (
+                <tr key={ligne.key}>
+                  <td className="px-3 py-2 font-medium text-gray-900">
+                    {ligne.path ? (
+                      <Link to={ligne.path} className="text-primary-600 hover:text-primary-700">{ligne.label}</Link>
+                    ) : ligne.label}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600 max-w-xs">
+                    <span className="line-clamp-1 inline-flex items-center gap-1">
+                      {ligne.enRetard && <AlertTriangle className="w-3 h-3 text-red-500" />}
+                      {ligne.detail}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatMontant(ligne.montant)}</td>
+                  <td className={`px-3 py-2 text-right font-medium ${ligne.reste > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+                    {formatMontant(ligne.reste)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Aucune créance en attente.</p>
+      )}
+    </div>
+  );
+};
+
+export default CreancesCard;
@@ -0,0 +1,226 @@
+/**
+ * DgdCard Component
+ * Décompte général et définitif: bilan final, quantités réalisées vs contractuelles,
+ * export PDF / Excel, signature (verrouillage financier) et réouverture (admin)
+ */
+
+import { FC, useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { FileCheck2, FileDown, FileSpreadsheet, Lock, Unlock, AlertTriangle, Loader2 } from 'lucide-react';
+import { apiService } from '../../services/apiService';
+import { dgdService, type Dgd } from '../../services/dgdService';
+import { exportDgdExcel } from '../../utils/dgdExcelExport';
+import { formatMontant } from 'shared';
+
+interface DgdCardProps {
+  projectId: string;
+  marcheNo?: string;
+  objet?: string;
+  isAdmin: boolean;
+  refreshKey?: unknown;   // Recharger après un changement des décomptes
+  onChanged: () => void;
+}
+
+// Écart de quantité signalé au-delà de ce pourcentage
+const SEUIL_ECART = 10;
+
+const DgdCard: FC<DgdCardProps> = ({ projectId, marcheNo, objet, isAdmin, refreshKey, onChanged }) => {
+  const [dgd, setDgd] = useState<Dgd | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const load = useCallback(async () => {
+    setDgd(await dgdService.getDgd(projectId));
+  }, [projectId]);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  if (!dgd || dgd.periodes.length === 0) return null;
+
+  const { bilan } = dgd;
+  const signe = dgd.statut === 'signe';
+  const lignesEcart = dgd.lignes.filter(l => l.ecartPourcentage !== null && Math.abs(l.ecartPourcentage) > SEUIL_ECART);
+
+  const handleSign = async () => {
+    if (!confirm(`Signer le DGD pour un solde de ${formatMontant(bilan.solde)} DH ?\nLes données financières du marché seront verrouillées.`)) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      setDgd(await dgdService.signDgd(projectId));
+      onChanged();
+    } catch (error) {
+      alert('Erreur lors de la signature du DGD');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    const motif = prompt('Motif de la réouverture du DGD:')?.trim();
+    if (!motif) return;
+    setIsSaving(true);
+    try {
+      setDgd(await dgdService.reopenDgd(projectId, motif));
+      onChanged();
+    } catch (error) {
+      alert('Erreur lors de la réouverture du DGD');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsGenerating(true);
+    try {
+      const blob = await apiService.downloadDgdPdf(projectId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `DGD_${marcheNo || ''}${signe ? '' : '_provisoire'}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Erreur lors de la génération du DGD:', error);
+      alert('Erreur lors de la génération du PDF du DGD');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const lignesBilan = [
+    { label: 'Travaux TTC', montant: bilan.travauxTTC },
+    { label: 'Révision des prix', montant: bilan.revisionPrix },
+    { label: 'Pénalités de retard', montant: -bilan.penalitesRetard },
+    { label: 'Montant définitif', montant: bilan.montantDefinitif, bold: true },
+    { label: 'Retenue conservée', montant: -bilan.retenueConservee },
+    { label: 'Avance remboursée', montant: -bilan.remboursementAvance },
+    ...(bilan.deductionsDiverses ? [{ label: 'Déductions diverses', montant: -bilan.deductionsDiverses }] : []),
+    ...(bilan.additionsDiverses ? [{ label: 'Additions diverses', montant: bilan.additionsDiverses }] : []),
+    { label: 'Acomptes délivrés', montant: -bilan.acomptesDelivres },
+  ];
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <FileCheck2 className="w-5 h-5 text-primary-600" />
+          Décompte Général et Définitif
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${signe ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>
+            {signe ? 'Signé' : 'Provisoire'}
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => exportDgdExcel(dgd, { marcheNo, objet })}
+            className="btn-secondary flex items-center gap-2 text-sm"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Excel
+          </button>
+          <button
+            onClick={handleDownloadPdf}
+            disabled={isGenerating}
+            className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-50"
+          >
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+            PDF
+          </button>
+        </div>
+      </div>
+
+      {signe ? (
+        <div className="flex items-center justify-between bg-green-50 border border-green-200 rounded-lg p-3 mb-4 text-sm">
+          <span className="flex items-center gap-2 text-green-800">
+            <Lock className="w-4 h-4" />
+            Signé le {dgd.signeAt ? format(new Date(dgd.signeAt), 'dd/MM/yyyy HH:mm') : ''}: données financières verrouillées
+          </span>
+          {isAdmin && (
+            <button
+              onClick={handleReopen}
+              disabled={isSaving}
+              className="text-sm text-red-600 hover:text-red-700 flex items-center gap-1"
+            >
+              <Unlock className="w-4 h-4" />
+              Rouvrir
+            </button>
+          )}
+        </div>
+      ) : dgd.motifsNonSignable.length > 0 ? (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800">
+          <p className="font-medium mb-1">Le DGD ne peut pas encore être signé:</p>
+          <ul className="list-disc list-inside">
+            {dgd.motifsNonSignable.map(motif => <li key={motif}>{motif}</li>)}
+          </ul>
+        </div>
+      ) : null}
+
+      {/* Bilan */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        {lignesBilan.map(ligne => (
+          <div key={ligne.label}>
+            <span className="text-gray-600">{ligne.label}</span>
+            <p className={`${ligne.bold ? 'font-bold' : 'font-medium'} text-gray-900`}>{formatMontant(ligne.montant)} DH</p>
+          </div>
+        ))}
+        <div>
+          <span className="text-gray-600">Solde du DGD</span>
+          <p className="font-bold text-primary-600">{formatMontant(bilan.solde)} DH</p>
+        </div>
+      </div>
+
+      {/* Quantités finales */}
+      {lignesEcart.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+            <AlertTriangle className="w-4 h-4 text-orange-500" />
+            Prix dont la quantité réalisée s'écarte de plus de {SEUIL_ECART}% du contrat
+          </p>
+          <div className="overflow-x-auto max-h-[240px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Prix</th>
+                  <th className="px-3 py-2 text-left font-semibold text-gray-700">Désignation</th>
+                  <th className="px-3 py-2 text-right font-semibold text-gray-700">Contrat</th>
+                  <th className="px-3 py-2 text-right font-semibold text-gray-700">Réalisé</th>
+                  <th className="px-3 py-2 text-right font-semibold text-gray-700">Écart</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lignesEcart.map(l => (
+                  <tr key={l.prixNo}>
+                    <td className="px-3 py-2 font-medium text-gray-900">{l.prixNo}</td>
+                    <td className="px-3 py-2 text-gray-600 max-w-xs"><span className="line-clamp-1">{l.designation}</span></td>
+                    <td className="px-3 py-2 text-right">{l.quantiteContractuelle} {l.unite}</td>
+                    <td className="px-3 py-2 text-right">{l.quantiteRealisee} {l.unite}</td>
+                    <td className={`px-3 py-2 text-right font-medium ${l.ecartQuantite > 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                      {l.ecartPourcentage}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {!signe && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleSign}
+            disabled={isSaving || !dgd.signable}
+            className="btn-primary flex items-center gap-2 text-sm disabled:opacity-50"
+          >
+            <Lock className="w-4 h-4" />
+            {isSaving ? 'Signature...' : 'Signer le DGD'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DgdCard;
@@ -0,0 +1,232 @@
+/**
+ * InteretsMoratoiresCard Component
+ * Intérêts moratoires: délai de paiement et taux par période (paramétrage du marché),
+ * intérêts dus sur chaque décompte réglé hors délai et demande de paiement en PDF
+ */
+
+import { FC, useCallback, useEffect, useState } from 'react';
+import { Percent, Plus, Trash2, Save, FileDown, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { InteretsMoratoiresConfig } from '../../db/database';
+import { apiService } from '../../services/apiService';
+import { paiementService, type InteretsMoratoiresProjet } from '../../services/paiementService';
+import { formatMontant } from 'shared';
+
+interface InteretsMoratoiresCardProps {
+  projectId: string;
+  marcheNo?: string;
+  config?: InteretsMoratoiresConfig;
+  refreshKey?: unknown;   // Recharger après un changement des décomptes / paiements
+  onSave: (config: InteretsMoratoiresConfig) => Promise<void>;
+}
+
+export const DEFAULT_INTERETS_MORATOIRES: InteretsMoratoiresConfig = {
+  delaiPaiementJours: 60,
+  taux: [],
+};
+
+const formatDate = (date: string) => format(new Date(date), 'dd/MM/yyyy');
+
+const InteretsMoratoiresCard: FC<InteretsMoratoiresCardProps> = ({
+  projectId,
+  marcheNo,
+  config,
+  refreshKey,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<InteretsMoratoiresConfig>(config || DEFAULT_INTERETS_MORATOIRES);
+  const [dateReference, setDateReference] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [interets, setInterets] = useState<InteretsMoratoiresProjet | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    setDraft(config || DEFAULT_INTERETS_MORATOIRES);
+  }, [config]);
+
+  const load = useCallback(async () => {
+    setInterets(await paiementService.getInteretsMoratoires(projectId, dateReference));
+  }, [projectId, dateReference]);
+
+  useEffect(() => {
+    load();
+  }, [load, config, refreshKey]);
+
+  const setTaux = (index: number, fields: Partial<InteretsMoratoiresConfig['taux'][number]>) =>
+    setDraft({ ...draft, taux: draft.taux.map((t, i) => (i === index ? { ...t, ...fields } : t)) });
+
+  const handleSave = async () => {
+    if (!draft.delaiPaiementJours || draft.delaiPaiementJours < 0) {
+      alert('Le délai de paiement doit être un nombre de jours positif');
+      return;
+    }
+    if (draft.taux.some(t => !t.dateDebut || t.taux < 0)) {
+      alert('Veuillez saisir la date de début et un taux positif pour chaque période');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await onSave({
+        ...draft,
+        taux: [...draft.taux].sort((a, b) => a.dateDebut.localeCompare(b.dateDebut)),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsGenerating(true);
+    try {
+      const blob = await apiService.downloadInteretsMoratoiresPdf(projectId, dateReference);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Interets_Moratoires_${marcheNo || ''}_${dateReference}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Erreur lors de la génération de la demande d\'intérêts moratoires:', error);
+      alert('Erreur lors de la génération du PDF des intérêts moratoires');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Percent className="w-5 h-5 text-primary-600" />
+          Intérêts Moratoires
+        </h2>
+        <button
+          onClick={handleDownloadPdf}
+          disabled={isGenerating || !interets || interets.decomptes.length === 0}
+          className="btn-secondary flex items-center gap-2 text-sm disabled:opacity-50"
+        >
+          {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+          Demande de paiement (PDF)
+        </button>
+      </div>
+
+      {/* Paramètres */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Délai de paiement (jours)</label>
+          <input
+            type="number"
+            value={draft.delaiPaiementJours}
+            onChange={(e) => setDraft({ ...draft, delaiPaiementJours: parseInt(e.target.value) || 0 })}
+            className="input"
+            min="1"
+          />
+          <p className="text-xs text-gray-500 mt-1">À compter de la validation du décompte</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Intérêts calculés au</label>
+          <input
+            type="date"
+            value={dateReference}
+            onChange={(e) => e.target.value && setDateReference(e.target.value)}
+            className="input"
+          />
+        </div>
+      </div>
+
+      {/* Taux par période */}
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-sm font-medium text-gray-700">Taux annuel par période</span>
+          <button
+            onClick={() => setDraft({ ...draft, taux: [...draft.taux, { dateDebut: '', taux: 0 }] })}
+            className="text-sm text-primary-600 hover:text-primary-700 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Ajouter un taux
+          </button>
+        </div>
+        {draft.taux.length === 0 ? (
+          <p className="text-sm text-orange-600">Aucun taux saisi: les intérêts seront nuls.</p>
+        ) : (
+          <div className="space-y-2">
+            {draft.taux.map((t, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">À partir du</span>
+                <input
+                  type="date"
+                  value={t.dateDebut}
+                  onChange={(e) => setTaux(index, { dateDebut: e.target.value })}
+                  className="input flex-1"
+                />
+                <input
+                  type="number"
+                  value={t.taux}
+                  onChange={(e) => setTaux(index, { taux: parseFloat(e.target.value) || 0 })}
+                  className="input w-28"
+                  min="0"
+                  step="0.01"
+                />
+                <span className="text-sm text-gray-600">%</span>
+                <button
+                  onClick={() => setDraft({ ...draft, taux: draft.taux.filter((_, i) => i !== index) })}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded"
+                  title="Supprimer"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end mb-4">
+        <button onClick={handleSave} disabled={isSaving} className="btn-primary flex items-center gap-2 text-sm">
+          <Save className="w-4 h-4" />
+          {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+        </button>
+      </div>
+
+      {/* Décomptes réglés hors délai */}
+      {interets && interets.decomptes.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Décompte</th>
+                <th className="px-3 py-2 text-left font-semibold text-gray-700">Date limite</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Retard (j)</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Reste dû (DH)</th>
+                <th className="px-3 py-2 text-right font-semibold text-gray-700">Intérêts (DH)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {interets.decomptes.map(d => (
+                <tr key={d.decomptId}>
+                  <td className="px-3 py-2 font-medium text-gray-900">Décompte N° {d.numero}</td>
+                  <td className="px-3 py-2 text-gray-600">{formatDate(d.dateLimite)}</td>
+                  <td className="px-3 py-2 text-right text-red-600">{d.joursRetard}</td>
+                  <td className="px-3 py-2 text-right">{formatMontant(d.resteAPayer)}</td>
+                  <td className="px-3 py-2 text-right font-medium">{formatMontant(d.interets)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="border-t-2 border-gray-300">
+              <tr>
+                <td colSpan={4} className="px-3 py-2 text-right font-semibold text-gray-900">Total réclamé</td>
+                <td className="px-3 py-2 text-right font-bold text-red-600">
+                  {formatMontant(interets.totalInterets)} DH
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Aucun décompte réglé hors délai.</p>
+      )}
+    </div>
+  );
+};
+
+export default InteretsMoratoiresCard;
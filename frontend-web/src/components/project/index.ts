@@ -2,3 +2,7 @@
 export { default as PhotosTab } from './PhotosTab';
 export { default as PVTab } from './PVTab';
 export { default as DocumentsTab } from './DocumentsTab';
+export { default as CreancesCard } from './CreancesCard';
+export { default as InteretsMoratoiresCard, DEFAULT_INTERETS_MORATOIRES } from './InteretsMoratoiresCard';
+export { default as DgdCard } from './DgdCard';
+export { default as CourbeSCard } from './CourbeSCard';
@@ -1,4 +1,8 @@
 import Dexie, { Table } from 'dexie';
+import type { LangueMontantLettres } from 'shared';
+import type { ExpressionsMetre } from '../utils/metreCalculations';
+import type { BarreAcier } from '../utils/nomenclatureAciers';
+import type { CubatureSection } from '../utils/cubature';
 
 // Types locaux (miroir des types backend)
 export interface User {
@@ -39,6 +43,7 @@ export interface Project {
   chapitre?: string;             // Chapitre budgétaire
   ordreService?: string;         // Date ordre de service (format: DD/MM/YYYY)
   delaisExecution?: number;      // Délais d'exécution en mois
+  delaiAvenants?: number;        // Mois ajoutés par les avenants (calculé par le serveur)
   
   // === Gestion des délais ===
   osc?: string;                  // Ordre de Service de Commencement (date début travaux)
@@ -48,6 +53,30 @@ export interface Project {
   dateReceptionProvisoire?: string;   // Date réception provisoire
   dateReceptionDefinitive?: string;   // Date réception définitive
   achevementTravaux?: string;         // Date achèvement travaux (ACH TVX)
+
+  // === Révision des prix ===
+  revisionPrix?: RevisionPrixConfig;  // Formule de révision (marché révisable)
+
+  // === Pénalités de retard ===
+  penalites?: PenalitesConfig;
+
+  // === Avance forfaitaire ===
+  avance?: AvanceConfig;
+
+  // === Retenue de garantie ===
+  retenueGarantie?: RetenueGarantieConfig;
+
+  // === Intérêts moratoires ===
+  interetsMoratoires?: InteretsMoratoiresConfig;
+
+  // === Déductions / additions diverses (tous les décomptes) ===
+  ajustements?: AjustementConfig[];
+
+  // === Dépassements de quantités ===
+  justificationsDepassement?: JustificationsDepassement;
+
+  // === Montant en lettres des PDF: français, arabe ou les deux ===
+  langueMontantLettres?: LangueMontantLettres;
   
   // Champs anciens (à supprimer progressivement)
   snss?: string;                 // @deprecated: use cnss instead
@@ -71,6 +100,84 @@ export interface ArretTravaux {
   motif: string;          // Motif de l'arrêt
 }
 
+// Paramètres des pénalités de retard
+export interface PenalitesConfig {
+  tauxJournalier: number;     // ‰ du montant du marché par jour de retard (ex: 1 = 1/1000)
+  plafond: number;            // Plafond en % du montant du marché (ex: 8)
+  montantRetenu?: number;     // Montant retenu après remise partielle du maître d'ouvrage
+  justification?: string;     // Obligatoire si montantRetenu est saisi
+}
+
+// Avance forfaitaire et échéancier de remboursement (en % d'exécution du marché)
+export interface AvanceConfig {
+  montant: number;              // Montant de l'avance versée (DH)
+  dateVersement?: string;
+  debutRemboursement: number;   // % d'exécution où commence le remboursement (ex: 0)
+  finRemboursement: number;     // % d'exécution où l'avance est totalement remboursée (ex: 80)
+}
+
+// Déduction ou addition diverse du récapitulatif (retenue à la source, avoir, prime...)
+// Marché: appliquée à tous les décomptes; période: à partir de cette période (cumul)
+export interface AjustementConfig {
+  id: string;
+  libelle: string;
+  sens: 'deduction' | 'addition';
+  base: 'HT' | 'TTC';           // Base du taux: travaux cumulés HT ou TTC
+  taux?: number | null;         // % de la base (prioritaire sur le montant)
+  montant?: number | null;      // Montant forfaitaire (DH)
+  ordre?: number;               // Ordre d'impression dans le récapitulatif
+}
+
+// Justification d'un dépassement de quantité (sans prixNo: dépassement du montant du marché)
+export interface JustificationDepassement {
+  prixNo?: number | string;
+  motif: string;
+  date: string;
+}
+
+export interface JustificationsDepassement {
+  lignes?: JustificationDepassement[];
+  marche?: JustificationDepassement | null;
+}
+
+// Retenue de garantie: plafond cumulé et caution bancaire de substitution
+// (le taux par décompte reste porté par la période: tauxRetenue)
+export interface RetenueGarantieConfig {
+  plafond?: number | null;          // % du montant du marché TTC (absent: 7, vide: pas de plafond)
+  caution?: CautionBancaire | null; // Remplace la retenue à hauteur de son montant
+}
+
+export interface CautionBancaire {
+  montant: number;
+  banque?: string;
+  reference?: string;
+  dateEmission?: string;
+}
+
+// Intérêts moratoires: délai de paiement et taux annuel par période
+export interface InteretsMoratoiresConfig {
+  delaiPaiementJours: number;   // Délai à compter de la validation du décompte (ex: 60)
+  taux: TauxInteretPeriode[];
+}
+
+export interface TauxInteretPeriode {
+  dateDebut: string;            // Taux applicable à partir de cette date (YYYY-MM-DD)
+  taux: number;                 // Taux annuel en % (ex: 3.5)
+}
+
+// Formule de révision des prix: K = a + Σ bᵢ × (Iᵢ / Iᵢ₀)
+export interface RevisionPrixConfig {
+  actif: boolean;
+  partieFixe: number;         // a - partie fixe (ex: 0.15)
+  moisOrigine: string;        // Mois d'origine des indices Iᵢ₀ (YYYY-MM), ex: mois de l'offre
+  termes: RevisionPrixTerme[];
+}
+
+export interface RevisionPrixTerme {
+  code: string;               // Code de l'indice (BTP1, MGT, ...)
+  coefficient: number;        // bᵢ - coefficient de pondération
+}
+
 export interface Bordereau {
   id: string;
   projectId: string;
@@ -85,6 +192,7 @@ export interface Bordereau {
     quantite: number;
     prixUnitaire: number;
     montant: number;
+    tauxTVA?: number | null; // Taux propre au prix (non renseigné → taux du décompte, 0 → exonéré)
   }>;
   montantTotal: number;
   createdAt: string;
@@ -105,6 +213,7 @@ export interface MetreSection {
   ordre: number;                    // Ordre d'affichage
   couleur?: string;                 // Couleur pour différencier (optionnel)
   isCollapsed?: boolean;            // État plié/déplié
+  cubature?: CubatureSection;       // Profils en travers dont les lignes PK → PK sont issues (prix M³)
   isFromPreviousPeriode?: boolean;  // 🔴 لتحديد إذا كان من فترة سابقة
 }
 
@@ -119,6 +228,7 @@ export interface MetreSubSection {
   ordre: number;                    // Ordre d'affichage dans la section
   isCollapsed?: boolean;            // État plié/déplié
   nombreElements?: number;          // Nombre d'éléments/structures (ex: nombre de poteaux)
+  nomenclature?: BarreAcier[];      // Nomenclature des aciers de l'élément (prix KG/T)
   isFromPreviousPeriode?: boolean;  // 🔴 لتحديد إذا كان من فترة سابقة
 }
 
@@ -141,9 +251,25 @@ export interface MetreLigne {
   profondeur?: number;
   nombre?: number;
   diametre?: number;
+  petiteLargeur?: number;           // Petite base b (trapèze, canal)
+  diametreOuvrage?: number;         // Diamètre D en m (puits, regard, buse)
+  epaisseur?: number;               // Épaisseur e de paroi
+
+  // Forme du catalogue (utils/metreCalculations FORMES_METRE), défaut selon l'unité
+  forme?: string;
+  deduction?: boolean;              // Ouverture / vide à déduire: partiel négatif
+  nomenclature?: boolean;           // Total reporté depuis la nomenclature des aciers de la sous-section
+
+  // Métré linéaire par PK (m): la longueur est déduite de l'intervalle
+  pkDebut?: number;
+  pkFin?: number;
   
   // Résultats
   partiel: number;
+
+  // Calculs saisis dans les cellules (ex: longueur "2*(3,50+1,20)"), la valeur reste dans le champ
+  expressions?: ExpressionsMetre;
+
   observations?: string;
   isFromPreviousPeriode?: boolean;  // 🔴 لتحديد إذا كان من فترة سابقة
 }
@@ -195,6 +321,8 @@ export interface Periode {
   tauxRetenue?: number; // Taux retenue de garantie (défaut: 10%)
   depensesExercicesAnterieurs?: number; // Dépenses imputées sur exercices antérieurs
   decomptesPrecedents?: number; // Montant des acomptes délivrés sur l'exercice en cours
+  precedentsManuels?: boolean; // Saisie manuelle déverrouillée (sinon calculés depuis les décomptes validés)
+  ajustements?: AjustementConfig[]; // Déductions / additions propres à la période
   createdAt: string;
   updatedAt: string;
   deletedAt?: string;
@@ -219,12 +347,74 @@ export interface Decompt {
   }>;
   montantTotal: number;
   totalTTC?: number;
+  recap?: DecompteRecap;
+  verification?: DecompteVerification;
   statut: 'draft' | 'submitted' | 'validated' | 'paid';
+  // Workflow: qui / quand (les changements de statut passent par le serveur)
+  submittedAt?: string;
+  submittedBy?: string;
+  validatedAt?: string;
+  validatedBy?: string;
+  paidAt?: string;
+  paidBy?: string;
   createdAt: string;
   updatedAt: string;
   deletedAt?: string;
 }
 
+// Entrée de l'historique du workflow d'un décompte
+export interface DecompteAuditEntry {
+  id: string;
+  decomptId: string;
+  userId: string;
+  action: 'submit' | 'validate' | 'pay' | 'reopen';
+  ancienStatut: Decompt['statut'];
+  nouveauStatut: Decompt['statut'];
+  motif?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  createdAt: string;
+}
+
+// Snapshot du récapitulatif enregistré avec le décompte (PDF serveur)
+export interface DecompteRecap {
+  tauxTVA: number;
+  totalHT: number;
+  montantTVA: number;
+  totalTTC: number;
+  groupesTVA?: { taux: number; totalHT: number; montantTVA: number; totalTTC: number }[]; // Marchés à taux mixtes
+  travauxTermines: number;
+  travauxNonTermines: number;
+  approvisionnements: number;
+  revisionPrix?: number;
+  totalAvantRetenue: number;
+  retenueGarantie: number;
+  resteAPayer: number;
+  depensesExercicesAnterieurs: number;
+  penalitesRetard?: number;
+  penalitesJustification?: string;
+  remboursementAvance?: number;
+  ajustements?: { id: string; libelle: string; sens: 'deduction' | 'addition'; base: 'HT' | 'TTC'; taux: number | null; montant: number; periodeNumero: number | null }[];
+  retenueRemplaceeParCaution?: number;
+  restitutionRetenue?: number;
+  decomptesPrecedents?: number;
+  precedentsManuels?: boolean;
+  totalADeduire: number;
+  montantAcompte: number;
+}
+
+// Rapport du recalcul serveur (montants client vs montants serveur)
+export interface DecompteVerification {
+  status: 'conforme' | 'ecart' | 'non_calculable';
+  checkedAt: string;
+  client: { montantTotal: number; totalTTC: number };
+  serveur: { totalHT: number; montantTVA: number; totalTTC: number; montantAcompte: number } | null;
+  ecarts: { champ: string; client: number; serveur: number; difference: number }[];
+  lignesEcart: { prixNo: number; client: number; serveur: number }[];
+  erreurs: string[];
+}
+
 export interface Photo {
   id: string;
   projectId: string;
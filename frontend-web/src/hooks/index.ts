@@ -44,3 +44,9 @@ export {
   normalizeId,
   cleanId,
 } from './useDataHooks';
+
+// Avenants (server-first)
+export { useAvenants } from './useAvenants';
+
+// Approvisionnements (server-first)
+export { useApprovisionnements } from './useApprovisionnements';
@@ -0,0 +1,30 @@
+/**
+ * useApprovisionnements Hook
+ *
+ * Loads the approvisionnements register of a project from the server (server-first, no IndexedDB)
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { approvisionnementService, Approvisionnement } from '../services/approvisionnementService';
+
+export function useApprovisionnements(projectId: string | undefined | null) {
+  const [approvisionnements, setApprovisionnements] = useState<Approvisionnement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Clean ID
+  const cleanId = projectId?.includes(':') ? projectId.split(':').pop()! : projectId;
+
+  const refresh = useCallback(async () => {
+    if (!cleanId) return;
+    setIsLoading(true);
+    const data = await approvisionnementService.listApprovisionnements(cleanId);
+    setApprovisionnements(data);
+    setIsLoading(false);
+  }, [cleanId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { approvisionnements, isLoading, refresh };
+}
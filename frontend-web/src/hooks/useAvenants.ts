@@ -0,0 +1,30 @@
+/**
+ * useAvenants Hook
+ *
+ * Loads the avenants of a project from the server (server-first, no IndexedDB)
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { avenantService, Avenant } from '../services/avenantService';
+
+export function useAvenants(projectId: string | undefined | null) {
+  const [avenants, setAvenants] = useState<Avenant[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Clean ID
+  const cleanId = projectId?.includes(':') ? projectId.split(':').pop()! : projectId;
+
+  const refresh = useCallback(async () => {
+    if (!cleanId) return;
+    setIsLoading(true);
+    const data = await avenantService.listAvenants(cleanId);
+    setAvenants(data);
+    setIsLoading(false);
+  }, [cleanId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { avenants, isLoading, refresh };
+}
@@ -10,6 +10,8 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { apiService } from '../services/apiService';
+import type { InteretsMoratoiresConfig, JustificationsDepassement } from '../db/database';
+import type { LangueMontantLettres } from 'shared';
 
 // ==================== TYPES ====================
 
@@ -44,6 +46,9 @@ export interface Project {
   dateReceptionProvisoire?: string;
   dateReceptionDefinitive?: string;
   achevementTravaux?: string;
+  interetsMoratoires?: InteretsMoratoiresConfig;
+  justificationsDepassement?: JustificationsDepassement;
+  langueMontantLettres?: LangueMontantLettres;
   status: 'draft' | 'active' | 'completed' | 'archived';
   progress: number;
   folderPath: string;
@@ -60,6 +65,7 @@ export interface BordereauLigne {
   quantite: number;
   prixUnitaire: number;
   montant: number;
+  tauxTVA?: number | null;
 }
 
 export interface Bordereau {
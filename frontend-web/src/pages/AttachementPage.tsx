@@ -1,6 +1,10 @@
 import { FC, useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useProject, useBordereaux, usePeriodes, useMetres } from '../hooks/useUnifiedData';
+import { useApprovisionnements } from '../hooks/useApprovisionnements';
+import { calculateApprovisionnementsPeriode } from '../utils/approvisionnements';
+import { detailExpressions, formuleLigne, isFormeParticuliere } from '../utils/metreCalculations';
+import type { MetreLigne } from '../db/database';
 import { ArrowLeft, Download, FileText } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -23,6 +27,7 @@ const AttachementPage: FC = () => {
   const { periodes } = usePeriodes(rawProjectIdClean || null);
   // 🔴 FIX: جلب كل الميتريات للمشروع (بدون فلترة بالفترة) ثم نفلتر يدوياً
   const { metres: allProjectMetres } = useMetres(rawProjectIdClean || null);
+  const { approvisionnements: registreApprovisionnements } = useApprovisionnements(rawProjectIdClean || null);
 
   // Find the current période from the list
   const periode = useMemo(() => {
@@ -94,6 +99,41 @@ const AttachementPage: FC = () => {
 
   const attachementData = getAttachementData();
 
+  // Mesures saisies sous forme de calcul (2*(3,50+1,20)) ou selon une forme du catalogue (canal trapézoïdal,
+  // cylindre, déduction...): le contrôleur voit comment la quantité a été obtenue
+  const detailCalculs = useMemo(() => {
+    if (!bordereau?.lignes || !metres) return [];
+    const cleanBordereauId = normalizeBordereauLigneId(bordereau.id);
+
+    return bordereau.lignes.flatMap((ligne, index) => {
+      const ligneId = `${cleanBordereauId}-ligne-${ligne.numero}`;
+      return metres
+        .filter((m: any) => normalizeBordereauLigneId(m.bordereauLigneId) === ligneId)
+        .flatMap((m: any) => (m.lignes || []) as MetreLigne[])
+        .map(l => ({
+          numero: index + 1,
+          designation: l.designation,
+          calcul: [
+            isFormeParticuliere(ligne.unite, l) ? formuleLigne(ligne.unite, l) : '',
+            detailExpressions(l),
+          ].filter(Boolean).join(' ; '),
+          partiel: Number(l.partiel) || 0,
+        }))
+        .filter(l => l.calcul);
+    });
+  }, [bordereau, metres]);
+
+  // Approvisionnements sur chantier à la fin de la période (non encore incorporés)
+  const approvisionnementsData = useMemo(() => {
+    if (!periode || !periodes) return [];
+    return calculateApprovisionnementsPeriode(
+      registreApprovisionnements,
+      periodes.map((p: any) => ({ id: p.id, numero: p.numero || 0 })),
+      periode.numero,
+      periode.tauxTVA ?? 20
+    ).actifs;
+  }, [registreApprovisionnements, periode, periodes]);
+
   const exportToPDF = async () => {
     if (!project || !bordereau) return;
     
@@ -229,6 +269,87 @@ const AttachementPage: FC = () => {
         },
       });
       
+      // ============ APPROVISIONNEMENTS ============
+      if (approvisionnementsData.length > 0) {
+        const approY = (doc as any).lastAutoTable.finalY + 10;
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.text('APPROVISIONNEMENTS SUR CHANTIER', pageWidth / 2, approY, { align: 'center' });
+
+        autoTable(doc, {
+          startY: approY + 4,
+          head: [['N°', 'Matériaux', 'U', 'Quantité']],
+          body: approvisionnementsData.map((appro, index) => [
+            (index + 1).toString(),
+            appro.designation,
+            appro.unite || '',
+            Number(appro.quantite).toFixed(2),
+          ]),
+          theme: 'grid',
+          styles: {
+            fontSize: 9,
+            cellPadding: 3,
+            lineColor: [0, 0, 0],
+            lineWidth: 0.3,
+          },
+          headStyles: {
+            fillColor: [255, 255, 255],
+            textColor: [0, 0, 0],
+            fontStyle: 'bold',
+            halign: 'center',
+            lineColor: [0, 0, 0],
+            lineWidth: 0.3,
+          },
+          columnStyles: {
+            0: { cellWidth: 15, halign: 'center' },
+            1: { cellWidth: 'auto' },
+            2: { cellWidth: 20, halign: 'center' },
+            3: { cellWidth: 30, halign: 'right' },
+          },
+        });
+      }
+
+      // ============ DÉTAIL DES CALCULS ============
+      if (detailCalculs.length > 0) {
+        const detailY = (doc as any).lastAutoTable.finalY + 10;
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'bold');
+        doc.text('DETAIL DES CALCULS DU METRE', pageWidth / 2, detailY, { align: 'center' });
+
+        autoTable(doc, {
+          startY: detailY + 4,
+          head: [['N°', 'Mesure', 'Calcul', 'Partiel']],
+          body: detailCalculs.map(d => [
+            d.numero.toString(),
+            d.designation,
+            // ⚠️ Polices standard jsPDF (WinAnsi): π et − ne sont pas imprimables
+            d.calcul.replace(/π/g, 'pi').replace(/−/g, '-'),
+            d.partiel.toFixed(2),
+          ]),
+          theme: 'grid',
+          styles: {
+            fontSize: 8,
+            cellPadding: 2,
+            lineColor: [0, 0, 0],
+            lineWidth: 0.3,
+          },
+          headStyles: {
+            fillColor: [255, 255, 255],
+            textColor: [0, 0, 0],
+            fontStyle: 'bold',
+            halign: 'center',
+            lineColor: [0, 0, 0],
+            lineWidth: 0.3,
+          },
+          columnStyles: {
+            0: { cellWidth: 15, halign: 'center' },
+            1: { cellWidth: 50 },
+            2: { cellWidth: 'auto' },
+            3: { cellWidth: 25, halign: 'right' },
+          },
+        });
+      }
+
       // ============ SIGNATURES ============
       const finalY = (doc as any).lastAutoTable.finalY + 15;
       
@@ -399,6 +520,62 @@ const AttachementPage: FC = () => {
           </div>
         )}
 
+        {/* Approvisionnements sur chantier */}
+        {approvisionnementsData.length > 0 && (
+          <div className="mt-6 overflow-x-auto">
+            <h4 className="font-bold text-center mb-2">APPROVISIONNEMENTS SUR CHANTIER</h4>
+            <table className="w-full border-collapse border border-gray-400">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-400 px-4 py-3 text-center font-semibold w-16">N°</th>
+                  <th className="border border-gray-400 px-4 py-3 text-left font-semibold">Matériaux</th>
+                  <th className="border border-gray-400 px-4 py-3 text-center font-semibold w-20">U</th>
+                  <th className="border border-gray-400 px-4 py-3 text-right font-semibold w-32">Quantité</th>
+                </tr>
+              </thead>
+              <tbody>
+                {approvisionnementsData.map((appro, index) => (
+                  <tr key={appro.id} className="hover:bg-gray-50">
+                    <td className="border border-gray-400 px-4 py-2 text-center">{index + 1}</td>
+                    <td className="border border-gray-400 px-4 py-2">{appro.designation}</td>
+                    <td className="border border-gray-400 px-4 py-2 text-center">{appro.unite}</td>
+                    <td className="border border-gray-400 px-4 py-2 text-right font-medium">
+                      {Number(appro.quantite).toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Détail des calculs du métré */}
+        {detailCalculs.length > 0 && (
+          <div className="mt-6 overflow-x-auto">
+            <h4 className="font-bold text-center mb-2">DÉTAIL DES CALCULS DU MÉTRÉ</h4>
+            <table className="w-full border-collapse border border-gray-400 text-sm">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border border-gray-400 px-4 py-2 text-center font-semibold w-16">N°</th>
+                  <th className="border border-gray-400 px-4 py-2 text-left font-semibold">Mesure</th>
+                  <th className="border border-gray-400 px-4 py-2 text-left font-semibold">Calcul</th>
+                  <th className="border border-gray-400 px-4 py-2 text-right font-semibold w-28">Partiel</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detailCalculs.map((d, index) => (
+                  <tr key={index} className="hover:bg-gray-50">
+                    <td className="border border-gray-400 px-4 py-2 text-center">{d.numero}</td>
+                    <td className="border border-gray-400 px-4 py-2">{d.designation}</td>
+                    <td className="border border-gray-400 px-4 py-2 font-mono text-xs">{d.calcul}</td>
+                    <td className="border border-gray-400 px-4 py-2 text-right">{d.partiel.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* Zone de signatures */}
         {attachementData.length > 0 && (
           <div className="mt-8 pt-6 border-t">
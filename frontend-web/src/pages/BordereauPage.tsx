@@ -19,6 +19,7 @@ import {
   ImportExcelModal,
   TemplateLibraryModal,
   CopyFromProjectModal,
+  AvenantsPanel,
 } from '../components/bordereau';
 import { isWeb } from '../utils/platform';
 import { apiService } from '../services/apiService';
@@ -200,15 +201,25 @@ const BordereauPage: FC = () => {
 
       {/* Si bordereau existe, l'afficher directement */}
       {bordereau ? (
-        <BordereauTable 
-          bordereauId={bordereau.id} 
-          onClose={() => navigate(`/projects/${projectId}`)} 
-          onSaved={() => {
-            // Refresh data after bordereau saved
-            fetchProject();
-            fetchBordereaux();
-          }}
-        />
+        <>
+          <BordereauTable 
+            bordereauId={bordereau.id} 
+            onClose={() => navigate(`/projects/${projectId}`)} 
+            onSaved={() => {
+              // Refresh data after bordereau saved
+              fetchProject();
+              fetchBordereaux();
+            }}
+          />
+          {/* Avenants: versions du bordereau */}
+          {rawId && (
+            <AvenantsPanel
+              projectId={rawId}
+              bordereau={bordereau}
+              onChanged={fetchProject}
+            />
+          )}
+        </>
       ) : (
         /* Sinon, afficher les options de création */
         <div className="card">
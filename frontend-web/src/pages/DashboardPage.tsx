@@ -5,6 +5,11 @@ import { useAuthStore } from '../store/authStore';
 import { useProjects } from '../hooks/useUnifiedData';
 import { apiService } from '../services/apiService';
 import { isWeb } from '../utils/platform';
+import { paiementService, CreancesPortefeuille } from '../services/paiementService';
+import { CreancesCard } from '../components/project';
+import { formatMontant, calculateMontantMarcheTTC, toNumber } from 'shared';
+import { calculateCourbeS, calculatePrevisionMensuelle, aggregatePrevisions } from '../utils/previsionTresorerie';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import {
   FolderKanban,
   CheckCircle2,
@@ -27,6 +32,7 @@ import {
   Loader2,
   WifiOff,
   RefreshCw,
+  CalendarRange,
 } from 'lucide-react';
 import { differenceInDays, addMonths } from 'date-fns';
 
@@ -76,17 +82,20 @@ const DashboardPage: FC = () => {
   // �🌐 Web: تحميل bordereaux و decompts من API لكل المشاريع
   const [bordereaux, setBordereaux] = useState<any[]>([]);
   const [decompts, setDecompts] = useState<any[]>([]);
+  const [periodes, setPeriodes] = useState<any[]>([]);
   
   useEffect(() => {
     const loadAllData = async () => {
       if (!projects?.length) {
         setBordereaux([]);
         setDecompts([]);
+        setPeriodes([]);
         return;
       }
       
       const allBordereaux: any[] = [];
       const allDecompts: any[] = [];
+      const allPeriodes: any[] = [];
       
       try {
         // تحميل بالتوازي لكل المشاريع
@@ -108,10 +117,19 @@ const DashboardPage: FC = () => {
               allDecompts.push(...dData.map(d => ({ ...d, projectId: project.id })));
             }
           } catch (e) { /* No decompts */ }
+
+          try {
+            const pRes = await apiService.getPeriodes(cleanId);
+            const pData = pRes.data || pRes;
+            if (Array.isArray(pData)) {
+              allPeriodes.push(...pData);
+            }
+          } catch (e) { /* No periodes */ }
         }));
         
         setBordereaux(allBordereaux.filter(b => !b.deletedAt));
         setDecompts(allDecompts.filter(d => !d.deletedAt));
+        setPeriodes(allPeriodes.filter(p => !p.deletedAt));
       } catch (err) {
         console.error('Failed to load bordereaux/decompts:', err);
       }
@@ -120,6 +138,16 @@ const DashboardPage: FC = () => {
     loadAllData();
   }, [projects]);
 
+  // 💵 Créances du portefeuille (reste à encaisser + ancienneté)
+  const [creances, setCreances] = useState<CreancesPortefeuille | null>(null);
+  useEffect(() => {
+    if (!projects?.length || !isWeb()) {
+      setCreances(null);
+      return;
+    }
+    paiementService.getCreances().then(setCreances);
+  }, [projects]);
+
   // Calculer les statistiques
   const stats = useMemo<DashboardStats>(() => {
     if (!projects) {
@@ -211,6 +239,28 @@ const DashboardPage: FC = () => {
     };
   }, [projects, decompts, bordereaux]);
 
+  // 📈 Prévision d'encaissement: décomptes attendus par mois, cumulés sur tous les projets actifs
+  const previsionEncaissements = useMemo(() => {
+    if (!projects) return [];
+    const previsions = projects
+      .filter((p) => p.status === 'active')
+      .map((project) => {
+        const cleanProjectId = project.id?.replace('project:', '') || project.id;
+        const memeProjet = (x: any) => ((x.projectId || x.project_id)?.replace('project:', '') || x.projectId) === cleanProjectId;
+        const bordereau = bordereaux.find(memeProjet);
+        if (!bordereau?.lignes) return [];
+        const courbe = calculateCourbeS(
+          project,
+          toNumber(calculateMontantMarcheTTC(bordereau.lignes)),
+          decompts.filter(memeProjet),
+          periodes.filter(memeProjet)
+        );
+        return courbe ? calculatePrevisionMensuelle(courbe) : [];
+      });
+    return aggregatePrevisions(previsions);
+  }, [projects, bordereaux, decompts, periodes]);
+  const totalPrevisionEncaissements = previsionEncaissements.reduce((sum, p) => sum + p.montant, 0);
+
   // Générer les alertes intelligentes
   const alerts = useMemo<Alert[]>(() => {
     if (!projects) return [];
@@ -332,8 +382,24 @@ const DashboardPage: FC = () => {
       }
     });
 
+    // 5. Alerte: Décomptes validés non payés au-delà du délai de paiement
+    creances?.projets
+      .filter((creance) => creance.montantEnRetard > 0)
+      .forEach((creance) => {
+        alertsList.push({
+          id: `creance-${creance.projectId}`,
+          type: 'danger',
+          icon: DollarSign,
+          title: `Paiement en retard: ${formatMontant(creance.montantEnRetard)} DH`,
+          description: `${creance.objet} (${creance.marcheNo})`,
+          action: { label: 'Voir', path: `/projects/${creance.projectId}` },
+          projectId: creance.projectId,
+          priority: 1,
+        });
+      });
+
     return alertsList.sort((a, b) => a.priority - b.priority);
-  }, [projects, decompts, bordereaux]);
+  }, [projects, decompts, bordereaux, creances]);
 
   // Projets nécessitant une action
   const projectsNeedingAction = useMemo(() => {
@@ -811,6 +877,38 @@ const DashboardPage: FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Prévision d'encaissement */}
+      {totalPrevisionEncaissements > 0 && (
+        <div className="card">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <CalendarRange className="w-5 h-5 text-primary-600" />
+              Prévision d'encaissement (12 mois)
+            </h2>
+            <span className="text-sm text-gray-600">
+              Total: <span className="font-semibold text-gray-900">{formatMontant(totalPrevisionEncaissements)} DH</span>
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">
+            Décomptes TTC attendus: reste à facturer de chaque marché réparti selon sa courbe en S (OSC, délai, arrêts)
+          </p>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={previsionEncaissements} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={(value: number) => `${(value / 1000000).toFixed(1)}M`} tick={{ fontSize: 11 }} />
+                <Tooltip formatter={(value: number) => `${formatMontant(value)} DH`} />
+                <Bar dataKey="montant" name="Décomptes attendus" fill="#2563eb" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {/* Créances */}
+      {creances && creances.montantDu > 0 && <CreancesCard creances={creances} mode="portefeuille" />}
     </div>
   );
 };
@@ -15,95 +15,13 @@ import {
   Play,
   FileText,
 } from 'lucide-react';
-import { format, differenceInDays, addMonths, addDays, parseISO, isValid } from 'date-fns';
+import { format, differenceInDays, parseISO } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuthStore } from '../store/authStore';
 import { isWeb } from '../utils/platform';
 import { apiService } from '../services/apiService';
 import { useProjects } from '../hooks/useUnifiedData';
-
-// حساب إجمالي أيام التوقف
-const calculateTotalArretDays = (arrets: ArretTravaux[] | undefined): number => {
-  if (!arrets || arrets.length === 0) return 0;
-  
-  return arrets.reduce((total, arret) => {
-    if (arret.dateArret && arret.dateReprise) {
-      const start = parseISO(arret.dateArret);
-      const end = parseISO(arret.dateReprise);
-      if (isValid(start) && isValid(end)) {
-        return total + differenceInDays(end, start);
-      }
-    }
-    return total;
-  }, 0);
-};
-
-// حساب معلومات الآجال
-const calculateDelaiInfo = (project: Project): { status: DelaiStatus; message?: string; oscDate?: Date; delaiMois?: number; delaiJours?: number; joursArret?: number; dateFinInitiale?: Date; dateFinEffective?: Date; joursEcoules?: number; joursRestants?: number; pourcentage?: number; delaiTotal?: number } => {
-  const today = new Date();
-  
-  // تاريخ البدء (OSC)
-  const oscDate = project.osc ? parseISO(project.osc) : null;
-  if (!oscDate || !isValid(oscDate)) {
-    return { status: 'no-data', message: 'Date OSC non définie' };
-  }
-  
-  // مدة الإنجاز بالأيام
-  const delaiMois = project.delaisExecution || 0;
-  if (delaiMois === 0) {
-    return { status: 'no-data', message: 'Délai non défini' };
-  }
-  
-  const delaiJours = delaiMois * 30; // تقريبي
-  
-  // حساب أيام التوقف
-  const joursArret = calculateTotalArretDays(project.arrets);
-  
-  // تاريخ الانتهاء المتوقع (مع احتساب التوقفات)
-  const dateFinInitiale = addMonths(oscDate, delaiMois);
-  const dateFinEffective = addDays(dateFinInitiale, joursArret);
-  
-  // الأيام المنقضية
-  const joursEcoules = differenceInDays(today, oscDate);
-  
-  // الأيام المتبقية
-  const joursRestants = differenceInDays(dateFinEffective, today);
-  
-  // النسبة المئوية
-  const delaiTotal = delaiJours + joursArret;
-  const pourcentage = Math.min(100, Math.max(0, (joursEcoules / delaiTotal) * 100));
-  
-  // تحديد الحالة
-  let status: 'normal' | 'warning' | 'critical' | 'completed' | 'overdue';
-  if (project.dateReceptionDefinitive || project.dateReceptionProvisoire) {
-    status = 'completed';
-  } else if (joursRestants < 0) {
-    status = 'overdue';
-  } else if (joursRestants <= 15) {
-    status = 'critical';
-  } else if (joursRestants <= 30) {
-    status = 'warning';
-  } else {
-    status = 'normal';
-  }
-  
-  return {
-    status,
-    oscDate,
-    delaiMois,
-    delaiJours,
-    joursArret,
-    dateFinInitiale,
-    dateFinEffective,
-    joursEcoules,
-    joursRestants,
-    pourcentage,
-    delaiTotal,
-  };
-};
-
-// أنواع الحالات
-type DelaiStatus = 'normal' | 'warning' | 'critical' | 'completed' | 'overdue' | 'no-data';
+import { calculateDelaiInfo, DelaiStatus } from '../utils/delais';
 
 // ألوان الحالات
 const statusColors: Record<DelaiStatus, { bg: string; text: string; border: string; progress: string }> = {
@@ -180,6 +98,7 @@ const DelaisPage: FC = () => {
       // 🌐 Web: API directe
       try {
         await apiService.updateProject(projectId.replace('project:', ''), {
+          ...project,
           arrets: updatedArrets,
         });
         refresh();
@@ -211,6 +130,7 @@ const DelaisPage: FC = () => {
       // 🌐 Web: API directe
       try {
         await apiService.updateProject(projectId.replace('project:', ''), {
+          ...project,
           arrets: updatedArrets,
         });
         refresh();
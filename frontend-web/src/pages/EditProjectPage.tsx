@@ -10,6 +10,7 @@ import { saveCompany, extractCompanyFromProject } from '../services/companyServi
 import CompanyAutocomplete from '../components/CompanyAutocomplete';
 import { isWeb } from '../utils/platform';
 import { apiService } from '../services/apiService';
+import type { LangueMontantLettres } from 'shared';
 
 const EditProjectPage: FC = () => {
   const { t } = useTranslation();
@@ -44,6 +45,7 @@ const EditProjectPage: FC = () => {
     chapitre: '',
     delaisExecution: '',
     status: 'draft' as 'draft' | 'active' | 'completed' | 'archived',
+    langueMontantLettres: 'fr' as LangueMontantLettres,
     // Gestion des délais
     osc: '', // Ordre de Service de Commencement (date début travaux)
     dateReceptionProvisoire: '', // Date réception provisoire
@@ -80,6 +82,7 @@ const EditProjectPage: FC = () => {
         chapitre: project.chapitre || '',
         delaisExecution: project.delaisExecution?.toString() || '',
         status: project.status || 'draft',
+        langueMontantLettres: project.langueMontantLettres || 'fr',
         // Gestion des délais
         osc: formatDateForInput(project.osc),
         dateReceptionProvisoire: formatDateForInput(project.dateReceptionProvisoire),
@@ -123,6 +126,7 @@ const EditProjectPage: FC = () => {
         chapitre: formData.chapitre,
         delaisExecution: formData.delaisExecution ? parseInt(formData.delaisExecution) : undefined,
         status: formData.status,
+        langueMontantLettres: formData.langueMontantLettres,
         // Gestion des délais
         osc: formData.osc || undefined,
         dateReceptionProvisoire: formData.dateReceptionProvisoire || undefined,
@@ -362,6 +366,23 @@ const EditProjectPage: FC = () => {
                 <option value="archived">Archivé</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Montant en lettres (PDF)
+              </label>
+              <select
+                className="input"
+                value={formData.langueMontantLettres}
+                onChange={(e) =>
+                  setFormData({ ...formData, langueMontantLettres: e.target.value as LangueMontantLettres })
+                }
+              >
+                <option value="fr">Français</option>
+                <option value="ar">Arabe - بالعربية</option>
+                <option value="fr_ar">Français et arabe</option>
+              </select>
+            </div>
           </div>
         </div>
 
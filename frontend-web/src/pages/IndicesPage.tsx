@@ -0,0 +1,211 @@
+import { FC, useEffect, useMemo, useState } from 'react';
+import { TrendingUp, Plus, Trash2, Save } from 'lucide-react';
+import { indiceService, IndicePrix } from '../services/indiceService';
+
+// المؤشرات الأكثر استعمالاً في صيغ مراجعة الأثمان
+const CODES_COURANTS = ['BTP1', 'BTP2', 'BTP3', 'BTP4', 'BTP5', 'BTP6', 'BTP7', 'BTP8', 'MGT', 'TP1', 'TP2'];
+
+const moisCourant = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const IndicesPage: FC = () => {
+  const [indices, setIndices] = useState<IndicePrix[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [filterCode, setFilterCode] = useState('all');
+  const [form, setForm] = useState({ code: 'BTP1', mois: moisCourant(), valeur: '', source: '' });
+
+  const loadIndices = async () => {
+    setIsLoading(true);
+    const data = await indiceService.listIndices();
+    setIndices(data);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadIndices();
+  }, []);
+
+  const codes = useMemo(
+    () => Array.from(new Set([...CODES_COURANTS, ...indices.map(i => i.code)])).sort(),
+    [indices]
+  );
+
+  const filteredIndices = useMemo(
+    () => indices
+      .filter(i => filterCode === 'all' || i.code === filterCode)
+      .sort((a, b) => b.mois.localeCompare(a.mois) || a.code.localeCompare(b.code)),
+    [indices, filterCode]
+  );
+
+  const handleSave = async () => {
+    const valeur = parseFloat(form.valeur);
+    if (!form.code || !form.mois || isNaN(valeur) || valeur <= 0) {
+      alert('Veuillez saisir un code, un mois et une valeur positive');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await indiceService.saveIndice({
+        code: form.code.trim().toUpperCase(),
+        mois: form.mois,
+        valeur,
+        source: form.source || undefined,
+      });
+      setForm({ ...form, valeur: '' });
+      await loadIndices();
+    } catch (error) {
+      alert('Erreur lors de l\'enregistrement de l\'indice');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (indice: IndicePrix) => {
+    if (!confirm(`Supprimer l'indice ${indice.code} de ${indice.mois} ?`)) return;
+    try {
+      await indiceService.deleteIndice(indice.id);
+      await loadIndices();
+    } catch (error) {
+      alert('Erreur lors de la suppression de l\'indice');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Indices de Révision des Prix</h1>
+          <p className="text-gray-600 mt-1">
+            Saisie mensuelle des indices (BTP, MGT...) utilisés dans les formules de révision
+          </p>
+        </div>
+      </div>
+
+      {/* Saisie */}
+      <div className="card p-5">
+        <h2 className="text-lg font-bold text-gray-900 mb-4 flex items-center gap-2">
+          <Plus className="w-5 h-5 text-primary-600" />
+          Nouvel indice
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Code</label>
+            <input
+              list="codes-indices"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              className="input"
+            />
+            <datalist id="codes-indices">
+              {codes.map(code => <option key={code} value={code} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Mois</label>
+            <input
+              type="month"
+              value={form.mois}
+              onChange={(e) => setForm({ ...form, mois: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Valeur</label>
+            <input
+              type="number"
+              value={form.valeur}
+              onChange={(e) => setForm({ ...form, valeur: e.target.value })}
+              className="input"
+              min="0"
+              step="0.0001"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Source</label>
+            <input
+              value={form.source}
+              onChange={(e) => setForm({ ...form, source: e.target.value })}
+              className="input"
+              placeholder="Bulletin officiel..."
+            />
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="btn-primary flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+          </button>
+        </div>
+      </div>
+
+      {/* Filtres */}
+      <div className="flex items-center gap-4">
+        <select
+          className="input w-48"
+          value={filterCode}
+          onChange={(e) => setFilterCode(e.target.value)}
+        >
+          <option value="all">Tous les indices</option>
+          {Array.from(new Set(indices.map(i => i.code))).sort().map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+        <span className="text-gray-500">
+          {filteredIndices.length} valeur(s)
+        </span>
+      </div>
+
+      {/* Liste */}
+      <div className="card overflow-x-auto">
+        {isLoading ? (
+          <p className="p-6 text-center text-gray-500">Chargement des indices...</p>
+        ) : filteredIndices.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <TrendingUp className="w-10 h-10 mx-auto mb-2 text-gray-300" />
+            Aucun indice saisi
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Code</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Mois</th>
+                <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">Valeur</th>
+                <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Source</th>
+                <th className="px-4 py-3 w-16"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredIndices.map(indice => (
+                <tr key={indice.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 font-medium text-gray-900">{indice.code}</td>
+                  <td className="px-4 py-3 text-gray-700">{indice.mois}</td>
+                  <td className="px-4 py-3 text-right font-mono text-gray-900">{Number(indice.valeur).toFixed(4)}</td>
+                  <td className="px-4 py-3 text-gray-500 text-sm">{indice.source || '-'}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => handleDelete(indice)}
+                      className="p-1 text-red-500 hover:bg-red-50 rounded"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IndicesPage;
@@ -27,27 +27,50 @@ import {
   MapPin,
   Building2,
   Edit3,
+  Lock,
+  AlertTriangle,
+  ListChecks,
+  Mountain,
+  Route,
 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { logSyncOperation } from '../services/syncService';
-import { calculatePartiel, getCalculationType, type UniteType } from '../utils/metreCalculations';
+import {
+  calculatePartiel,
+  getCalculationType,
+  getFormesForUnite,
+  getFormeLigne,
+  getChampsForLignes,
+  libelleDimension,
+  accepteDeduction,
+  withExpression,
+  type UniteType,
+  type ChampExpression,
+  type ExpressionsMetre,
+} from '../utils/metreCalculations';
+import { ExpressionInput, NomenclatureAciersModal, CubatureModal, PkInput, DiagrammeLineairePK } from '../components/metre';
+import { calculerNomenclature, quantiteMetreNomenclature, type BarreAcier } from '../utils/nomenclatureAciers';
+import { calculerCubature, formatPK, type CubatureSection } from '../utils/cubature';
+import { analyserIntervallesPK, hasIntervallePK, longueurPK } from '../utils/metrePK';
+import { exportMetreExcel } from '../utils/metreExcelExport';
 import { pullLatestData } from '../hooks/useSyncManager';
 import { useDirtyStateStore } from '../store/dirtyStateStore';
+import { useAvenants } from '../hooks/useAvenants';
+import { getBordereauVersion } from '../utils/avenants';
+import { isPeriodeVerrouillee } from '../utils/decompteWorkflow';
 
 // ============================================================
 // 🔒 FINANCE ENGINE - للحسابات المالية (Décompte)
 // ============================================================
 import {
   calculateMontantHTInternal,
-  calculateTotalHTWithInternal,
-  calculateTVAWithInternal,
-  calculateTTCWithInternal,
-  toDecimal,
   round2,
-  trunc2,
   toNumber,
-  Decimal,
-} from '../utils/financeEngine';
+  calculateDepassements,
+  formatMontant,
+  formatQuantite,
+  SEUIL_DEPASSEMENT_MARCHE,
+} from 'shared';
 
 // 🔒 تقريب الكميات لرقمين - ROUND_HALF_UP
 // هذا الرقم المقرّب سيُستخدم في الديكونت
@@ -70,7 +93,17 @@ interface MetreLigneInput {
   profondeur?: number;
   nombre?: number;
   diametre?: number;
+  petiteLargeur?: number;
+  diametreOuvrage?: number;
+  epaisseur?: number;
+  forme?: string;                   // Forme du catalogue (canal trapézoïdal, cylindre...)
+  deduction?: boolean;              // Ouverture à déduire: partiel négatif
+  nomenclature?: boolean;           // Total de la nomenclature des aciers de la sous-section
+  pkDebut?: number;                 // Métré par PK (m): longueur = |PK fin − PK début|
+  pkFin?: number;
+  periodeNumero?: number;           // Période d'origine des lignes des périodes précédentes
   partiel: number;
+  expressions?: ExpressionsMetre;   // Calculs saisis dans les cellules (2*(3,50+1,20))
   observations?: string;
   isFromPreviousPeriode?: boolean;  // 🔴 لتحديد إذا كان من فترة سابقة
 }
@@ -126,6 +159,9 @@ const MetrePage: FC = () => {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
   const [editingSubSectionId, setEditingSubSectionId] = useState<string | null>(null);
+  const [itemsModePK, setItemsModePK] = useState<Set<string>>(new Set());
+  const [cubatureCible, setCubatureCible] = useState<{ bordereauLigneId: string; sectionId: string | null } | null>(null);
+  const [nomenclatureCible, setNomenclatureCible] = useState<{ bordereauLigneId: string; subSectionId: string } | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   
   // 🔴 حالات جديدة لتاريخ الميتري والنهائي
@@ -182,7 +218,8 @@ const MetrePage: FC = () => {
 
   // استخدام unified hooks للبيانات
   const { project, refresh: refreshProject } = useProject(projectId);
-  const { bordereau, refresh: refreshBordereau } = useBordereaux(projectId);
+  const { bordereau: bordereauInitial, refresh: refreshBordereau } = useBordereaux(projectId);
+  const { avenants } = useAvenants(projectId);
   const { periodes: allPeriodes, refresh: refreshPeriodes } = usePeriodes(projectId);
   const { metres: allProjectMetres, refresh: refreshMetres } = useMetres(projectId);
   const { decompts: allDecompts, refresh: refreshDecompts } = useDecompts(projectId);
@@ -194,6 +231,15 @@ const MetrePage: FC = () => {
     return allPeriodes.find(p => p.id === periodeId || p.id === rawPeriodeIdClean);
   }, [periodeId, allPeriodes]);
 
+  // 🔒 Période validée: métrés en lecture seule (réouverture du décompte par un admin)
+  const isVerrouille = isPeriodeVerrouillee(currentPeriode);
+
+  // 📑 البوردرو الساري للفترة (بعد الملحقات الموقعة قبل نهايتها)
+  const bordereau = useMemo(() => {
+    if (!bordereauInitial) return bordereauInitial;
+    return getBordereauVersion(bordereauInitial, avenants, { jusquALaDate: currentPeriode?.dateFin });
+  }, [bordereauInitial, avenants, currentPeriode?.dateFin]);
+
   // 🔴 الحصول على الـ Décompte الموجود لهذه الفترة
   const existingDecompte = useMemo(() => {
     if (!periodeId || !allDecompts) return undefined;
@@ -565,17 +611,120 @@ const MetrePage: FC = () => {
   const handleUpdateSubSectionNombreElements = (bordereauLigneId: string, subSectionId: string, nombreElements: number) => {
     markAsChanged();
     setMetresQuick((prev) =>
-      prev.map((m) =>
-        m.bordereauLigneId === bordereauLigneId
-          ? {
-              ...m,
-              subSections: m.subSections.map((ss) =>
-                ss.id === subSectionId ? { ...ss, nombreElements: nombreElements || 1 } : ss
+      prev.map((m) => {
+        if (m.bordereauLigneId !== bordereauLigneId) return m;
+        const subSection = m.subSections.find((ss) => ss.id === subSectionId);
+        // 🧱 La ligne de nomenclature suit le nombre d'éléments
+        const quantite = subSection?.nomenclature
+          ? quantiteMetreNomenclature(calculerNomenclature(subSection.nomenclature, nombreElements || 1).poidsTotal, m.unite)
+          : null;
+        return {
+          ...m,
+          subSections: m.subSections.map((ss) =>
+            ss.id === subSectionId ? { ...ss, nombreElements: nombreElements || 1 } : ss
+          ),
+          lignes: quantite === null
+            ? m.lignes
+            : m.lignes.map((l) =>
+                l.subSectionId === subSectionId && l.nomenclature
+                  ? { ...l, nombreElements: nombreElements || 1, partiel: quantite }
+                  : l
               ),
-            }
-          : m
-      )
+        };
+      })
+    );
+  };
+
+  // 📐 Cubature: une section par piste / canal, une ligne par tronçon entre deux profils (moyenne des aires)
+  const handleApplyCubature = (bordereauLigneId: string, sectionId: string | null, titre: string, cubature: CubatureSection) => {
+    markAsChanged();
+    setMetresQuick((prev) =>
+      prev.map((m) => {
+        if (m.bordereauLigneId !== bordereauLigneId) return m;
+
+        const section: MetreSection = m.sections.find((s) => s.id === sectionId) || {
+          id: `section-${uuidv4()}`,
+          titre: '',
+          ordre: m.sections.length + 1,
+          isCollapsed: false,
+          isFromPreviousPeriode: false,
+        };
+        const misAJour: MetreSection = { ...section, titre: titre || section.titre || 'Cubature', cubature };
+
+        // Les lignes de profils précédentes de la section sont remplacées, les autres mesures restent
+        const autres = m.lignes.filter(
+          (l) => !(l.sectionId === section.id && !l.subSectionId && l.forme === 'profils_moyens')
+        );
+        const base = autres.filter((l) => l.sectionId === section.id && !l.subSectionId).length;
+        const aire = (p: { deblai: number; remblai: number }) => (cubature.nature === 'deblai' ? p.deblai : p.remblai);
+        const lignes: MetreLigneInput[] = calculerCubature(cubature.profils).troncons
+          .filter((t) => aire(t.debut) + aire(t.fin) > 0)
+          .map((t, index) => {
+            const ligne = {
+              id: `${bordereauLigneId}-mesure-${Date.now()}-${index + 1}`,
+              sectionId: section.id,
+              numero: base + index + 1,
+              designation: `PK ${formatPK(t.debut.pk)} → PK ${formatPK(t.fin.pk)}`,
+              pkDebut: t.debut.pk,
+              pkFin: t.fin.pk,
+              forme: 'profils_moyens',
+              longueur: t.distance,
+              largeur: aire(t.debut),
+              petiteLargeur: aire(t.fin),
+              isFromPreviousPeriode: false,
+            };
+            return {
+              ...ligne,
+              partiel: calculatePartiel(m.unite as UniteType, ligne.longueur, ligne.largeur, undefined, undefined, undefined, 1, ligne),
+            };
+          });
+
+        return {
+          ...m,
+          isExpanded: true,
+          sections: m.sections.some((s) => s.id === section.id)
+            ? m.sections.map((s) => (s.id === section.id ? misAJour : s))
+            : [...m.sections, misAJour],
+          lignes: [...autres, ...lignes],
+        };
+      })
     );
+    setCubatureCible(null);
+  };
+
+  // 🧱 Nomenclature des aciers: enregistrée sur l'élément, total reporté sur une ligne KG/T dédiée
+  const handleApplyNomenclature = (bordereauLigneId: string, subSectionId: string, barres: BarreAcier[], quantite: number) => {
+    markAsChanged();
+    setMetresQuick((prev) =>
+      prev.map((m) => {
+        if (m.bordereauLigneId !== bordereauLigneId) return m;
+        const subSection = m.subSections.find((ss) => ss.id === subSectionId);
+        if (!subSection) return m;
+
+        const autres = m.lignes.filter((l) => !(l.subSectionId === subSectionId && l.nomenclature));
+        const existante = m.lignes.find((l) => l.subSectionId === subSectionId && l.nomenclature);
+        const ligne: MetreLigneInput = {
+          id: existante?.id || `${bordereauLigneId}-mesure-${Date.now()}`,
+          sectionId: subSection.sectionId,
+          subSectionId,
+          numero: existante?.numero || autres.filter((l) => l.subSectionId === subSectionId).length + 1,
+          designation: `Nomenclature des aciers ${subSection.titre} (${barres.length} barre${barres.length > 1 ? 's' : ''})`.replace(/\s+/g, ' '),
+          nombreElements: subSection.nombreElements || 1,
+          partiel: quantite,
+          nomenclature: true,
+          isFromPreviousPeriode: false,
+        };
+
+        return {
+          ...m,
+          subSections: m.subSections.map((ss) =>
+            ss.id === subSectionId ? { ...ss, nomenclature: barres.length > 0 ? barres : undefined } : ss
+          ),
+          lignes: barres.length > 0 ? [...autres, ligne] : autres,
+        };
+      })
+    );
+    setNomenclatureCible(null);
   };
 
   const handleDeleteSubSection = (bordereauLigneId: string, subSectionId: string) => {
@@ -665,7 +814,8 @@ const MetrePage: FC = () => {
     bordereauLigneId: string,
     ligneId: string,
     field: keyof MetreLigneInput,
-    value: string | number
+    value: string | number | boolean | undefined,
+    expression?: string
   ) => {
     markAsChanged();
     setMetresQuick((prev) =>
@@ -676,6 +826,16 @@ const MetrePage: FC = () => {
           if (ligne.id !== ligneId) return ligne;
 
           const updated = { ...ligne, [field]: value };
+          if (typeof value === 'number' && !['diametre', 'pkDebut', 'pkFin'].includes(field)) {
+            updated.expressions = withExpression(ligne.expressions, field as ChampExpression, expression);
+          }
+
+          // 🛣️ Métré par PK: la longueur suit l'intervalle
+          if ((field === 'pkDebut' || field === 'pkFin') && hasIntervallePK(updated)
+            && getFormeLigne(item.unite, updated.forme)?.champs.includes('longueur')) {
+            updated.longueur = longueurPK(updated.pkDebut!, updated.pkFin!);
+            updated.expressions = withExpression(updated.expressions, 'longueur', undefined);
+          }
 
           // 🆕 إذا تم تغيير partiel مباشرة، لا نعيد الحساب
           if (field === 'partiel') {
@@ -683,7 +843,7 @@ const MetrePage: FC = () => {
             return updated;
           }
 
-          if (['nombreSemblables', 'nombreElements', 'longueur', 'largeur', 'profondeur', 'nombre', 'diametre'].includes(field)) {
+          if (['nombreSemblables', 'nombreElements', 'longueur', 'largeur', 'petiteLargeur', 'profondeur', 'diametreOuvrage', 'epaisseur', 'nombre', 'diametre', 'forme', 'deduction', 'pkDebut', 'pkFin'].includes(field)) {
             const basePartiel = calculatePartiel(
               item.unite as UniteType,
               updated.longueur,
@@ -691,11 +851,14 @@ const MetrePage: FC = () => {
               updated.profondeur,
               updated.nombre,
               updated.diametre,
-              updated.nombreSemblables
+              updated.nombreSemblables,
+              updated
             );
             // Pour KG/T: multiplier par nombreElements (nombre de poteaux, poutres, etc.)
             const nombreElements = updated.nombreElements || 1;
             updated.partiel = basePartiel * nombreElements;
+            // Le partiel redevient calculé: un éventuel calcul saisi directement ne s'applique plus
+            updated.expressions = withExpression(updated.expressions, 'partiel', undefined);
           }
 
           return updated;
@@ -804,6 +967,7 @@ const MetrePage: FC = () => {
         prixUnitaireHT: number;
         montantHT: number;
         bordereauLigneId: string;
+        tauxTVA?: number | null;
       }
 
       const decompteLines: DecompteLigne[] = bordereau.lignes.map((ligne: any) => {
@@ -821,102 +985,21 @@ const MetrePage: FC = () => {
           prixUnitaireHT,
           montantHT: toNumber(round2(montantHTInternal)),
           bordereauLigneId: ligneId,
+          tauxTVA: ligne.tauxTVA ?? null,
         };
       });
 
       // ============================================================
-      // 3. حساب المجاميع المالية (Excel Compliance)
-      // ============================================================
-      const calculatedLignes = decompteLines.map(l => ({
-        ...l,
-        montantHTInternal: calculateMontantHTInternal(l.quantiteRealisee, l.prixUnitaireHT),
-      }));
-
-      const totalHTResult = calculateTotalHTWithInternal(calculatedLignes);
-      const totalHTInternal = totalHTResult.internal;
-      
-      const tauxTVA = currentPeriode.tauxTVA ?? 20;
-      const tvaResult = calculateTVAWithInternal(totalHTInternal, tauxTVA);
-      const montantTVA = tvaResult.display;
-      
-      // 🔒 EXCEL: TTC = HT_Internal + TVA_Display
-      const ttcResult = calculateTTCWithInternal(totalHTInternal, toDecimal(montantTVA));
-      const totalTTC = ttcResult.display;
-      const ttcInternal = ttcResult.internal;
-
-      // ============================================================
-      // 4. حساب Montant de l'acompte (مع Excel floating point)
-      // ============================================================
-      
-      // جلب مصاريف الفترات السابقة
-      const previousDecompts = (allDecompts || [])
-        .filter(d => !d.deletedAt && d.numero < currentPeriode.numero);
-      
-      let depensesExercicesAnterieurs = 0;
-      let decomptesPrecedents = 0;
-      const anneePeriodeActuelle = new Date(currentPeriode.dateDebut).getFullYear();
-      
-      for (const decompt of previousDecompts) {
-        const periodeDecompt = allPeriodes?.find(p => {
-          const pId = p.id?.includes(':') ? p.id : `periode:${p.id}`;
-          const dPId = decompt.periodeId?.includes(':') ? decompt.periodeId : `periode:${decompt.periodeId}`;
-          return pId === dPId;
-        });
-        if (!periodeDecompt) continue;
-        
-        const anneeDecompt = new Date(periodeDecompt.dateDebut).getFullYear();
-        const montantAPrendre = (decompt as any).montantTotal || 0;
-        
-        if (anneeDecompt < anneePeriodeActuelle) {
-          depensesExercicesAnterieurs += montantAPrendre;
-        } else if (anneeDecompt === anneePeriodeActuelle) {
-          decomptesPrecedents += montantAPrendre;
-        }
-      }
-
-      // حساب Retenue de Garantie: MIN(TRUNC(TTC×10%;2); TRUNC(Marché×7%;2))
-      let montantMarcheTTC = new Decimal(0);
-      for (const ligne of bordereau.lignes) {
-        const qte = toDecimal(ligne.quantite);
-        const pu = toDecimal(ligne.prixUnitaire);
-        const montantHT = qte.times(pu);
-        const montantTTC = montantHT.times(1.2);
-        montantMarcheTTC = montantMarcheTTC.plus(montantTTC);
-      }
-      
-      const retenue10Pourcent = trunc2(ttcInternal.times(0.10));
-      const retenue7Pourcent = trunc2(montantMarcheTTC.times(0.07));
-      const retenueGarantie = Decimal.min(retenue10Pourcent, retenue7Pourcent);
-      
-      // الحسابات النهائية
-      const restes = ttcInternal.minus(retenueGarantie);
-      const resteAPayer = restes.minus(toDecimal(depensesExercicesAnterieurs));
-      
-      // 🔒 EXCEL: floating point conversion للمونتان
-      const montantAcompteExact = resteAPayer.minus(toDecimal(decomptesPrecedents));
-      const montantAcompteFloat = montantAcompteExact.toNumber();
-      const montantAcompte = Number(montantAcompteFloat.toFixed(2));
-
-      console.log('💰 [DECOMPTE] Financial calculations:', {
-        totalTTC,
-        retenueGarantie: toNumber(retenueGarantie),
-        depensesExercicesAnterieurs,
-        decomptesPrecedents,
-        montantAcompte
-      });
-
-      // ============================================================
-      // 5. حفظ الديكونت
+      // 3. حفظ الديكونت (الكميات فقط)
       // ============================================================
+      // ⚠️ Montant de l'acompte et TTC: recalculés par le serveur (révision, pénalités, avance,
+      // approvisionnements, ajustements, précédents) et par la page décompte, jamais ici
       const decompteData = {
         projectId: rawProjectId,
         periodeId: rawPeriodeId,
         userId: user.id.replace('user:', ''),
         numero: currentPeriode.numero,
         lignes: decompteLines,
-        montantTotal: montantAcompte,
-        totalTTC: totalTTC,
-        statut: 'draft' as const,
       };
 
       if (isWeb()) {
@@ -933,16 +1016,13 @@ const MetrePage: FC = () => {
         if (existingDecompte) {
           await db.decompts.update(existingDecompte.id, {
             lignes: decompteLines,
-            montantTotal: montantAcompte,
-            totalTTC: totalTTC,
-            statut: 'draft',
             updatedAt: now,
           });
           await logSyncOperation(
             'UPDATE',
             'decompt',
             existingDecompte.id.replace('decompt:', ''),
-            { montantTotal: montantAcompte, totalTTC, lignesCount: decompteLines.length },
+            { lignes: decompteLines },
             user.id
           );
           console.log('✅ [ELECTRON] Décompte updated');
@@ -955,8 +1035,9 @@ const MetrePage: FC = () => {
             userId: user.id,
             numero: currentPeriode.numero,
             lignes: decompteLines,
-            montantTotal: montantAcompte,
-            totalTTC: totalTTC,
+            // Montants calculés à l'ouverture du décompte, puis par le serveur à la synchronisation
+            montantTotal: 0,
+            totalTTC: 0,
             statut: 'draft' as const,
             createdAt: now,
             updatedAt: now,
@@ -981,6 +1062,10 @@ const MetrePage: FC = () => {
       alert('⚠️ Erreur: Période non définie. Veuillez revenir à la liste des métrés.');
       return;
     }
+    if (isVerrouille) {
+      alert('Cette période est validée: ses métrés ne peuvent plus être modifiés');
+      return;
+    }
 
     setIsSaving(true);
 
@@ -1301,6 +1386,22 @@ const MetrePage: FC = () => {
     return total > 0 ? (getMontantRealise() / total) * 100 : 0;
   };
 
+  // ⚠️ Dépassements: cumul > bordereau en vigueur, montant réalisé > marché +10%
+  const depassements = useMemo(
+    () => calculateDepassements(
+      metresQuick.map(item => ({
+        prixNo: item.numeroLigne,
+        designation: item.designation,
+        unite: item.unite,
+        quantiteBordereau: item.quantiteBordereau,
+        quantiteRealisee: roundQuantity(item.lignes.reduce((sum, ligne) => sum + ligne.partiel, 0)),
+        prixUnitaireHT: item.prixUnitaire,
+      })),
+      project?.justificationsDepassement
+    ),
+    [metresQuick, project?.justificationsDepassement]
+  );
+
   // Calculate section total
   const getSectionTotal = (item: MetreQuickV3, sectionId: string) => {
     return item.lignes
@@ -1313,9 +1414,13 @@ const MetrePage: FC = () => {
     const subSection = item.subSections.find((ss) => ss.id === subSectionId);
     const nombreElements = subSection?.nombreElements || 1;
     const lignesTotal = item.lignes
-      .filter((l) => l.subSectionId === subSectionId)
+      .filter((l) => l.subSectionId === subSectionId && !l.nomenclature)
+      .reduce((sum, l) => sum + l.partiel, 0);
+    // La ligne de nomenclature compte déjà tous les éléments
+    const nomenclatureTotal = item.lignes
+      .filter((l) => l.subSectionId === subSectionId && l.nomenclature)
       .reduce((sum, l) => sum + l.partiel, 0);
-    return lignesTotal * nombreElements;
+    return lignesTotal * nombreElements + nomenclatureTotal;
   };
 
   const displayItems = showOnlyWithData
@@ -1368,6 +1473,38 @@ const MetrePage: FC = () => {
     );
   }
 
+  // ============== MÉTRÉ PAR PK ==============
+
+  // 🛣️ Colonnes PK: à la demande ou dès qu'une ligne porte un PK (prix mesurés en longueur)
+  const isModePK = (item: MetreQuickV3) =>
+    ['volume', 'surface', 'lineaire'].includes(getCalculationType(item.unite)?.type || '') &&
+    (itemsModePK.has(item.bordereauLigneId) || item.lignes.some((l) => l.pkDebut !== undefined || l.pkFin !== undefined));
+
+  const handleToggleModePK = (bordereauLigneId: string) =>
+    setItemsModePK((prev) => {
+      const suivant = new Set(prev);
+      if (suivant.has(bordereauLigneId)) suivant.delete(bordereauLigneId);
+      else suivant.add(bordereauLigneId);
+      return suivant;
+    });
+
+  // Un tracé par titre de section (même piste / canal d'une période à l'autre), toutes périodes confondues
+  const getTracesPK = (item: MetreQuickV3) => {
+    const groupes = new Map<string, { titre: string; lignes: MetreLigneInput[] }>();
+    for (const ligne of item.lignes) {
+      const titre = item.sections.find((s) => s.id === ligne.sectionId)?.titre.trim() || 'Tracé principal';
+      const cle = titre.toLowerCase();
+      if (!groupes.has(cle)) groupes.set(cle, { titre, lignes: [] });
+      groupes.get(cle)!.lignes.push(ligne);
+    }
+    return [...groupes.values()].flatMap(({ titre, lignes }) => {
+      const analyse = analyserIntervallesPK(
+        lignes.map((l) => ({ ...l, periodeNumero: l.isFromPreviousPeriode ? l.periodeNumero : undefined }))
+      );
+      return analyse ? [{ titre, analyse }] : [];
+    });
+  };
+
   // ============== RENDER TABLE FOR A CONTEXT ==============
 
   const renderMeasurementTable = (
@@ -1376,9 +1513,6 @@ const MetrePage: FC = () => {
     subSectionId?: string,
     colorClass?: string
   ) => {
-    const calculationType = getCalculationType(item.unite as UniteType);
-    const champs = calculationType?.champs || [];
-
     // Filter lignes based on context
     let contextLignes = item.lignes;
     if (subSectionId) {
@@ -1398,6 +1532,14 @@ const MetrePage: FC = () => {
       );
     }
 
+    // 🧱 Formes du catalogue: colonnes = champs des formes utilisées par les lignes affichées
+    const formes = getFormesForUnite(item.unite);
+    const champs = getChampsForLignes(item.unite, contextLignes);
+    const formesUtilisees = [...new Set(contextLignes.map((l) => getFormeLigne(item.unite, l.forme)?.id))];
+    const formeUnique = formesUtilisees.length === 1 ? getFormeLigne(item.unite, formesUtilisees[0]) : undefined;
+    const avecDeduction = accepteDeduction(item.unite);
+    const modePK = isModePK(item);
+
     return (
       <div className="overflow-x-auto">
         <table className={`w-full border ${colorClass || 'border-gray-300'}`}>
@@ -1405,34 +1547,36 @@ const MetrePage: FC = () => {
             <tr>
               <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 border-r border-gray-300 w-12">N°</th>
               <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 border-r border-gray-300">Désignation</th>
-              {['M³', 'M²', 'ML', 'M'].includes(item.unite) && (
-                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-16" title="Nombre des parties semblables">Nbre</th>
+              {formes.length > 1 && (
+                <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700 border-r border-gray-300 w-40">Forme</th>
               )}
-              {champs.includes('longueur') && (
-                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-24">Longueur (m)</th>
-              )}
-              {champs.includes('largeur') && (
-                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-24">Largeur (m)</th>
-              )}
-              {champs.includes('profondeur') && (
-                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-24">Profondeur (m)</th>
-              )}
-              {champs.includes('nombre') && (
-                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-20">Nombre</th>
+              {modePK && (
+                <>
+                  <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-28">PK début</th>
+                  <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-28">PK fin</th>
+                </>
               )}
-              {champs.includes('diametre') && (
-                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-24">Diamètre (mm)</th>
+              {['M³', 'M²', 'ML', 'M'].includes(item.unite) && (
+                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-16" title="Nombre des parties semblables">Nbre</th>
               )}
+              {champs.map((champ) => (
+                <th key={champ} className={`px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 ${champ === 'nombre' ? 'w-20' : 'w-24'}`}>
+                  {libelleDimension(formeUnique, champ)}
+                </th>
+              ))}
               {['KG', 'T'].includes(item.unite) && (
                 <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-20 bg-yellow-50" title="Nombre d'éléments (poteaux, poutres...)">N.Élém</th>
               )}
+              {avecDeduction && (
+                <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 border-r border-gray-300 w-12" title="Ouverture / vide à déduire">Déd.</th>
+              )}
               <th className="px-3 py-2 text-right text-xs font-semibold text-gray-700 border-r border-gray-300 w-28 bg-blue-50">Partiel</th>
               <th className="px-3 py-2 text-center text-xs font-semibold text-gray-700 w-16">Actions</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-200">
             {contextLignes.map((ligne, idx) => (
-              <tr key={ligne.id} className="hover:bg-gray-50">
+              <tr key={ligne.id} className={`hover:bg-gray-50 ${ligne.deduction ? 'bg-red-50' : ''}`}>
                 <td className="px-3 py-2 text-gray-700 font-medium border-r border-gray-200">{idx + 1}</td>
                 <td className="px-3 py-2 border-r border-gray-200">
                   <input
@@ -1443,103 +1587,113 @@ const MetrePage: FC = () => {
                     placeholder="Mesure / Description..."
                   />
                 </td>
-                {['M³', 'M²', 'ML', 'M'].includes(item.unite) && (
+                {formes.length > 1 && (
                   <td className="px-3 py-2 border-r border-gray-200">
-                    <input
-                      type="number"
-                      value={ligne.nombreSemblables || ''}
-                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'nombreSemblables', parseInt(e.target.value) || 1)}
-                      className="input text-sm text-center w-full"
-                      step="1"
-                      min="1"
-                      placeholder="1"
-                    />
+                    <select
+                      value={getFormeLigne(item.unite, ligne.forme)?.id}
+                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'forme', e.target.value)}
+                      className="input text-xs w-full"
+                      title={getFormeLigne(item.unite, ligne.forme)?.formule}
+                    >
+                      {formes.map((f) => (
+                        <option key={f.id} value={f.id}>{f.label}</option>
+                      ))}
+                    </select>
                   </td>
                 )}
-                {champs.includes('longueur') && (
-                  <td className="px-3 py-2 border-r border-gray-200">
-                    <input
-                      type="number"
-                      value={ligne.longueur || ''}
-                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'longueur', parseFloat(e.target.value) || 0)}
-                      className="input text-sm text-center w-full"
-                      step="0.01"
-                      placeholder="0.00"
-                    />
-                  </td>
+                {modePK && (
+                  <>
+                    <td className="px-3 py-2 border-r border-gray-200">
+                      <PkInput
+                        value={ligne.pkDebut}
+                        onChange={(pk) => handleLigneChange(item.bordereauLigneId, ligne.id, 'pkDebut', pk)}
+                        className="input text-sm text-center w-full"
+                      />
+                    </td>
+                    <td className="px-3 py-2 border-r border-gray-200">
+                      <PkInput
+                        value={ligne.pkFin}
+                        onChange={(pk) => handleLigneChange(item.bordereauLigneId, ligne.id, 'pkFin', pk)}
+                        className="input text-sm text-center w-full"
+                      />
+                    </td>
+                  </>
                 )}
-                {champs.includes('largeur') && (
-                  <td className="px-3 py-2 border-r border-gray-200">
-                    <input
-                      type="number"
-                      value={ligne.largeur || ''}
-                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'largeur', parseFloat(e.target.value) || 0)}
-                      className="input text-sm text-center w-full"
-                      step="0.01"
-                      placeholder="0.00"
-                    />
-                  </td>
-                )}
-                {champs.includes('profondeur') && (
-                  <td className="px-3 py-2 border-r border-gray-200">
-                    <input
-                      type="number"
-                      value={ligne.profondeur || ''}
-                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'profondeur', parseFloat(e.target.value) || 0)}
-                      className="input text-sm text-center w-full"
-                      step="0.01"
-                      placeholder="0.00"
-                    />
-                  </td>
-                )}
-                {champs.includes('nombre') && (
-                  <td className="px-3 py-2 border-r border-gray-200">
-                    <input
-                      type="number"
-                      value={ligne.nombre || ''}
-                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'nombre', parseInt(e.target.value) || 0)}
-                      className="input text-sm text-center w-full"
-                      step="1"
-                      placeholder="0"
-                    />
-                  </td>
-                )}
-                {champs.includes('diametre') && (
+                {['M³', 'M²', 'ML', 'M'].includes(item.unite) && (
                   <td className="px-3 py-2 border-r border-gray-200">
-                    <input
-                      type="number"
-                      value={ligne.diametre || ''}
-                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'diametre', parseFloat(e.target.value) || 0)}
+                    <ExpressionInput
+                      value={ligne.nombreSemblables}
+                      expression={ligne.expressions?.nombreSemblables}
+                      onChange={(value, expression) => handleLigneChange(item.bordereauLigneId, ligne.id, 'nombreSemblables', value, expression)}
+                      valeurVide={1}
                       className="input text-sm text-center w-full"
-                      step="0.1"
-                      placeholder="0"
+                      placeholder="1"
                     />
                   </td>
                 )}
+                {champs.map((champ) => {
+                  if (!getFormeLigne(item.unite, ligne.forme)?.champs.includes(champ)) {
+                    return <td key={champ} className="px-3 py-2 border-r border-gray-200 bg-gray-50 text-center text-gray-300">—</td>;
+                  }
+                  return (
+                    <td key={champ} className="px-3 py-2 border-r border-gray-200">
+                      {champ === 'diametre' ? (
+                        <input
+                          type="number"
+                          value={ligne.diametre || ''}
+                          onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'diametre', parseFloat(e.target.value) || 0)}
+                          className="input text-sm text-center w-full"
+                          step="0.1"
+                          placeholder="0"
+                          disabled={ligne.nomenclature}
+                        />
+                      ) : (
+                        <ExpressionInput
+                          value={ligne[champ]}
+                          expression={ligne.expressions?.[champ]}
+                          onChange={(value, expression) => handleLigneChange(item.bordereauLigneId, ligne.id, champ, value, expression)}
+                          className="input text-sm text-center w-full"
+                          placeholder={champ === 'nombre' ? '0' : '0.00'}
+                          disabled={ligne.nomenclature}
+                        />
+                      )}
+                    </td>
+                  );
+                })}
                 {['KG', 'T'].includes(item.unite) && (
                   <td className="px-3 py-2 border-r border-gray-200 bg-yellow-50">
-                    <input
-                      type="number"
-                      value={ligne.nombreElements || ''}
-                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'nombreElements', parseInt(e.target.value) || 1)}
+                    <ExpressionInput
+                      value={ligne.nombreElements}
+                      expression={ligne.expressions?.nombreElements}
+                      onChange={(value, expression) => handleLigneChange(item.bordereauLigneId, ligne.id, 'nombreElements', value, expression)}
+                      valeurVide={1}
                       className="input text-sm text-center w-full bg-yellow-50"
-                      step="1"
-                      min="1"
                       placeholder="1"
                       title="Nombre d'éléments (poteaux, poutres...)"
+                      disabled={ligne.nomenclature}
+                    />
+                  </td>
+                )}
+                {avecDeduction && (
+                  <td className="px-3 py-2 border-r border-gray-200 text-center">
+                    <input
+                      type="checkbox"
+                      checked={!!ligne.deduction}
+                      onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'deduction', e.target.checked)}
+                      title="Ouverture / vide à déduire"
                     />
                   </td>
                 )}
                 {/* 🆕 Partiel - قابل للتعديل المباشر */}
                 <td className="px-3 py-2 border-r border-gray-200 bg-blue-50">
-                  <input
-                    type="number"
-                    value={ligne.partiel || ''}
-                    onChange={(e) => handleLigneChange(item.bordereauLigneId, ligne.id, 'partiel', parseFloat(e.target.value) || 0)}
+                  <ExpressionInput
+                    value={ligne.partiel}
+                    expression={ligne.expressions?.partiel}
+                    onChange={(value, expression) => handleLigneChange(item.bordereauLigneId, ligne.id, 'partiel', value, expression)}
                     className="input text-sm text-right w-full font-bold text-primary-600 bg-blue-50"
-                    step="0.01"
                     placeholder="0.00"
-                    title="Saisie directe du partiel ou calculé automatiquement"
+                    title={ligne.nomenclature ? 'Total de la nomenclature des aciers' : 'Saisie directe du partiel ou calculé automatiquement'}
+                    disabled={ligne.nomenclature}
                   />
                 </td>
                 <td className="px-3 py-2 text-center">
@@ -1555,7 +1709,7 @@ const MetrePage: FC = () => {
           </tbody>
           <tfoot className="bg-gray-100">
             <tr>
-              <td colSpan={2 + champs.length + (['M³', 'M²', 'ML', 'M'].includes(item.unite) ? 1 : 0) + (['KG', 'T'].includes(item.unite) ? 1 : 0)} className="px-3 py-2 text-right font-semibold text-gray-700 border-r border-gray-300">
+              <td colSpan={2 + champs.length + (formes.length > 1 ? 1 : 0) + (modePK ? 2 : 0) + (avecDeduction ? 1 : 0) + (['M³', 'M²', 'ML', 'M'].includes(item.unite) ? 1 : 0) + (['KG', 'T'].includes(item.unite) ? 1 : 0)} className="px-3 py-2 text-right font-semibold text-gray-700 border-r border-gray-300">
                 Total:
               </td>
               <td className="px-3 py-2 text-right font-bold text-primary-700 bg-primary-50 border-r border-gray-300">
@@ -1652,13 +1806,16 @@ const MetrePage: FC = () => {
               <DollarSign className="w-4 h-4" />
               Décompte
             </button>
-            <button className="btn btn-secondary flex items-center gap-2">
+            <button
+              onClick={() => exportMetreExcel(metresQuick, project, currentPeriode?.libelle || `Métré N° ${currentPeriode?.numero || ''}`)}
+              className="btn btn-secondary flex items-center gap-2"
+            >
               <Download className="w-4 h-4" />
               Exporter
             </button>
             <button
               onClick={handleSaveAll}
-              disabled={isSaving}
+              disabled={isSaving || isVerrouille}
               className={`btn flex items-center gap-2 ${
                 hasUnsavedChanges 
                   ? 'btn-primary bg-orange-500 hover:bg-orange-600 animate-pulse' 
@@ -1681,6 +1838,38 @@ const MetrePage: FC = () => {
         </div>
       </div>
 
+      {isVerrouille && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+          <Lock className="w-5 h-5 text-gray-600 mt-0.5" />
+          <p className="text-sm text-gray-700">
+            Période validée: les métrés sont verrouillés. Seul un administrateur peut rouvrir le décompte.
+          </p>
+        </div>
+      )}
+
+      {(depassements.lignes.length > 0 || depassements.depasseSeuilMarche) && (
+        <div
+          className={`rounded-lg p-4 mb-6 flex items-start gap-3 border ${
+            depassements.bloquant ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'
+          }`}
+        >
+          <AlertTriangle className={`w-5 h-5 mt-0.5 ${depassements.bloquant ? 'text-red-600' : 'text-orange-600'}`} />
+          <div className="text-sm text-gray-800">
+            <p className="font-medium">
+              {depassements.lignes.length} prix en dépassement du bordereau
+              ({formatMontant(depassements.montantDepassementHT)} DH HT)
+              {depassements.depasseSeuilMarche &&
+                ` - montant réalisé à ${depassements.variationPourcent > 0 ? '+' : ''}${depassements.variationPourcent}% du marché (seuil ${SEUIL_DEPASSEMENT_MARCHE}%)`}
+            </p>
+            <p className="text-gray-600">
+              {depassements.bloquant
+                ? 'Le décompte ne pourra être validé qu\'après justification des dépassements (page du décompte) ou un avenant.'
+                : 'Tous les dépassements sont justifiés.'}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         <div className="card">
@@ -1803,6 +1992,7 @@ const MetrePage: FC = () => {
               : 0;
             const isComplete = pourcentage >= 100;
             const isStarted = totalPartiel > 0;
+            const depassement = depassements.lignes.find(d => d.prixNo === item.numeroLigne);
 
             return (
               <div
@@ -1851,6 +2041,13 @@ const MetrePage: FC = () => {
                     <div className="text-lg font-bold text-primary-600">
                       Réalisé: {Number(totalPartiel || 0).toFixed(2)}
                     </div>
+                    {depassement && (
+                      <div className={`text-xs font-medium ${depassement.justification ? 'text-orange-600' : 'text-red-600'}`}>
+                        Dépassement: +{formatQuantite(depassement.quantiteDepassement)} {item.unite}
+                        {' '}({formatMontant(depassement.montantDepassementHT)} DH)
+                        {depassement.justification ? ' - justifié' : ''}
+                      </div>
+                    )}
                   </div>
 
                   <div className="w-36">
@@ -1908,8 +2105,31 @@ const MetrePage: FC = () => {
                         <Plus className="w-4 h-4" />
                         + Ajouter Mesure Directe
                       </button>
+                      {['volume', 'surface', 'lineaire'].includes(getCalculationType(item.unite)?.type || '') && (
+                        <button
+                          onClick={() => handleToggleModePK(item.bordereauLigneId)}
+                          className={`btn btn-secondary flex items-center gap-2 text-sm ${isModePK(item) ? 'bg-green-50 text-green-700 border-green-200' : ''}`}
+                          title="Lignes mesurées par intervalle de PK (pistes, canaux)"
+                        >
+                          <Route className="w-4 h-4" />
+                          Métré par PK
+                        </button>
+                      )}
+                      {item.unite === 'M³' && !isVerrouille && (
+                        <button
+                          onClick={() => setCubatureCible({ bordereauLigneId: item.bordereauLigneId, sectionId: null })}
+                          className="btn btn-secondary flex items-center gap-2 text-sm bg-amber-50 text-amber-700 hover:bg-amber-100 border-amber-200"
+                          title="Déblais / remblais à partir des profils en travers"
+                        >
+                          <Mountain className="w-4 h-4" />
+                          + Cubature (profils en travers)
+                        </button>
+                      )}
                     </div>
 
+                    {/* 🛣️ Avancement le long du tracé */}
+                    {isModePK(item) && <DiagrammeLineairePK traces={getTracesPK(item)} />}
+
                     {/* Root Level Measurements (without section) */}
                     {item.lignes.filter((l) => !l.sectionId).length > 0 && (
                       <div className="mb-4">
@@ -1969,6 +2189,15 @@ const MetrePage: FC = () => {
                             </span>
 
                             <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                              {section.cubature && (
+                                <button
+                                  onClick={() => setCubatureCible({ bordereauLigneId: item.bordereauLigneId, sectionId: section.id })}
+                                  className="p-1 hover:bg-white/20 rounded"
+                                  title="Profils en travers (cubature)"
+                                >
+                                  <Mountain className="w-4 h-4" />
+                                </button>
+                              )}
                               <button
                                 onClick={() => setEditingSectionId(section.id)}
                                 className="p-1 hover:bg-white/20 rounded"
@@ -2070,6 +2299,20 @@ const MetrePage: FC = () => {
                                         {subSectionTotal.toFixed(2)}
                                       </span>
 
+                                      {['KG', 'T'].includes(item.unite) && (
+                                        <button
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            setNomenclatureCible({ bordereauLigneId: item.bordereauLigneId, subSectionId: subSection.id });
+                                          }}
+                                          className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs border ${subSection.nomenclature ? 'border-primary-300 text-primary-700 bg-primary-50' : 'border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+                                          title="Nomenclature des aciers de l'élément"
+                                        >
+                                          <ListChecks className="w-3 h-3" />
+                                          Nomenclature
+                                        </button>
+                                      )}
+
                                       <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
                                         <button
                                           onClick={() => setEditingSubSectionId(subSection.id)}
@@ -2126,6 +2369,45 @@ const MetrePage: FC = () => {
           })}
         </div>
       </div>
+
+      {/* 📐 Cubature à partir des profils en travers */}
+      {cubatureCible && (() => {
+        const item = metresQuick.find((m) => m.bordereauLigneId === cubatureCible.bordereauLigneId);
+        if (!item) return null;
+        const section = item.sections.find((s) => s.id === cubatureCible.sectionId);
+        return (
+          <CubatureModal
+            titre={section?.titre}
+            cubature={section?.cubature}
+            disabled={isVerrouille || section?.isFromPreviousPeriode}
+            onApply={(titre, cubature) => handleApplyCubature(item.bordereauLigneId, section?.id || null, titre, cubature)}
+            onClose={() => setCubatureCible(null)}
+          />
+        );
+      })()}
+
+      {/* 🧱 Nomenclature des aciers d'un élément */}
+      {nomenclatureCible && (() => {
+        const item = metresQuick.find((m) => m.bordereauLigneId === nomenclatureCible.bordereauLigneId);
+        const subSection = item?.subSections.find((ss) => ss.id === nomenclatureCible.subSectionId);
+        if (!item || !subSection) return null;
+        return (
+          <NomenclatureAciersModal
+            unite={item.unite}
+            element={subSection.titre}
+            nombreElements={subSection.nombreElements || 1}
+            barres={subSection.nomenclature}
+            impression={{
+              marcheNo: project.marcheNo,
+              objet: project.objet,
+              prix: `Prix ${item.numeroLigne} - ${item.designation} (${item.unite})`,
+            }}
+            disabled={isVerrouille || subSection.isFromPreviousPeriode}
+            onApply={(barres, quantite) => handleApplyNomenclature(item.bordereauLigneId, subSection.id, barres, quantite)}
+            onClose={() => setNomenclatureCible(null)}
+          />
+        );
+      })()}
     </div>
   );
 };
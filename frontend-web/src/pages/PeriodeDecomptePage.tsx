@@ -1,6 +1,6 @@
 import { FC, useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { db } from '../db/database';
+import { db, Project, DecompteRecap, AjustementConfig, JustificationsDepassement } from '../db/database';
 import { useAuthStore } from '../store/authStore';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
@@ -14,13 +14,41 @@ import {
   TrendingUp,
   DollarSign,
   Printer,
+  AlertTriangle,
+  Lock,
+  FileSpreadsheet,
 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { logSyncOperation } from '../services/syncService';
 import { generateDecomptePDF } from '../utils/decomptePdfExport';
+import { exportDecompteExcel } from '../utils/decompteExcelExport';
 import { useServerProjectDetails } from '../hooks/useServerData';
 import { isWeb } from '../utils/platform';
 import { apiService } from '../services/apiService';
+import { indiceService } from '../services/indiceService';
+import {
+  RevisionPrixPanel,
+  PenalitesPanel,
+  ApprovisionnementsPanel,
+  AvancePanel,
+  RetenueGarantiePanel,
+  DecompteWorkflowPanel,
+  DecomptesPrecedentsPanel,
+  ExcelParityPanel,
+  PaiementsPanel,
+  AjustementsPanel,
+  DepassementsPanel,
+  DEFAULT_PENALITES,
+  DEFAULT_RETENUE_GARANTIE,
+  type SuiviAvanceLigne,
+} from '../components/decompte';
+import { calculateJoursRetard } from '../utils/delais';
+import { useAvenants } from '../hooks/useAvenants';
+import { getBordereauVersion } from '../utils/avenants';
+import { useApprovisionnements } from '../hooks/useApprovisionnements';
+import { calculateApprovisionnementsPeriode } from '../utils/approvisionnements';
+import { isPeriodeVerrouillee, ADMIN_ROLES, STATUT_LABELS } from '../utils/decompteWorkflow';
+import { calculateDecomptesPrecedents } from '../utils/decomptesPrecedents';
 
 // ============================================================
 // 🔒 FINANCE ENGINE - المرجع الوحيد للحسابات المالية
@@ -32,17 +60,28 @@ import {
   calculateMontantHT,
   calculateMontantHTInternal,
   calculateTotalHTWithInternal,
-  calculateTVAWithInternal,
-  calculateTTCWithInternal,
+  calculateTVAParTaux,
+  calculateMontantMarcheTTC,
   formatMontant,
   toDecimal,
-  round2,
-  trunc2,
   toNumber,
   Decimal,
+  calculateRevisionPrix,
+  calculatePenalitesRetard,
+  calculateRemboursementAvance,
+  calculateRecap,
+  plafondRetenueConfig,
+  calculateAjustements,
+  libelleAjustement,
+  montantEnLettres,
+  calculateDepassements,
+  toMois,
+  type AjustementCalcule,
   type LigneDecompte as FinanceLigneDecompte,
   type CalculatedLigne,
-} from '../utils/financeEngine';
+  type IndiceValeur,
+  type RevisionResult,
+} from 'shared';
 
 // Alias للتوافق مع الكود القديم (سيتم إزالته تدريجياً)
 const majoration = (value: number | undefined | null): number => {
@@ -59,16 +98,24 @@ interface DecompteLigne {
   montantHT: number;
   bordereauLigneId: string;
   metreId?: string;
+  tauxTVA?: number | null;
 }
 
 interface RecapCalculations {
   travauxTermines: number;
   travauxNonTermines: number;
   approvisionnements: number;
+  revisionPrix: number;
   totalAvantRetenue: number;
   retenueGarantie: number;
+  retenueRemplaceeParCaution: number;
+  restitutionRetenue: number;
   resteAPayer: number;
   depensesExercicesAnterieurs: number;
+  penalitesRetard: number;
+  penalitesJustification?: string;
+  remboursementAvance: number;
+  ajustements: AjustementCalcule[];
   totalADeduire: number;
   montantAcompte: number;
 }
@@ -82,8 +129,11 @@ const PeriodeDecomptePage: FC = () => {
   const [lignes, setLignes] = useState<DecompteLigne[]>([]);
   const [tauxTVA, setTauxTVA] = useState(20); // 20% par défaut
   const [tauxRetenue, setTauxRetenue] = useState(10); // 10% retenue de garantie
-  const [decomptesPrecedents, setDecomptesPrecedents] = useState(0);
-  const [depensesExercicesAnterieurs, setDepensesExercicesAnterieurs] = useState(0);
+  // Saisie manuelle (uniquement si déverrouillée), sinon calcul depuis les décomptes validés
+  const [precedentsManuels, setPrecedentsManuels] = useState(false);
+  const [decomptesPrecedentsSaisis, setDecomptesPrecedentsSaisis] = useState(0);
+  const [depensesAnterieuresSaisies, setDepensesAnterieuresSaisies] = useState(0);
+  const [indices, setIndices] = useState<IndiceValeur[]>([]);
 
   // Clean IDs (without prefix) for API calls
   const cleanProjectId = rawProjectId?.includes(':') ? rawProjectId.split(':').pop()! : rawProjectId;
@@ -109,11 +159,20 @@ const PeriodeDecomptePage: FC = () => {
 
   // Get specific data from server-loaded arrays
   const project = serverProject;
-  const bordereau = useMemo(() => serverBordereaux?.find(b => !b.deletedAt), [serverBordereaux]);
+  const bordereauInitial = useMemo(() => serverBordereaux?.find(b => !b.deletedAt), [serverBordereaux]);
   const periode = useMemo(() => serverPeriodes?.find(p => {
     const pId = p.id?.includes(':') ? p.id : `periode:${p.id}`;
     return pId === periodeId && !p.deletedAt;
   }), [serverPeriodes, periodeId]);
+
+  // 📑 البوردرو الساري للفترة: الملحقات الموقعة قبل نهاية الفترة (quantités + prix nouveaux)
+  const { avenants } = useAvenants(cleanProjectId);
+  const { approvisionnements: registreApprovisionnements, refresh: refreshApprovisionnements } =
+    useApprovisionnements(cleanProjectId);
+  const bordereau = useMemo(() => {
+    if (!bordereauInitial) return bordereauInitial;
+    return getBordereauVersion(bordereauInitial, avenants, { jusquALaDate: periode?.dateFin });
+  }, [bordereauInitial, avenants, periode?.dateFin]);
   
   // ============================================================
   // 🔴 FIX CUMUL: حساب الكميات التراكمية بشكل صحيح
@@ -188,6 +247,12 @@ const PeriodeDecomptePage: FC = () => {
     return roundedQuantities;
   }, [serverMetres, serverPeriodes, periodeId, periode]);
 
+  // Charger les indices de révision si le marché est révisable
+  useEffect(() => {
+    if (!project?.revisionPrix?.actif) return;
+    indiceService.listIndices().then(setIndices);
+  }, [project?.revisionPrix?.actif]);
+
   // Get existing decompte for this periode
   const existingDecompte = useMemo(() => {
     return serverDecompts?.find(d => {
@@ -196,6 +261,14 @@ const PeriodeDecomptePage: FC = () => {
     });
   }, [serverDecompts, periodeId]);
 
+  // N° du décompte de la période (celui qu'il recevra à la création): clé des décomptes précédents
+  const numeroDecompte = existingDecompte?.numero ?? periode?.numero ?? 0;
+
+  // 🔒 Période validée: décompte en lecture seule (réouverture par un admin)
+  const isVerrouille = isPeriodeVerrouillee(periode)
+    || existingDecompte?.statut === 'validated'
+    || existingDecompte?.statut === 'paid';
+
   console.log('🔍 [DECOMPTE] Server data loaded:', { 
     hasProject: !!project, 
     hasBordereau: !!bordereau, 
@@ -213,90 +286,35 @@ const PeriodeDecomptePage: FC = () => {
     if (periode) {
       setTauxTVA(periode.tauxTVA ?? 20);
       setTauxRetenue(periode.tauxRetenue ?? 10);
-      setDepensesExercicesAnterieurs(majoration(periode.depensesExercicesAnterieurs ?? 0));
-      setDecomptesPrecedents(majoration(periode.decomptesPrecedents ?? 0));
+      setPrecedentsManuels(!!periode.precedentsManuels);
+      setDepensesAnterieuresSaisies(majoration(periode.depensesExercicesAnterieurs ?? 0));
+      setDecomptesPrecedentsSaisis(majoration(periode.decomptesPrecedents ?? 0));
     }
   }, [periode]);
 
-  // Calculer automatiquement les dépenses et acomptes des périodes précédentes
-  // 🔴 FIX: Use serverDecompts for Web mode instead of IndexedDB
-  useEffect(() => {
-    const calculatePreviousPayments = async () => {
-      if (!periode || !projectId || !project) return;
-
-      // 🔴 Use serverDecompts (from API) instead of db.decompts (IndexedDB)
-      const allDecomptes = serverDecompts?.filter(d => !d.deletedAt) || [];
-
-      // Filter to get only previous décomptes (numero < current)
-      const decomptesPrecedentsArray = allDecomptes.filter(d => d.numero < periode.numero);
-
-      console.log('📊 Calculating previous payments:', {
-        projectId,
-        currentPeriodeNumero: periode.numero,
-        allDecomptesCount: allDecomptes.length,
-        previousDecomptesCount: decomptesPrecedentsArray.length,
-        decomptes: decomptesPrecedentsArray.map(d => ({ numero: d.numero, montant: d.montantTotal }))
-      });
-
-      if (decomptesPrecedentsArray.length === 0) {
-        // Pas de décomptes précédents
-        setDepensesExercicesAnterieurs(0);
-        setDecomptesPrecedents(0);
-        return;
-      }
-
-      // Récupérer l'année de la période actuelle
-      const anneePeriodeActuelle = new Date(periode.dateDebut).getFullYear();
-
-      let totalExercicesAnterieurs = 0;
-      let totalExerciceEnCours = 0;
-
-      // Parcourir tous les décomptes précédents
-      for (const decompt of decomptesPrecedentsArray) {
-        // 🔴 FIX: Use serverPeriodes instead of db.periodes for Web mode
-        const periodeDecompt = serverPeriodes?.find(p => {
-          const pId = p.id?.includes(':') ? p.id : `periode:${p.id}`;
-          const dPId = decompt.periodeId?.includes(':') ? decompt.periodeId : `periode:${decompt.periodeId}`;
-          return pId === dPId;
-        });
-        if (!periodeDecompt) {
-          console.warn('⚠️ Période not found for décompte:', decompt.id);
-          continue;
-        }
-
-        const anneeDecompt = new Date(periodeDecompt.dateDebut).getFullYear();
-        // Use montantTotal - this is "Montant de l'acompte à délivrer" (the net amount to pay)
-        // NOT totalTTC which is "Total Général TTC"
-        const montantAPrendre = decompt.montantTotal || 0;
-
-        console.log('📅 Décompte:', {
-          numero: decompt.numero,
-          anneeDecompt,
-          anneePeriodeActuelle,
-          montant: montantAPrendre
-        });
-
-        // Si le décompte est d'une année précédente → exercices antérieurs
-        if (anneeDecompt < anneePeriodeActuelle) {
-          totalExercicesAnterieurs += montantAPrendre;
-        } 
-        // Si le décompte est de la même année → exercice en cours
-        else if (anneeDecompt === anneePeriodeActuelle) {
-          totalExerciceEnCours += montantAPrendre;
-        }
-      }
-
-      console.log('💰 Calculated totals:', {
-        totalExercicesAnterieurs,
-        totalExerciceEnCours
-      });
-
-      setDepensesExercicesAnterieurs(majoration(totalExercicesAnterieurs));
-      setDecomptesPrecedents(majoration(totalExerciceEnCours));
-    };
-
-    calculatePreviousPayments();
-  }, [periode, projectId, project, serverDecompts, serverPeriodes]);
+  // Décomptes précédents / exercices antérieurs depuis les décomptes validés du projet
+  // 🔴 FIX: Use serverDecompts / serverPeriodes for Web mode instead of IndexedDB
+  const historiquePrecedents = useMemo(
+    () => periode
+      ? calculateDecomptesPrecedents(serverDecompts || [], serverPeriodes || [], periode, numeroDecompte)
+      : { decomptesPrecedents: 0, depensesExercicesAnterieurs: 0, details: [] },
+    [serverDecompts, serverPeriodes, periode, numeroDecompte]
+  );
+  const decomptesPrecedents = precedentsManuels
+    ? decomptesPrecedentsSaisis
+    : historiquePrecedents.decomptesPrecedents;
+  const depensesExercicesAnterieurs = precedentsManuels
+    ? depensesAnterieuresSaisies
+    : historiquePrecedents.depensesExercicesAnterieurs;
+
+  const handleTogglePrecedentsManuels = (manuel: boolean) => {
+    if (manuel) {
+      // La saisie part des montants calculés
+      setDecomptesPrecedentsSaisis(historiquePrecedents.decomptesPrecedents);
+      setDepensesAnterieuresSaisies(historiquePrecedents.depensesExercicesAnterieurs);
+    }
+    setPrecedentsManuels(manuel);
+  };
 
   // Helper to normalize bordereauLigneId (remove prefix if present)
   const normalizeBordereauLigneId = (id: string): string => {
@@ -312,7 +330,7 @@ const PeriodeDecomptePage: FC = () => {
     if (bordereau && cumulativeQuantities.size > 0) {
       const cleanBordereauId = normalizeBordereauLigneId(bordereau.id);
       
-      const decompteLines: DecompteLigne[] = bordereau.lignes.map((ligne: { numero: number; designation: string; unite: string; quantite: number; prixUnitaire?: number }) => {
+      const decompteLines: DecompteLigne[] = bordereau.lignes.map((ligne: { numero: number; designation: string; unite: string; quantite: number; prixUnitaire?: number; tauxTVA?: number | null }) => {
         const ligneId = `${cleanBordereauId}-ligne-${ligne.numero}`;
         
         // 🔴 جلب الكمية التراكمية من Map (مجموع كل الفترات)
@@ -331,6 +349,7 @@ const PeriodeDecomptePage: FC = () => {
           prixUnitaireHT,
           montantHT: 0, // سيُحسب في calculatedLignes via financeEngine
           bordereauLigneId: ligneId,
+          tauxTVA: ligne.tauxTVA ?? null,
         };
       });
 
@@ -339,7 +358,7 @@ const PeriodeDecomptePage: FC = () => {
       const cleanBordereauId = normalizeBordereauLigneId(bordereau.id);
       
       // إذا لم يكن هناك ميتري، عرض البوردرو فقط بكميات صفر
-      const decompteLines: DecompteLigne[] = bordereau.lignes.map((ligne: { numero: number; designation: string; unite: string; quantite: number; prixUnitaire?: number }) => {
+      const decompteLines: DecompteLigne[] = bordereau.lignes.map((ligne: { numero: number; designation: string; unite: string; quantite: number; prixUnitaire?: number; tauxTVA?: number | null }) => {
         const prixUnitaireHT = ligne.prixUnitaire || 0;
         return {
           prixNo: ligne.numero,
@@ -350,6 +369,7 @@ const PeriodeDecomptePage: FC = () => {
           prixUnitaireHT,
           montantHT: 0,
           bordereauLigneId: `${cleanBordereauId}-ligne-${ligne.numero}`,
+          tauxTVA: ligne.tauxTVA ?? null,
         };
       });
       setLignes(decompteLines);
@@ -370,6 +390,7 @@ const PeriodeDecomptePage: FC = () => {
     quantiteBordereau: l.quantiteBordereau,
     quantiteRealisee: l.quantiteRealisee,  // ⚠️ هذه مخزنة مقربة من الميتري
     prixUnitaireHT: l.prixUnitaireHT,
+    tauxTVA: l.tauxTVA,
   }));
 
   // حساب montantHT لكل سطر مع الاحتفاظ بالقيمة الداخلية
@@ -381,129 +402,227 @@ const PeriodeDecomptePage: FC = () => {
 
   // ============================================================
   // حساب المجاميع مع القيم الداخلية (EXCEL COMPLIANCE)
+  // 🧾 TVA par taux: كل مجموعة تُقطع (TRUNC) لوحدها، taux du décompte par défaut
   // ============================================================
-  const totalHTResult = calculateTotalHTWithInternal(calculatedLignes);
-  const totalHT = totalHTResult.display;
-  const totalHTInternal = totalHTResult.internal;
+  const tvaParTaux = calculateTVAParTaux(calculatedLignes, Number(tauxTVA) || 20);
+  const groupesTVA = tvaParTaux.groupes;
+  const totalHT = tvaParTaux.totalHT.display;
+  const totalHTInternal = tvaParTaux.totalHT.internal;
+  const montantTVA = tvaParTaux.montantTVA;
   
-  const tvaResult = calculateTVAWithInternal(totalHTInternal, Number(tauxTVA) || 20);
-  const montantTVA = tvaResult.display;
-  const tvaInternal = tvaResult.internal;
-  
-  // 🔒 EXCEL: TTC = HT_Internal + TVA_Display (TRUNC)
-  // نمرر TVA المقطوعة كـ Decimal
-  const ttcResult = calculateTTCWithInternal(totalHTInternal, toDecimal(montantTVA));
-  const totalTTC = ttcResult.display;
-  const ttcInternal = ttcResult.internal;
+  // 🔒 EXCEL: TTC = HT_Internal + Σ TVA_Display (TRUNC)
+  const totalTTC = tvaParTaux.totalTTC.display;
+  const ttcInternal = tvaParTaux.totalTTC.internal;
   
   // Log للتحقق
   console.log("[FINANCE ENGINE v2] Calculs:", {
     totalHT_internal: totalHTInternal.toString(),
     totalHT_display: totalHT,
-    tva_internal: tvaInternal.toString(),
+    groupes_tva: groupesTVA,
     tva_display: montantTVA,
     ttc_internal: ttcInternal.toString(),
     ttc_display: totalTTC
   });
 
-  // Récapitulatif - حساب بطريقة Excel
-  // 🔒 EXCEL: يعرض قيم مقربة لكنه يحسب بالقيم الداخلية الكاملة
-  const getRecapCalculations = (): RecapCalculations => {
-    // ============================================================
-    // 🔒 EXCEL COMPLIANCE: نستخدم ttcInternal (القيمة الداخلية الكاملة)
-    // Excel يحسب بالقيم الداخلية ثم يعرض مقربة
-    // ============================================================
-    
-    const anterieurs = toDecimal(depensesExercicesAnterieurs);
-    const precedents = toDecimal(decomptesPrecedents);
-    
-    // 🔒 EXCEL: نستخدم القيمة الداخلية (الكاملة) للحسابات
-    const totalAvantRetenue = ttcInternal;
+  // ============================================================
+  // 📊 HT cumulé de chaque période jusqu'à la période courante
+  // (révision des prix + suivi de l'avance)
+  // ============================================================
+  const tranchesHT = useMemo(() => {
+    if (!bordereau || !serverPeriodes || !serverMetres || !periode) return [];
 
-    // ============================================================
-    // RETENUE DE GARANTIE: MIN(TRUNC(TTC×10%;2); TRUNC(Marché×7%;2))
-    // ============================================================
-    
-    // حساب مبلغ الصفقة الكلي TTC من البوردرو (بدقة كاملة)
-    let montantMarcheTTC = new Decimal(0);
-    if (bordereau?.lignes) {
-      for (const ligne of bordereau.lignes) {
-        const qte = toDecimal(ligne.quantite);
-        const pu = toDecimal(ligne.prixUnitaire);
-        const montantHT = qte.times(pu);
-        const montantTTC = montantHT.times(1.2);
-        montantMarcheTTC = montantMarcheTTC.plus(montantTTC);
-      }
-    }
-    
-    // 🔒 TRUNC(TTC_INTERNAL × 10%, 2) - استخدام القيمة الداخلية
-    const retenue10Pourcent = trunc2(ttcInternal.times(0.10));
-    
-    // TRUNC(Marché × 7%, 2)
-    const retenue7Pourcent = trunc2(montantMarcheTTC.times(0.07));
-    
-    // MIN
-    const retenueGarantie = Decimal.min(retenue10Pourcent, retenue7Pourcent);
-    
-    console.log('[RETENUE] Calcul:', {
-      ttcInternal: ttcInternal.toString(),
-      montantMarcheTTC: montantMarcheTTC.toString(),
-      retenue10Pourcent: retenue10Pourcent.toString(),
-      retenue7Pourcent: retenue7Pourcent.toString(),
-      retenueGarantie: retenueGarantie.toString()
+    const cleanBordereauId = normalizeBordereauLigneId(bordereau.id);
+    const sortedPeriodes = [...serverPeriodes]
+      .filter(p => !p.deletedAt && (p.numero || 0) <= periode.numero)
+      .sort((a, b) => (a.numero || 0) - (b.numero || 0));
+
+    // كميات تراكمية تتقدم فترة بفترة
+    const cumul = new Map<string, number>();
+    return sortedPeriodes.map(p => {
+      const pId = p.id?.includes(':') ? p.id : `periode:${p.id}`;
+      serverMetres
+        .filter(m => !m.deletedAt)
+        .forEach(m => {
+          const mPeriodeId = m.periodeId?.includes(':') ? m.periodeId : `periode:${m.periodeId}`;
+          if (mPeriodeId !== pId) return;
+          const metreTotal = m.lignes && m.lignes.length > 0
+            ? m.lignes.reduce((sum: number, l: any) => sum + (Number(l.partiel) || 0), 0)
+            : Number(m.totalPartiel) || 0;
+          cumul.set(m.bordereauLigneId, (cumul.get(m.bordereauLigneId) || 0) + metreTotal);
+        });
+
+      const htCumul = calculateTotalHTWithInternal(
+        bordereau.lignes.map((ligne: { numero: number; prixUnitaire?: number }) => ({
+          quantiteRealisee: Number((cumul.get(`${cleanBordereauId}-ligne-${ligne.numero}`) || 0).toFixed(2)),
+          prixUnitaireHT: ligne.prixUnitaire || 0,
+        }))
+      );
+
+      return {
+        numero: p.numero || 0,
+        libelle: p.libelle || `Période ${p.numero}`,
+        mois: toMois(p.dateFin),
+        travauxHTCumulInternal: htCumul.internal,
+      };
     });
+  }, [bordereau, serverPeriodes, serverMetres, periode]);
 
-    // ============================================================
-    // 🔒 EXCEL: حسابات بالقيم الداخلية (الكاملة)
-    // ============================================================
-    
-    // Restes = TTC_INTERNAL - Retenue (بدون تقريب وسيط)
-    const restes = totalAvantRetenue.minus(retenueGarantie);
-    
-    // Reste à payer = Restes - Exercices antérieurs
-    const resteAPayer = restes.minus(anterieurs);
-    
-    // Total à déduire
-    const totalADeduire = anterieurs.plus(precedents);
-    
-    // Montant de l'acompte = Reste à payer - Décomptes précédents
-    // 🔒 EXCEL: يستخدم floating point وليس Decimal
-    // لذلك نحول إلى Number قبل التقريب لمحاكاة Excel
-    const montantAcompteExact = resteAPayer.minus(precedents);
-    const montantAcompteFloat = montantAcompteExact.toNumber(); // Convert to floating point like Excel
-    const montantAcompte = toDecimal(montantAcompteFloat.toFixed(2)); // Round like Excel
-    
-    console.log('[RECAP v2] Calcul final:', {
-      ttcInternal: ttcInternal.toString(),
-      retenueGarantie: retenueGarantie.toString(),
-      restes: restes.toString(),
-      resteAPayer: resteAPayer.toString(),
-      precedents: precedents.toString(),
-      montantAcompteExact: montantAcompteExact.toString(),
-      montantAcompteFinal: montantAcompte.toString()
+  // ============================================================
+  // 📈 REVISION DES PRIX: HT cumulé de chaque période × (K − 1)
+  // ============================================================
+  const revision = useMemo((): RevisionResult | null => {
+    const formule = project?.revisionPrix;
+    if (!formule?.actif || tranchesHT.length === 0) return null;
+    return calculateRevisionPrix(formule, indices, tranchesHT, Number(tauxTVA) || 20);
+  }, [project?.revisionPrix, tranchesHT, indices, tauxTVA]);
+
+  // حساب مبلغ الصفقة الكلي TTC من البوردرو (بدقة كاملة، TVA de chaque prix)
+  const montantMarcheTTC = useMemo(
+    () => calculateMontantMarcheTTC(bordereau?.lignes || []),
+    [bordereau]
+  );
+
+  // ============================================================
+  // ⏱️ PENALITES DE RETARD: من الآجال (OSC + délai + arrêts)
+  // ============================================================
+  const delaiRetard = useMemo(() => {
+    if (!project || !periode?.dateFin) return { joursRetard: 0 };
+    return calculateJoursRetard(project, periode.dateFin);
+  }, [project, periode?.dateFin]);
+
+  const penalites = useMemo(() => {
+    const config = project?.penalites || DEFAULT_PENALITES;
+    return calculatePenalitesRetard({
+      joursRetard: delaiRetard.joursRetard,
+      montantMarche: montantMarcheTTC,
+      tauxJournalier: config.tauxJournalier,
+      plafond: config.plafond,
+      montantRetenu: config.montantRetenu,
+      justification: config.justification,
     });
+  }, [project?.penalites, delaiRetard, montantMarcheTTC]);
 
-    return {
-      // ⚠️ للعرض فقط: نستخدم totalTTC (display) وليس ttcInternal
-      travauxTermines: periode?.isDecompteDernier ? totalTTC : 0,
-      travauxNonTermines: periode?.isDecompteDernier ? 0 : totalTTC,
-      approvisionnements: 0,
-      totalAvantRetenue: totalTTC, // ⚠️ display للعرض في Montants
-      retenueGarantie: toNumber(retenueGarantie),
-      resteAPayer: toNumber(round2(restes)),
-      depensesExercicesAnterieurs: toNumber(round2(anterieurs)),
-      totalADeduire: toNumber(round2(totalADeduire)),
-      montantAcompte: toNumber(montantAcompte),
-    };
-  };
+  // ============================================================
+  // 💵 AVANCE FORFAITAIRE: remboursement selon le taux d'exécution HT
+  // ============================================================
+  const montantMarcheHT = useMemo(() => {
+    let total = new Decimal(0);
+    for (const ligne of bordereau?.lignes || []) {
+      total = total.plus(toDecimal(ligne.quantite).times(toDecimal(ligne.prixUnitaire)));
+    }
+    return total;
+  }, [bordereau]);
+
+  const suiviAvance = useMemo((): SuiviAvanceLigne[] => {
+    const avance = project?.avance;
+    if (!avance?.montant) return [];
+    let precedent = new Decimal(0);
+    return tranchesHT.map(tranche => {
+      const result = calculateRemboursementAvance({
+        montantAvance: avance.montant,
+        debutRemboursement: avance.debutRemboursement,
+        finRemboursement: avance.finRemboursement,
+        travauxHTCumul: tranche.travauxHTCumulInternal,
+        montantMarcheHT,
+      });
+      const montantPeriode = toNumber(toDecimal(result.montantRembourse).minus(precedent));
+      precedent = toDecimal(result.montantRembourse);
+      return { ...result, numero: tranche.numero, libelle: tranche.libelle, montantPeriode };
+    });
+  }, [project?.avance, tranchesHT, montantMarcheHT]);
+
+  const remboursementAvance = project?.avance?.montant
+    ? calculateRemboursementAvance({
+        montantAvance: project.avance.montant,
+        debutRemboursement: project.avance.debutRemboursement,
+        finRemboursement: project.avance.finRemboursement,
+        travauxHTCumul: totalHTInternal,
+        montantMarcheHT,
+      }).montantRembourse
+    : 0;
+
+  // ============================================================
+  // ➖➕ DÉDUCTIONS / ADDITIONS DIVERSES: lignes du marché + lignes des périodes ≤ courante
+  // ============================================================
+  const ajustements = calculateAjustements({
+    marche: project?.ajustements,
+    periodes: (serverPeriodes || [])
+      .filter(p => !p.deletedAt)
+      .map(p => ({ numero: p.numero || 0, ajustements: p.ajustements })),
+    periodeNumero: periode?.numero || 0,
+    baseHT: totalHTInternal,
+    baseTTC: ttcInternal,
+  });
 
-  const recap = getRecapCalculations();
+  // ============================================================
+  // ⚠️ DÉPASSEMENTS: cumul > bordereau en vigueur (avenants inclus), marché > +10%
+  // ============================================================
+  const depassements = useMemo(
+    () => calculateDepassements(financeLignes, project?.justificationsDepassement),
+    [lignes, project?.justificationsDepassement]
+  );
+
+  // ============================================================
+  // 🧱 APPROVISIONNEMENTS: مواد في الورش غير مدمجة بعد (TTC)
+  // ============================================================
+  const approvisionnements = useMemo(() => {
+    const periodesNumeros = (serverPeriodes || [])
+      .filter(p => !p.deletedAt)
+      .map(p => ({ id: p.id, numero: p.numero || 0 }));
+    return calculateApprovisionnementsPeriode(
+      registreApprovisionnements,
+      periodesNumeros,
+      periode?.numero || 0,
+      Number(tauxTVA) || 20
+    );
+  }, [registreApprovisionnements, serverPeriodes, periode?.numero, tauxTVA]);
+
+  // ============================================================
+  // 🛡️ RETENUE DE GARANTIE: taux de la période, plafond en % du marché,
+  // caution bancaire de substitution, restitution à la réception définitive
+  // ============================================================
+  const configRetenue = project?.retenueGarantie || DEFAULT_RETENUE_GARANTIE;
+
+  // Récapitulatif - حساب بطريقة Excel (calculateRecap: même composition que le recalcul serveur)
+  // 🔒 EXCEL: يعرض قيم مقربة لكنه يحسب بالقيم الداخلية الكاملة
+  const { retenue, _meta, ...recapMontants } = calculateRecap({
+    totalTTC,
+    totalTTCInternal: ttcInternal,
+    isDecompteDernier: !!periode?.isDecompteDernier,
+    revisionPrixTTCInternal: revision?._internals.revisionTTCInternal,
+    // ⚠️ الضمانة لا تشمل المواد في الورش (Approvisionnements: retenue 0)
+    approvisionnementsTTCInternal: approvisionnements._internals.ttcInternal,
+    tauxRetenue: Number(tauxRetenue) || 0,
+    montantMarcheTTC,
+    plafondRetenue: configRetenue.plafond,
+    montantCaution: configRetenue.caution?.montant || 0,
+    restitutionRetenue: !!project?.dateReceptionDefinitive,
+    depensesExercicesAnterieurs,
+    decomptesPrecedents,
+    penalitesRetard: penalites.montantRetenu,
+    remboursementAvance,
+    ajustements,
+  });
+  const recap: RecapCalculations = { ...recapMontants, penalitesJustification: penalites.justification };
+  const arreteEnLettres = montantEnLettres(recap.montantAcompte, project?.langueMontantLettres);
+
+  // Snapshot enregistré avec le décompte → PDF généré côté serveur
+  const recapSnapshot: DecompteRecap = {
+    ...recap,
+    tauxTVA,
+    totalHT,
+    montantTVA,
+    totalTTC,
+    groupesTVA,
+    decomptesPrecedents,
+    precedentsManuels,
+  };
 
   // تحديث الديكونت تلقائياً عند تغير البيانات
   useEffect(() => {
     const autoUpdateDecompte = async () => {
       if (!user || !projectId || !periodeId || !periode || !existingDecompte) return;
-      if (lignes.length === 0) return;
+      if (lignes.length === 0 || isVerrouille) return;
 
       const now = new Date().toISOString();
       const newMontantTotal = recap.montantAcompte;
@@ -514,6 +633,7 @@ const PeriodeDecomptePage: FC = () => {
           lignes: lignes,
           montantTotal: newMontantTotal,
           totalTTC: totalTTC,
+          recap: recapSnapshot,
           updatedAt: now,
         });
         console.log('✅ Décompte mis à jour automatiquement:', newMontantTotal, 'TTC:', totalTTC);
@@ -521,10 +641,14 @@ const PeriodeDecomptePage: FC = () => {
     };
 
     autoUpdateDecompte();
-  }, [lignes, recap.montantAcompte, existingDecompte, user, projectId, periodeId, periode]);
+  }, [lignes, recap.montantAcompte, existingDecompte, user, projectId, periodeId, periode, isVerrouille]);
   
   const handleSave = async () => {
     if (!user || !projectId || !periodeId || !periode) return;
+    if (isVerrouille) {
+      alert('Ce décompte est validé: il doit être rouvert par un administrateur avant modification');
+      return;
+    }
 
     setIsSaving(true);
 
@@ -545,6 +669,7 @@ const PeriodeDecomptePage: FC = () => {
           tauxRetenue,
           depensesExercicesAnterieurs,
           decomptesPrecedents,
+          precedentsManuels,
         });
         console.log('✅ [WEB] Période updated');
 
@@ -557,7 +682,7 @@ const PeriodeDecomptePage: FC = () => {
           lignes: lignes,
           montantTotal: recap.montantAcompte,
           totalTTC: totalTTC,
-          statut: 'draft',
+          recap: recapSnapshot,
         };
 
         if (existingDecompte) {
@@ -583,6 +708,7 @@ const PeriodeDecomptePage: FC = () => {
           tauxRetenue,
           depensesExercicesAnterieurs,
           decomptesPrecedents,
+          precedentsManuels,
           updatedAt: now,
         });
 
@@ -590,7 +716,7 @@ const PeriodeDecomptePage: FC = () => {
           'UPDATE',
           'periode',
           rawPeriodeId,
-          { tauxTVA, tauxRetenue, depensesExercicesAnterieurs, decomptesPrecedents },
+          { tauxTVA, tauxRetenue, depensesExercicesAnterieurs, decomptesPrecedents, precedentsManuels },
           user.id
         );
 
@@ -600,7 +726,7 @@ const PeriodeDecomptePage: FC = () => {
             lignes: lignes,
             montantTotal: recap.montantAcompte,
             totalTTC: totalTTC,
-            statut: 'draft',
+            recap: recapSnapshot,
             updatedAt: now,
           });
 
@@ -608,7 +734,7 @@ const PeriodeDecomptePage: FC = () => {
             'UPDATE',
             'decompt',
             existingDecompte.id.replace('decompt:', ''),
-            { montantTotal: recap.montantAcompte, lignesCount: lignes.length },
+            { lignes, montantTotal: recap.montantAcompte, totalTTC, recap: recapSnapshot },
             user.id
           );
         } else {
@@ -623,6 +749,7 @@ const PeriodeDecomptePage: FC = () => {
             lignes: lignes,
             montantTotal: recap.montantAcompte,
             totalTTC: totalTTC,
+            recap: recapSnapshot,
             statut: 'draft' as const,
             createdAt: now,
             updatedAt: now,
@@ -642,6 +769,51 @@ const PeriodeDecomptePage: FC = () => {
     }
   };
 
+  // Enregistrer des paramètres financiers du marché (révision, pénalités...) dans le projet
+  const saveProjectFields = async (fields: Partial<Project>) => {
+    if (!user || !project) return;
+    const rawId = (cleanProjectId || projectId).replace('project:', '');
+
+    try {
+      if (isWeb()) {
+        // 🌐 Web: le PUT remplace les champs du projet → envoyer le projet complet
+        await apiService.updateProject(rawId, { ...project, ...fields });
+        refreshServerData();
+      } else {
+        await db.projects.update(projectId, {
+          ...fields,
+          updatedAt: new Date().toISOString(),
+        });
+        await logSyncOperation('UPDATE', 'project', rawId, fields, user.id);
+      }
+    } catch (error) {
+      console.error('Erreur lors de la sauvegarde du projet:', error);
+      alert('Erreur lors de la sauvegarde des paramètres du marché');
+    }
+  };
+
+  // Déductions / additions propres à la période (reportées sur les décomptes suivants)
+  const savePeriodeAjustements = async (ajustementsPeriode: AjustementConfig[]) => {
+    if (!user || !periodeId) return;
+    const rawPeriodeId = periodeId.replace('periode:', '');
+
+    try {
+      if (isWeb()) {
+        await apiService.updatePeriode(rawPeriodeId, { ajustements: ajustementsPeriode });
+        refreshServerData();
+      } else {
+        await db.periodes.update(periodeId, {
+          ajustements: ajustementsPeriode,
+          updatedAt: new Date().toISOString(),
+        });
+        await logSyncOperation('UPDATE', 'periode', rawPeriodeId, { ajustements: ajustementsPeriode }, user.id);
+      }
+    } catch (error) {
+      console.error('Erreur lors de la sauvegarde de la période:', error);
+      alert('Erreur lors de la sauvegarde des déductions et additions de la période');
+    }
+  };
+
   const handleExportPDF = async () => {
     if (!project || !periode || !bordereau || !projectId) {
       alert('Données manquantes pour générer le PDF');
@@ -660,7 +832,7 @@ const PeriodeDecomptePage: FC = () => {
         // Web mode: use serverDecompts
         console.log('🌐 [WEB] Using serverDecompts:', serverDecompts?.length);
         decomptsPrecedentsAvecDates = (serverDecompts || [])
-          .filter((d) => !d.deletedAt && d.numero < periode.numero)
+          .filter((d) => !d.deletedAt && d.numero < numeroDecompte)
           .map((decompt) => {
             const periodeDecompt = serverPeriodes?.find(
               (p) => p.id === decompt.periodeId || 
@@ -684,9 +856,9 @@ const PeriodeDecomptePage: FC = () => {
       
         console.log('🔍 TOUS les décomptes du projet:', tousLesDecomptes);
       
-        // Filtrer les décomptes précédents (sans deletedAt et numero < période actuelle)
+        // Filtrer les décomptes précédents (sans deletedAt et numero < décompte actuel)
         const decomptesPrecedentsArray = tousLesDecomptes.filter(
-          (d) => !d.deletedAt && d.numero < periode.numero
+          (d) => !d.deletedAt && d.numero < numeroDecompte
         );
 
         console.log('📊 Décomptes précédents filtrés:', decomptesPrecedentsArray);
@@ -711,24 +883,77 @@ const PeriodeDecomptePage: FC = () => {
 
       console.log('📊 Décomptes précédents avec dates (triés):', decomptsPrecedentsAvecDates);
 
-      await generateDecomptePDF(
+      const avertissement = await generateDecomptePDF(
         project,
         periode,
         bordereau,
         lignes,
-        recap,
+        { ...recap, groupesTVA },
         tauxTVA,
         totalHT,
         montantTVA,
         totalTTC,
-        decomptsPrecedentsAvecDates
+        decomptsPrecedentsAvecDates,
+        false,
+        approvisionnements.actifs
       );
+      if (avertissement) alert(avertissement);
     } catch (error) {
       console.error('Erreur lors de la génération du PDF:', error);
       alert('Erreur lors de la génération du PDF');
     }
   };
 
+  // 📊 Excel avec formules vivantes (même présentation que le classeur officiel)
+  const handleExportExcel = () => {
+    if (!project || !periode) return;
+
+    try {
+      exportDecompteExcel({
+        project,
+        periode,
+        lignes: calculatedLignes,
+        tauxTVA: Number(tauxTVA) || 20,
+        approvisionnements: approvisionnements.actifs,
+        revisionTTC: toNumber(revision?._internals.revisionTTCInternal || new Decimal(0)),
+        retenue: {
+          tauxRetenue: Number(tauxRetenue) || 0,
+          montantMarche: toNumber(montantMarcheTTC),
+          plafond: plafondRetenueConfig(configRetenue.plafond),
+          montantCaution: configRetenue.caution?.montant || 0,
+          restitution: !!periode.isDecompteDernier && !!project.dateReceptionDefinitive,
+        },
+        depensesExercicesAnterieurs: Number(depensesExercicesAnterieurs) || 0,
+        decomptesPrecedents: Number(decomptesPrecedents) || 0,
+        penalitesRetard: recap.penalitesRetard,
+        penalitesJustification: recap.penalitesJustification,
+        remboursementAvance: recap.remboursementAvance,
+        ajustements: recap.ajustements,
+      });
+    } catch (error) {
+      console.error("Erreur lors de l'export Excel:", error);
+      alert("Erreur lors de l'export Excel");
+    }
+  };
+
+  // PDF officiel généré par le serveur (enregistré dans les documents du projet)
+  const handleServerPDF = async () => {
+    if (!existingDecompte || !periode) return;
+
+    try {
+      const blob = await apiService.generateDecomptPdf(existingDecompte.id.replace('decompt:', ''));
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Decompte_${project?.marcheNo || ''}_Periode_${periode.numero}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Erreur lors de la génération du PDF serveur:', error);
+      alert('Erreur lors de la génération du PDF serveur. Enregistrez le décompte puis réessayez.');
+    }
+  };
+
   // Fonction d'impression directe
   const handlePrint = async () => {
     if (!project || !periode || !bordereau || !projectId) {
@@ -755,19 +980,21 @@ const PeriodeDecomptePage: FC = () => {
         })
         .sort((a, b) => a.numero - b.numero);
 
-      await generateDecomptePDF(
+      const avertissement = await generateDecomptePDF(
         project,
         periode,
         bordereau,
         lignes,
-        recap,
+        { ...recap, groupesTVA },
         tauxTVA,
         totalHT,
         montantTVA,
         totalTTC,
         decomptsPrecedentsAvecDates,
-        true // طباعة مباشرة
+        true, // طباعة مباشرة
+        approvisionnements.actifs
       );
+      if (avertissement) alert(avertissement);
     } catch (error) {
       console.error('Erreur lors de l\'impression:', error);
       alert('Erreur lors de l\'impression');
@@ -863,13 +1090,23 @@ const PeriodeDecomptePage: FC = () => {
               <Download className="w-5 h-5" />
               Exporter PDF
             </button>
+            <button onClick={handleExportExcel} className="btn-secondary flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5" />
+              Exporter Excel
+            </button>
+            {isWeb() && existingDecompte && (
+              <button onClick={handleServerPDF} className="btn-secondary flex items-center gap-2">
+                <FileText className="w-5 h-5" />
+                PDF officiel
+              </button>
+            )}
             <button onClick={handlePrint} className="btn-secondary flex items-center gap-2">
               <Printer className="w-5 h-5" />
               Imprimer
             </button>
             <button
               onClick={handleSave}
-              disabled={isSaving}
+              disabled={isSaving || isVerrouille}
               className="btn-primary flex items-center gap-2"
             >
               <Save className="w-5 h-5" />
@@ -879,6 +1116,74 @@ const PeriodeDecomptePage: FC = () => {
         </div>
       </div>
 
+      {/* Dépassements de quantités (bloquent la validation tant qu'ils ne sont pas justifiés) */}
+      {project && (
+        <DepassementsPanel
+          result={depassements}
+          justifications={project.justificationsDepassement}
+          marcheNo={project.marcheNo}
+          objet={project.objet}
+          periodeLibelle={periode?.libelle}
+          disabled={isVerrouille}
+          onSave={(justifications: JustificationsDepassement) => saveProjectFields({ justificationsDepassement: justifications })}
+        />
+      )}
+
+      {/* Workflow: soumission / validation / paiement */}
+      {isWeb() && existingDecompte && (
+        <DecompteWorkflowPanel
+          decompte={existingDecompte}
+          blocagesValidation={depassements.motifsBlocage}
+          isAdmin={ADMIN_ROLES.includes(user?.role || '')}
+          onChanged={refreshServerData}
+        />
+      )}
+
+      {/* Paiements reçus (décompte validé) */}
+      {isWeb() && existingDecompte && cleanProjectId &&
+        (existingDecompte.statut === 'validated' || existingDecompte.statut === 'paid') && (
+        <PaiementsPanel
+          projectId={cleanProjectId}
+          decompte={existingDecompte}
+          onChanged={refreshServerData}
+        />
+      )}
+
+      {isVerrouille && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+          <Lock className="w-5 h-5 text-gray-600 mt-0.5" />
+          <p className="text-sm text-gray-700">
+            Décompte {STATUT_LABELS[existingDecompte?.statut || 'validated'].toLowerCase()}: la période, ses métrés
+            et le décompte sont verrouillés. Seul un administrateur peut le rouvrir.
+          </p>
+        </div>
+      )}
+
+      {/* Écart avec le calcul serveur */}
+      {existingDecompte?.verification?.status === 'ecart' && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5" />
+          <div>
+            <p className="font-medium text-yellow-800">Écart avec le calcul serveur</p>
+            <p className="text-sm text-yellow-700">
+              Les montants enregistrés ont été recalculés par le serveur.
+            </p>
+            <ul className="text-sm text-yellow-700 mt-1 list-disc list-inside">
+              {existingDecompte.verification.ecarts.map((e) => (
+                <li key={e.champ}>
+                  {e.champ}: {formatMontant(e.client)} → {formatMontant(e.serveur)} DH
+                </li>
+              ))}
+              {existingDecompte.verification.lignesEcart.map((l) => (
+                <li key={`ligne-${l.prixNo}`}>
+                  Prix N°{l.prixNo}: quantité {l.client} → {l.serveur}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Informations du projet */}
       <div className="card mb-6">
         <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
@@ -901,15 +1206,7 @@ const PeriodeDecomptePage: FC = () => {
           <div>
             <span className="font-semibold text-gray-700">Montant du marché (TTC):</span>
             <p className="text-gray-900 font-bold text-primary-600">
-              {bordereau.lignes
-                .reduce((sum: number, l: { quantite: number; prixUnitaire?: number }) => {
-                  const montantHT = l.quantite * (l.prixUnitaire || 0);
-                  const montantTTC = montantHT * 1.2; // +20% TVA
-                  return sum + montantTTC;
-                }, 0)
-                .toFixed(2)
-                .replace(/\B(?=(\d{3})+(?!\d))/g, ' ')}{' '}
-              DH
+              {formatMontant(toNumber(montantMarcheTTC))} DH
             </p>
           </div>
         </div>
@@ -1014,7 +1311,13 @@ const PeriodeDecomptePage: FC = () => {
                       {ligne.unite}
                     </span>
                   </td>
-                  <td className="px-4 py-3 text-right font-medium text-gray-700 border-r border-gray-200">
+                  <td
+                    className={`px-4 py-3 text-right font-medium border-r border-gray-200 ${
+                      ligne.quantiteRealisee > ligne.quantiteBordereau ? 'text-red-600' : 'text-gray-700'
+                    }`}
+                    title={ligne.quantiteRealisee > ligne.quantiteBordereau ? `Dépasse la quantité du bordereau (${ligne.quantiteBordereau})` : undefined}
+                  >
+                    {ligne.quantiteRealisee > ligne.quantiteBordereau && <AlertTriangle className="w-4 h-4 inline mr-1" />}
                     {formatMontant(ligne.quantiteRealisee)}
                   </td>
                   <td className="px-4 py-3 text-right font-medium text-gray-700 border-r border-gray-200">
@@ -1035,9 +1338,21 @@ const PeriodeDecomptePage: FC = () => {
                   {formatMontant(totalHT)}
                 </td>
               </tr>
+              {groupesTVA.length > 1 && groupesTVA.map(groupe => (
+                <tr key={groupe.taux}>
+                  <td colSpan={5} className="px-4 py-2 text-right text-gray-700">
+                    {groupe.taux === 0
+                      ? `Exonéré de TVA (base ${formatMontant(groupe.totalHT)})`
+                      : `TVA ${groupe.taux}% sur ${formatMontant(groupe.totalHT)}`}
+                  </td>
+                  <td className="px-4 py-2 text-right font-medium text-gray-900">
+                    {formatMontant(groupe.montantTVA)}
+                  </td>
+                </tr>
+              ))}
               <tr>
                 <td colSpan={5} className="px-4 py-3 text-right font-bold text-gray-900">
-                  Total TVA ({tauxTVA}%)
+                  {groupesTVA.length > 1 ? 'Total TVA' : `Total TVA (${groupesTVA[0]?.taux ?? tauxTVA}%)`}
                 </td>
                 <td className="px-4 py-3 text-right font-bold text-xl text-primary-600">
                   {formatMontant(montantTVA)}
@@ -1108,20 +1423,52 @@ const PeriodeDecomptePage: FC = () => {
                 <td className="px-4 py-3 text-gray-900 border-r border-gray-200">
                   Approvisionnements
                 </td>
+                <td className="px-4 py-3 text-right font-medium text-gray-700 border-r border-gray-200">
+                  {recap.approvisionnements !== 0 ? formatMontant(recap.approvisionnements) : ''}
+                </td>
                 <td className="px-4 py-3 border-r border-gray-200"></td>
-                <td className="px-4 py-3 border-r border-gray-200"></td>
-                <td className="px-4 py-3"></td>
+                <td className="px-4 py-3 text-right font-medium text-gray-700">
+                  {recap.approvisionnements !== 0 ? formatMontant(recap.approvisionnements) : ''}
+                </td>
               </tr>
+              {recap.revisionPrix !== 0 && (
+                <tr>
+                  <td className="px-4 py-3 text-gray-900 border-r border-gray-200">
+                    Révision des prix{revision?.provisoire ? ' (provisoire)' : ''}
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-700 border-r border-gray-200">
+                    {formatMontant(recap.revisionPrix)}
+                  </td>
+                  <td className="px-4 py-3 border-r border-gray-200"></td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-700">
+                    {formatMontant(recap.revisionPrix)}
+                  </td>
+                </tr>
+              )}
+              {recap.restitutionRetenue !== 0 && (
+                <tr>
+                  <td className="px-4 py-3 text-gray-900 border-r border-gray-200">
+                    Restitution de la retenue de garantie
+                  </td>
+                  <td className="px-4 py-3 border-r border-gray-200"></td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-700 border-r border-gray-200">
+                    {formatMontant(-recap.restitutionRetenue)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-700">
+                    {formatMontant(recap.restitutionRetenue)}
+                  </td>
+                </tr>
+              )}
               <tr className="bg-gray-50">
                 <td className="px-4 py-3 text-gray-900 font-bold border-r border-gray-200">TOTAUX</td>
                 <td className="px-4 py-3 text-right font-bold text-gray-900 border-r border-gray-200">
                   {formatMontant(recap.totalAvantRetenue)}
                 </td>
                 <td className="px-4 py-3 text-right font-bold text-gray-900 border-r border-gray-200">
-                  {formatMontant(recap.retenueGarantie)}
+                  {formatMontant(recap.retenueGarantie - recap.restitutionRetenue)}
                 </td>
                 <td className="px-4 py-3 text-right font-bold text-gray-900">
-                  {formatMontant(recap.totalAvantRetenue - recap.retenueGarantie)}
+                  {formatMontant(recap.resteAPayer)}
                 </td>
               </tr>
               <tr className="bg-gray-50">
@@ -1157,6 +1504,45 @@ const PeriodeDecomptePage: FC = () => {
                   {formatMontant(decomptesPrecedents)}
                 </td>
               </tr>
+              {recap.penalitesRetard > 0 && (
+                <tr>
+                  <td
+                    colSpan={3}
+                    className="px-4 py-3 text-right text-gray-900 font-semibold border-r border-gray-200"
+                  >
+                    À déduire les pénalités de retard ({penalites.joursRetard} jours{penalites.isRemise ? ', après remise' : ''})
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-red-600">
+                    {formatMontant(recap.penalitesRetard)}
+                  </td>
+                </tr>
+              )}
+              {recap.remboursementAvance > 0 && (
+                <tr>
+                  <td
+                    colSpan={3}
+                    className="px-4 py-3 text-right text-gray-900 font-semibold border-r border-gray-200"
+                  >
+                    À déduire le remboursement de l'avance
+                  </td>
+                  <td className="px-4 py-3 text-right font-medium text-gray-700">
+                    {formatMontant(recap.remboursementAvance)}
+                  </td>
+                </tr>
+              )}
+              {recap.ajustements.map(ajustement => (
+                <tr key={`${ajustement.periodeNumero ?? 'marche'}-${ajustement.id}`}>
+                  <td
+                    colSpan={3}
+                    className="px-4 py-3 text-right text-gray-900 font-semibold border-r border-gray-200"
+                  >
+                    {libelleAjustement(ajustement)}
+                  </td>
+                  <td className={`px-4 py-3 text-right font-medium ${ajustement.sens === 'addition' ? 'text-green-700' : 'text-red-600'}`}>
+                    {formatMontant(ajustement.montant)}
+                  </td>
+                </tr>
+              ))}
               <tr className="bg-primary-50">
                 <td
                   colSpan={3}
@@ -1173,16 +1559,97 @@ const PeriodeDecomptePage: FC = () => {
         </div>
 
         <div className="mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
-          <p className="text-sm text-blue-900 font-medium">
-            Arrêté par nous, Sous-Ordonnateur, à la somme de: <span className="font-bold">{numberToWords(recap.montantAcompte)}</span>
-          </p>
+          {arreteEnLettres.fr && (
+            <p className="text-sm text-blue-900 font-medium">
+              Arrêté par nous, Sous-Ordonnateur, à la somme de: <span className="font-bold">{arreteEnLettres.fr}</span>
+            </p>
+          )}
+          {arreteEnLettres.ar && (
+            <p dir="rtl" lang="ar" className={`text-sm text-blue-900 font-medium ${arreteEnLettres.fr ? 'mt-2' : ''}`}>
+              حصر هذا الكشف في مبلغ: <span className="font-bold">{arreteEnLettres.ar}</span>
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Approvisionnements */}
+      {periode && (
+        <ApprovisionnementsPanel
+          projectId={cleanProjectId || ''}
+          periodeId={periode.id}
+          periodes={serverPeriodes || []}
+          result={approvisionnements}
+          onChanged={refreshApprovisionnements}
+        />
+      )}
+
+      {/* Avance forfaitaire */}
+      <AvancePanel
+        config={project.avance}
+        suivi={suiviAvance}
+        onSave={(config) => saveProjectFields({ avance: config })}
+      />
+
+      {/* Retenue de garantie */}
+      <RetenueGarantiePanel
+        config={project.retenueGarantie}
+        tauxRetenue={tauxRetenue}
+        result={retenue}
+        dateReceptionDefinitive={project.dateReceptionDefinitive ? new Date(project.dateReceptionDefinitive) : undefined}
+        isDecompteDernier={!!periode?.isDecompteDernier}
+        onSave={(config) => saveProjectFields({ retenueGarantie: config })}
+      />
+
+      {/* Révision des prix */}
+      <RevisionPrixPanel
+        config={project.revisionPrix}
+        result={revision}
+        onSave={(config) => saveProjectFields({ revisionPrix: config })}
+      />
+
+      {/* Pénalités de retard */}
+      <PenalitesPanel
+        config={project.penalites}
+        result={penalites}
+        dateFinEffective={delaiRetard.dateFinEffective}
+        dateReference={delaiRetard.dateReference}
+        onSave={(config) => saveProjectFields({ penalites: config })}
+      />
+
+      {/* Déductions / additions diverses */}
+      {periode && (
+        <AjustementsPanel
+          configMarche={project.ajustements}
+          configPeriode={periode.ajustements}
+          periodeNumero={periode.numero}
+          result={ajustements}
+          disabled={isVerrouille}
+          onSaveMarche={(config) => saveProjectFields({ ajustements: config })}
+          onSavePeriode={savePeriodeAjustements}
+        />
+      )}
+
+      {/* Décomptes précédents / exercices antérieurs */}
+      <DecomptesPrecedentsPanel
+        calcul={historiquePrecedents}
+        manuel={precedentsManuels}
+        decomptesPrecedents={decomptesPrecedents}
+        depensesExercicesAnterieurs={depensesExercicesAnterieurs}
+        disabled={isVerrouille}
+        onToggleManuel={handleTogglePrecedentsManuels}
+        onChange={(values) => {
+          if (values.decomptesPrecedents !== undefined) setDecomptesPrecedentsSaisis(values.decomptesPrecedents);
+          if (values.depensesExercicesAnterieurs !== undefined) setDepensesAnterieuresSaisies(values.depensesExercicesAnterieurs);
+        }}
+      />
+
+      {/* Concordance avec le classeur Excel du bureau de contrôle */}
+      <ExcelParityPanel lignes={financeLignes} tauxTVA={Number(tauxTVA) || 20} />
+
       {/* Paramètres */}
       <div className="card">
         <h2 className="text-xl font-bold text-gray-900 mb-4">Paramètres du Décompte</h2>
-        <div className="grid grid-cols-3 gap-4">
+        <div className="grid grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Taux TVA (%)</label>
             <input
@@ -1209,144 +1676,10 @@ const PeriodeDecomptePage: FC = () => {
               step="0.1"
             />
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Dépenses exercices antérieurs (DH)
-            </label>
-            <input
-              type="number"
-              value={depensesExercicesAnterieurs}
-              onChange={(e) => setDepensesExercicesAnterieurs(majoration(parseFloat(e.target.value) || 0))}
-              className="input"
-              min="0"
-              step="0.01"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Décomptes précédents (DH)
-            </label>
-            <input
-              type="number"
-              value={decomptesPrecedents}
-              onChange={(e) => setDecomptesPrecedents(majoration(parseFloat(e.target.value) || 0))}
-              className="input"
-              min="0"
-              step="0.01"
-            />
-          </div>
         </div>
       </div>
     </div>
   );
 };
 
-// Helper pour convertir les nombres en lettres (français - format officiel Maroc)
-const numberToWords = (num: number): string => {
-  // Séparer la partie entière et les centimes
-  const dirhams = Math.floor(num);
-  const centimes = Math.round((num - dirhams) * 100);
-
-  const convertNumber = (n: number): string => {
-    const units = ['', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf'];
-    const teens = ['dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf'];
-    const tens = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante', 'soixante', 'quatre-vingt', 'quatre-vingt'];
-
-    if (n === 0) return '';
-    if (n < 10) return units[n];
-    if (n >= 10 && n < 20) return teens[n - 10];
-
-    const ten = Math.floor(n / 10);
-    const unit = n % 10;
-
-    if (ten === 7 || ten === 9) {
-      // 70-79: soixante-dix, soixante-onze, etc.
-      // 90-99: quatre-vingt-dix, quatre-vingt-onze, etc.
-      const baseTen = tens[ten];
-      const remainder = 10 + unit;
-      if (remainder < 20) {
-        return baseTen + '-' + teens[remainder - 10];
-      }
-      return baseTen + '-' + units[unit];
-    }
-
-    if (ten === 8) {
-      // 80: quatre-vingts, 81-89: quatre-vingt-un, etc.
-      if (unit === 0) return 'quatre-vingts';
-      return 'quatre-vingt-' + units[unit];
-    }
-
-    if (unit === 0) return tens[ten];
-    if (unit === 1 && ten === 2) return 'vingt et un';
-    if (unit === 1 && (ten === 3 || ten === 4 || ten === 5 || ten === 6)) return tens[ten] + ' et un';
-    
-    return tens[ten] + '-' + units[unit];
-  };
-
-  const convertHundreds = (n: number): string => {
-    if (n === 0) return '';
-    const hundred = Math.floor(n / 100);
-    const remainder = n % 100;
-
-    let result = '';
-    if (hundred > 1) {
-      result = convertNumber(hundred) + ' cent';
-      if (remainder === 0) result += 's';
-    } else if (hundred === 1) {
-      result = 'cent';
-    }
-
-    if (remainder > 0) {
-      if (result) result += ' ';
-      result += convertNumber(remainder);
-    }
-
-    return result;
-  };
-
-  const convertThousands = (n: number): string => {
-    if (n === 0) return 'zéro';
-    
-    const millions = Math.floor(n / 1000000);
-    const thousands = Math.floor((n % 1000000) / 1000);
-    const hundreds = n % 1000;
-
-    let result = '';
-
-    if (millions > 0) {
-      if (millions === 1) {
-        result += 'un million';
-      } else {
-        result += convertHundreds(millions) + ' millions';
-      }
-    }
-
-    if (thousands > 0) {
-      if (result) result += ' ';
-      if (thousands === 1) {
-        result += 'mille';
-      } else {
-        result += convertHundreds(thousands) + ' mille';
-      }
-    }
-
-    if (hundreds > 0) {
-      if (result) result += ' ';
-      result += convertHundreds(hundreds);
-    }
-
-    return result;
-  };
-
-  let result = convertThousands(dirhams).trim();
-  result = result.charAt(0).toUpperCase() + result.slice(1);
-  result += ' DIRHAMS';
-
-  if (centimes > 0) {
-    result += ', ' + centimes.toString().padStart(2, '0') + ' CTS';
-  }
-
-  return result;
-};
-
 export default PeriodeDecomptePage;
@@ -1,4 +1,4 @@
-import { FC, useState, useEffect } from 'react';
+import { FC, useState, useEffect, useMemo } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import {
@@ -15,9 +15,13 @@ import {
 import { isWeb } from '../utils/platform';
 import { apiService } from '../services/apiService';
 import { assetService, ProjectAsset } from '../services/assetService';
-import { db } from '../db/database';
+import { db, InteretsMoratoiresConfig } from '../db/database';
 import { logSyncOperation } from '../services/syncService';
-import { PhotosTab, PVTab, DocumentsTab } from '../components/project';
+import { PhotosTab, PVTab, DocumentsTab, CreancesCard, InteretsMoratoiresCard, DgdCard, CourbeSCard } from '../components/project';
+import { calculateMontantMarcheTTC, toNumber } from 'shared';
+import { calculateCourbeS } from '../utils/previsionTresorerie';
+import { ADMIN_ROLES } from '../utils/decompteWorkflow';
+import { paiementService, CreancesPortefeuille } from '../services/paiementService';
 import {
   ArrowLeft,
   Edit2,
@@ -128,6 +132,25 @@ const ProjectDetailPage: FC = () => {
     }
   }, [rawId]);
 
+  // 💵 Créances du projet (reste à encaisser sur les décomptes validés)
+  const [creances, setCreances] = useState<CreancesPortefeuille | null>(null);
+  useEffect(() => {
+    if (rawId && isWeb()) {
+      paiementService.getCreances(rawId).then(setCreances);
+    }
+  }, [rawId, decompts]);
+
+  // 📈 Intérêts moratoires: le PUT remplace les champs du projet → envoyer le projet complet
+  const handleSaveInteretsMoratoires = async (config: InteretsMoratoiresConfig) => {
+    try {
+      await apiService.updateProject(rawId!, { ...project, interetsMoratoires: config });
+      refreshProject();
+    } catch (error) {
+      console.error('Error saving interets moratoires:', error);
+      alert('Erreur lors de la sauvegarde des paramètres du marché');
+    }
+  };
+
   // Calculer le montant TTC depuis le bordereau
   const montantTTC = bordereaux && bordereaux.length > 0
     ? bordereaux[0].lignes.reduce((sum: number, ligne: any) => {
@@ -137,6 +160,13 @@ const ProjectDetailPage: FC = () => {
       }, 0)
     : 0;
 
+  // 📈 Courbe en S: montant du marché réparti sur le délai, comparé aux décomptes émis
+  const courbeS = useMemo(() => {
+    if (!project || !bordereaux || bordereaux.length === 0) return null;
+    const montantMarcheTTC = toNumber(calculateMontantMarcheTTC(bordereaux[0].lignes));
+    return calculateCourbeS(project, montantMarcheTTC, decompts || [], periodes || []);
+  }, [project, bordereaux, decompts, periodes]);
+
   // حساب نسبة التقدم من الديكونت التراكمي (Cumul)
   const calculateProgress = () => {
     if (!decompts || decompts.length === 0 || montantTTC === 0) return 0;
@@ -1097,6 +1127,31 @@ const ProjectDetailPage: FC = () => {
               </h2>
             </div>
 
+            <CourbeSCard courbe={courbeS} />
+
+            {isWeb() && (
+              <DgdCard
+                projectId={rawId!}
+                marcheNo={project.marcheNo}
+                objet={project.objet}
+                isAdmin={ADMIN_ROLES.includes(user?.role || '')}
+                refreshKey={decompts}
+                onChanged={refreshProject}
+              />
+            )}
+
+            {creances && creances.montantDu > 0 && <CreancesCard creances={creances} mode="projet" />}
+
+            {creances && creances.montantDu > 0 && (
+              <InteretsMoratoiresCard
+                projectId={rawId!}
+                marcheNo={project.marcheNo}
+                config={project.interetsMoratoires}
+                refreshKey={creances}
+                onSave={handleSaveInteretsMoratoires}
+              />
+            )}
+
             {decompts && decompts.length > 0 ? (
               <div className="grid gap-4">
                 {decompts
@@ -313,6 +313,44 @@ class ApiService {
     return response.data;
   }
 
+  async verifyDecompt(id: string) {
+    const response = await this.client.get(`/decompt/${id}/verify`);
+    return response.data;
+  }
+
+  // Workflow: draft → submitted → validated → paid (réouverture: admins)
+  async changeDecomptStatut(id: string, action: 'submit' | 'validate' | 'pay' | 'reopen', motif?: string) {
+    const response = await this.client.post(`/decompt/${id}/${action}`, motif ? { motif } : {});
+    return response.data;
+  }
+
+  async getDecomptHistorique(id: string) {
+    const response = await this.client.get(`/decompt/${id}/historique`);
+    return response.data;
+  }
+
+  async downloadDecomptPdf(id: string): Promise<Blob> {
+    const response = await this.client.get(`/decompt/${id}/pdf`, { responseType: 'blob' });
+    return response.data;
+  }
+
+  // Génère le PDF et l'enregistre dans les documents du projet (remplace le précédent)
+  async generateDecomptPdf(id: string): Promise<Blob> {
+    const response = await this.client.post(`/decompt/${id}/pdf`, {}, { responseType: 'blob' });
+    return response.data;
+  }
+
+  async downloadDgdPdf(projectId: string): Promise<Blob> {
+    const response = await this.client.get(`/dgd/${projectId}/pdf`, { responseType: 'blob' });
+    return response.data;
+  }
+
+  async downloadInteretsMoratoiresPdf(projectId: string, date?: string): Promise<Blob> {
+    const query = date ? `?date=${date}` : '';
+    const response = await this.client.get(`/paiements/interets/${projectId}/pdf${query}`, { responseType: 'blob' });
+    return response.data;
+  }
+
   async uploadPhoto(projectId: string, file: File, metadata: any) {
     const formData = new FormData();
     formData.append('photo', file);
@@ -0,0 +1,92 @@
+/**
+ * Approvisionnement Service
+ * Materials delivered on site and not yet incorporated, recorded per période
+ * Server-first - the décomptes of the project are recomputed after each change
+ */
+
+import { apiService } from './apiService';
+
+export interface Approvisionnement {
+  id: string;
+  projectId: string;
+  periodeId: string;                    // Période de constat sur chantier
+  designation: string;
+  unite?: string;
+  quantite: number;
+  prixUnitaire: number;                 // Prix HT
+  pourcentageAdmis: number;             // % du montant admis au décompte
+  periodeIncorporationId?: string | null; // Période où les matériaux sont incorporés aux travaux
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface SaveApprovisionnementData {
+  projectId: string;
+  periodeId: string;
+  designation: string;
+  unite?: string;
+  quantite: number;
+  prixUnitaire: number;
+  pourcentageAdmis?: number;
+  periodeIncorporationId?: string | null;
+}
+
+class ApprovisionnementService {
+  private baseUrl = '/approvisionnements';
+
+  /**
+   * List approvisionnements of a project
+   */
+  async listApprovisionnements(projectId: string): Promise<Approvisionnement[]> {
+    try {
+      const response = await apiService.get(`${this.baseUrl}/project/${projectId}`);
+      return response?.data || [];
+    } catch (error) {
+      console.error('Error listing approvisionnements:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record an approvisionnement for a période
+   */
+  async createApprovisionnement(data: SaveApprovisionnementData): Promise<Approvisionnement> {
+    try {
+      const response = await apiService.post(this.baseUrl, data);
+      return response?.data;
+    } catch (error) {
+      console.error('Error creating approvisionnement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an approvisionnement (periodeIncorporationId: null = not incorporated)
+   */
+  async updateApprovisionnement(
+    id: string,
+    data: Partial<Omit<SaveApprovisionnementData, 'projectId' | 'periodeId'>>
+  ): Promise<Approvisionnement> {
+    try {
+      const response = await apiService.put(`${this.baseUrl}/${id}`, data);
+      return response?.data;
+    } catch (error) {
+      console.error('Error updating approvisionnement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an approvisionnement
+   */
+  async deleteApprovisionnement(id: string): Promise<void> {
+    try {
+      await apiService.delete(`${this.baseUrl}/${id}`);
+    } catch (error) {
+      console.error('Error deleting approvisionnement:', error);
+      throw error;
+    }
+  }
+}
+
+export const approvisionnementService = new ApprovisionnementService();
@@ -0,0 +1,95 @@
+/**
+ * Avenant Service
+ * Amendments to the marché: quantity changes, prix nouveaux, délai extensions
+ * Server-first - the initial bordereau is never modified by an avenant
+ */
+
+import { apiService } from './apiService';
+
+export type AvenantLigneType = 'modification' | 'prix_nouveau';
+
+export interface AvenantLigne {
+  type: AvenantLigneType;
+  numero: number;            // N° de prix (existant pour modification, nouveau pour prix_nouveau)
+  quantite: number;          // Nouvelle quantité
+  designation?: string;      // prix_nouveau uniquement
+  unite?: string;            // prix_nouveau uniquement
+  prixUnitaire?: number;     // prix_nouveau uniquement
+}
+
+export interface Avenant {
+  id: string;
+  projectId: string;
+  numero: number;
+  dateAvenant?: string;
+  objet?: string;
+  lignes: AvenantLigne[];
+  delaiSupplementaire: number;   // en mois
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface SaveAvenantData {
+  projectId: string;
+  dateAvenant?: string;
+  objet?: string;
+  lignes: AvenantLigne[];
+  delaiSupplementaire?: number;
+}
+
+class AvenantService {
+  private baseUrl = '/avenants';
+
+  /**
+   * List avenants of a project, ordered by numero
+   */
+  async listAvenants(projectId: string): Promise<Avenant[]> {
+    try {
+      const response = await apiService.get(`${this.baseUrl}/project/${projectId}`);
+      return response?.data || [];
+    } catch (error) {
+      console.error('Error listing avenants:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create an avenant (numero is assigned by the server)
+   */
+  async createAvenant(data: SaveAvenantData): Promise<Avenant> {
+    try {
+      const response = await apiService.post(this.baseUrl, data);
+      return response?.data;
+    } catch (error) {
+      console.error('Error creating avenant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update an avenant
+   */
+  async updateAvenant(id: string, data: Partial<SaveAvenantData>): Promise<Avenant> {
+    try {
+      const response = await apiService.put(`${this.baseUrl}/${id}`, data);
+      return response?.data;
+    } catch (error) {
+      console.error('Error updating avenant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the last avenant
+   */
+  async deleteAvenant(id: string): Promise<void> {
+    try {
+      await apiService.delete(`${this.baseUrl}/${id}`);
+    } catch (error) {
+      console.error('Error deleting avenant:', error);
+      throw error;
+    }
+  }
+}
+
+export const avenantService = new AvenantService();
@@ -0,0 +1,141 @@
+/**
+ * DGD Service
+ * Décompte général et définitif: consolidation des décomptes, quantités finales,
+ * bilan financier, signature (verrouillage financier) et réouverture par un admin
+ */
+
+import { apiService } from './apiService';
+
+export interface DgdPeriode {
+  periodeNumero: number | null;
+  libelle: string;
+  dateDebut: string | null;
+  dateFin: string | null;
+  decomptNumero: number;
+  statut: string;
+  montantAcompte: number;
+  montantPaye: number;
+}
+
+export interface DgdLigne {
+  prixNo: number;
+  designation: string;
+  unite: string;
+  quantiteInitiale: number | null;    // bordereau d'origine (null = prix nouveau par avenant)
+  quantiteContractuelle: number;      // après avenants
+  quantiteRealisee: number;
+  ecartQuantite: number;
+  ecartPourcentage: number | null;
+  prixUnitaireHT: number;
+  montantContractuelHT: number;
+  montantHT: number;
+}
+
+export interface DgdBilan {
+  montantContractuelHT: number;
+  travauxHT: number;
+  montantTVA: number;
+  travauxTTC: number;
+  revisionPrix: number;
+  approvisionnements: number;
+  penalitesRetard: number;
+  montantDefinitif: number;
+  retenueGarantie: number;
+  restitutionRetenue: number;
+  retenueConservee: number;
+  montantAvance: number;
+  remboursementAvance: number;
+  resteAvance: number;
+  deductionsDiverses: number;
+  additionsDiverses: number;
+  acomptesDelivres: number;
+  solde: number;
+  totalDecomptes: number;
+  totalPaye: number;
+  resteAEncaisser: number;
+}
+
+export interface Dgd {
+  projectId: string;
+  statut: 'provisoire' | 'signe';
+  dernierDecompteNumero: number | null;
+  signable: boolean;
+  motifsNonSignable: string[];
+  periodes: DgdPeriode[];
+  lignes: DgdLigne[];
+  bilan: DgdBilan;
+  calculeAt: string;
+  signeAt?: string | null;
+  signeBy?: string | null;
+}
+
+export interface DgdAuditEntry {
+  id: string;
+  projectId: string;
+  userId: string;
+  action: 'sign' | 'reopen';
+  solde?: number | null;
+  motif?: string | null;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  createdAt: string;
+}
+
+class DgdService {
+  private baseUrl = '/dgd';
+
+  /**
+   * DGD of a project (signed snapshot, or provisional)
+   */
+  async getDgd(projectId: string): Promise<Dgd | null> {
+    try {
+      const response = await apiService.get(`${this.baseUrl}/${projectId}`);
+      return response?.data || null;
+    } catch (error) {
+      console.error('Error fetching DGD:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Sign the DGD: amounts frozen, project finances locked
+   */
+  async signDgd(projectId: string): Promise<Dgd> {
+    try {
+      const response = await apiService.post(`${this.baseUrl}/${projectId}/sign`, {});
+      return response?.data;
+    } catch (error) {
+      console.error('Error signing DGD:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reopen a signed DGD (admins only)
+   */
+  async reopenDgd(projectId: string, motif: string): Promise<Dgd> {
+    try {
+      const response = await apiService.post(`${this.baseUrl}/${projectId}/reopen`, { motif });
+      return response?.data;
+    } catch (error) {
+      console.error('Error reopening DGD:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Signature / reopening history
+   */
+  async getHistorique(projectId: string): Promise<DgdAuditEntry[]> {
+    try {
+      const response = await apiService.get(`${this.baseUrl}/${projectId}/historique`);
+      return response?.data || [];
+    } catch (error) {
+      console.error('Error fetching DGD history:', error);
+      return [];
+    }
+  }
+}
+
+export const dgdService = new DgdService();
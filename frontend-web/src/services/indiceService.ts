@@ -0,0 +1,69 @@
+/**
+ * Indice Service
+ * Price indices (BTP1, MGT...) used for révision des prix
+ * Server-first - indices are entered monthly and stored on the server
+ */
+
+import { apiService } from './apiService';
+
+export interface IndicePrix {
+  id: string;
+  code: string;
+  mois: string;        // YYYY-MM
+  valeur: number;
+  source?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface SaveIndiceData {
+  code: string;
+  mois: string;
+  valeur: number;
+  source?: string;
+}
+
+class IndiceService {
+  private baseUrl = '/indices';
+
+  /**
+   * List all indices (optionally filter by code)
+   */
+  async listIndices(code?: string): Promise<IndicePrix[]> {
+    try {
+      const params = code ? `?code=${encodeURIComponent(code)}` : '';
+      const response = await apiService.get(`${this.baseUrl}${params}`);
+      return response?.data || [];
+    } catch (error) {
+      console.error('Error listing indices:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or update the value of an index for a month
+   */
+  async saveIndice(data: SaveIndiceData): Promise<IndicePrix> {
+    try {
+      const response = await apiService.post(this.baseUrl, data);
+      return response?.data;
+    } catch (error) {
+      console.error('Error saving indice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an index value
+   */
+  async deleteIndice(id: string): Promise<void> {
+    try {
+      await apiService.delete(`${this.baseUrl}/${id}`);
+    } catch (error) {
+      console.error('Error deleting indice:', error);
+      throw error;
+    }
+  }
+}
+
+export const indiceService = new IndiceService();
@@ -0,0 +1,194 @@
+/**
+ * Paiement Service
+ * Payments received on validated décomptes (OP / virement, partial payments),
+ * outstanding receivables with aging, per project or for the whole portfolio,
+ * and late-payment interest (intérêts moratoires)
+ */
+
+import { apiService } from './apiService';
+import type { InteretsMoratoiresConfig } from '../db/database';
+
+export type ModePaiement = 'virement' | 'ordre_paiement' | 'cheque';
+
+export interface Paiement {
+  id: string;
+  projectId: string;
+  decomptId: string;
+  decomptNumero?: number;
+  datePaiement: string;
+  montant: number;
+  mode: ModePaiement;
+  reference?: string | null;       // N° OP / virement / chèque
+  observations?: string | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface SavePaiementData {
+  decomptId: string;
+  datePaiement: string;
+  montant: number;
+  mode: ModePaiement;
+  reference?: string;
+  observations?: string;
+}
+
+export type TrancheAnciennete = '0-30' | '31-60' | '61-90' | '+90';
+
+export interface CreanceDecompte {
+  decomptId: string;
+  projectId: string;
+  numero: number;
+  statut: string;
+  montant: number;
+  montantPaye: number;
+  resteAPayer: number;
+  dateExigibilite: string | null;
+  joursEcoules: number;
+  tranche: TrancheAnciennete | null;   // null = soldé
+  enRetard: boolean;
+}
+
+export interface CreancesSynthese {
+  montantDu: number;
+  montantPaye: number;
+  resteAPayer: number;
+  montantEnRetard: number;
+  parTranche: Record<TrancheAnciennete, number>;
+}
+
+export interface CreancesProjet extends CreancesSynthese {
+  projectId: string;
+  marcheNo: string;
+  objet: string;
+  decomptes: CreanceDecompte[];
+}
+
+export interface CreancesPortefeuille extends CreancesSynthese {
+  delaiPaiementJours: number;
+  projets: CreancesProjet[];
+}
+
+export interface InteretsMoratoiresTranche {
+  montant: number;   // Montant réglé (ou restant dû) en retard
+  du: string;
+  au: string;
+  jours: number;
+  taux: number;      // Taux annuel (%)
+  interets: number;
+}
+
+export interface InteretsDecompte {
+  decomptId: string;
+  numero: number;
+  montant: number;
+  montantPaye: number;
+  resteAPayer: number;
+  dateExigibilite: string;
+  dateLimite: string;
+  joursRetard: number;
+  tranches: InteretsMoratoiresTranche[];
+  interets: number;
+}
+
+export interface InteretsMoratoiresProjet {
+  projectId: string;
+  config: InteretsMoratoiresConfig;
+  dateReference: string;
+  decomptes: InteretsDecompte[];   // décomptes réglés (ou non) après la date limite
+  totalInterets: number;
+}
+
+export const MODE_PAIEMENT_LABELS: Record<ModePaiement, string> = {
+  virement: 'Virement',
+  ordre_paiement: 'Ordre de paiement',
+  cheque: 'Chèque',
+};
+
+export const TRANCHES_ANCIENNETE: TrancheAnciennete[] = ['0-30', '31-60', '61-90', '+90'];
+
+class PaiementService {
+  private baseUrl = '/paiements';
+
+  /**
+   * List payments of a project (optionally of one décompte)
+   */
+  async listPaiements(projectId: string, decomptId?: string): Promise<Paiement[]> {
+    try {
+      const query = decomptId ? `?decomptId=${decomptId}` : '';
+      const response = await apiService.get(`${this.baseUrl}/project/${projectId}${query}`);
+      return response?.data || [];
+    } catch (error) {
+      console.error('Error listing paiements:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a payment received for a décompte
+   */
+  async createPaiement(data: SavePaiementData): Promise<Paiement> {
+    try {
+      const response = await apiService.post(this.baseUrl, data);
+      return response?.data;
+    } catch (error) {
+      console.error('Error creating paiement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a payment
+   */
+  async updatePaiement(id: string, data: Partial<Omit<SavePaiementData, 'decomptId'>>): Promise<Paiement> {
+    try {
+      const response = await apiService.put(`${this.baseUrl}/${id}`, data);
+      return response?.data;
+    } catch (error) {
+      console.error('Error updating paiement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a payment
+   */
+  async deletePaiement(id: string): Promise<void> {
+    try {
+      await apiService.delete(`${this.baseUrl}/${id}`);
+    } catch (error) {
+      console.error('Error deleting paiement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Outstanding receivables with aging (one project or the whole portfolio)
+   */
+  async getCreances(projectId?: string): Promise<CreancesPortefeuille | null> {
+    try {
+      const query = projectId ? `?projectId=${projectId}` : '';
+      const response = await apiService.get(`${this.baseUrl}/creances${query}`);
+      return response?.data || null;
+    } catch (error) {
+      console.error('Error fetching creances:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Late-payment interest (intérêts moratoires) of a project at a reference date (default today)
+   */
+  async getInteretsMoratoires(projectId: string, date?: string): Promise<InteretsMoratoiresProjet | null> {
+    try {
+      const query = date ? `?date=${date}` : '';
+      const response = await apiService.get(`${this.baseUrl}/interets/${projectId}${query}`);
+      return response?.data || null;
+    } catch (error) {
+      console.error('Error fetching interets moratoires:', error);
+      return null;
+    }
+  }
+}
+
+export const paiementService = new PaiementService();
@@ -0,0 +1,114 @@
+/**
+ * Approvisionnements - المواد الموجودة في الورش
+ * Un approvisionnement compte de sa période de constat jusqu'à la période de son incorporation:
+ * il est alors déduit automatiquement puisqu'il passe dans les travaux (métré)
+ * ⚠️ Même règle côté serveur: backend/src/utils/decompteCalcul.ts
+ */
+
+import { Approvisionnement } from '../services/approvisionnementService';
+import {
+  Decimal,
+  toDecimal,
+  round2,
+  toNumber,
+  calculateTVAWithInternal,
+  calculateTTCWithInternal,
+} from 'shared';
+
+export const POURCENTAGE_ADMIS_DEFAUT = 80;
+
+export interface ApprovisionnementCalcule extends Approvisionnement {
+  montantHT: number;
+  periodeNumero: number;
+  incorporationNumero: number | null;
+}
+
+export interface ApprovisionnementsPeriode {
+  actifs: ApprovisionnementCalcule[];    // sur chantier à la fin de la période
+  deduits: ApprovisionnementCalcule[];   // payés avant, incorporés dans cette période
+  montantHT: number;
+  montantTVA: number;
+  montantTTC: number;
+  montantDeduitHT: number;
+  _internals: {
+    ttcInternal: Decimal;
+  };
+}
+
+const cleanId = (id?: string | null): string => (id?.includes(':') ? id.split(':').pop()! : id || '');
+
+/**
+ * Montant admis HT d'un approvisionnement = Quantité × Prix × % admis
+ */
+export const calculateMontantApprovisionnementInternal = (appro: {
+  quantite: number;
+  prixUnitaire: number;
+  pourcentageAdmis: number;
+}): Decimal => {
+  return toDecimal(appro.quantite)
+    .times(toDecimal(appro.prixUnitaire))
+    .times(toDecimal(appro.pourcentageAdmis))
+    .dividedBy(100);
+};
+
+/**
+ * Approvisionnements à porter au décompte d'une période (TTC, cumul)
+ */
+export const calculateApprovisionnementsPeriode = (
+  approvisionnements: Approvisionnement[],
+  periodes: { id: string; numero: number }[],
+  numero: number,
+  tauxTVA: number
+): ApprovisionnementsPeriode => {
+  const numeroPeriode = (id?: string | null): number | null => {
+    if (!id) return null;
+    const found = periodes.find(p => cleanId(p.id) === cleanId(id));
+    return found ? found.numero : null;
+  };
+
+  const actifs: ApprovisionnementCalcule[] = [];
+  const deduits: ApprovisionnementCalcule[] = [];
+  let htInternal = new Decimal(0);
+  let deduitInternal = new Decimal(0);
+
+  for (const appro of approvisionnements) {
+    const periodeNumero = numeroPeriode(appro.periodeId);
+    if (periodeNumero === null || periodeNumero > numero) continue;
+    const incorporationNumero = numeroPeriode(appro.periodeIncorporationId);
+
+    const montantInternal = calculateMontantApprovisionnementInternal({
+      quantite: Number(appro.quantite) || 0,
+      prixUnitaire: Number(appro.prixUnitaire) || 0,
+      pourcentageAdmis: Number(appro.pourcentageAdmis) || 0,
+    });
+    const calcule: ApprovisionnementCalcule = {
+      ...appro,
+      montantHT: toNumber(round2(montantInternal)),
+      periodeNumero,
+      incorporationNumero,
+    };
+
+    if (incorporationNumero === null || incorporationNumero > numero) {
+      actifs.push(calcule);
+      htInternal = htInternal.plus(montantInternal);
+    } else if (incorporationNumero === numero && periodeNumero < numero) {
+      deduits.push(calcule);
+      deduitInternal = deduitInternal.plus(montantInternal);
+    }
+  }
+
+  const tva = calculateTVAWithInternal(htInternal, tauxTVA);
+  const ttc = calculateTTCWithInternal(htInternal, toDecimal(tva.display));
+
+  return {
+    actifs,
+    deduits,
+    montantHT: toNumber(round2(htInternal)),
+    montantTVA: tva.display,
+    montantTTC: ttc.display,
+    montantDeduitHT: toNumber(round2(deduitInternal)),
+    _internals: {
+      ttcInternal: ttc.internal,
+    },
+  };
+};
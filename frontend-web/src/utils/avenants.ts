@@ -0,0 +1,133 @@
+/**
+ * Avenants - البوردرو حسب الملحقات
+ * Version du bordereau "initial / après avenant N" + contrôle des seuils
+ * ⚠️ Le bordereau initial n'est jamais modifié: les avenants s'appliquent par-dessus
+ */
+
+import { Bordereau } from '../db/database';
+import { Avenant } from '../services/avenantService';
+import { Decimal, toDecimal, round2, toNumber } from 'shared';
+
+type BordereauLigne = Bordereau['lignes'][number];
+
+export interface BordereauLigneVersion extends BordereauLigne {
+  quantiteInitiale: number;     // 0 pour un prix nouveau
+  prixNouveau?: boolean;
+  avenantNumero?: number;       // dernier avenant ayant modifié la ligne
+}
+
+// Seuils CCAG-Travaux (par rapport au montant initial du marché)
+export const SEUIL_AUGMENTATION_MASSE = 10;  // %
+export const SEUIL_DIMINUTION_MASSE = 25;    // %
+
+export interface SeuilsAvenant {
+  montantInitialHT: number;
+  montantAmendeHT: number;
+  variationHT: number;
+  variationPourcent: number;
+  depasseAugmentation: boolean;
+  depasseDiminution: boolean;
+}
+
+/**
+ * اختيار الملحقات السارية: حتى رقم معين أو حتى تاريخ معين
+ */
+export const filterAvenants = (
+  avenants: Avenant[],
+  options: { jusquAuNumero?: number; jusquALaDate?: string } = {}
+): Avenant[] => {
+  return [...avenants]
+    .filter(a => options.jusquAuNumero === undefined || a.numero <= options.jusquAuNumero)
+    .filter(a => {
+      if (!options.jusquALaDate || !a.dateAvenant) return true;
+      return a.dateAvenant.substring(0, 10) <= options.jusquALaDate.substring(0, 10);
+    })
+    .sort((a, b) => a.numero - b.numero);
+};
+
+/**
+ * تطبيق الملحقات على البوردرو الأصلي
+ */
+export const applyAvenants = (
+  lignes: BordereauLigne[],
+  avenants: Avenant[]
+): BordereauLigneVersion[] => {
+  const version: BordereauLigneVersion[] = lignes.map(l => ({
+    ...l,
+    quantiteInitiale: l.quantite,
+  }));
+
+  for (const avenant of [...avenants].sort((a, b) => a.numero - b.numero)) {
+    for (const modif of avenant.lignes || []) {
+      // Numéros enregistrés en texte avant la validation des avenants côté serveur
+      const existante = version.find(l => Number(l.numero) === Number(modif.numero));
+
+      if (modif.type === 'modification' && existante) {
+        existante.quantite = Number(modif.quantite) || 0;
+        existante.montant = toNumber(round2(toDecimal(existante.quantite).times(toDecimal(existante.prixUnitaire))));
+        existante.avenantNumero = avenant.numero;
+      } else if (modif.type === 'prix_nouveau' && !existante) {
+        const prixUnitaire = Number(modif.prixUnitaire) || 0;
+        const quantite = Number(modif.quantite) || 0;
+        version.push({
+          id: `avenant-${avenant.numero}-prix-${modif.numero}`,
+          numero: Number(modif.numero),
+          designation: modif.designation || '',
+          unite: modif.unite || '',
+          quantite,
+          prixUnitaire,
+          montant: toNumber(round2(toDecimal(quantite).times(toDecimal(prixUnitaire)))),
+          quantiteInitiale: 0,
+          prixNouveau: true,
+          avenantNumero: avenant.numero,
+        });
+      }
+    }
+  }
+
+  return version.sort((a, b) => a.numero - b.numero);
+};
+
+/**
+ * البوردرو الساري لفترة: الملحقات الموقعة قبل نهاية الفترة
+ */
+export const getBordereauVersion = <T extends { lignes: BordereauLigne[] }>(
+  bordereau: T,
+  avenants: Avenant[],
+  options: { jusquAuNumero?: number; jusquALaDate?: string } = {}
+): Omit<T, 'lignes'> & { lignes: BordereauLigneVersion[] } => {
+  return {
+    ...bordereau,
+    lignes: applyAvenants(bordereau.lignes || [], filterAvenants(avenants, options)),
+  };
+};
+
+/**
+ * التحقق من عتبات الزيادة/النقصان في حجم الأشغال مقارنة بالمبلغ الأصلي
+ */
+export const checkSeuilsAvenant = (
+  lignesInitiales: BordereauLigne[],
+  lignesAmendees: BordereauLigneVersion[]
+): SeuilsAvenant => {
+  const total = (lignes: { quantite: number; prixUnitaire: number }[]): Decimal =>
+    lignes.reduce(
+      (acc, l) => acc.plus(toDecimal(l.quantite).times(toDecimal(l.prixUnitaire))),
+      new Decimal(0)
+    );
+
+  const initial = total(lignesInitiales);
+  const amende = total(lignesAmendees);
+  const variation = amende.minus(initial);
+  const variationPourcent = initial.isZero()
+    ? new Decimal(0)
+    : variation.dividedBy(initial).times(100);
+
+  return {
+    montantInitialHT: toNumber(round2(initial)),
+    montantAmendeHT: toNumber(round2(amende)),
+    variationHT: toNumber(round2(variation)),
+    variationPourcent: toNumber(round2(variationPourcent)),
+    depasseAugmentation: variationPourcent.greaterThan(SEUIL_AUGMENTATION_MASSE),
+    depasseDiminution: variationPourcent.negated().greaterThan(SEUIL_DIMINUTION_MASSE),
+  };
+};
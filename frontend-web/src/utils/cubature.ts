@@ -0,0 +1,142 @@
+/**
+ * Cubature des terrassements - profils en travers
+ * Volumes de déblai / remblai entre profils successifs par la moyenne des aires:
+ * V = (S1 + S2) / 2 × distance entre PK
+ */
+
+import * as XLSX from 'xlsx';
+
+export type NatureCubature = 'deblai' | 'remblai';
+
+export interface ProfilTravers {
+  id: string;
+  pk: number;                 // Abscisse en m (0+250 → 250)
+  deblai: number;             // Aire de déblai (m²)
+  remblai: number;            // Aire de remblai (m²)
+}
+
+/**
+ * Cubature rattachée à une section du métré (piste, canal...), re-modifiable
+ */
+export interface CubatureSection {
+  nature: NatureCubature;
+  profils: ProfilTravers[];
+}
+
+export interface TronconCubature {
+  debut: ProfilTravers;
+  fin: ProfilTravers;
+  distance: number;
+  deblai: number;             // m³
+  remblai: number;            // m³
+}
+
+export interface CubatureResult {
+  troncons: TronconCubature[];
+  longueur: number;
+  totalDeblai: number;
+  totalRemblai: number;
+}
+
+export const LIBELLES_NATURE_CUBATURE: Record<NatureCubature, string> = {
+  deblai: 'Déblais',
+  remblai: 'Remblais',
+};
+
+const arrondir = (value: number): number => Math.round(value * 100) / 100;
+
+const nombre = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  const texte = String(value ?? '').trim().replace(/\s/g, '').replace(',', '.');
+  if (!texte) return null;
+  const resultat = Number(texte);
+  return isFinite(resultat) ? resultat : null;
+};
+
+/**
+ * PK saisi en "1+250,50", "1+250.50" ou en mètres "1250.5" → 1250.5
+ * (null si illisible ou négatif: l'origine du tracé est 0+000)
+ */
+export function parsePK(saisie: unknown): number | null {
+  const texte = String(saisie ?? '').trim().replace(/^pk\s*/i, '');
+  const match = texte.match(/^(\d+)\s*\+\s*(\d+(?:[.,]\d+)?)$/);
+  const pk = typeof saisie === 'number'
+    ? (isFinite(saisie) ? saisie : null)
+    : match ? Number(match[1]) * 1000 + Number(match[2].replace(',', '.')) : nombre(texte);
+  return pk !== null && pk >= 0 ? pk : null;
+}
+
+/**
+ * 1250.5 → "1+250.50"
+ * ⚠️ Arrondi au cm avant le découpage km / m: 999.999 → "1+000.00" (et non "0+1000.00")
+ */
+export function formatPK(pk: number): string {
+  // PK négatif (donnée antérieure à la validation de la saisie): signe devant le PK absolu
+  if (pk < 0) return `-${formatPK(-pk)}`;
+  const centimetres = Math.round(pk * 100);
+  const km = Math.floor(centimetres / 100000);
+  const metres = ((centimetres % 100000) / 100).toFixed(2).padStart(6, '0');
+  return `${km}+${metres}`;
+}
+
+/**
+ * Volumes par tronçon entre profils consécutifs (triés par PK)
+ */
+export function calculerCubature(profils: ProfilTravers[]): CubatureResult {
+  const tries = [...profils].sort((a, b) => a.pk - b.pk);
+  const troncons: TronconCubature[] = [];
+
+  for (let i = 1; i < tries.length; i++) {
+    const debut = tries[i - 1];
+    const fin = tries[i];
+    const distance = fin.pk - debut.pk;
+    // ⚠️ Deux profils au même PK: pas de volume
+    if (distance <= 0) continue;
+    troncons.push({
+      debut,
+      fin,
+      distance: arrondir(distance),
+      deblai: arrondir(((debut.deblai + fin.deblai) / 2) * distance),
+      remblai: arrondir(((debut.remblai + fin.remblai) / 2) * distance),
+    });
+  }
+
+  return {
+    troncons,
+    longueur: arrondir(troncons.reduce((sum, t) => sum + t.distance, 0)),
+    totalDeblai: arrondir(troncons.reduce((sum, t) => sum + t.deblai, 0)),
+    totalRemblai: arrondir(troncons.reduce((sum, t) => sum + t.remblai, 0)),
+  };
+}
+
+/**
+ * Lignes PK / déblai / remblai (collage Excel, CSV ; ou tabulations); lignes d'en-tête ignorées
+ */
+export function parseProfilsRows(rows: unknown[][], creerId: () => string): ProfilTravers[] {
+  const profils: ProfilTravers[] = [];
+  for (const row of rows) {
+    if (!row || row.length < 2) continue;
+    const pk = parsePK(row[0]);
+    const deblai = nombre(row[1]);
+    if (pk === null || deblai === null) continue;
+    profils.push({ id: creerId(), pk, deblai, remblai: nombre(row[2]) ?? 0 });
+  }
+  return profils;
+}
+
+export function parseProfilsTexte(texte: string, creerId: () => string): ProfilTravers[] {
+  const rows = texte
+    .split(/\r?\n/)
+    .map(ligne => (ligne.includes('\t') ? ligne.split('\t') : ligne.split(';')));
+  return parseProfilsRows(rows, creerId);
+}
+
+/**
+ * Première feuille d'un classeur: colonnes PK, aire de déblai, aire de remblai
+ */
+export function parseProfilsExcel(data: ArrayBuffer, creerId: () => string): ProfilTravers[] {
+  const workbook = XLSX.read(data);
+  const feuille = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json(feuille, { header: 1, raw: true, defval: '' }) as unknown[][];
+  return parseProfilsRows(rows, creerId);
+}
@@ -0,0 +1,338 @@
+/**
+ * Décompte Excel export
+ * Même présentation que le classeur officiel, avec des formules vivantes:
+ * le maître d'ouvrage peut auditer chaque montant dans son propre Excel.
+ * ⚠️ Les formules reproduisent financeEngine: TRUNC pour TVA / plafond de la retenue, ROUND pour l'acompte;
+ * l'arrondi d'affichage (round2) correspond au format de cellule (Excel calcule en pleine précision)
+ */
+
+import * as XLSX from 'xlsx';
+import {
+  Decimal,
+  toDecimal,
+  toNumber,
+  round2,
+  trunc2,
+  calculateMontantHTInternal,
+  calculateRetenueGarantie,
+  tauxTVALigne,
+  libelleAjustement,
+  type AjustementCalcule,
+} from 'shared';
+
+const FORMAT_MONTANT = '#,##0.00';
+const FORMAT_QUANTITE = '#,##0.00';
+const FEUILLE_APPRO = 'Approvisionnements';
+
+export interface DecompteExcelLigne {
+  prixNo: number;
+  designation: string;
+  unite: string;
+  quantiteRealisee: number;
+  prixUnitaireHT: number;
+  tauxTVA?: number | null;
+}
+
+export interface DecompteExcelApprovisionnement {
+  designation: string;
+  unite?: string;
+  quantite: number;
+  prixUnitaire: number;
+  pourcentageAdmis: number;
+}
+
+export interface DecompteExcelData {
+  project: { marcheNo?: string; objet?: string; societe?: string; typeMarche?: string };
+  periode: { numero: number; dateFin: string; isDecompteDernier?: boolean };
+  lignes: DecompteExcelLigne[];
+  tauxTVA: number;
+  approvisionnements: DecompteExcelApprovisionnement[];
+  revisionTTC: number;               // valeur interne (non arrondie)
+  retenue: {
+    tauxRetenue: number;
+    montantMarche: number;           // marché TTC, base du plafond
+    plafond: number | null;          // % du marché (null: pas de plafond)
+    montantCaution: number;
+    restitution: boolean;            // décompte dernier après réception définitive
+  };
+  depensesExercicesAnterieurs: number;
+  decomptesPrecedents: number;
+  penalitesRetard: number;
+  penalitesJustification?: string;
+  remboursementAvance: number;
+  ajustements?: AjustementCalcule[];   // déductions / additions diverses, ordre du récapitulatif
+}
+
+type Row = (XLSX.CellObject | string | number | null)[];
+
+const montant = (v: Decimal | number, f?: string): XLSX.CellObject => ({
+  t: 'n',
+  v: v instanceof Decimal ? toNumber(v) : v,
+  z: FORMAT_MONTANT,
+  ...(f ? { f } : {}),
+});
+
+const quantite = (v: number): XLSX.CellObject => ({ t: 'n', v, z: FORMAT_QUANTITE });
+
+const pourcentage = (v: number): XLSX.CellObject => ({ t: 'n', v, z: '0.00"%"' });
+
+/**
+ * Total HT / TVA / TTC d'un tableau dont les montants sont dans la colonne F
+ * TVA = TRUNC(HT × taux; 2), TTC = HT + TVA (comme calculateTTCWithInternal)
+ * Plusieurs taux (colonne G): TVA de chaque taux = TRUNC(SUMIF(G; taux; F) × taux; 2), comme calculateTVAParTaux
+ */
+const piedTVA = (
+  rows: Row[],
+  premiere: number,
+  derniere: number,
+  groupes: { taux: number; htInternal: Decimal }[],
+  libelle: string
+): { htRow: number; ttcRow: number; ttcInternal: Decimal } => {
+  const somme = derniere >= premiere ? `SUM(F${premiere}:F${derniere})` : '0';
+  const htInternal = groupes.reduce((sum, g) => sum.plus(g.htInternal), new Decimal(0));
+  const tvas = groupes.map(g => trunc2(g.htInternal.times(toDecimal(g.taux)).dividedBy(100)));
+  const tva = tvas.reduce((sum, t) => sum.plus(t), new Decimal(0));
+  const ttcInternal = htInternal.plus(tva);
+
+  const htRow = rows.length + 1;
+  rows.push(['', `Total ${libelle} hors TVA`, '', '', '', montant(htInternal, somme)]);
+  if (groupes.length === 1) {
+    rows.push(['', 'T.V.A', '', '', pourcentage(groupes[0].taux), montant(tva, `TRUNC(F${htRow}*E${htRow + 1}/100,2)`)]);
+  } else {
+    groupes.forEach((g, i) => {
+      const r = rows.length + 1;
+      const base = `SUMIF(G${premiere}:G${derniere},E${r},F${premiere}:F${derniere})`;
+      rows.push(['', g.taux === 0 ? 'Exonéré de T.V.A' : 'T.V.A', '', '', pourcentage(g.taux), montant(tvas[i], `TRUNC(${base}*E${r}/100,2)`)]);
+    });
+    rows.push(['', 'Total T.V.A', '', '', '', montant(tva, `SUM(F${htRow + 1}:F${rows.length})`)]);
+  }
+  const tvaRow = rows.length;
+  rows.push(['', `Total ${libelle} T.T.C`, '', '', '', montant(ttcInternal, `F${htRow}+F${tvaRow}`)]);
+
+  return { htRow, ttcRow: rows.length, ttcInternal };
+};
+
+/**
+ * Build the décompte workbook (live formulas) and download it
+ */
+export const exportDecompteExcel = (data: DecompteExcelData): void => {
+  const { project, periode, tauxTVA } = data;
+  const dernier = !!periode.isDecompteDernier;
+  const workbook = XLSX.utils.book_new();
+
+  // ============================================================
+  // 🧱 APPROVISIONNEMENTS: Montant admis = Quantité × Prix × % admis
+  // ============================================================
+  let approTTC: { cellule: string; internal: Decimal } | null = null;
+  let approSheet: XLSX.WorkSheet | null = null;
+  if (data.approvisionnements.length > 0) {
+    const rows: Row[] = [
+      ['ETAT DES APPROVISIONNEMENTS'],
+      [],
+      ['Matériaux', 'U', 'Quantité', 'Prix U hors TVA', '% admis', 'Montant admis hors TVA'],
+    ];
+    const premiere = rows.length + 1;
+    let htInternal = new Decimal(0);
+    for (const a of data.approvisionnements) {
+      const r = rows.length + 1;
+      const admis = toDecimal(a.quantite).times(toDecimal(a.prixUnitaire)).times(toDecimal(a.pourcentageAdmis)).dividedBy(100);
+      htInternal = htInternal.plus(admis);
+      rows.push([
+        a.designation,
+        a.unite || '',
+        quantite(Number(a.quantite) || 0),
+        montant(Number(a.prixUnitaire) || 0),
+        pourcentage(Number(a.pourcentageAdmis) || 0),
+        montant(admis, `C${r}*D${r}*E${r}/100`),
+      ]);
+    }
+    const pied = piedTVA(rows, premiere, rows.length, [{ taux: tauxTVA, htInternal }], 'approvisionnements');
+    approTTC = { cellule: `'${FEUILLE_APPRO}'!F${pied.ttcRow}`, internal: pied.ttcInternal };
+
+    approSheet = XLSX.utils.aoa_to_sheet(rows);
+    approSheet['!cols'] = [{ wch: 40 }, { wch: 8 }, { wch: 12 }, { wch: 16 }, { wch: 10 }, { wch: 22 }];
+  }
+
+  // ============================================================
+  // DÉCOMPTE: en-tête + tableau des prix (colonne G = taux de TVA si plusieurs taux)
+  // ============================================================
+  const tauxLignes = data.lignes.map(l => tauxTVALigne(l.tauxTVA, tauxTVA));
+  const multiTaux = new Set(tauxLignes).size > 1;
+  const rows: Row[] = [
+    ['ROYAUME DU MAROC'],
+    [`${project.typeMarche === 'negocie' ? 'MARCHE NEGOCIE' : 'MARCHE'} N°${project.marcheNo || ''}`],
+    [project.objet || ''],
+    ...(project.societe ? [[`Société: ${project.societe}`]] : []),
+    [],
+    [`DECOMPTE PROVISOIRE N°${periode.numero}${dernier ? ' et dernier' : ''}`],
+    [`Des travaux exécutés au: ${new Date(periode.dateFin).toLocaleDateString('fr-FR')}`],
+    [],
+    [
+      'Prix N°', 'Désignation des ouvrages', 'U', 'Quantité', 'Prix U En DH hors TVA', 'Prix total En DH hors TVA',
+      ...(multiTaux ? ['TVA'] : []),
+    ],
+  ];
+
+  const premiere = rows.length + 1;
+  const htParTaux = new Map<number, Decimal>();
+  data.lignes.forEach((l, i) => {
+    const r = rows.length + 1;
+    // 🔒 EXCEL: Montant = Quantité × PU sans arrondi intermédiaire
+    const montantInternal = calculateMontantHTInternal(l.quantiteRealisee, l.prixUnitaireHT);
+    htParTaux.set(tauxLignes[i], (htParTaux.get(tauxLignes[i]) || new Decimal(0)).plus(montantInternal));
+    rows.push([
+      l.prixNo,
+      l.designation,
+      l.unite,
+      quantite(l.quantiteRealisee),
+      montant(l.prixUnitaireHT),
+      montant(montantInternal, `D${r}*E${r}`),
+      ...(multiTaux ? [pourcentage(tauxLignes[i])] : []),
+    ]);
+  });
+  // Taux décroissants, comme le récapitulatif de l'application
+  const groupes = [...htParTaux.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([taux, htInternal]) => ({ taux, htInternal }))
+    .filter(g => !g.htInternal.isZero());
+  const travaux = piedTVA(
+    rows, premiere, rows.length, groupes.length > 0 ? groupes : [{ taux: tauxTVA, htInternal: new Decimal(0) }], 'travaux'
+  );
+  const ttc = `F${travaux.ttcRow}`;
+  rows.push([]);
+
+  // ============================================================
+  // 🛡️ RETENUE DE GARANTIE: MIN(Base×taux; TRUNC(Marché×plafond;2)) − caution
+  // ============================================================
+  const { retenue } = data;
+  const revisionInternal = toDecimal(data.revisionTTC);
+  const retenueResult = calculateRetenueGarantie({
+    baseRetenue: travaux.ttcInternal.plus(revisionInternal),
+    tauxRetenue: retenue.tauxRetenue,
+    montantMarche: retenue.montantMarche,
+    plafond: retenue.plafond,
+    montantCaution: retenue.montantCaution,
+    restitution: retenue.restitution,
+  });
+  const retenueCalculee = retenueResult._internals.retenueCalculeeInternal;
+  // La ligne de révision est placée dans la récapitulation (calculée plus bas)
+  const p = rows.length + 2;
+  const recapDebut = p + 10;
+  const revisionRow = data.revisionTTC ? recapDebut + 3 : null;
+  const base = revisionRow ? `(${ttc}+D${revisionRow})` : ttc;
+  rows.push(
+    ['RETENUE DE GARANTIE'],
+    ['', 'Taux de la retenue', '', '', '', pourcentage(retenue.tauxRetenue)],
+    ['', 'Montant du marché T.T.C', '', '', '', montant(retenue.montantMarche)],
+    ['', 'Plafond (% du marché)', '', '', '', retenue.plafond === null ? 'Sans plafond' : pourcentage(retenue.plafond)],
+    ['', 'Caution bancaire de substitution', '', '', '', montant(retenue.montantCaution)],
+    ['', 'Retenue calculée', '', '', '', montant(retenueCalculee, `${base}*F${p}/100`)],
+    // Sans plafond: le plafond de la retenue est la retenue calculée
+    [
+      '', 'Plafond de la retenue', '', '', '',
+      retenueResult.montantPlafond === null
+        ? montant(retenueCalculee, `F${p + 4}`)
+        : montant(retenueResult.montantPlafond, `TRUNC(F${p + 1}*F${p + 2}/100,2)`),
+    ],
+    [
+      '', 'Retenue de garantie', '', '', '',
+      montant(
+        retenueResult._internals.retenueGarantieInternal,
+        `MIN(F${p + 4},F${p + 5})-MIN(MAX(F${p + 3},0),MIN(F${p + 4},F${p + 5}))`
+      ),
+    ],
+    [],
+  );
+  const retenueCell = `F${p + 6}`;
+
+  // ============================================================
+  // RÉCAPITULATION
+  // ============================================================
+  rows.push(['RECAPITULATION'], ['NATURE DES DEPENSES', '', '', 'MONTANTS', 'RETENUE DE', 'RESTES']);
+  const recapRows: Row[] = [
+    [
+      'Travaux terminés', '', '',
+      montant(dernier ? travaux.ttcInternal : 0, dernier ? ttc : undefined),
+      montant(dernier ? retenueResult._internals.retenueGarantieInternal : 0, dernier ? retenueCell : undefined),
+    ],
+    [
+      'Travaux non terminés', '', '',
+      montant(dernier ? 0 : travaux.ttcInternal, dernier ? undefined : ttc),
+      montant(dernier ? 0 : retenueResult._internals.retenueGarantieInternal, dernier ? undefined : retenueCell),
+    ],
+    [
+      'Approvisionnements', '', '',
+      montant(approTTC?.internal || 0, approTTC?.cellule),
+      montant(0),
+    ],
+    ...(revisionRow ? [['Révision des prix', '', '', montant(revisionInternal), montant(0)] as Row] : []),
+    ...(retenue.restitution
+      ? [['Restitution de la retenue de garantie', '', '', montant(0), montant(retenueResult._internals.restitutionInternal.negated(), `-${retenueCell}`)] as Row]
+      : []),
+  ];
+  const totauxRow = recapDebut + recapRows.length;
+  let totalMontants = new Decimal(0);
+  let totalRetenues = new Decimal(0);
+  recapRows.forEach((row, i) => {
+    const r = recapDebut + i;
+    const m = toDecimal((row[3] as XLSX.CellObject).v as number);
+    const ret = toDecimal((row[4] as XLSX.CellObject).v as number);
+    totalMontants = totalMontants.plus(m);
+    totalRetenues = totalRetenues.plus(ret);
+    rows.push([...row, montant(m.minus(ret), `D${r}-E${r}`)]);
+  });
+  const restes = totalMontants.minus(totalRetenues);
+  rows.push([
+    'TOTAUX', '', '',
+    montant(totalMontants, `SUM(D${recapDebut}:D${totauxRow - 1})`),
+    montant(totalRetenues, `SUM(E${recapDebut}:E${totauxRow - 1})`),
+    montant(restes, `SUM(F${recapDebut}:F${totauxRow - 1})`),
+  ]);
+
+  // Déductions: exercices antérieurs, acomptes délivrés, pénalités, avance, puis ajustements divers (±)
+  const anterieurs = toDecimal(data.depensesExercicesAnterieurs);
+  const resteAPayer = restes.minus(anterieurs);
+  rows.push(
+    ['À déduire les dépenses imputées sur exercices antérieurs', '', '', '', '', montant(anterieurs)],
+    ["Reste à payer sur l'exercice en cours", '', '', '', '', montant(resteAPayer, `F${totauxRow}-F${totauxRow + 1}`)],
+    ["À déduire le montant des acomptes délivrés sur l'exercice en cours", '', '', '', '', montant(data.decomptesPrecedents)],
+  );
+  const resteRow = totauxRow + 2;
+  const termes = [`-F${totauxRow + 3}`];
+  let montantAcompte = resteAPayer.minus(toDecimal(data.decomptesPrecedents));
+  if (data.penalitesRetard) {
+    rows.push([
+      `À déduire les pénalités de retard${data.penalitesJustification ? ` (remise: ${data.penalitesJustification})` : ''}`,
+      '', '', '', '', montant(data.penalitesRetard),
+    ]);
+    termes.push(`-F${rows.length}`);
+    montantAcompte = montantAcompte.minus(toDecimal(data.penalitesRetard));
+  }
+  if (data.remboursementAvance) {
+    rows.push(["À déduire le remboursement de l'avance", '', '', '', '', montant(data.remboursementAvance)]);
+    termes.push(`-F${rows.length}`);
+    montantAcompte = montantAcompte.minus(toDecimal(data.remboursementAvance));
+  }
+  for (const ajustement of data.ajustements || []) {
+    rows.push([libelleAjustement(ajustement), '', '', '', '', montant(ajustement.montant)]);
+    const addition = ajustement.sens === 'addition';
+    termes.push(`${addition ? '+' : '-'}F${rows.length}`);
+    montantAcompte = addition
+      ? montantAcompte.plus(toDecimal(ajustement.montant))
+      : montantAcompte.minus(toDecimal(ajustement.montant));
+  }
+  // 🔒 EXCEL: Montant de l'acompte = ROUND(Reste à payer − déductions + additions; 2)
+  rows.push([
+    "Montant de l'acompte à délivrer", '', '', '', '',
+    montant(round2(montantAcompte), `ROUND(F${resteRow}${termes.join('')},2)`),
+  ]);
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 10 }, { wch: 60 }, { wch: 8 }, { wch: 16 }, { wch: 18 }, { wch: 22 }, { wch: 8 }];
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Décompte');
+  if (approSheet) {
+    XLSX.utils.book_append_sheet(workbook, approSheet, FEUILLE_APPRO);
+  }
+
+  XLSX.writeFile(workbook, `Decompte_${periode.numero}_${(project.marcheNo || 'marche').replace(/[^\w-]+/g, '_')}.xlsx`);
+};
@@ -1,7 +1,7 @@
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
+import autoTable, { type RowInput } from 'jspdf-autotable';
 import { Project, Bordereau, Periode } from '../db/database';
-import { formatMontant as financeFormatMontant } from './financeEngine';
+import { formatMontant as financeFormatMontant, libelleAjustement, montantEnLettres, type AjustementCalcule } from 'shared';
 
 interface DecompteLigne {
   prixNo: number;
@@ -24,115 +24,68 @@ interface RecapData {
   travauxTermines: number;
   travauxNonTermines: number;
   approvisionnements: number;
+  revisionPrix?: number;
   totalAvantRetenue: number;
   retenueGarantie: number;
+  retenueRemplaceeParCaution?: number;
+  restitutionRetenue?: number;
   resteAPayer: number;
   depensesExercicesAnterieurs: number;
+  penalitesRetard?: number;
+  penalitesJustification?: string;
+  remboursementAvance?: number;
+  ajustements?: AjustementCalcule[];
   totalADeduire: number;
   montantAcompte: number;
+  groupesTVA?: { taux: number; totalHT: number; montantTVA: number; totalTTC: number }[];
 }
 
-// Conversion des nombres en lettres (français)
-function numberToWords(num: number): string {
-  const dirhams = Math.floor(num);
-  const centimes = Math.round((num - dirhams) * 100);
-
-  const convertNumber = (n: number): string => {
-    const units = ['', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf'];
-    const teens = ['dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf'];
-    const tens = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante', 'soixante', 'quatre-vingt', 'quatre-vingt'];
-
-    if (n === 0) return '';
-    if (n < 10) return units[n];
-    if (n >= 10 && n < 20) return teens[n - 10];
-
-    const ten = Math.floor(n / 10);
-    const unit = n % 10;
-
-    if (ten === 7 || ten === 9) {
-      const baseTen = tens[ten];
-      const remainder = 10 + unit;
-      if (remainder < 20) return baseTen + '-' + teens[remainder - 10];
-      return baseTen + '-' + units[unit];
-    }
-
-    if (ten === 8) {
-      if (unit === 0) return 'quatre-vingts';
-      return 'quatre-vingt-' + units[unit];
-    }
-
-    if (unit === 0) return tens[ten];
-    if (unit === 1 && ten === 2) return 'vingt et un';
-    if (unit === 1 && (ten === 3 || ten === 4 || ten === 5 || ten === 6)) return tens[ten] + ' et un';
-    
-    return tens[ten] + '-' + units[unit];
-  };
-
-  const convertHundreds = (n: number): string => {
-    if (n === 0) return '';
-    const hundred = Math.floor(n / 100);
-    const remainder = n % 100;
-
-    let result = '';
-    if (hundred > 1) {
-      result = convertNumber(hundred) + ' cent';
-      if (remainder === 0) result += 's';
-    } else if (hundred === 1) {
-      result = 'cent';
-    }
-
-    if (remainder > 0) {
-      if (result) result += ' ';
-      result += convertNumber(remainder);
-    }
-
-    return result;
-  };
-
-  const convertThousands = (n: number): string => {
-    if (n === 0) return 'zéro';
-    
-    const millions = Math.floor(n / 1000000);
-    const thousands = Math.floor((n % 1000000) / 1000);
-    const hundreds = n % 1000;
-
-    let result = '';
-
-    if (millions > 0) {
-      if (millions === 1) {
-        result += 'un million';
-      } else {
-        result += convertHundreds(millions) + ' millions';
-      }
-    }
-
-    if (thousands > 0) {
-      if (result) result += ' ';
-      if (thousands === 1) {
-        result += 'mille';
-      } else {
-        result += convertHundreds(thousands) + ' mille';
-      }
-    }
-
-    if (hundreds > 0) {
-      if (result) result += ' ';
-      result += convertHundreds(hundreds);
-    }
-
-    return result;
-  };
-
-  let result = convertThousands(dirhams).trim();
-  result = result.charAt(0).toUpperCase() + result.slice(1);
-  result += ' DIRHAMS';
+interface ApprovisionnementPdf {
+  designation: string;
+  unite?: string;
+  quantite: number;
+  prixUnitaire: number;
+  pourcentageAdmis: number;
+  montantHT: number;
+}
 
-  if (centimes > 0) {
-    result += ', ' + centimes.toString().padStart(2, '0') + ' CTS';
+// 🔤 Police arabe des montants en lettres (helvetica n'a pas de glyphes arabes)
+const ARABIC_FONT_URL = (import.meta as any).env?.VITE_PDF_ARABIC_FONT_URL || '/fonts/NotoNaskhArabic-Regular.ttf';
+let arabicFont: Promise<string | null> | null = null;
+
+const loadArabicFont = (): Promise<string | null> => {
+  if (!arabicFont) {
+    arabicFont = fetch(ARABIC_FONT_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(buffer => {
+        // base64 par blocs: String.fromCharCode(...) déborde la pile sur un fichier entier
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+      })
+      .catch(error => {
+        console.warn(`⚠️ Police arabe indisponible (${ARABIC_FONT_URL}), montant en lettres en français:`, error);
+        arabicFont = null;
+        return null;
+      });
   }
-
-  return result;
-}
+  return arabicFont;
+};
+
+// Enregistre la police arabe dans le document; false: repli sur le français
+const registerArabicFont = async (doc: jsPDF): Promise<boolean> => {
+  const data = await loadArabicFont();
+  if (!data) return false;
+  doc.addFileToVFS('Arabic.ttf', data);
+  doc.addFont('Arabic.ttf', 'Arabic', 'normal');
+  return true;
+};
 
 // 🔒 FINANCE ENGINE - formatMontant from financeEngine
 function formatMontant(value: number): string {
@@ -150,8 +103,9 @@ export async function generateDecomptePDF(
   montantTVA: number,
   totalTTC: number,
   decomptsPrecedents: DecomptePrecedent[] = [],
-  printDirectly: boolean = false // خيار الطباعة المباشرة
-): Promise<void> {
+  printDirectly: boolean = false, // خيار الطباعة المباشرة
+  approvisionnements: ApprovisionnementPdf[] = []
+): Promise<string | null> { // Avertissement à afficher (police arabe indisponible), sinon null
   const doc = new jsPDF('portrait', 'mm', 'a4');
   const pageWidth = doc.internal.pageSize.width;
   const pageHeight = doc.internal.pageSize.height;
@@ -291,6 +245,35 @@ export async function generateDecomptePDF(
   let bodyEndY = 0;
   let tableLeftX = 0;
   
+  // 🧾 TVA par taux: سطر لكل taux عند تعدد النسب
+  const groupesTVA = recap.groupesTVA || [];
+  const lignesTVA: RowInput[] = groupesTVA.length > 1
+    ? [
+        ...groupesTVA.map((groupe): RowInput => [
+          { content: '', colSpan: 3, styles: { halign: 'left' } },
+          {
+            content: groupe.taux === 0
+              ? `Exonéré de TVA (base ${formatMontant(groupe.totalHT)})`
+              : `TVA ${groupe.taux}% sur ${formatMontant(groupe.totalHT)}`,
+            colSpan: 2,
+            styles: { halign: 'right', fontStyle: 'normal' },
+          },
+          { content: formatMontant(groupe.montantTVA), styles: { halign: 'right', fontStyle: 'normal' } },
+        ]),
+        [
+          { content: '', colSpan: 3, styles: { halign: 'left' } },
+          { content: 'Total TVA', colSpan: 2, styles: { halign: 'right', fontStyle: 'bold' } },
+          { content: formatMontant(montantTVA), styles: { halign: 'right', fontStyle: 'bold' } },
+        ],
+      ]
+    : [
+        [
+          { content: '', colSpan: 3, styles: { halign: 'left' } },
+          { content: `Total TVA (${groupesTVA[0]?.taux ?? tauxTVA}%)`, colSpan: 2, styles: { halign: 'right', fontStyle: 'bold' } },
+          { content: formatMontant(montantTVA), styles: { halign: 'right', fontStyle: 'bold' } },
+        ],
+      ];
+
   autoTable(doc, {
     startY: yPos,
     head: [['Prix N°', 'DESIGNATIONS DES PRESTATIONS', 'U', 'Quantité', 'Prix U En DH\nhors TVA', 'Prix Total En DH\nhors TVA']],
@@ -300,10 +283,7 @@ export async function generateDecomptePDF(
        { content: '', colSpan: 3, styles: { halign: 'left' } },
        { content: 'Total Général Hors TVA', colSpan: 2, styles: { halign: 'right', fontStyle: 'bold' } }, 
        { content: formatMontant(totalHT), styles: { halign: 'right', fontStyle: 'bold' } }],
-      [
-       { content: '', colSpan: 3, styles: { halign: 'left' } },
-       { content: `Total TVA (${tauxTVA}%)`, colSpan: 2, styles: { halign: 'right', fontStyle: 'bold' } },
-       { content: formatMontant(montantTVA), styles: { halign: 'right', fontStyle: 'bold' } }],
+      ...lignesTVA,
       [
        { content: '', colSpan: 3, styles: { halign: 'left' } },
        { content: 'Total Général (T.T.C)', colSpan: 2, styles: { halign: 'right', fontStyle: 'bold' } },
@@ -340,7 +320,7 @@ export async function generateDecomptePDF(
       }
       
       // حفظ موقع نهاية footer
-      if (data.section === 'foot' && data.row.index === 2 && data.column.index === 3) {
+      if (data.section === 'foot' && data.row.index === data.table.foot.length - 1 && data.column.index === 3) {
         footerEndY = data.cell.y + data.cell.height;
       }
       
@@ -382,6 +362,48 @@ export async function generateDecomptePDF(
   // إخفاء الخط الأفقي السفلي
   doc.line(tableLeftX, footerEndY, footerStartX, footerEndY);
 
+  // Etat des approvisionnements (matériaux sur chantier non encore incorporés)
+  if (approvisionnements.length > 0) {
+    let approY = footerEndY + 10;
+    if (approY + 30 > pageHeight - 15) {
+      doc.addPage();
+      approY = 20;
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text('ETAT DES APPROVISIONNEMENTS', pageWidth / 2, approY, { align: 'center' });
+
+    const totalApprovisionnements = approvisionnements.reduce((sum, a) => sum + (Number(a.montantHT) || 0), 0);
+    autoTable(doc, {
+      startY: approY + 4,
+      head: [['Matériaux', 'U', 'Quantité', 'Prix U En DH\nhors TVA', '% admis', 'Montant admis\nhors TVA']],
+      body: approvisionnements.map(a => [
+        a.designation,
+        a.unite || '',
+        Number(a.quantite).toFixed(2),
+        Number(a.prixUnitaire).toFixed(2),
+        `${Number(a.pourcentageAdmis)}%`,
+        Number(a.montantHT).toFixed(2),
+      ]),
+      foot: [[
+        { content: 'Total approvisionnements hors TVA', colSpan: 5, styles: { halign: 'right', fontStyle: 'bold' } },
+        { content: formatMontant(totalApprovisionnements), styles: { halign: 'right', fontStyle: 'bold' } },
+      ]],
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 2 },
+      headStyles: { fillColor: [240, 240, 240], textColor: 0, fontStyle: 'bold', halign: 'center' },
+      footStyles: { fillColor: [255, 255, 255], textColor: 0, fontStyle: 'bold' },
+      columnStyles: {
+        0: { cellWidth: 'auto' },
+        1: { cellWidth: 12, halign: 'center' },
+        2: { cellWidth: 20, halign: 'right' },
+        3: { cellWidth: 25, halign: 'right' },
+        4: { cellWidth: 15, halign: 'right' },
+        5: { cellWidth: 30, halign: 'right' },
+      },
+    });
+  }
+
   // === PAGE 2: Ordre de service + Récapitulation ===
   doc.addPage();
   yPos = 20;
@@ -441,6 +463,22 @@ export async function generateDecomptePDF(
     ['Approvisionnements', recap.approvisionnements.toFixed(2), '0.00', recap.approvisionnements.toFixed(2)],
   ];
 
+  // Révision des prix (marché révisable)
+  if (recap.revisionPrix) {
+    recapData.push(['Révision des prix', recap.revisionPrix.toFixed(2), '0.00', recap.revisionPrix.toFixed(2)]);
+  }
+
+  // Restitution de la retenue de garantie (décompte dernier après réception définitive)
+  const restitutionRetenue = recap.restitutionRetenue || 0;
+  if (restitutionRetenue) {
+    recapData.push(['Restitution de la retenue de garantie', '0.00', (-restitutionRetenue).toFixed(2), restitutionRetenue.toFixed(2)]);
+  }
+
+  const ajustements = recap.ajustements || [];
+  const deductionsDiverses = ajustements
+    .filter(a => a.sens === 'deduction')
+    .reduce((total, a) => total + a.montant, 0);
+
   autoTable(doc, {
     startY: yPos,
     head: [['NATURE DES DEPENSES', 'MONTANTS', 'RETENUE DE', 'RESTES']],
@@ -448,14 +486,26 @@ export async function generateDecomptePDF(
     foot: [
       [{ content: 'TOTAUX', styles: { fontStyle: 'bold' } },
        { content: recap.totalAvantRetenue.toFixed(2), styles: { halign: 'right', fontStyle: 'bold' } },
-       { content: recap.retenueGarantie.toFixed(2), styles: { halign: 'right', fontStyle: 'bold' } },
+       { content: (recap.retenueGarantie - restitutionRetenue).toFixed(2), styles: { halign: 'right', fontStyle: 'bold' } },
        { content: recap.resteAPayer.toFixed(2), styles: { halign: 'right', fontStyle: 'bold' } }],
       [{ content: 'À déduire les dépenses imputées sur exercices antérieurs', colSpan: 3, styles: { fillColor: [255, 255, 255], textColor: 0 } },
        { content: recap.depensesExercicesAnterieurs.toFixed(2), styles: { fillColor: [255, 255, 255], textColor: 0, halign: 'right' } }],
       [{ content: 'Reste à payer sur l\'exercice en cours', colSpan: 3, styles: { fillColor: [255, 255, 255], textColor: 0 } },
        { content: recap.resteAPayer.toFixed(2), styles: { fillColor: [255, 255, 255], textColor: 0, halign: 'right' } }],
       [{ content: 'À déduire le montant des acomptes délivrés sur l\'exercice en cours', colSpan: 3, styles: { fillColor: [255, 255, 255], textColor: 0 } },
-       { content: (recap.totalADeduire - recap.depensesExercicesAnterieurs).toFixed(2), styles: { fillColor: [255, 255, 255], textColor: 0, halign: 'right' } }],
+       { content: (recap.totalADeduire - recap.depensesExercicesAnterieurs - (recap.penalitesRetard || 0) - (recap.remboursementAvance || 0) - deductionsDiverses).toFixed(2), styles: { fillColor: [255, 255, 255], textColor: 0, halign: 'right' } }],
+      ...(recap.penalitesRetard ? [
+        [{ content: `À déduire les pénalités de retard${recap.penalitesJustification ? ` (remise: ${recap.penalitesJustification})` : ''}`, colSpan: 3, styles: { fillColor: [255, 255, 255] as [number, number, number], textColor: 0 } },
+         { content: recap.penalitesRetard.toFixed(2), styles: { fillColor: [255, 255, 255] as [number, number, number], textColor: 0, halign: 'right' as const } }],
+      ] : []),
+      ...(recap.remboursementAvance ? [
+        [{ content: 'À déduire le remboursement de l\'avance', colSpan: 3, styles: { fillColor: [255, 255, 255] as [number, number, number], textColor: 0 } },
+         { content: recap.remboursementAvance.toFixed(2), styles: { fillColor: [255, 255, 255] as [number, number, number], textColor: 0, halign: 'right' as const } }],
+      ] : []),
+      ...ajustements.map(ajustement => [
+        { content: libelleAjustement(ajustement), colSpan: 3, styles: { fillColor: [255, 255, 255] as [number, number, number], textColor: 0 } },
+        { content: ajustement.montant.toFixed(2), styles: { fillColor: [255, 255, 255] as [number, number, number], textColor: 0, halign: 'right' as const } },
+      ]),
       [{ content: 'Montant de l\'acompte à délivrer:', colSpan: 3, styles: { fontStyle: 'bold', fillColor: [255, 255, 255], textColor: 0 } },
        { content: recap.montantAcompte.toFixed(2), styles: { fontStyle: 'bold', fontSize: 10, fillColor: [255, 255, 255], textColor: 0, halign: 'right' } }],
     ],
@@ -481,6 +531,13 @@ export async function generateDecomptePDF(
 
   yPos = (doc as any).lastAutoTable.finalY + 10;
 
+  if (recap.retenueRemplaceeParCaution) {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'italic');
+    doc.text(`Retenue de garantie remplacée par une caution bancaire à hauteur de ${formatMontant(recap.retenueRemplaceeParCaution)} DH`, 10, yPos - 4);
+    yPos += 4;
+  }
+
   // Note explicative
   doc.setFontSize(8);
   doc.setFont('helvetica', 'italic');
@@ -507,25 +564,46 @@ export async function generateDecomptePDF(
   doc.text('Vu et vérifié', 10, yPos);
   yPos += 25;
 
-  // Box blanc - Arrêté par nous
+  // Box blanc - Arrêté par nous (français et/ou arabe selon le projet)
+  const langue = project.langueMontantLettres || 'fr';
+  const arabe = langue !== 'fr' && await registerArabicFont(doc);
+  const { fr, ar } = montantEnLettres(recap.montantAcompte, arabe ? langue : 'fr');
+  const avertissement = langue !== 'fr' && !arabe
+    ? `Police arabe indisponible (${ARABIC_FONT_URL}): le montant en lettres est imprimé en français uniquement.`
+    : null;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  const arreteFr = fr ? doc.splitTextToSize(`Arrêté par nous, Sous-Ordonnateur, à la somme de: ${fr}`, pageWidth - 25) : [];
+  if (ar) doc.setFont('Arabic', 'normal');
+  const arreteAr = ar ? doc.splitTextToSize(`حصر هذا الكشف في مبلغ: ${ar}`, pageWidth - 25) : [];
+  const arreteHeight = Math.max(15, (arreteFr.length + arreteAr.length) * 4 + (fr && ar ? 2 : 0) + 4);
+
   doc.setFillColor(255, 255, 255); // Blanc
-  doc.rect(10, yPos, pageWidth - 20, 15, 'F');
+  doc.rect(10, yPos, pageWidth - 20, arreteHeight, 'F');
   doc.setDrawColor(0);
   doc.setLineWidth(0.2); // سمك الإطار أرق
-  doc.rect(10, yPos, pageWidth - 20, 15, 'S');
-  
-  doc.setFont('helvetica', 'normal');
-  doc.setFontSize(9);
+  doc.rect(10, yPos, pageWidth - 20, arreteHeight, 'S');
+
   doc.setTextColor(0); // Noir
-  const arreteText = `Arrêté par nous, Sous-Ordonnateur, à la somme de: ${numberToWords(recap.montantAcompte)}`;
-  const arreteLines = doc.splitTextToSize(arreteText, pageWidth - 25);
   let arreteY = yPos + 5;
-  arreteLines.forEach((line: string) => {
+  doc.setFont('helvetica', 'normal');
+  arreteFr.forEach((line: string) => {
     doc.text(line, 12, arreteY);
     arreteY += 4;
   });
+  if (arreteAr.length > 0) {
+    // L'arabe s'aligne à droite; jsPDF gère la forme des lettres et le sens d'écriture
+    if (arreteFr.length > 0) arreteY += 2;
+    doc.setFont('Arabic', 'normal');
+    arreteAr.forEach((line: string) => {
+      doc.text(line, pageWidth - 12, arreteY, { align: 'right' });
+      arreteY += 4;
+    });
+    doc.setFont('helvetica', 'normal');
+  }
 
-  yPos += 20;
+  yPos += arreteHeight + 5;
   doc.text('A Tata, Le:', 10, yPos);
   yPos += 10;
   doc.text('Tata, le:', pageWidth / 2, yPos);
@@ -564,4 +642,6 @@ export async function generateDecomptePDF(
     // حفظ PDF كملف
     doc.save(fileName);
   }
+
+  return avertissement;
 }
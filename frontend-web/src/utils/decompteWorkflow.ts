@@ -0,0 +1,47 @@
+/**
+ * Workflow des décomptes - مسار المصادقة
+ * draft → submitted → validated → paid
+ * ⚠️ Une fois validé, la période est verrouillée (métrés + décompte) jusqu'à réouverture par un admin
+ */
+
+import { Decompt } from '../db/database';
+
+export type DecompteStatut = Decompt['statut'];
+export type DecompteAction = 'submit' | 'validate' | 'pay' | 'reopen';
+
+export const STATUT_LABELS: Record<DecompteStatut, string> = {
+  draft: 'Brouillon',
+  submitted: 'Soumis',
+  validated: 'Validé',
+  paid: 'Payé',
+};
+
+export const STATUT_COLORS: Record<DecompteStatut, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  validated: 'bg-green-100 text-green-700',
+  paid: 'bg-purple-100 text-purple-700',
+};
+
+export const ACTION_LABELS: Record<DecompteAction, string> = {
+  submit: 'Soumettre',
+  validate: 'Valider',
+  pay: 'Marquer payé',
+  reopen: 'Rouvrir',
+};
+
+// Action suivante possible pour chaque statut (hors réouverture)
+export const NEXT_ACTION: Record<DecompteStatut, DecompteAction | null> = {
+  draft: 'submit',
+  submitted: 'validate',
+  validated: 'pay',
+  paid: null,
+};
+
+export const ADMIN_ROLES = ['admin', 'super_admin'];
+
+/**
+ * Période validée / facturée: plus aucune modification des métrés ni du décompte
+ */
+export const isPeriodeVerrouillee = (periode?: { statut?: string } | null): boolean =>
+  periode?.statut === 'validee' || periode?.statut === 'facturee';
@@ -0,0 +1,96 @@
+/**
+ * Décomptes précédents - الأقساط السابقة
+ * Acomptes déjà délivrés, répartis par exercice (année budgétaire de la période):
+ * même année → décomptes précédents, année antérieure → exercices antérieurs
+ * 🔒 Seuls les décomptes validés / payés sont pris en compte
+ * ⚠️ Même règle côté serveur: backend/src/utils/decompteCalcul.ts
+ */
+
+import { Decompt, Periode } from '../db/database';
+import { Decimal, toDecimal, round2, toNumber } from 'shared';
+
+export type AffectationPrecedent = 'exercice_en_cours' | 'exercices_anterieurs' | 'exclu';
+
+export interface DecomptePrecedentDetail {
+  numero: number;
+  periodeNumero: number | null;
+  annee: number | null;
+  statut: Decompt['statut'];
+  montant: number;
+  affectation: AffectationPrecedent;
+}
+
+export interface DecomptesPrecedentsCalcul {
+  decomptesPrecedents: number;          // acomptes délivrés sur l'exercice en cours
+  depensesExercicesAnterieurs: number;  // acomptes imputés sur les exercices antérieurs
+  details: DecomptePrecedentDetail[];
+}
+
+export const DECOMPTE_STATUTS_ACQUIS: Decompt['statut'][] = ['validated', 'paid'];
+
+export const AFFECTATION_LABELS: Record<AffectationPrecedent, string> = {
+  exercice_en_cours: 'Exercice en cours',
+  exercices_anterieurs: 'Exercices antérieurs',
+  exclu: 'Non validé - exclu',
+};
+
+const cleanId = (id?: string | null): string => (id?.includes(':') ? id.split(':').pop()! : id || '');
+
+const getAnnee = (date?: string | null): number | null => {
+  if (!date) return null;
+  const annee = new Date(date).getFullYear();
+  return isNaN(annee) ? null : annee;
+};
+
+/**
+ * Répartition des décomptes de numéro inférieur au décompte courant
+ * ⚠️ Clé = numéro du décompte (comme le serveur), et non numéro de la période:
+ * les deux numérotations peuvent diverger
+ */
+export const calculateDecomptesPrecedents = (
+  decomptes: Pick<Decompt, 'numero' | 'periodeId' | 'montantTotal' | 'statut' | 'deletedAt'>[],
+  periodes: Pick<Periode, 'id' | 'numero' | 'dateDebut'>[],
+  periode: Pick<Periode, 'dateDebut'>,
+  numeroDecompte: number
+): DecomptesPrecedentsCalcul => {
+  const anneePeriode = getAnnee(periode.dateDebut);
+  let precedents = new Decimal(0);
+  let anterieurs = new Decimal(0);
+
+  const details = decomptes
+    .filter(d => !d.deletedAt && d.numero < numeroDecompte)
+    .sort((a, b) => a.numero - b.numero)
+    .map((decompt): DecomptePrecedentDetail => {
+      const periodeDecompt = periodes.find(p => cleanId(p.id) === cleanId(decompt.periodeId));
+      const annee = getAnnee(periodeDecompt?.dateDebut);
+      const statut = decompt.statut || 'draft';
+      // montantTotal = "Montant de l'acompte à délivrer" (et non le total TTC)
+      const montant = toDecimal(decompt.montantTotal);
+
+      let affectation: AffectationPrecedent = 'exclu';
+      if (DECOMPTE_STATUTS_ACQUIS.includes(statut) && annee !== null && anneePeriode !== null) {
+        if (annee < anneePeriode) {
+          affectation = 'exercices_anterieurs';
+          anterieurs = anterieurs.plus(montant);
+        } else if (annee === anneePeriode) {
+          affectation = 'exercice_en_cours';
+          precedents = precedents.plus(montant);
+        }
+      }
+
+      return {
+        numero: decompt.numero,
+        periodeNumero: periodeDecompt?.numero ?? null,
+        annee,
+        statut,
+        montant: toNumber(round2(montant)),
+        affectation,
+      };
+    });
+
+  return {
+    decomptesPrecedents: toNumber(round2(precedents)),
+    depensesExercicesAnterieurs: toNumber(round2(anterieurs)),
+    details,
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * Délais d'exécution - حساب الآجال
+ * OSC + délai contractuel + arrêts → date de fin effective
+ * Utilisé par DelaisPage et par le calcul des pénalités de retard
+ */
+
+import { differenceInDays, addMonths, addDays, parseISO, isValid } from 'date-fns';
+import { Project, ArretTravaux } from '../db/database';
+
+// أنواع الحالات
+export type DelaiStatus = 'normal' | 'warning' | 'critical' | 'completed' | 'overdue' | 'no-data';
+
+// حساب إجمالي أيام التوقف
+export const calculateTotalArretDays = (arrets: ArretTravaux[] | undefined): number => {
+  if (!arrets || arrets.length === 0) return 0;
+  
+  return arrets.reduce((total, arret) => {
+    if (arret.dateArret && arret.dateReprise) {
+      const start = parseISO(arret.dateArret);
+      const end = parseISO(arret.dateReprise);
+      if (isValid(start) && isValid(end)) {
+        return total + differenceInDays(end, start);
+      }
+    }
+    return total;
+  }, 0);
+};
+
+// حساب معلومات الآجال
+export const calculateDelaiInfo = (project: Project): { status: DelaiStatus; message?: string; oscDate?: Date; delaiMois?: number; delaiJours?: number; joursArret?: number; dateFinInitiale?: Date; dateFinEffective?: Date; joursEcoules?: number; joursRestants?: number; pourcentage?: number; delaiTotal?: number } => {
+  const today = new Date();
+  
+  // تاريخ البدء (OSC)
+  const oscDate = project.osc ? parseISO(project.osc) : null;
+  if (!oscDate || !isValid(oscDate)) {
+    return { status: 'no-data', message: 'Date OSC non définie' };
+  }
+  
+  // مدة الإنجاز بالأيام
+  // délai contractuel + prolongations accordées par avenants
+  const delaiMois = (project.delaisExecution || 0) + (project.delaiAvenants || 0);
+  if (delaiMois === 0) {
+    return { status: 'no-data', message: 'Délai non défini' };
+  }
+  
+  const delaiJours = delaiMois * 30; // تقريبي
+  
+  // حساب أيام التوقف
+  const joursArret = calculateTotalArretDays(project.arrets);
+  
+  // تاريخ الانتهاء المتوقع (مع احتساب التوقفات)
+  const dateFinInitiale = addMonths(oscDate, delaiMois);
+  const dateFinEffective = addDays(dateFinInitiale, joursArret);
+  
+  // الأيام المنقضية
+  const joursEcoules = differenceInDays(today, oscDate);
+  
+  // الأيام المتبقية
+  const joursRestants = differenceInDays(dateFinEffective, today);
+  
+  // النسبة المئوية
+  const delaiTotal = delaiJours + joursArret;
+  const pourcentage = Math.min(100, Math.max(0, (joursEcoules / delaiTotal) * 100));
+  
+  // تحديد الحالة
+  let status: 'normal' | 'warning' | 'critical' | 'completed' | 'overdue';
+  if (project.dateReceptionDefinitive || project.dateReceptionProvisoire) {
+    status = 'completed';
+  } else if (joursRestants < 0) {
+    status = 'overdue';
+  } else if (joursRestants <= 15) {
+    status = 'critical';
+  } else if (joursRestants <= 30) {
+    status = 'warning';
+  } else {
+    status = 'normal';
+  }
+  
+  return {
+    status,
+    oscDate,
+    delaiMois,
+    delaiJours,
+    joursArret,
+    dateFinInitiale,
+    dateFinEffective,
+    joursEcoules,
+    joursRestants,
+    pourcentage,
+    delaiTotal,
+  };
+};
+
+/**
+ * عدد أيام التأخير في تاريخ مرجعي (0 إذا لم يتجاوز تاريخ الانتهاء الفعلي)
+ * التاريخ المرجعي: تاريخ إنهاء الأشغال إن وجد، وإلا تاريخ نهاية الفترة
+ */
+export const calculateJoursRetard = (
+  project: Project,
+  dateReference: string | Date
+): { joursRetard: number; dateFinEffective?: Date; dateReference?: Date } => {
+  const info = calculateDelaiInfo(project);
+  if (!info.dateFinEffective) return { joursRetard: 0 };
+
+  let reference = typeof dateReference === 'string' ? parseISO(dateReference) : dateReference;
+  if (project.achevementTravaux) {
+    const achevement = parseISO(project.achevementTravaux);
+    if (isValid(achevement) && achevement < reference) {
+      reference = achevement;
+    }
+  }
+  if (!isValid(reference)) return { joursRetard: 0, dateFinEffective: info.dateFinEffective };
+
+  return {
+    joursRetard: Math.max(0, differenceInDays(reference, info.dateFinEffective)),
+    dateFinEffective: info.dateFinEffective,
+    dateReference: reference,
+  };
+};
@@ -0,0 +1,59 @@
+/**
+ * Dépassements de quantités - Excel export
+ * Prix en dépassement (quantités, montants, justification) et variation du montant du marché
+ */
+
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import type { DepassementsResult } from 'shared';
+
+/**
+ * Build the overrun report workbook and download it
+ */
+export const exportDepassementsExcel = (
+  depassements: DepassementsResult,
+  project: { marcheNo?: string; objet?: string },
+  periodeLibelle?: string
+): void => {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['RAPPORT DES DEPASSEMENTS DE QUANTITES'],
+    [`Marché N° ${project.marcheNo || ''}${periodeLibelle ? ` - ${periodeLibelle}` : ''}`],
+    [project.objet || ''],
+    [],
+    ['Prix', 'Désignation', 'U', 'Qté bordereau', 'Qté cumulée', 'Dépassement', '% réalisé', 'Montant HT (DH)', 'Justification'],
+    ...depassements.lignes.map(l => [
+      l.prixNo,
+      l.designation,
+      l.unite,
+      l.quantiteBordereau,
+      l.quantiteRealisee,
+      l.quantiteDepassement,
+      l.pourcentageRealisation ?? '',
+      l.montantDepassementHT,
+      l.justification ? `${l.justification.motif} (${format(new Date(l.justification.date), 'dd/MM/yyyy')})` : 'Non justifié',
+    ]),
+    [],
+    ['', 'Total des dépassements HT', '', '', '', '', '', depassements.montantDepassementHT],
+    ['', 'Montant du marché HT', '', '', '', '', '', depassements.montantMarcheHT],
+    ['', 'Montant réalisé HT', '', '', '', '', '', depassements.montantRealiseHT],
+    ['', 'Variation (%)', '', '', '', '', '', depassements.variationPourcent],
+    [
+      '',
+      'Justification (marché)',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      depassements.justificationMarche?.motif || (depassements.depasseSeuilMarche ? 'Non justifié' : ''),
+    ],
+  ]);
+  sheet['!cols'] = [
+    { wch: 8 }, { wch: 40 }, { wch: 6 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 10 }, { wch: 16 }, { wch: 40 },
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Dépassements');
+  XLSX.writeFile(workbook, `Depassements_${project.marcheNo || 'marche'}.xlsx`);
+};
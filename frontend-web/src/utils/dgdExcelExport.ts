@@ -0,0 +1,106 @@
+/**
+ * DGD Excel export
+ * Trois feuilles: décomptes par période, quantités finales par prix, bilan financier
+ */
+
+import * as XLSX from 'xlsx';
+import { format } from 'date-fns';
+import type { Dgd } from '../services/dgdService';
+
+const STATUT_LABELS: Record<string, string> = {
+  draft: 'Brouillon',
+  submitted: 'Soumis',
+  validated: 'Validé',
+  paid: 'Payé',
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'dd/MM/yyyy') : '');
+
+/**
+ * Build the DGD workbook and download it
+ */
+export const exportDgdExcel = (dgd: Dgd, project: { marcheNo?: string; objet?: string }): void => {
+  const { bilan } = dgd;
+  const titre = [
+    [`DECOMPTE GENERAL ET DEFINITIF${dgd.statut === 'signe' ? '' : ' (PROJET - NON SIGNE)'}`],
+    [`Marché N° ${project.marcheNo || ''}`],
+    [project.objet || ''],
+    [],
+  ];
+
+  // Décomptes par période
+  const decomptes = XLSX.utils.aoa_to_sheet([
+    ...titre,
+    ['N° Décompte', 'Période', 'Du', 'Au', 'Statut', 'Acompte (DH)', 'Encaissé (DH)'],
+    ...dgd.periodes.map(p => [
+      p.decomptNumero,
+      p.libelle,
+      formatDate(p.dateDebut),
+      formatDate(p.dateFin),
+      STATUT_LABELS[p.statut] || p.statut,
+      p.montantAcompte,
+      p.montantPaye,
+    ]),
+    ['', '', '', '', 'Total', bilan.totalDecomptes, bilan.totalPaye],
+  ]);
+  decomptes['!cols'] = [{ wch: 12 }, { wch: 24 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 16 }, { wch: 16 }];
+
+  // Quantités finales par prix
+  const quantites = XLSX.utils.aoa_to_sheet([
+    ...titre,
+    [
+      'Prix N°', 'Désignation', 'Unité', 'Q. initiale', 'Q. contractuelle', 'Q. réalisée',
+      'Écart', 'Écart (%)', 'P.U. HT', 'Montant contractuel HT', 'Montant réalisé HT',
+    ],
+    ...dgd.lignes.map(l => [
+      l.prixNo,
+      l.designation,
+      l.unite,
+      l.quantiteInitiale ?? '',
+      l.quantiteContractuelle,
+      l.quantiteRealisee,
+      l.ecartQuantite,
+      l.ecartPourcentage ?? '',
+      l.prixUnitaireHT,
+      l.montantContractuelHT,
+      l.montantHT,
+    ]),
+    ['', 'Total HT', '', '', '', '', '', '', '', bilan.montantContractuelHT, bilan.travauxHT],
+  ]);
+  quantites['!cols'] = [
+    { wch: 8 }, { wch: 48 }, { wch: 8 }, { wch: 12 }, { wch: 14 }, { wch: 12 },
+    { wch: 10 }, { wch: 10 }, { wch: 12 }, { wch: 20 }, { wch: 18 },
+  ];
+
+  // Bilan financier
+  const bilanSheet = XLSX.utils.aoa_to_sheet([
+    ...titre,
+    ['Désignation', 'Montant (DH)'],
+    ['Montant des travaux HT', bilan.travauxHT],
+    ['T.V.A', bilan.montantTVA],
+    ['Montant des travaux TTC', bilan.travauxTTC],
+    ['Révision des prix', bilan.revisionPrix],
+    ['Approvisionnements', bilan.approvisionnements],
+    ['Pénalités de retard', -bilan.penalitesRetard],
+    ['Montant définitif du marché', bilan.montantDefinitif],
+    ['Retenue de garantie', -bilan.retenueGarantie],
+    ['Retenue de garantie restituée', bilan.restitutionRetenue],
+    ['Avance remboursée', -bilan.remboursementAvance],
+    ...(bilan.deductionsDiverses ? [['Déductions diverses', -bilan.deductionsDiverses]] : []),
+    ...(bilan.additionsDiverses ? [['Additions diverses', bilan.additionsDiverses]] : []),
+    ['Acomptes délivrés (décomptes antérieurs)', -bilan.acomptesDelivres],
+    ['SOLDE DU DECOMPTE GENERAL ET DEFINITIF', bilan.solde],
+    [],
+    ['Total encaissé', bilan.totalPaye],
+    ['Reste à encaisser', bilan.resteAEncaisser],
+    ...(dgd.signeAt ? [[], ['Signé le', formatDate(dgd.signeAt)]] : []),
+  ]);
+  bilanSheet['!cols'] = [{ wch: 44 }, { wch: 18 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, bilanSheet, 'Bilan');
+  XLSX.utils.book_append_sheet(workbook, decomptes, 'Décomptes');
+  XLSX.utils.book_append_sheet(workbook, quantites, 'Quantités');
+
+  XLSX.writeFile(workbook, `DGD_${project.marcheNo || 'marche'}${dgd.statut === 'signe' ? '' : '_provisoire'}.xlsx`);
+};
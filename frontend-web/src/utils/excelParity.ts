@@ -0,0 +1,271 @@
+/**
+ * Excel parity - مقارنة الديكونت مع ملف Excel المرجعي (bureau de contrôle)
+ * Lecture du classeur: tableau des prix (N°, désignation, quantité, PU, montant) + totaux HT / TVA / TTC,
+ * puis comparaison ligne par ligne avec calculateDecompteWithInternals
+ */
+
+import * as XLSX from 'xlsx';
+import {
+  Decimal,
+  toDecimal,
+  toNumber,
+  calculateDecompteWithInternals,
+  validateAgainstExcel,
+  type LigneDecompte,
+} from 'shared';
+
+export const TOLERANCE_DEFAUT = 0.01;
+
+export interface ExcelLigneReference {
+  prixNo: string;
+  designation: string;
+  quantite: number | null;
+  prixUnitaire: number | null;
+  montantHT: number | null;
+}
+
+export interface ExcelDecompteReference {
+  feuille: string;
+  lignes: ExcelLigneReference[];
+  totalHT: number | null;
+  tva: number | null;
+  ttc: number | null;
+  montantAcompte: number | null;
+}
+
+export type ParityStatut = 'ok' | 'ecart' | 'absent_excel' | 'absent_app';
+
+export interface ParityLigne {
+  prixNo: string;
+  designation: string;
+  app: { quantite: number; prixUnitaire: number; montantHT: number } | null;
+  excel: ExcelLigneReference | null;
+  ecartQuantite: number;
+  ecartPrixUnitaire: number;
+  ecartMontant: number;
+  statut: ParityStatut;
+}
+
+export interface ParityTotal {
+  libelle: string;
+  app: number;
+  excel: number | null;
+  ecart: number | null;
+  ok: boolean;
+}
+
+export interface ParityReport {
+  tolerance: number;
+  lignes: ParityLigne[];
+  totaux: ParityTotal[];
+  valid: boolean;
+  differences: string[];
+}
+
+// ============================================================
+// LECTURE DU CLASSEUR
+// ============================================================
+
+const texte = (cell: unknown): string => String(cell ?? '').replace(/\s+/g, ' ').trim();
+
+const nombre = (cell: unknown): number | null => {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : null;
+  // Format français: "1 234,56"
+  const normalise = texte(cell).replace(/[\s ]/g, '').replace(',', '.');
+  if (!normalise || !/^-?\d+(\.\d+)?$/.test(normalise)) return null;
+  return parseFloat(normalise);
+};
+
+const normaliserPrixNo = (value: unknown): string => texte(value).replace(/\.$/, '').toUpperCase();
+
+// Dernière valeur numérique d'une ligne (colonne des montants)
+const dernierNombre = (row: unknown[]): number | null => {
+  for (let i = row.length - 1; i >= 0; i--) {
+    const n = nombre(row[i]);
+    if (n !== null) return n;
+  }
+  return null;
+};
+
+interface Colonnes {
+  prixNo: number;
+  designation: number;
+  quantite: number;
+  prixUnitaire: number;
+  montant: number;
+}
+
+const trouverColonnes = (row: unknown[]): Colonnes | null => {
+  const cells = row.map(c => texte(c).toLowerCase());
+  const find = (test: (c: string) => boolean) => cells.findIndex(test);
+
+  const quantite = find(c => c.startsWith('quantit'));
+  const designation = find(c => c.includes('désignation') || c.includes('designation'));
+  if (quantite < 0 || designation < 0) return null;
+
+  const prixUnitaire = find(c => /prix\s*u|p\.\s*u|^pu\b/.test(c));
+  const montant = cells.reduce(
+    (last, c, i) => (i !== prixUnitaire && /prix total|montant|total/.test(c) ? i : last),
+    -1
+  );
+  const prixNo = find(c => /^(prix\s*)?n[°o]/.test(c) || c === 'prix');
+
+  return {
+    prixNo: prixNo >= 0 ? prixNo : 0,
+    designation,
+    quantite,
+    prixUnitaire,
+    montant,
+  };
+};
+
+/**
+ * Parse the reference décompte workbook (first sheet containing the prices table)
+ */
+export const parseExcelDecompte = (data: ArrayBuffer): ExcelDecompteReference => {
+  const workbook = XLSX.read(data);
+
+  for (const feuille of workbook.SheetNames) {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[feuille], { header: 1, raw: true, defval: '' }) as unknown[][];
+    const headerIndex = rows.findIndex(row => trouverColonnes(row) !== null);
+    if (headerIndex < 0) continue;
+
+    const colonnes = trouverColonnes(rows[headerIndex])!;
+    const reference: ExcelDecompteReference = {
+      feuille,
+      lignes: [],
+      totalHT: null,
+      tva: null,
+      ttc: null,
+      montantAcompte: null,
+    };
+
+    let dansTableau = true;
+    for (const row of rows.slice(headerIndex + 1)) {
+      const libelle = row.map(texte).filter(Boolean).join(' ').toLowerCase();
+      if (!libelle) continue;
+
+      const prixNo = normaliserPrixNo(row[colonnes.prixNo]);
+      const quantite = nombre(row[colonnes.quantite]);
+      const montantHT = colonnes.montant >= 0 ? nombre(row[colonnes.montant]) : null;
+      if (dansTableau && prixNo && quantite !== null && montantHT !== null) {
+        reference.lignes.push({
+          prixNo,
+          designation: texte(row[colonnes.designation]),
+          quantite,
+          prixUnitaire: colonnes.prixUnitaire >= 0 ? nombre(row[colonnes.prixUnitaire]) : null,
+          montantHT,
+        });
+        continue;
+      }
+
+      // Totaux: "Total hors TVA", "T.V.A 20%", "Total T.T.C", "Montant de l'acompte"
+      const horsTVA = /hors\s*t\.?v\.?a\b/.test(libelle);
+      const estTTC = /\bt\.?t\.?c\b/.test(libelle);
+      const estTVA = !estTTC && !horsTVA && /\bt\.?v\.?a\b/.test(libelle);
+      const estHT = !estTTC && (horsTVA || /total\s*h\.?t\b/.test(libelle));
+      const estAcompte = /montant de l.acompte/.test(libelle);
+      if (!estHT && !estTVA && !estTTC && !estAcompte) continue;
+
+      dansTableau = false;
+      const valeur = dernierNombre(row);
+      if (estAcompte) reference.montantAcompte ??= valeur;
+      else if (/approvisionnement/.test(libelle)) continue;
+      else if (estHT) reference.totalHT ??= valeur;
+      // Plusieurs taux: une ligne par taux puis "Total T.V.A"
+      else if (estTVA) reference.tva = /total/.test(libelle) ? valeur : reference.tva ?? valeur;
+      else reference.ttc ??= valeur;
+    }
+
+    return reference;
+  }
+
+  throw new Error('Tableau des prix introuvable (colonnes Désignation / Quantité)');
+};
+
+// ============================================================
+// COMPARAISON
+// ============================================================
+
+// ⚠️ Comparaison en pleine précision: le classeur garde les montants non arrondis
+const ecart = (app: Decimal | number, excel: number | null): number =>
+  excel === null ? 0 : toNumber(toDecimal(app).minus(toDecimal(excel)));
+
+/**
+ * Line-by-line difference report between the app and the reference workbook
+ */
+export const compareWithExcel = (
+  lignes: LigneDecompte[],
+  tauxTVA: number,
+  reference: ExcelDecompteReference,
+  tolerance: number = TOLERANCE_DEFAUT
+): ParityReport => {
+  const calcul = calculateDecompteWithInternals(lignes, tauxTVA);
+  const excelParPrix = new Map(reference.lignes.map(l => [l.prixNo, l]));
+  const vus = new Set<string>();
+
+  const parityLignes: ParityLigne[] = calcul.lignes
+    // Les prix non exécutés ne figurent généralement pas dans le classeur
+    .filter(l => l.quantiteRealisee !== 0 || excelParPrix.has(normaliserPrixNo(l.prixNo)))
+    .map((l): ParityLigne => {
+      const prixNo = normaliserPrixNo(l.prixNo);
+      const excel = excelParPrix.get(prixNo) || null;
+      vus.add(prixNo);
+
+      const app = { quantite: l.quantiteRealisee, prixUnitaire: l.prixUnitaireHT, montantHT: l.montantHT };
+      const ecartMontant = ecart(l.montantHTInternal ?? app.montantHT, excel?.montantHT ?? null);
+      return {
+        prixNo,
+        designation: l.designation,
+        app,
+        excel,
+        ecartQuantite: excel?.quantite != null ? toNumber(toDecimal(app.quantite).minus(toDecimal(excel.quantite))) : 0,
+        ecartPrixUnitaire: excel?.prixUnitaire != null ? toNumber(toDecimal(app.prixUnitaire).minus(toDecimal(excel.prixUnitaire))) : 0,
+        ecartMontant,
+        statut: !excel ? 'absent_excel' : Math.abs(ecartMontant) > tolerance ? 'ecart' : 'ok',
+      };
+    });
+
+  // Prix présents dans le classeur mais pas dans l'application
+  for (const excel of reference.lignes) {
+    if (vus.has(excel.prixNo)) continue;
+    parityLignes.push({
+      prixNo: excel.prixNo,
+      designation: excel.designation,
+      app: null,
+      excel,
+      ecartQuantite: 0,
+      ecartPrixUnitaire: 0,
+      ecartMontant: ecart(0, excel.montantHT),
+      statut: 'absent_app',
+    });
+  }
+
+  const totaux: ParityTotal[] = [
+    { libelle: 'Total HT', app: calcul.totalHT, internal: calcul._internals?.totalHTInternal, excel: reference.totalHT },
+    { libelle: 'TVA', app: calcul.montantTVA, internal: undefined, excel: reference.tva },
+    { libelle: 'Total TTC', app: calcul.totalTTC, internal: calcul._internals?.ttcInternal, excel: reference.ttc },
+  ].map(({ internal, ...t }) => {
+    const e = t.excel === null ? null : ecart(internal ?? t.app, t.excel);
+    return { ...t, ecart: e, ok: e === null || Math.abs(e) <= tolerance };
+  });
+
+  // ⚠️ Un total absent du classeur n'est pas compté comme un écart
+  const { differences } = validateAgainstExcel(
+    { totalHT: calcul.totalHT, tva: calcul.montantTVA, ttc: calcul.totalTTC },
+    {
+      totalHT: reference.totalHT ?? calcul.totalHT,
+      tva: reference.tva ?? calcul.montantTVA,
+      ttc: reference.ttc ?? calcul.totalTTC,
+    },
+    tolerance
+  );
+
+  return {
+    tolerance,
+    lignes: parityLignes,
+    totaux,
+    valid: differences.length === 0 && parityLignes.every(l => l.statut === 'ok'),
+    differences,
+  };
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDecompteWithInternals,
+  calculateRecap,
+  calculateRetenueGarantie,
+  calculateTotalHTWithInternal,
+  calculateTTCWithInternal,
+  calculateTVAParTaux,
+  calculateTVAWithInternal,
+  plafondRetenueConfig,
+  toDecimal,
+  type LigneDecompte,
+} from 'shared';
+
+// Montants choisis pour que TRUNC et ROUND divergent sur la TVA et le TTC
+const lignes: LigneDecompte[] = [
+  { prixNo: 1, designation: 'Déblais', unite: 'M3', quantiteBordereau: 500, quantiteRealisee: 74.38, prixUnitaireHT: 123.457 },
+  { prixNo: 2, designation: 'Béton', unite: 'M3', quantiteBordereau: 80, quantiteRealisee: 12.07, prixUnitaireHT: 1099.99, tauxTVA: 20 },
+  { prixNo: 3, designation: 'Aciers', unite: 'KG', quantiteBordereau: 4000, quantiteRealisee: 1333.33, prixUnitaireHT: 14.333, tauxTVA: null },
+];
+
+describe('calculateDecompteWithInternals - un seul taux', () => {
+  // Chemin d'origine: Total HT → calculateTVAWithInternal → calculateTTCWithInternal(HT, TVA internal)
+  const totalHT = calculateTotalHTWithInternal(lignes);
+  const tva = calculateTVAWithInternal(totalHT.internal, 20);
+  const ttc = calculateTTCWithInternal(totalHT.internal, tva.internal);
+
+  const result = calculateDecompteWithInternals(lignes, 20);
+
+  it('donne les mêmes totaux que le calcul HT / TVA / TTC d\'origine', () => {
+    expect(result.totalHT).toBe(totalHT.display);
+    expect(result.montantTVA).toBe(tva.display);
+    expect(result.totalTTC).toBe(ttc.display);
+  });
+
+  it('garde les valeurs internes en pleine précision', () => {
+    expect(result._internals?.totalHTInternal.equals(totalHT.internal)).toBe(true);
+    expect(result._internals?.tvaInternal.equals(tva.internal)).toBe(true);
+    expect(result._internals?.ttcInternal.equals(ttc.internal)).toBe(true);
+    expect(result._internals?.tvaInternal.equals(toDecimal(result.montantTVA))).toBe(false);
+  });
+
+  it('un seul groupe de TVA', () => {
+    expect(result.groupesTVA).toEqual([
+      { taux: 20, totalHT: totalHT.display, montantTVA: tva.display, totalTTC: calculateTTCWithInternal(totalHT.internal, toDecimal(tva.display)).display },
+    ]);
+  });
+});
+
+describe('calculateTVAParTaux - un seul taux', () => {
+  it('TVA tronquée, TTC = HT internal + TVA tronquée', () => {
+    const totalHT = calculateTotalHTWithInternal(lignes);
+    const tva = calculateTVAWithInternal(totalHT.internal, 20);
+    const result = calculateTVAParTaux(lignes, 20);
+
+    expect(result.montantTVA).toBe(tva.display);
+    expect(result.tvaInternal.equals(tva.internal)).toBe(true);
+    expect(result.totalTTC.display).toBe(calculateTTCWithInternal(totalHT.internal, toDecimal(tva.display)).display);
+  });
+});
+
+describe('calculateRetenueGarantie', () => {
+  const base = toDecimal('49884.27582');
+
+  it('retenue calculée en pleine précision, arrondie à l\'affichage seulement', () => {
+    const retenue = calculateRetenueGarantie({ baseRetenue: base, tauxRetenue: 10, montantMarche: 1000000, plafond: 7 });
+    expect(retenue._internals.retenueGarantieInternal.equals(base.times(0.1))).toBe(true);
+    expect(retenue.retenueGarantie).toBe(4988.43);
+  });
+
+  it('plafond vide: pas de plafond', () => {
+    const retenue = calculateRetenueGarantie({ baseRetenue: base, tauxRetenue: 10, montantMarche: 10000, plafond: null });
+    expect(retenue.montantPlafond).toBeNull();
+    expect(retenue.plafondAtteint).toBe(false);
+    expect(retenue._internals.retenueGarantieInternal.equals(base.times(0.1))).toBe(true);
+  });
+
+  it('plafond absent de la configuration: 7% du marché', () => {
+    expect(plafondRetenueConfig(undefined)).toBe(7);
+    expect(plafondRetenueConfig(null)).toBeNull();
+    expect(plafondRetenueConfig('')).toBeNull();
+    expect(plafondRetenueConfig('8')).toBe(8);
+    expect(plafondRetenueConfig(0)).toBe(0);
+  });
+});
+
+describe('calculateRecap', () => {
+  it('retenue → exercices antérieurs → décomptes précédents → pénalités / avance → acompte', () => {
+    const ttcInternal = toDecimal('120000.005');
+    const recap = calculateRecap({
+      totalTTC: 120000.01,
+      totalTTCInternal: ttcInternal,
+      isDecompteDernier: false,
+      tauxRetenue: 10,
+      montantMarcheTTC: 1000000,
+      depensesExercicesAnterieurs: 10000,
+      decomptesPrecedents: toDecimal(50000),
+      penalitesRetard: 1500,
+      remboursementAvance: 2000,
+    });
+
+    // 120000.005 − 12000.0005 − 10000 − 50000 − 1500 − 2000 = 44500.0045
+    expect(recap.retenueGarantie).toBe(12000);
+    expect(recap.resteAPayer).toBe(108000);
+    expect(recap.totalADeduire).toBe(63500);
+    expect(recap.montantAcompte).toBe(44500);
+    expect(recap.travauxNonTermines).toBe(120000.01);
+    expect(recap.retenue.montantPlafond).toBe(70000);
+  });
+});
@@ -107,6 +107,272 @@ export function getPoidsUnitaire(diametre: number): number {
   return POIDS_ACIER[diametre] || 0;
 }
 
+// ============== CATALOGUE DES FORMES ==============
+
+// Dimensions saisies sur une ligne de métré (m, sauf diamètre d'acier / DN en mm)
+export type ChampDimension =
+  | 'longueur'
+  | 'largeur'
+  | 'petiteLargeur'
+  | 'profondeur'
+  | 'diametreOuvrage'
+  | 'epaisseur'
+  | 'nombre'
+  | 'diametre';
+
+export type DimensionsMetre = Partial<Record<ChampDimension, number>>;
+
+// Ordre des colonnes quand plusieurs formes sont utilisées sur un même prix
+export const ORDRE_DIMENSIONS: ChampDimension[] = [
+  'nombre', 'longueur', 'largeur', 'petiteLargeur', 'profondeur', 'diametreOuvrage', 'epaisseur', 'diametre',
+];
+
+export const LIBELLES_DIMENSIONS: Record<ChampDimension, string> = {
+  longueur: 'Longueur (m)',
+  largeur: 'Largeur (m)',
+  petiteLargeur: 'Petite base (m)',
+  profondeur: 'Profondeur (m)',
+  diametreOuvrage: 'Diamètre (m)',
+  epaisseur: 'Épaisseur (m)',
+  nombre: 'Nombre',
+  diametre: 'Diamètre (mm)',
+};
+
+// Symboles des formules (surchargés par forme: B pour la grande base...)
+export const SYMBOLES_DIMENSIONS: Record<ChampDimension, string> = {
+  longueur: 'L',
+  largeur: 'l',
+  petiteLargeur: 'b',
+  profondeur: 'H',
+  diametreOuvrage: 'D',
+  epaisseur: 'e',
+  nombre: 'N',
+  diametre: 'Ø',
+};
+
+/**
+ * Forme de métré: champs saisis, formule imprimée sur l'attachement et calcul du partiel
+ * (hors nombre de parties semblables et déduction, appliqués par calculatePartiel)
+ */
+export interface FormeMetre {
+  id: string;
+  label: string;
+  type: CalculationType;
+  champs: ChampDimension[];
+  formule: string;
+  libelles?: Partial<Record<ChampDimension, string>>;
+  symboles?: Partial<Record<ChampDimension, string>>;
+  calculer: (d: DimensionsMetre) => number;
+}
+
+const v = (value: number | undefined) => value || 0;
+
+export const FORMES_METRE: Record<string, FormeMetre> = {};
+
+/**
+ * Ajoute (ou remplace) une forme du catalogue
+ */
+export function registerFormeMetre(forme: FormeMetre): void {
+  FORMES_METRE[forme.id] = forme;
+}
+
+// 🧱 Volumes
+registerFormeMetre({
+  id: 'pave',
+  label: 'Parallélépipède',
+  type: 'volume',
+  champs: ['longueur', 'largeur', 'profondeur'],
+  formule: 'L × l × H',
+  calculer: d => v(d.longueur) * v(d.largeur) * v(d.profondeur),
+});
+registerFormeMetre({
+  id: 'canal_trapezoidal',
+  label: 'Section trapézoïdale (canal, fossé)',
+  type: 'volume',
+  champs: ['longueur', 'largeur', 'petiteLargeur', 'profondeur'],
+  formule: '(B + b) / 2 × H × L',
+  libelles: { largeur: 'Grande base B (m)', petiteLargeur: 'Petite base b (m)', profondeur: 'Hauteur H (m)' },
+  symboles: { largeur: 'B' },
+  calculer: d => ((v(d.largeur) + v(d.petiteLargeur)) / 2) * v(d.profondeur) * v(d.longueur),
+});
+registerFormeMetre({
+  id: 'prisme_triangulaire',
+  label: 'Prisme triangulaire (talus, remblai)',
+  type: 'volume',
+  champs: ['longueur', 'largeur', 'profondeur'],
+  formule: 'l × H / 2 × L',
+  libelles: { largeur: 'Base (m)', profondeur: 'Hauteur (m)' },
+  calculer: d => (v(d.largeur) * v(d.profondeur) / 2) * v(d.longueur),
+});
+registerFormeMetre({
+  id: 'cylindre',
+  label: 'Cylindre (puits, fouille de regard)',
+  type: 'volume',
+  champs: ['diametreOuvrage', 'profondeur'],
+  formule: 'π × D² / 4 × H',
+  calculer: d => (Math.PI * v(d.diametreOuvrage) ** 2 / 4) * v(d.profondeur),
+});
+registerFormeMetre({
+  id: 'paroi_cylindrique',
+  label: 'Paroi cylindrique (regard, buse, cuvelage)',
+  type: 'volume',
+  champs: ['diametreOuvrage', 'epaisseur', 'profondeur'],
+  formule: 'π × (D − e) × e × H',
+  libelles: { diametreOuvrage: 'Ø extérieur D (m)' },
+  // Couronne π/4 × (D² − (D − 2e)²) = π × (D − e) × e
+  calculer: d => Math.PI * (v(d.diametreOuvrage) - v(d.epaisseur)) * v(d.epaisseur) * v(d.profondeur),
+});
+registerFormeMetre({
+  id: 'profils_moyens',
+  label: 'Moyenne des aires (profils en travers)',
+  type: 'volume',
+  champs: ['longueur', 'largeur', 'petiteLargeur'],
+  formule: '(S1 + S2) / 2 × L',
+  libelles: { longueur: 'Distance L (m)', largeur: 'Aire S1 (m²)', petiteLargeur: 'Aire S2 (m²)' },
+  symboles: { largeur: 'S1', petiteLargeur: 'S2' },
+  calculer: d => ((v(d.largeur) + v(d.petiteLargeur)) / 2) * v(d.longueur),
+});
+
+// Surfaces
+registerFormeMetre({
+  id: 'rectangle',
+  label: 'Rectangle',
+  type: 'surface',
+  champs: ['longueur', 'largeur'],
+  formule: 'L × l',
+  calculer: d => v(d.longueur) * v(d.largeur),
+});
+registerFormeMetre({
+  id: 'trapeze',
+  label: 'Trapèze (section, talus)',
+  type: 'surface',
+  champs: ['largeur', 'petiteLargeur', 'profondeur'],
+  formule: '(B + b) / 2 × H',
+  libelles: { largeur: 'Grande base B (m)', petiteLargeur: 'Petite base b (m)', profondeur: 'Hauteur H (m)' },
+  symboles: { largeur: 'B' },
+  calculer: d => ((v(d.largeur) + v(d.petiteLargeur)) / 2) * v(d.profondeur),
+});
+registerFormeMetre({
+  id: 'triangle',
+  label: 'Triangle (pignon)',
+  type: 'surface',
+  champs: ['largeur', 'profondeur'],
+  formule: 'l × H / 2',
+  libelles: { largeur: 'Base (m)', profondeur: 'Hauteur (m)' },
+  calculer: d => v(d.largeur) * v(d.profondeur) / 2,
+});
+registerFormeMetre({
+  id: 'disque',
+  label: 'Disque (dalle de regard)',
+  type: 'surface',
+  champs: ['diametreOuvrage'],
+  formule: 'π × D² / 4',
+  calculer: d => Math.PI * v(d.diametreOuvrage) ** 2 / 4,
+});
+registerFormeMetre({
+  id: 'surface_cylindrique',
+  label: 'Surface latérale cylindrique (enduit de puits)',
+  type: 'surface',
+  champs: ['diametreOuvrage', 'profondeur'],
+  formule: 'π × D × H',
+  libelles: { profondeur: 'Hauteur H (m)' },
+  calculer: d => Math.PI * v(d.diametreOuvrage) * v(d.profondeur),
+});
+
+// Linéaires
+registerFormeMetre({
+  id: 'lineaire',
+  label: 'Longueur',
+  type: 'lineaire',
+  champs: ['longueur'],
+  formule: 'L',
+  calculer: d => v(d.longueur),
+});
+registerFormeMetre({
+  id: 'conduite',
+  label: 'Conduite par diamètre (DN)',
+  type: 'lineaire',
+  champs: ['diametre', 'longueur'],
+  formule: 'L (DN)',
+  libelles: { diametre: 'DN (mm)' },
+  symboles: { diametre: 'DN' },
+  calculer: d => v(d.longueur),
+});
+
+// Poids et unités
+registerFormeMetre({
+  id: 'acier',
+  label: 'Acier (nombre × longueur × poids unitaire)',
+  type: 'poids',
+  champs: ['nombre', 'longueur', 'diametre'],
+  formule: 'N × L × poids unitaire (Ø)',
+  calculer: d => v(d.nombre) * v(d.longueur) * getPoidsUnitaire(v(d.diametre)),
+});
+registerFormeMetre({
+  id: 'unite',
+  label: 'Nombre',
+  type: 'unite',
+  champs: ['nombre'],
+  formule: 'N',
+  calculer: d => v(d.nombre),
+});
+
+// Forme retenue quand la ligne n'en précise pas (métrés existants)
+const FORME_PAR_DEFAUT: Record<CalculationType, string> = {
+  volume: 'pave',
+  surface: 'rectangle',
+  lineaire: 'lineaire',
+  poids: 'acier',
+  unite: 'unite',
+};
+
+/**
+ * Formes proposées pour l'unité d'un prix
+ */
+export function getFormesForUnite(unite: string): FormeMetre[] {
+  const calcType = getCalculationType(unite);
+  return calcType ? Object.values(FORMES_METRE).filter(f => f.type === calcType.type) : [];
+}
+
+/**
+ * Forme d'une ligne: la forme choisie si elle convient à l'unité, sinon celle par défaut
+ */
+export function getFormeLigne(unite: string, forme?: string): FormeMetre | undefined {
+  const calcType = getCalculationType(unite);
+  if (!calcType) return undefined;
+  const choisie = forme ? FORMES_METRE[forme] : undefined;
+  return choisie && choisie.type === calcType.type ? choisie : FORMES_METRE[FORME_PAR_DEFAUT[calcType.type]];
+}
+
+// Les déductions (ouvertures, vides) ne concernent pas les comptages
+export function accepteDeduction(unite: string): boolean {
+  const calcType = getCalculationType(unite);
+  return !!calcType && calcType.type !== 'unite';
+}
+
+export const libelleDimension = (forme: FormeMetre | undefined, champ: ChampDimension): string =>
+  forme?.libelles?.[champ] || LIBELLES_DIMENSIONS[champ];
+
+export const symboleDimension = (forme: FormeMetre | undefined, champ: ChampDimension): string =>
+  forme?.symboles?.[champ] || SYMBOLES_DIMENSIONS[champ];
+
+/**
+ * Colonnes de dimensions d'un prix: union des champs des formes utilisées par ses lignes
+ */
+export function getChampsForLignes(unite: string, lignes: { forme?: string }[]): ChampDimension[] {
+  const formes = lignes.length > 0
+    ? lignes.map(l => getFormeLigne(unite, l.forme))
+    : [getFormeLigne(unite)];
+  const champs = new Set(formes.flatMap(f => f?.champs || []));
+  return ORDRE_DIMENSIONS.filter(c => champs.has(c));
+}
+
+// Options de forme d'une ligne de métré
+export interface FormeLigneOptions extends DimensionsMetre {
+  forme?: string;
+  deduction?: boolean;    // Ouverture / vide: partiel négatif
+}
+
 // Fonction pour calculer le partiel d'une ligne de métré
 export function calculatePartiel(
   unite: UniteType,
@@ -115,45 +381,49 @@ export function calculatePartiel(
   profondeur?: number,
   nombre?: number,
   diametre?: number,
-  nombreSemblables?: number // Nombre des parties semblables (multiplicateur)
+  nombreSemblables?: number, // Nombre des parties semblables (multiplicateur)
+  options: FormeLigneOptions = {}
 ): number {
-  const calcType = CALCULATION_TYPES_CONFIG[unite];
-  
+  const forme = getFormeLigne(unite, options.forme);
+  if (!forme) return 0;
+
   // Le multiplicateur par défaut est 1 si non spécifié
   const multiplier = nombreSemblables && nombreSemblables > 0 ? nombreSemblables : 1;
-  
-  let result = 0;
-  
-  switch (calcType.type) {
-    case 'volume':
-      result = (longueur || 0) * (largeur || 0) * (profondeur || 0);
-      break;
-      
-    case 'surface':
-      result = (longueur || 0) * (largeur || 0);
-      break;
-      
-    case 'lineaire':
-      result = longueur || 0;
-      break;
-      
-    case 'poids': {
-      const poidsUnitaire = getPoidsUnitaire(diametre || 0);
-      const totalKg = (nombre || 0) * (longueur || 0) * poidsUnitaire;
-      result = unite === 'T' ? totalKg / 1000 : totalKg;
-      break;
-    }
-      
-    case 'unite':
-      result = nombre || 0;
-      break;
-      
-    default:
-      result = 0;
-  }
-  
+
+  let result = forme.calculer({ ...options, longueur, largeur, profondeur, nombre, diametre });
+  // Les formes de poids donnent des kg
+  if (forme.type === 'poids' && unite === 'T') result = result / 1000;
+
+  const signe = options.deduction && accepteDeduction(unite) ? -1 : 1;
   // Multiplier par le nombre de parties semblables
-  return result * multiplier;
+  return signe * result * multiplier;
+}
+
+/**
+ * Formule d'une ligne pour l'attachement:
+ * "Section trapézoïdale (canal, fossé): (B + b) / 2 × H × L avec L = 25.00, B = 1.20, b = 0.60, H = 0.80"
+ */
+export function formuleLigne(
+  unite: string,
+  ligne: FormeLigneOptions & { nombreSemblables?: number }
+): string {
+  const forme = getFormeLigne(unite, ligne.forme);
+  if (!forme) return '';
+  const valeurs = forme.champs
+    .map(c => `${symboleDimension(forme, c)} = ${c === 'nombre' || c === 'diametre' ? v(ligne[c]) : formatNumber(v(ligne[c]))}`)
+    .join(', ');
+  const semblables = ligne.nombreSemblables && ligne.nombreSemblables > 1 ? `${ligne.nombreSemblables} × ` : '';
+  const texte = `${forme.label}: ${semblables}${forme.formule} avec ${valeurs}`;
+  return ligne.deduction && accepteDeduction(unite) ? `À déduire - ${texte}` : texte;
+}
+
+/**
+ * Vrai si la ligne utilise une forme autre que celle par défaut de l'unité, ou une déduction
+ */
+export function isFormeParticuliere(unite: string, ligne: { forme?: string; deduction?: boolean }): boolean {
+  const calcType = getCalculationType(unite);
+  if (!calcType) return false;
+  return !!ligne.deduction || getFormeLigne(unite, ligne.forme)?.id !== FORME_PAR_DEFAUT[calcType.type];
 }
 
 // Fonction pour formater un nombre avec décimales
@@ -166,3 +436,178 @@ export function calculatePourcentage(realise: number, prevu: number): number {
   if (prevu === 0) return 0;
   return (realise / prevu) * 100;
 }
+
+// ============== EXPRESSIONS DANS LES CELLULES ==============
+
+// Champs d'une ligne de métré qui acceptent une expression (ex: 2*(3,50+1,20))
+export type ChampExpression =
+  | 'nombreSemblables'
+  | 'nombreElements'
+  | 'longueur'
+  | 'largeur'
+  | 'petiteLargeur'
+  | 'profondeur'
+  | 'diametreOuvrage'
+  | 'epaisseur'
+  | 'nombre'
+  | 'partiel';
+
+// Expressions d'origine par champ; la valeur calculée reste dans le champ lui-même
+export type ExpressionsMetre = Partial<Record<ChampExpression, string>>;
+
+type Jeton = { type: 'nombre'; valeur: number } | { type: 'op'; valeur: string };
+
+// Opérateurs saisis au clavier ou copiés (− × ÷ x :) ramenés à + - * /
+const OPERATEURS: Record<string, string> = {
+  '+': '+', '-': '-', '−': '-', '–': '-',
+  '*': '*', '×': '*', 'x': '*', 'X': '*',
+  '/': '/', '÷': '/', ':': '/',
+  '(': '(', ')': ')',
+};
+
+const decouper = (saisie: string): Jeton[] | null => {
+  const jetons: Jeton[] = [];
+  let i = 0;
+  while (i < saisie.length) {
+    const c = saisie[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (/[\d.,]/.test(c)) {
+      let nombre = '';
+      while (i < saisie.length && /[\d.,]/.test(saisie[i])) nombre += saisie[i++];
+      // Virgule décimale (3,50) ou point (3.50), un seul séparateur par nombre
+      const normalise = nombre.replace(',', '.');
+      if (!/^(\d+\.?\d*|\.\d+)$/.test(normalise)) return null;
+      jetons.push({ type: 'nombre', valeur: parseFloat(normalise) });
+    } else if (OPERATEURS[c]) {
+      jetons.push({ type: 'op', valeur: OPERATEURS[c] });
+      i++;
+    } else {
+      return null;
+    }
+  }
+  return jetons;
+};
+
+/**
+ * Évalue une expression arithmétique (+ − × ÷, parenthèses, virgule décimale)
+ * 🛡️ Analyseur dédié, jamais de eval(): null si l'expression est invalide ou divise par zéro
+ */
+export function evaluateExpression(saisie: string): number | null {
+  const jetons = decouper(saisie);
+  if (!jetons || jetons.length === 0) return null;
+  let position = 0;
+
+  const lireOp = (...ops: string[]): string | null => {
+    const jeton = jetons[position];
+    if (jeton?.type === 'op' && ops.includes(jeton.valeur)) {
+      position++;
+      return jeton.valeur;
+    }
+    return null;
+  };
+
+  // facteur := ('+' | '-') facteur | nombre | '(' somme ')'
+  const facteur = (): number | null => {
+    const signe = lireOp('+', '-');
+    if (signe) {
+      const valeur = facteur();
+      return valeur === null ? null : signe === '-' ? -valeur : valeur;
+    }
+    const jeton = jetons[position];
+    if (jeton?.type === 'nombre') {
+      position++;
+      return jeton.valeur;
+    }
+    if (lireOp('(')) {
+      const valeur = somme();
+      return valeur !== null && lireOp(')') ? valeur : null;
+    }
+    return null;
+  };
+
+  // produit := facteur (('*' | '/') facteur)*
+  const produit = (): number | null => {
+    let valeur = facteur();
+    let op: string | null;
+    while (valeur !== null && (op = lireOp('*', '/'))) {
+      const droite = facteur();
+      if (droite === null || (op === '/' && droite === 0)) return null;
+      valeur = op === '*' ? valeur * droite : valeur / droite;
+    }
+    return valeur;
+  };
+
+  // somme := produit (('+' | '-') produit)*
+  const somme = (): number | null => {
+    let valeur = produit();
+    let op: string | null;
+    while (valeur !== null && (op = lireOp('+', '-'))) {
+      const droite = produit();
+      if (droite === null) return null;
+      valeur = op === '+' ? valeur + droite : valeur - droite;
+    }
+    return valeur;
+  };
+
+  const resultat = somme();
+  if (resultat === null || position !== jetons.length || !isFinite(resultat)) return null;
+  // Supprime le bruit flottant (0.1+0.2) sans toucher aux décimales utiles
+  return Math.round(resultat * 1e9) / 1e9;
+}
+
+/**
+ * Vrai si la saisie est un calcul et pas un simple nombre (à conserver avec la valeur)
+ */
+export function isExpression(saisie: string | undefined): boolean {
+  const texte = (saisie || '').trim();
+  return texte !== '' && !/^[+-]?(\d+[.,]?\d*|[.,]\d+)$/.test(texte);
+}
+
+/**
+ * Met à jour les expressions d'une ligne: conserve le calcul, ou l'efface si la saisie est un simple nombre
+ */
+export function withExpression(
+  expressions: ExpressionsMetre | undefined,
+  champ: ChampExpression,
+  saisie: string | undefined
+): ExpressionsMetre | undefined {
+  const { [champ]: _ancienne, ...autres } = expressions || {};
+  const suivantes: ExpressionsMetre = isExpression(saisie) ? { ...autres, [champ]: (saisie || '').trim() } : autres;
+  return Object.keys(suivantes).length > 0 ? suivantes : undefined;
+}
+
+/**
+ * Valeur affichée d'une dimension: "2*(3,50+1,20) = 9.40" quand elle provient d'un calcul
+ */
+export function formatDimension(value: number | undefined, expression?: string, decimals: number = 2): string {
+  if (value === undefined || value === null) return '';
+  const nombre = formatNumber(value, decimals);
+  return expression ? `${expression} = ${nombre}` : nombre;
+}
+
+// Libellés courts des champs pour le détail des calculs (attachement, exports)
+export const LIBELLES_CHAMPS_EXPRESSION: Record<ChampExpression, string> = {
+  nombreSemblables: 'Nbre',
+  nombreElements: 'N.Élém',
+  longueur: 'L',
+  largeur: 'l',
+  petiteLargeur: 'b',
+  profondeur: 'H',
+  diametreOuvrage: 'D',
+  epaisseur: 'e',
+  nombre: 'Nombre',
+  partiel: 'Partiel',
+};
+
+/**
+ * Détail des calculs d'une ligne: "L: 2*(3,50+1,20) = 9.40 ; H: 0,8+0,2 = 1.00" (vide sans expression)
+ */
+export function detailExpressions(
+  ligne: { expressions?: ExpressionsMetre } & Partial<Record<ChampExpression, number>>
+): string {
+  return (Object.keys(LIBELLES_CHAMPS_EXPRESSION) as ChampExpression[])
+    .filter(champ => ligne.expressions?.[champ])
+    .map(champ => `${LIBELLES_CHAMPS_EXPRESSION[champ]}: ${formatDimension(ligne[champ] || 0, ligne.expressions?.[champ])}`)
+    .join(' ; ');
+}
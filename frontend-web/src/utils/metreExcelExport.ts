@@ -0,0 +1,98 @@
+/**
+ * Métré - Excel export
+ * Lignes de mesure par prix (forme, dimensions, partiel) avec le calcul saisi dans les cellules
+ */
+
+import * as XLSX from 'xlsx';
+import { detailExpressions, formuleLigne, isFormeParticuliere, type ExpressionsMetre } from './metreCalculations';
+import { formatPK } from './cubature';
+
+export interface MetreExportLigne {
+  designation: string;
+  pkDebut?: number;
+  pkFin?: number;
+  nombreSemblables?: number;
+  nombreElements?: number;
+  longueur?: number;
+  largeur?: number;
+  petiteLargeur?: number;
+  profondeur?: number;
+  diametreOuvrage?: number;
+  epaisseur?: number;
+  nombre?: number;
+  diametre?: number;
+  forme?: string;
+  deduction?: boolean;
+  partiel: number;
+  expressions?: ExpressionsMetre;
+  isFromPreviousPeriode?: boolean;
+}
+
+export interface MetreExportPrix {
+  numeroLigne: number;
+  designation: string;
+  unite: string;
+  quantiteBordereau: number;
+  lignes: MetreExportLigne[];
+}
+
+const valeur = (value: number | undefined) => (value ? value : '');
+
+/**
+ * Build the métré workbook (one block per prix, cumul) and download it
+ */
+export const exportMetreExcel = (
+  prix: MetreExportPrix[],
+  project: { marcheNo?: string; objet?: string },
+  periodeLibelle?: string
+): void => {
+  const rows: (string | number)[][] = [
+    ['METRE DES TRAVAUX'],
+    [`Marché N° ${project.marcheNo || ''}${periodeLibelle ? ` - ${periodeLibelle}` : ''}`],
+    [project.objet || ''],
+    [],
+    [
+      'N°', 'Désignation', 'PK début', 'PK fin', 'Nbre', 'Longueur', 'Largeur', 'Petite base', 'Profondeur', 'Diamètre (m)', 'Épaisseur',
+      'Nombre', 'Ø', 'N.Élém', 'Partiel', 'Forme', 'Calcul', 'Période',
+    ],
+  ];
+
+  for (const item of prix.filter(p => p.lignes.length > 0)) {
+    rows.push([`Prix ${item.numeroLigne}`, `${item.designation} (${item.unite})`]);
+    item.lignes.forEach((l, index) => {
+      rows.push([
+        index + 1,
+        l.designation,
+        l.pkDebut !== undefined ? formatPK(l.pkDebut) : '',
+        l.pkFin !== undefined ? formatPK(l.pkFin) : '',
+        valeur(l.nombreSemblables),
+        valeur(l.longueur),
+        valeur(l.largeur),
+        valeur(l.petiteLargeur),
+        valeur(l.profondeur),
+        valeur(l.diametreOuvrage),
+        valeur(l.epaisseur),
+        valeur(l.nombre),
+        valeur(l.diametre),
+        valeur(l.nombreElements),
+        l.partiel,
+        isFormeParticuliere(item.unite, l) ? formuleLigne(item.unite, l) : '',
+        detailExpressions(l),
+        l.isFromPreviousPeriode ? 'Précédente' : 'Actuelle',
+      ]);
+    });
+    const total = item.lignes.reduce((sum, l) => sum + l.partiel, 0);
+    rows.push(['', `Total prix ${item.numeroLigne} (bordereau: ${item.quantiteBordereau})`, '', '', '', '', '', '', '', '', '', '', '', '', Math.round(total * 100) / 100]);
+    rows.push([]);
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [
+    { wch: 8 }, { wch: 40 }, { wch: 11 }, { wch: 11 }, { wch: 6 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 },
+    { wch: 8 }, { wch: 6 }, { wch: 8 }, { wch: 12 }, { wch: 50 }, { wch: 45 }, { wch: 11 },
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Métré');
+  XLSX.writeFile(workbook, `Metre_${project.marcheNo || 'marche'}${periodeLibelle ? `_${periodeLibelle.replace(/[^\w-]+/g, '_')}` : ''}.xlsx`);
+};
@@ -0,0 +1,115 @@
+/**
+ * Métré linéaire par PK (pistes, canaux)
+ * Intervalles PK début → PK fin des lignes, chevauchements et lacunes entre périodes,
+ * tronçons exécutés pour le diagramme linéaire
+ */
+
+import { formatPK } from './cubature';
+
+export interface LignePK {
+  id: string;
+  designation: string;
+  pkDebut?: number;
+  pkFin?: number;
+  periodeNumero?: number;       // Absent: période en cours
+  deduction?: boolean;
+}
+
+export interface IntervallePK {
+  id: string;
+  designation: string;
+  debut: number;
+  fin: number;
+  periodeNumero?: number;
+}
+
+export interface ChevauchementPK {
+  debut: number;
+  fin: number;
+  lignes: [IntervallePK, IntervallePK];
+}
+
+export interface LacunePK {
+  debut: number;
+  fin: number;
+}
+
+export interface AnalysePK {
+  intervalles: IntervallePK[];
+  chevauchements: ChevauchementPK[];
+  lacunes: LacunePK[];
+  debut: number;
+  fin: number;
+  longueurExecutee: number;     // Longueur couverte, chevauchements comptés une fois
+}
+
+// Écart toléré entre deux PK saisis (arrondis au cm)
+const TOLERANCE_PK = 0.01;
+
+/**
+ * Vrai si la ligne porte un intervalle PK complet
+ */
+export const hasIntervallePK = (ligne: { pkDebut?: number; pkFin?: number }): boolean =>
+  typeof ligne.pkDebut === 'number' && typeof ligne.pkFin === 'number' && ligne.pkDebut !== ligne.pkFin;
+
+/**
+ * Longueur entre deux PK (saisis dans un sens ou dans l'autre)
+ */
+export const longueurPK = (pkDebut: number, pkFin: number): number =>
+  Math.round(Math.abs(pkFin - pkDebut) * 100) / 100;
+
+export const libelleIntervallePK = (debut: number, fin: number): string =>
+  `PK ${formatPK(Math.min(debut, fin))} → PK ${formatPK(Math.max(debut, fin))}`;
+
+/**
+ * Analyse les intervalles d'un même tracé, toutes périodes confondues
+ * (les déductions ne couvrent pas le tracé)
+ */
+export function analyserIntervallesPK(lignes: LignePK[]): AnalysePK | null {
+  const intervalles = lignes
+    .filter(l => hasIntervallePK(l) && !l.deduction)
+    .map(l => ({
+      id: l.id,
+      designation: l.designation,
+      debut: Math.min(l.pkDebut!, l.pkFin!),
+      fin: Math.max(l.pkDebut!, l.pkFin!),
+      periodeNumero: l.periodeNumero,
+    }))
+    .sort((a, b) => a.debut - b.debut || a.fin - b.fin);
+  if (intervalles.length === 0) return null;
+
+  const chevauchements: ChevauchementPK[] = [];
+  for (let i = 0; i < intervalles.length; i++) {
+    for (let j = i + 1; j < intervalles.length && intervalles[j].debut < intervalles[i].fin - TOLERANCE_PK; j++) {
+      chevauchements.push({
+        debut: intervalles[j].debut,
+        fin: Math.min(intervalles[i].fin, intervalles[j].fin),
+        lignes: [intervalles[i], intervalles[j]],
+      });
+    }
+  }
+
+  // Fusion des intervalles: les trous entre blocs sont les lacunes
+  const lacunes: LacunePK[] = [];
+  let longueurExecutee = 0;
+  let blocDebut = intervalles[0].debut;
+  let blocFin = intervalles[0].fin;
+  for (const intervalle of intervalles.slice(1)) {
+    if (intervalle.debut > blocFin + TOLERANCE_PK) {
+      lacunes.push({ debut: blocFin, fin: intervalle.debut });
+      longueurExecutee += blocFin - blocDebut;
+      blocDebut = intervalle.debut;
+    }
+    blocFin = Math.max(blocFin, intervalle.fin);
+  }
+  longueurExecutee += blocFin - blocDebut;
+
+  return {
+    intervalles,
+    chevauchements,
+    lacunes,
+    debut: intervalles[0].debut,
+    fin: Math.max(...intervalles.map(i => i.fin)),
+    longueurExecutee: Math.round(longueurExecutee * 100) / 100,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Nomenclature des aciers - جدول حديد التسليح
+ * Barres façonnées par élément (droite, équerre, U, cadre), longueur développée avec recouvrements,
+ * poids par diamètre; le total alimente la ligne KG/T du métré de l'élément
+ */
+
+import { getPoidsUnitaire } from './metreCalculations';
+
+export type FormeBarre = 'droite' | 'equerre' | 'u' | 'cadre';
+export type CoteBarre = 'a' | 'b';
+
+/**
+ * Barre de la nomenclature (cotes en m, diamètre en mm), nombre par élément
+ */
+export interface BarreAcier {
+  id: string;
+  repere: string;               // Repère de la barre sur le plan de ferraillage
+  designation?: string;         // Filantes, chapeaux, cadres...
+  forme: FormeBarre;
+  diametre: number;
+  a: number;
+  b?: number;
+  nombre: number;
+  recouvrement?: number;        // Longueur d'un recouvrement (m), défaut 50 Ø
+}
+
+interface FormeBarreConfig {
+  label: string;
+  cotes: CoteBarre[];
+  formule: string;
+  longueur: (barre: BarreAcier) => number;
+}
+
+// Longueur des barres du commerce: au-delà, les barres sont recouvertes
+export const LONGUEUR_BARRE_COMMERCE = 12;
+
+// Recouvrement courant des barres HA: 50 diamètres
+export const RECOUVREMENT_DIAMETRES = 50;
+
+// Crochets des cadres et étriers (2 × 10 Ø)
+const CROCHETS_CADRE_DIAMETRES = 20;
+
+export const FORMES_BARRE: Record<FormeBarre, FormeBarreConfig> = {
+  droite: {
+    label: 'Droite',
+    cotes: ['a'],
+    formule: 'a',
+    longueur: b => b.a || 0,
+  },
+  equerre: {
+    label: 'Équerre (L)',
+    cotes: ['a', 'b'],
+    formule: 'a + b',
+    longueur: b => (b.a || 0) + (b.b || 0),
+  },
+  u: {
+    label: 'U (chapeau, épingle)',
+    cotes: ['a', 'b'],
+    formule: 'a + 2b',
+    longueur: b => (b.a || 0) + 2 * (b.b || 0),
+  },
+  cadre: {
+    label: 'Cadre / étrier',
+    cotes: ['a', 'b'],
+    formule: '2 (a + b) + 20 Ø',
+    longueur: b => 2 * ((b.a || 0) + (b.b || 0)) + (CROCHETS_CADRE_DIAMETRES * b.diametre) / 1000,
+  },
+};
+
+export interface LigneNomenclature {
+  barre: BarreAcier;
+  longueurFaconnee: number;     // Longueur développée d'une barre, sans recouvrement (m)
+  nombreRecouvrements: number;
+  longueurUnitaire: number;     // Avec recouvrements (m)
+  nombreTotal: number;          // Nombre par élément × nombre d'éléments
+  longueurTotale: number;       // m
+  poidsUnitaire: number;        // kg/ml
+  poids: number;                // kg
+}
+
+export interface NomenclatureResult {
+  nombreElements: number;
+  lignes: LigneNomenclature[];
+  parDiametre: { diametre: number; longueur: number; poids: number }[];
+  poidsTotal: number;           // kg, tous éléments
+}
+
+const arrondir = (value: number, decimals: number = 2): number => {
+  const facteur = 10 ** decimals;
+  return Math.round(value * facteur) / facteur;
+};
+
+/**
+ * Longueur d'un recouvrement: saisie sur la barre, sinon 50 Ø
+ */
+export const longueurRecouvrement = (barre: BarreAcier): number =>
+  barre.recouvrement && barre.recouvrement > 0 ? barre.recouvrement : (RECOUVREMENT_DIAMETRES * barre.diametre) / 1000;
+
+/**
+ * Recouvrements nécessaires pour une barre plus longue qu'une barre du commerce:
+ * chaque barre ajoutée apporte 12 m moins la longueur recouverte
+ */
+export function nombreRecouvrements(longueur: number, recouvrement: number): number {
+  if (longueur <= LONGUEUR_BARRE_COMMERCE) return 0;
+  const utile = LONGUEUR_BARRE_COMMERCE - recouvrement;
+  // ⚠️ Recouvrement aberrant (≥ 12 m): une seule jonction, pas de boucle infinie
+  if (utile <= 0) return 1;
+  return Math.ceil((longueur - LONGUEUR_BARRE_COMMERCE) / utile);
+}
+
+/**
+ * Calcule la nomenclature d'un élément répété nombreElements fois (poids en kg)
+ */
+export function calculerNomenclature(barres: BarreAcier[], nombreElements: number = 1): NomenclatureResult {
+  const elements = nombreElements > 0 ? nombreElements : 1;
+
+  const lignes = barres.map((barre): LigneNomenclature => {
+    const longueurFaconnee = FORMES_BARRE[barre.forme]?.longueur(barre) || 0;
+    const recouvrement = longueurRecouvrement(barre);
+    const recouvrements = nombreRecouvrements(longueurFaconnee, recouvrement);
+    const longueurUnitaire = longueurFaconnee + recouvrements * recouvrement;
+    const nombreTotal = (barre.nombre || 0) * elements;
+    const longueurTotale = longueurUnitaire * nombreTotal;
+    const poidsUnitaire = getPoidsUnitaire(barre.diametre);
+
+    return {
+      barre,
+      longueurFaconnee: arrondir(longueurFaconnee),
+      nombreRecouvrements: recouvrements,
+      longueurUnitaire: arrondir(longueurUnitaire),
+      nombreTotal,
+      longueurTotale: arrondir(longueurTotale),
+      poidsUnitaire,
+      poids: arrondir(longueurTotale * poidsUnitaire),
+    };
+  });
+
+  const diametres = new Map<number, { longueur: number; poids: number }>();
+  for (const ligne of lignes) {
+    const cumul = diametres.get(ligne.barre.diametre) || { longueur: 0, poids: 0 };
+    diametres.set(ligne.barre.diametre, {
+      longueur: cumul.longueur + ligne.longueurTotale,
+      poids: cumul.poids + ligne.poids,
+    });
+  }
+
+  return {
+    nombreElements: elements,
+    lignes,
+    parDiametre: [...diametres.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([diametre, t]) => ({ diametre, longueur: arrondir(t.longueur), poids: arrondir(t.poids) })),
+    poidsTotal: arrondir(lignes.reduce((sum, l) => sum + l.poids, 0)),
+  };
+}
+
+/**
+ * Quantité à reporter sur la ligne du métré selon l'unité du prix (KG ou T)
+ */
+export const quantiteMetreNomenclature = (poidsKg: number, unite: string): number =>
+  unite === 'T' ? arrondir(poidsKg / 1000, 3) : arrondir(poidsKg);
@@ -0,0 +1,149 @@
+/**
+ * Nomenclature des aciers - PDF export
+ * Tableau des barres avec croquis de façonnage, récapitulatif par diamètre et poids total
+ */
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { FORMES_BARRE, type FormeBarre, type NomenclatureResult } from './nomenclatureAciers';
+
+export interface NomenclaturePdfInfo {
+  marcheNo?: string;
+  objet?: string;
+  prix?: string;              // "Prix 12 - Acier HA pour béton armé (KG)"
+  element: string;            // Élément (semelle S1, poteau P2...)
+}
+
+const nombre = (value: number, decimals: number = 2) => value.toFixed(decimals);
+
+// Croquis de la barre dans sa cellule (droite, L, U, cadre)
+const dessinerBarre = (doc: jsPDF, forme: FormeBarre, x: number, y: number, w: number, h: number) => {
+  const gauche = x + 3;
+  const droite = x + w - 3;
+  const haut = y + 2;
+  const bas = y + h - 2;
+  doc.setLineWidth(0.5);
+  switch (forme) {
+    case 'droite':
+      doc.line(gauche, (haut + bas) / 2, droite, (haut + bas) / 2);
+      break;
+    case 'equerre':
+      doc.line(gauche, haut, gauche, bas);
+      doc.line(gauche, bas, droite, bas);
+      break;
+    case 'u':
+      doc.line(gauche, haut, gauche, bas);
+      doc.line(gauche, bas, droite, bas);
+      doc.line(droite, bas, droite, haut);
+      break;
+    case 'cadre':
+      doc.rect(gauche + 4, haut, droite - gauche - 8, bas - haut);
+      doc.line(gauche + 4, haut, gauche + 7, haut + 3);
+      break;
+  }
+  doc.setLineWidth(0.3);
+};
+
+/**
+ * Génère et télécharge la nomenclature des aciers d'un élément
+ */
+export function exportNomenclatureAciersPdf(nomenclature: NomenclatureResult, info: NomenclaturePdfInfo): void {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text('NOMENCLATURE DES ACIERS', pageWidth / 2, 15, { align: 'center' });
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  let y = 23;
+  if (info.marcheNo) {
+    doc.text(`Marché N° ${info.marcheNo}`, 14, y);
+    y += 5;
+  }
+  if (info.objet) {
+    const lignesObjet = doc.splitTextToSize(`Objet: ${info.objet}`, pageWidth - 28);
+    doc.text(lignesObjet, 14, y);
+    y += lignesObjet.length * 4 + 1;
+  }
+  if (info.prix) {
+    doc.text(info.prix, 14, y);
+    y += 5;
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Élément: ${info.element} - nombre d'éléments: ${nomenclature.nombreElements}`, 14, y);
+
+  autoTable(doc, {
+    startY: y + 4,
+    head: [[
+      'Rep.', 'Désignation', 'Façonnage', 'Cotes (m)', 'Ø (mm)', 'L. dév. (m)', 'Recouv.',
+      'L. unit. (m)', 'Nb/élém', 'Nb total', 'L. totale (m)', 'kg/ml', 'Poids (kg)',
+    ]],
+    body: nomenclature.lignes.map(l => [
+      l.barre.repere,
+      l.barre.designation || '',
+      '',
+      FORMES_BARRE[l.barre.forme].cotes.map(c => `${c} = ${nombre(l.barre[c] || 0)}`).join('\n'),
+      l.barre.diametre.toString(),
+      nombre(l.longueurFaconnee),
+      l.nombreRecouvrements > 0 ? l.nombreRecouvrements.toString() : '-',
+      nombre(l.longueurUnitaire),
+      l.barre.nombre.toString(),
+      l.nombreTotal.toString(),
+      nombre(l.longueurTotale),
+      nombre(l.poidsUnitaire, 3),
+      nombre(l.poids),
+    ]),
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 2, lineColor: [0, 0, 0], lineWidth: 0.3, minCellHeight: 10 },
+    headStyles: { fillColor: [255, 255, 255], textColor: [0, 0, 0], fontStyle: 'bold', halign: 'center' },
+    columnStyles: {
+      0: { halign: 'center', cellWidth: 12 },
+      2: { cellWidth: 28 },
+      4: { halign: 'center' },
+      5: { halign: 'right' },
+      6: { halign: 'center' },
+      7: { halign: 'right' },
+      8: { halign: 'center' },
+      9: { halign: 'center' },
+      10: { halign: 'right' },
+      11: { halign: 'right' },
+      12: { halign: 'right', fontStyle: 'bold' },
+    },
+    didDrawCell: data => {
+      if (data.section === 'body' && data.column.index === 2) {
+        const ligne = nomenclature.lignes[data.row.index];
+        if (ligne) dessinerBarre(doc, ligne.barre.forme, data.cell.x, data.cell.y, data.cell.width, data.cell.height);
+      }
+    },
+  });
+
+  // ============ RÉCAPITULATIF PAR DIAMÈTRE ============
+  const recapY = (doc as any).lastAutoTable.finalY + 8;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text('RECAPITULATIF PAR DIAMETRE', 14, recapY);
+
+  autoTable(doc, {
+    startY: recapY + 3,
+    head: [['Ø (mm)', 'Longueur totale (m)', 'Poids (kg)']],
+    body: [
+      ...nomenclature.parDiametre.map(d => [`Ø${d.diametre}`, nombre(d.longueur), nombre(d.poids)]),
+      ['TOTAL', '', nombre(nomenclature.poidsTotal)],
+    ],
+    theme: 'grid',
+    tableWidth: 110,
+    styles: { fontSize: 9, cellPadding: 2, lineColor: [0, 0, 0], lineWidth: 0.3 },
+    headStyles: { fillColor: [255, 255, 255], textColor: [0, 0, 0], fontStyle: 'bold', halign: 'center' },
+    columnStyles: { 0: { halign: 'center' }, 1: { halign: 'right' }, 2: { halign: 'right' } },
+    didParseCell: data => {
+      if (data.section === 'body' && data.row.index === nomenclature.parDiametre.length) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  const fichier = `Nomenclature_aciers_${info.element.replace(/[^\w-]+/g, '_') || 'element'}.pdf`;
+  doc.save(fichier);
+}
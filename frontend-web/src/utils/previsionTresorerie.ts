@@ -0,0 +1,213 @@
+/**
+ * Prévision de trésorerie - توقعات الديكونتات الشهرية
+ * Courbe en S du marché: montant TTC du bordereau réparti entre l'OSC et la date de fin effective
+ * (délai + avenants, production nulle pendant les arrêts), comparée aux décomptes émis
+ */
+
+import {
+  addDays,
+  addMonths,
+  differenceInDays,
+  endOfMonth,
+  format,
+  isValid,
+  max as maxDate,
+  min as minDate,
+  parseISO,
+  startOfMonth,
+} from 'date-fns';
+import { Project, ArretTravaux } from '../db/database';
+import { round2, toDecimal, toNumber } from 'shared';
+
+// Décompte tel que renvoyé par l'API (cumulatif: totalTTC = travaux réalisés depuis le début)
+export interface DecompteEmis {
+  numero: number;
+  periodeId?: string;
+  statut?: string;
+  totalTTC?: number;
+  montantTotal?: number;
+  createdAt?: string;
+  deletedAt?: string;
+}
+
+export interface PeriodeDates {
+  id: string;
+  dateFin?: string;
+}
+
+export interface PointCourbeS {
+  mois: string;                 // yyyy-MM
+  label: string;                // MM/yyyy
+  prevuMensuel: number;
+  prevuCumul: number;
+  reelMensuel: number | null;   // null: mois futur
+  reelCumul: number | null;
+}
+
+export interface CourbeS {
+  montantMarcheTTC: number;
+  dateDebut: Date;
+  dateFin: Date;
+  points: PointCourbeS[];
+  prevuAujourdhui: number;      // Cumul prévu à la fin du mois courant
+  reelAujourdhui: number;       // Cumul du dernier décompte émis
+  ecart: number;                // Réel - prévu (négatif: retard de facturation)
+}
+
+export interface PrevisionMensuelle {
+  mois: string;
+  label: string;
+  montant: number;
+}
+
+const arrondi = (value: number) => toNumber(round2(toDecimal(value)));
+const cleMois = (date: Date) => format(date, 'yyyy-MM');
+const labelMois = (date: Date) => format(date, 'MM/yyyy');
+
+// 📈 Loi d'avancement en S: démarrage lent, pic à mi-délai, fin lente
+const avancementS = (x: number): number => {
+  const t = Math.min(Math.max(x, 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+// Intervalles d'arrêt; un arrêt sans reprise court jusqu'à aujourd'hui
+const intervallesArret = (arrets: ArretTravaux[] | undefined, aujourdhui: Date): { debut: Date; fin: Date }[] =>
+  (arrets || [])
+    .map(a => ({
+      debut: a.dateArret ? parseISO(a.dateArret) : new Date(NaN),
+      fin: a.dateReprise ? parseISO(a.dateReprise) : aujourdhui,
+    }))
+    .filter(i => isValid(i.debut) && isValid(i.fin) && i.fin > i.debut)
+    .sort((a, b) => a.debut.getTime() - b.debut.getTime());
+
+// Jours de production entre l'OSC et une date (jours d'arrêt exclus)
+const joursProduction = (osc: Date, date: Date, arrets: { debut: Date; fin: Date }[]): number => {
+  if (date <= osc) return 0;
+  let jours = differenceInDays(date, osc);
+  for (const arret of arrets) {
+    const debut = maxDate([arret.debut, osc]);
+    const fin = minDate([arret.fin, date]);
+    if (fin > debut) jours -= differenceInDays(fin, debut);
+  }
+  return Math.max(jours, 0);
+};
+
+// Date du décompte: fin de la période, sinon date de création
+const dateDecompte = (decompte: DecompteEmis, periodes: PeriodeDates[]): Date | null => {
+  const periode = periodes.find(p => p.id === decompte.periodeId);
+  const date = periode?.dateFin ? parseISO(periode.dateFin) : decompte.createdAt ? parseISO(decompte.createdAt) : null;
+  return date && isValid(date) ? date : null;
+};
+
+/**
+ * Courbe en S prévue vs réalisée (cumul TTC) par mois, de l'OSC à la fin effective
+ * ⚠️ Seuls les décomptes émis (hors brouillons) comptent dans le réalisé
+ */
+export const calculateCourbeS = (
+  project: Project,
+  montantMarcheTTC: number,
+  decomptes: DecompteEmis[],
+  periodes: PeriodeDates[] = [],
+  aujourdhui: Date = new Date()
+): CourbeS | null => {
+  const osc = project.osc ? parseISO(project.osc) : null;
+  const delaiMois = (project.delaisExecution || 0) + (project.delaiAvenants || 0);
+  if (!osc || !isValid(osc) || delaiMois <= 0 || montantMarcheTTC <= 0) return null;
+
+  const arrets = intervallesArret(project.arrets, aujourdhui);
+  const delaiJours = differenceInDays(addMonths(osc, delaiMois), osc);
+  const joursArret = arrets.reduce((total, a) => total + Math.max(differenceInDays(a.fin, maxDate([a.debut, osc])), 0), 0);
+  const dateFin = addDays(osc, delaiJours + joursArret);
+
+  const prevuAu = (date: Date) => arrondi(montantMarcheTTC * avancementS(joursProduction(osc, date, arrets) / delaiJours));
+
+  // Réalisé: dernier décompte (cumulatif) émis à la fin de chaque mois
+  const emis = decomptes
+    .filter(d => !d.deletedAt && d.statut !== 'draft')
+    .map(d => ({ numero: d.numero, date: dateDecompte(d, periodes), ttc: Number(d.totalTTC || d.montantTotal) || 0 }))
+    .filter((d): d is { numero: number; date: Date; ttc: number } => d.date !== null)
+    .sort((a, b) => a.numero - b.numero);
+  const reelAu = (date: Date) => emis.filter(d => d.date <= date).reduce((cumul, d) => d.ttc || cumul, 0);
+  const dernierEmis = emis.length > 0 ? emis[emis.length - 1] : null;
+
+  // Axe: de l'OSC jusqu'à la fin effective (ou au dernier décompte si le chantier déborde)
+  const finAxe = maxDate([dateFin, ...(dernierEmis ? [dernierEmis.date] : [])]);
+  const moisCourant = endOfMonth(aujourdhui);
+  const points: PointCourbeS[] = [];
+  let prevuPrecedent = 0;
+  let reelPrecedent = 0;
+  for (let mois = startOfMonth(osc); mois <= finAxe; mois = addMonths(mois, 1)) {
+    const fin = endOfMonth(mois);
+    const prevuCumul = prevuAu(fin);
+    const passe = fin <= moisCourant;
+    const reelCumul = passe ? reelAu(fin) : null;
+    points.push({
+      mois: cleMois(mois),
+      label: labelMois(mois),
+      prevuMensuel: arrondi(prevuCumul - prevuPrecedent),
+      prevuCumul,
+      reelMensuel: reelCumul === null ? null : arrondi(reelCumul - reelPrecedent),
+      reelCumul,
+    });
+    prevuPrecedent = prevuCumul;
+    if (reelCumul !== null) reelPrecedent = reelCumul;
+  }
+
+  const prevuAujourdhui = prevuAu(moisCourant);
+  const reelAujourdhui = dernierEmis?.ttc || 0;
+  return {
+    montantMarcheTTC: arrondi(montantMarcheTTC),
+    dateDebut: osc,
+    dateFin,
+    points,
+    prevuAujourdhui,
+    reelAujourdhui,
+    ecart: arrondi(reelAujourdhui - prevuAujourdhui),
+  };
+};
+
+/**
+ * Encaissements attendus à partir du mois courant: le reste à facturer est réparti
+ * au prorata de la courbe prévue; au-delà de la fin effective, tout le reste tombe ce mois-ci
+ */
+export const calculatePrevisionMensuelle = (
+  courbe: CourbeS,
+  aujourdhui: Date = new Date()
+): PrevisionMensuelle[] => {
+  const reste = arrondi(courbe.montantMarcheTTC - courbe.reelAujourdhui);
+  if (reste <= 0) return [];
+
+  const moisCourant = cleMois(aujourdhui);
+  const aVenir = courbe.points.filter(p => p.mois >= moisCourant && p.prevuMensuel > 0);
+  if (aVenir.length === 0) {
+    return [{ mois: moisCourant, label: labelMois(aujourdhui), montant: reste }];
+  }
+
+  const totalPrevu = aVenir.reduce((sum, p) => sum + p.prevuMensuel, 0);
+  let reparti = 0;
+  return aVenir.map((p, index) => {
+    // 🧾 Le dernier mois absorbe les écarts d'arrondi
+    const montant = index === aVenir.length - 1 ? arrondi(reste - reparti) : arrondi((reste * p.prevuMensuel) / totalPrevu);
+    reparti = arrondi(reparti + montant);
+    return { mois: p.mois, label: p.label, montant };
+  });
+};
+
+/**
+ * Agrégation par mois de plusieurs prévisions (portefeuille), sur un horizon donné
+ */
+export const aggregatePrevisions = (
+  previsions: PrevisionMensuelle[][],
+  horizonMois: number = 12,
+  aujourdhui: Date = new Date()
+): PrevisionMensuelle[] => {
+  const mois = Array.from({ length: horizonMois }, (_, i) => addMonths(startOfMonth(aujourdhui), i));
+  return mois.map(m => {
+    const cle = cleMois(m);
+    const montant = previsions.reduce(
+      (sum, prevision) => sum + prevision.filter(p => p.mois === cle).reduce((s, p) => s + p.montant, 0),
+      0
+    );
+    return { mois: cle, label: labelMois(m), montant: arrondi(montant) };
+  });
+};
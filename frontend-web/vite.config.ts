@@ -51,6 +51,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Workspace "shared" compilé depuis ses sources (le backend utilise shared/dist)
+      shared: path.resolve(__dirname, '../shared/src/index.ts'),
     },
   },
   server: {
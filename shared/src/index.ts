@@ -0,0 +1,8 @@
+/**
+ * Code partagé backend / frontend web
+ * - financeEngine: règles de calcul des décomptes (Excel compliance)
+ * - montantEnLettres: montants en lettres des PDF (français / arabe)
+ */
+
+export * from './financeEngine';
+export * from './montantEnLettres';
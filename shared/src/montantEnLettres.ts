@@ -0,0 +1,221 @@
+/**
+ * Montants en lettres - المبالغ بالحروف
+ * Français (DIRHAMS / CTS) et arabe (درهم / سنتيم: accord en genre et en nombre),
+ * langue choisie par projet pour les PDF
+ */
+
+export type LangueMontantLettres = 'fr' | 'ar' | 'fr_ar';
+
+export const LANGUES_MONTANT_LETTRES: LangueMontantLettres[] = ['fr', 'ar', 'fr_ar'];
+
+const decomposer = (num: number): { dirhams: number; centimes: number } => {
+  const total = Math.round(Math.abs(num) * 100);
+  return { dirhams: Math.floor(total / 100), centimes: total % 100 };
+};
+
+/**
+ * Conversion des nombres en lettres (français)
+ */
+export const numberToWords = (num: number): string => {
+  const dirhams = Math.floor(num);
+  const centimes = Math.round((num - dirhams) * 100);
+
+  const convertNumber = (n: number): string => {
+    const units = ['', 'un', 'deux', 'trois', 'quatre', 'cinq', 'six', 'sept', 'huit', 'neuf'];
+    const teens = ['dix', 'onze', 'douze', 'treize', 'quatorze', 'quinze', 'seize', 'dix-sept', 'dix-huit', 'dix-neuf'];
+    const tens = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante', 'soixante', 'quatre-vingt', 'quatre-vingt'];
+
+    if (n === 0) return '';
+    if (n < 10) return units[n];
+    if (n < 20) return teens[n - 10];
+
+    const ten = Math.floor(n / 10);
+    const unit = n % 10;
+
+    if (ten === 7 || ten === 9) return tens[ten] + '-' + teens[unit];
+    if (ten === 8) return unit === 0 ? 'quatre-vingts' : 'quatre-vingt-' + units[unit];
+    if (unit === 0) return tens[ten];
+    if (unit === 1) return tens[ten] + ' et un';
+    return tens[ten] + '-' + units[unit];
+  };
+
+  const convertHundreds = (n: number): string => {
+    if (n === 0) return '';
+    const hundred = Math.floor(n / 100);
+    const remainder = n % 100;
+
+    let result = '';
+    if (hundred > 1) {
+      result = convertNumber(hundred) + ' cent';
+      if (remainder === 0) result += 's';
+    } else if (hundred === 1) {
+      result = 'cent';
+    }
+    if (remainder > 0) {
+      if (result) result += ' ';
+      result += convertNumber(remainder);
+    }
+    return result;
+  };
+
+  const convertThousands = (n: number): string => {
+    if (n === 0) return 'zéro';
+
+    const millions = Math.floor(n / 1000000);
+    const thousands = Math.floor((n % 1000000) / 1000);
+    const hundreds = n % 1000;
+
+    const parts: string[] = [];
+    if (millions > 0) parts.push(millions === 1 ? 'un million' : convertHundreds(millions) + ' millions');
+    if (thousands > 0) parts.push(thousands === 1 ? 'mille' : convertHundreds(thousands) + ' mille');
+    if (hundreds > 0) parts.push(convertHundreds(hundreds));
+    return parts.join(' ');
+  };
+
+  let result = convertThousands(dirhams).trim();
+  result = result.charAt(0).toUpperCase() + result.slice(1) + ' DIRHAMS';
+  if (centimes > 0) {
+    result += ', ' + centimes.toString().padStart(2, '0') + ' CTS';
+  }
+  return result;
+};
+
+// ============== ARABE - العربية ==============
+
+type Genre = 'm' | 'f';
+
+// Formes d'un nom compté: مفرد، مثنى، جمع (3-10)، تمييز منصوب (11-99)
+interface FormesNom {
+  genre: Genre;
+  singulier: string;
+  duel: string;
+  pluriel: string;
+  accusatif: string;
+}
+
+const DIRHAM: FormesNom = { genre: 'm', singulier: 'درهم', duel: 'درهمان', pluriel: 'دراهم', accusatif: 'درهما' };
+const CENTIME: FormesNom = { genre: 'm', singulier: 'سنتيم', duel: 'سنتيمان', pluriel: 'سنتيمات', accusatif: 'سنتيما' };
+
+// Ordres de grandeur, du plus grand au plus petit
+const ECHELLES: { valeur: number; nom: FormesNom }[] = [
+  { valeur: 1000000000, nom: { genre: 'm', singulier: 'مليار', duel: 'ملياران', pluriel: 'مليارات', accusatif: 'مليارا' } },
+  { valeur: 1000000, nom: { genre: 'm', singulier: 'مليون', duel: 'مليونان', pluriel: 'ملايين', accusatif: 'مليونا' } },
+  { valeur: 1000, nom: { genre: 'm', singulier: 'ألف', duel: 'ألفان', pluriel: 'آلاف', accusatif: 'ألفا' } },
+];
+
+// ⚠️ 3 à 10: le nombre prend le genre opposé au nom compté (ثلاثة دراهم / ثلاث سنوات)
+const UNITES: Record<Genre, string[]> = {
+  m: ['', 'واحد', 'اثنان', 'ثلاثة', 'أربعة', 'خمسة', 'ستة', 'سبعة', 'ثمانية', 'تسعة', 'عشرة'],
+  f: ['', 'واحدة', 'اثنتان', 'ثلاث', 'أربع', 'خمس', 'ست', 'سبع', 'ثماني', 'تسع', 'عشر'],
+};
+const ONZE_DOUZE: Record<Genre, string[]> = {
+  m: ['أحد عشر', 'اثنا عشر'],
+  f: ['إحدى عشرة', 'اثنتا عشرة'],
+};
+const DIZAINE_COMPOSEE: Record<Genre, string> = { m: 'عشر', f: 'عشرة' };
+const UNITES_COMPOSEES: Record<Genre, string[]> = {
+  m: ['', 'واحد', 'اثنان'],
+  f: ['', 'إحدى', 'اثنتان'],
+};
+const DIZAINES = ['', '', 'عشرون', 'ثلاثون', 'أربعون', 'خمسون', 'ستون', 'سبعون', 'ثمانون', 'تسعون'];
+const CENTAINES = ['', 'مائة', 'مائتان', 'ثلاثمائة', 'أربعمائة', 'خمسمائة', 'ستمائة', 'سبعمائة', 'ثمانمائة', 'تسعمائة'];
+
+const joindre = (parts: string[]): string => parts.filter(Boolean).join(' و');
+
+// Duel à l'état construit devant un nom: مائتان ← مائتا ألف، ألفان ← ألفا درهم
+const etatConstruit = (mots: string): string => (mots.endsWith('ان') ? mots.slice(0, -1) : mots);
+
+// 1 à 99
+const dizainesArabe = (n: number, genre: Genre): string => {
+  if (n <= 10) return UNITES[genre][n];
+  if (n <= 12) return ONZE_DOUZE[genre][n - 11];
+  if (n < 20) return `${UNITES[genre][n - 10]} ${DIZAINE_COMPOSEE[genre]}`;
+  const unite = n % 10;
+  const dizaine = DIZAINES[Math.floor(n / 10)];
+  if (unite === 0) return dizaine;
+  return joindre([unite <= 2 ? UNITES_COMPOSEES[genre][unite] : UNITES[genre][unite], dizaine]);
+};
+
+// 1 à 999
+const centainesArabe = (n: number, genre: Genre): string =>
+  joindre([CENTAINES[Math.floor(n / 100)], n % 100 > 0 ? dizainesArabe(n % 100, genre) : '']);
+
+// Groupe (1-999) multiplié par un ordre de grandeur: ألف، ألفان، ثلاثة آلاف، أحد عشر ألفا، مائة ألف
+const groupeArabe = (n: number, echelle: FormesNom): string => {
+  if (n === 1) return echelle.singulier;
+  if (n === 2) return echelle.duel;
+
+  const reste = n % 100;
+  if (n < 100) return `${dizainesArabe(n, echelle.genre)} ${reste <= 10 ? echelle.pluriel : echelle.accusatif}`;
+
+  const centaines = CENTAINES[Math.floor(n / 100)];
+  if (reste === 0) return `${etatConstruit(centaines)} ${echelle.singulier}`;
+  // 🧾 Forme classique: مائة ألف وألف / مائتا ألف وألفان
+  if (reste <= 2) {
+    return joindre([`${etatConstruit(centaines)} ${echelle.singulier}`, reste === 1 ? echelle.singulier : echelle.duel]);
+  }
+  return `${centainesArabe(n, echelle.genre)} ${reste <= 10 ? echelle.pluriel : echelle.accusatif}`;
+};
+
+const nombreArabe = (n: number, genre: Genre): string => {
+  const parts: string[] = [];
+  let reste = n;
+  for (const { valeur, nom } of ECHELLES) {
+    const groupe = Math.floor(reste / valeur);
+    if (groupe > 0) parts.push(groupeArabe(groupe, nom));
+    reste %= valeur;
+  }
+  if (reste > 0) parts.push(centainesArabe(reste, genre));
+  return joindre(parts);
+};
+
+/**
+ * Nombre suivi du nom compté, accordé selon les deux derniers chiffres:
+ * 1 → درهم واحد، 2 → درهمان، 3-10 → دراهم، 11-99 → درهما، 100, 1000... → درهم
+ */
+const compterArabe = (n: number, nom: FormesNom): string => {
+  if (n === 1) return `${nom.singulier} ${UNITES[nom.genre][1]}`;
+  if (n === 2) return nom.duel;
+
+  const reste = n % 100;
+  const nombre = nombreArabe(n, nom.genre);
+  if (reste === 0) {
+    // Devant le nom: أحد عشر ألفا ← أحد عشر ألف درهم، ألفان ← ألفا درهم
+    const tamyiz = ECHELLES.some(e => nombre.endsWith(` ${e.nom.accusatif}`));
+    return `${tamyiz ? nombre.slice(0, -1) : etatConstruit(nombre)} ${nom.singulier}`;
+  }
+  if (reste >= 3 && reste <= 10) return `${nombre} ${nom.pluriel}`;
+  if (reste >= 11) return `${nombre} ${nom.accusatif}`;
+  // مائة وواحد درهم / ألف واثنان درهم
+  return `${nombre} ${nom.singulier}`;
+};
+
+/**
+ * Conversion des nombres en lettres (arabe)
+ * 125354.50 → مائة وخمسة وعشرون ألفا وثلاثمائة وأربعة وخمسون درهما وخمسون سنتيما
+ */
+export const numberToWordsArabic = (num: number): string => {
+  const { dirhams, centimes } = decomposer(num);
+  if (dirhams === 0 && centimes === 0) return `صفر ${DIRHAM.singulier}`;
+
+  return joindre([
+    dirhams > 0 ? compterArabe(dirhams, DIRHAM) : '',
+    centimes > 0 ? compterArabe(centimes, CENTIME) : '',
+  ]);
+};
+
+// ============== SELON LA LANGUE DU PROJET ==============
+
+export const isLangueMontantLettres = (value: unknown): value is LangueMontantLettres =>
+  LANGUES_MONTANT_LETTRES.includes(value as LangueMontantLettres);
+
+/**
+ * Montant en lettres dans la ou les langues du projet (null: langue non demandée)
+ */
+export const montantEnLettres = (
+  num: number,
+  langue: LangueMontantLettres = 'fr'
+): { fr: string | null; ar: string | null } => ({
+  fr: langue === 'ar' ? null : numberToWords(num),
+  ar: langue === 'fr' ? null : numberToWordsArabic(num),
+});